@@ -8,6 +8,8 @@ import fs from 'fs/promises';
 import { Server as SocketServer } from 'socket.io';
 import { RegisterRoutes } from '../generated/routes';
 import TownsStore from './lib/TownsStore';
+import GameRegistry from './town/games/GameRegistry';
+import REGISTERED_GAMES from './town/games/RegisteredGames';
 import { ClientToServerEvents, ServerToClientEvents } from './types/CoveyTownSocket';
 import { TownsController } from './town/TownsController';
 import { logError } from './Utils';
@@ -23,6 +25,9 @@ const socketServer = new SocketServer<ClientToServerEvents, ServerToClientEvents
 // Initialize the towns store with a factory that creates a broadcast emitter for a town
 TownsStore.initializeTownsStore((townID: string) => socketServer.to(townID));
 
+// Register every game that can be placed on a town map
+GameRegistry.initializeGameRegistry(REGISTERED_GAMES);
+
 // Connect the socket server to the TownsController. We use here the same pattern as tsoa
 // (the library that we use for REST), which creates a new controller instance for each request
 socketServer.on('connection', socket => {
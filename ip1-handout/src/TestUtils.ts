@@ -10,6 +10,7 @@ import {
   ReservedOrUserListener,
   TypedEventBroadcaster,
 } from 'socket.io/dist/typed-events';
+import Clock, { TimerHandle } from './lib/Clock';
 import Player from './lib/Player';
 import {
   BoundingBox,
@@ -193,6 +194,53 @@ export function createPlayerForTesting(): Player {
   return new Player(`username${nanoid()}`, mock<TownEmitter>());
 }
 
+/**
+ * A Clock for testing, whose time only passes when the test calls advance
+ */
+export type MockClock = Clock & {
+  /**
+   * Moves time forward, calling every timer that comes due, in order
+   * @param ms the number of milliseconds to move forward
+   */
+  advance(ms: number): void;
+};
+
+/**
+ * Utility function to create a new MockClock, starting at time 0
+ */
+export function mockClock(): MockClock {
+  let now = 0;
+  let nextHandle = 0;
+  const timers: Map<number, { callback: () => void; dueAt: number }> = new Map();
+  return {
+    now: () => now,
+    setTimeout: (callback: () => void, delayMs: number): TimerHandle => {
+      nextHandle += 1;
+      timers.set(nextHandle, { callback, dueAt: now + delayMs });
+      return nextHandle;
+    },
+    clearTimeout: (handle: TimerHandle) => {
+      timers.delete(handle as number);
+    },
+    advance: (ms: number) => {
+      const end = now + ms;
+      for (;;) {
+        const due = [...timers.entries()]
+          .filter(([, timer]) => timer.dueAt <= end)
+          .sort(([, timer1], [, timer2]) => timer1.dueAt - timer2.dueAt)[0];
+        if (!due) {
+          break;
+        }
+        const [handle, timer] = due;
+        timers.delete(handle);
+        now = timer.dueAt;
+        timer.callback();
+      }
+      now = end;
+    },
+  };
+}
+
 /**
  * Assert that two arrays contain the same members (by strict === equality), allowing them to appear in different orders
  * @param actual
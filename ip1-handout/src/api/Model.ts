@@ -58,3 +58,38 @@ export interface TownCreateParams {
    */
   mapFile?: string;
 }
+
+/**
+ * A player's standing on the leaderboard of a town for one kind of game
+ */
+export interface LeaderboardEntry {
+  /**
+   * The player's position on the leaderboard, starting at 1 for the highest rated player
+   */
+  rank: number;
+  /**
+   * The ID that the player had in their most recent rated game (a player's ID changes every time that
+   * they join the town)
+   */
+  playerID: string;
+  /**
+   * The name of the player, which their rating is kept under
+   */
+  userName: string;
+  /**
+   * The player's Elo rating, rounded to the nearest whole number
+   */
+  rating: number;
+  /**
+   * The number of rated games that the player has won
+   */
+  wins: number;
+  /**
+   * The number of rated games that the player has lost
+   */
+  losses: number;
+  /**
+   * The number of rated games that ended without a winner
+   */
+  draws: number;
+}
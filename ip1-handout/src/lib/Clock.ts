@@ -0,0 +1,37 @@
+export type TimerHandle = unknown;
+
+/**
+ * A source of time and timers. Everything in the town service that depends on the passing of
+ * time takes a Clock, so that tests can control time instead of waiting for it to pass.
+ */
+export default interface Clock {
+  /**
+   * @returns the current time, in milliseconds since the epoch
+   */
+  now(): number;
+
+  /**
+   * Calls a function once a number of milliseconds have passed
+   *
+   * @param callback the function to call
+   * @param delayMs the number of milliseconds to wait before calling it
+   * @returns a handle that can be passed to clearTimeout to cancel the call
+   */
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+
+  /**
+   * Cancels a call that was scheduled with setTimeout, if it has not happened yet
+   *
+   * @param handle the handle returned by setTimeout
+   */
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * The Clock that follows real time
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
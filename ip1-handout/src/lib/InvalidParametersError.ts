@@ -4,13 +4,70 @@ export const INVALID_COMMAND_MESSAGE = 'Invalid command';
 export const GAME_FULL_MESSAGE = 'Game is full';
 export const GAME_NOT_IN_PROGRESS_MESSAGE = 'Game is not in progress';
 export const GAME_OVER_MESSAGE = 'Game is over';
+export const GAME_NOT_OVER_MESSAGE = 'Game is not over';
+export const GAME_NOT_WAITING_FOR_READY_MESSAGE = 'Game is not waiting for its players to be ready';
+export const GAME_IN_PROGRESS_MESSAGE = 'A game is already in progress';
 export const GAME_ID_MISSMATCH_MESSAGE = 'Game ID mismatch';
+export const UNDO_NOT_SUPPORTED_MESSAGE = 'Moves can not be taken back in this game';
+export const NO_MOVE_TO_UNDO_MESSAGE = 'There is no move to take back';
+export const UNDO_ALREADY_REQUESTED_MESSAGE = 'A takeback has already been requested';
+export const NO_UNDO_REQUESTED_MESSAGE = 'No takeback has been requested';
+export const REPLAY_NOT_FOUND_MESSAGE = 'No replay of this game is available';
 
 export const BOARD_POSITION_NOT_EMPTY_MESSAGE = 'Board position is not empty';
+export const COLUMN_FULL_MESSAGE = 'Column is full';
 export const MOVE_NOT_YOUR_TURN_MESSAGE = 'Not your turn';
+export const NO_PIECE_TO_MOVE_MESSAGE = 'You do not have a piece on that square';
+export const INVALID_STEP_MESSAGE =
+  'Pieces move diagonally by one square, or jump diagonally over an opponent’s piece';
+export const MOVE_BACKWARDS_MESSAGE = 'Only kings can move backwards';
+export const CAPTURE_REQUIRED_MESSAGE = 'A capture is available, so you must capture';
+export const PROMOTION_ENDS_MOVE_MESSAGE = 'A piece that is crowned ends its move';
+export const JUMP_NOT_FINISHED_MESSAGE = 'The piece can capture again, so it must keep jumping';
+export const PIECE_CANNOT_MOVE_THERE_MESSAGE = 'That piece cannot move there';
+export const KING_IN_CHECK_MESSAGE = 'That move would leave your king in check';
+export const PROMOTION_REQUIRED_MESSAGE = 'A pawn that reaches the last rank must be promoted';
+export const PROMOTION_NOT_ALLOWED_MESSAGE =
+  'Only a pawn that reaches the last rank can be promoted';
+export const INVALID_FEN_MESSAGE = 'Invalid FEN';
+export const ALREADY_CHOSEN_MESSAGE = 'You have already chosen in this round';
+export const INVALID_FLEET_MESSAGE = 'A fleet has exactly one ship of each type';
+export const SHIP_OFF_BOARD_MESSAGE = 'Ships must fit on the board';
+export const SHIPS_OVERLAP_MESSAGE = 'Ships can not overlap';
+export const SHIPS_ALREADY_PLACED_MESSAGE = 'Your ships have already been placed';
+export const SHIPS_NOT_PLACED_MESSAGE = 'Both players must place their ships before firing';
+export const ALREADY_FIRED_MESSAGE = 'You have already fired at that square';
+export const LETTER_ALREADY_GUESSED_MESSAGE = 'That letter has already been guessed';
+export const ALREADY_ANSWERED_MESSAGE = 'You have already answered this question';
+export const NO_SUCH_CHOICE_MESSAGE = 'This question has no such choice';
+export const NO_DISCS_FLIPPED_MESSAGE =
+  'A disc must be placed so that it flips some of your opponent’s discs';
+export const POINT_OFF_BOARD_MESSAGE = 'That point is not on the board';
+export const SUICIDE_MESSAGE = 'A stone can not be placed where it would have no liberties';
+export const KO_MESSAGE = 'That point can not be played until a move has been made elsewhere (ko)';
+export const SCORING_IN_PROGRESS_MESSAGE =
+  'Stones can not be played while the players are agreeing on the score';
+export const NOT_SCORING_MESSAGE = 'Dead stones can only be marked once both players have passed';
+export const NO_STONE_MESSAGE = 'There is no stone on that point';
+export const LINE_OFF_BOARD_MESSAGE = 'That line is not on the board';
+export const LINE_ALREADY_CLAIMED_MESSAGE = 'That line has already been claimed';
+export const NO_SUCH_PIT_MESSAGE = 'There is no such pit: choose one of your own pits, from 0 to 5';
+export const PIT_EMPTY_MESSAGE = 'That pit has no seeds in it to sow';
 
 export const PLAYER_NOT_IN_GAME_MESSAGE = 'Player is not in this game';
 export const PLAYER_ALREADY_IN_GAME_MESSAGE = 'Player is already in this game';
+export const PLAYER_ALREADY_SPECTATING_MESSAGE = 'Player is already spectating this game';
+export const PLAYER_NOT_SPECTATING_MESSAGE = 'Player is not spectating this game';
+export const BOT_NEEDS_ONE_PLAYER_MESSAGE = 'A bot can only join a game with exactly one player';
+export const UNKNOWN_GAME_TYPE_MESSAGE = 'No such kind of game';
+export const PLAYER_ALREADY_QUEUED_MESSAGE = 'Player is already waiting for a game';
+export const PLAYER_NOT_QUEUED_MESSAGE = 'Player is not waiting for a game';
+export const PLAYER_NOT_IN_TOWN_MESSAGE = 'Player is not in this town';
+export const CANNOT_CHALLENGE_SELF_MESSAGE = 'Players can not challenge themselves';
+export const CHALLENGE_NOT_FOUND_MESSAGE = 'No such challenge';
+export const SPECTATOR_CANNOT_MOVE_MESSAGE = 'Spectators can not make moves';
+export const NO_SUCH_TEAM_MESSAGE = 'No such team in this game';
+export const TEAM_FULL_MESSAGE = 'Team is already full';
 export default class InvalidParametersError extends Error {
   public message: string;
 
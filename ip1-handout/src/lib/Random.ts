@@ -0,0 +1,26 @@
+/**
+ * A source of random numbers in [0, 1), such as Math.random. Everything in the town service that makes
+ * random choices takes a Random, so that tests (and map objects that set a seed) can make those choices
+ * repeatable.
+ */
+type Random = () => number;
+
+export default Random;
+
+/* The modulus and multiplier of the Park-Miller "minimal standard" generator */
+const MODULUS = 2147483647;
+const MULTIPLIER = 48271;
+
+/**
+ * Creates a source of random numbers that always produces the same sequence for the same seed
+ * (using the Park-Miller "minimal standard" generator)
+ *
+ * @param seed the seed; any number can be used, and different integers give different sequences
+ */
+export function seededRandom(seed: number): Random {
+  let state = (Math.abs(Math.floor(seed)) % (MODULUS - 1)) + 1;
+  return () => {
+    state = (state * MULTIPLIER) % MODULUS;
+    return (state - 1) / (MODULUS - 1);
+  };
+}
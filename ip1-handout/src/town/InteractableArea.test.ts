@@ -64,6 +64,16 @@ describe('InteractableArea', () => {
       expect(lastEmittedMovement.location.interactableID).toBeUndefined();
     });
   });
+  describe('onAreaChanged', () => {
+    it('Calls the listener instead of broadcasting the model when the area changes', () => {
+      const listener = jest.fn();
+      testArea.onAreaChanged(listener);
+      mockClear(townEmitter);
+      testArea.remove(newPlayer);
+      expect(listener).toHaveBeenCalledWith(testArea);
+      expect(townEmitter.emit).not.toHaveBeenCalledWith('interactableUpdate', expect.anything());
+    });
+  });
   describe('isActive', () => {
     it('Returns true when there are players in the area', () => {
       expect(testArea.isActive).toBe(true);
@@ -5,6 +5,7 @@ import {
   InteractableCommand,
   InteractableCommandReturnType,
   InteractableID,
+  PlayerID,
   PlayerLocation,
   TownEmitter,
 } from '../types/CoveyTownSocket';
@@ -34,6 +35,9 @@ export default abstract class InteractableArea {
   /* An emitter that can be used to broadcast messages to all players in this town */
   private _townEmitter: TownEmitter;
 
+  /* If set, called instead of broadcasting this area's model whenever this area changes (@see onAreaChanged) */
+  private _changeListener?: (area: InteractableArea) => void;
+
   public get id() {
     return this._id;
   }
@@ -50,6 +54,10 @@ export default abstract class InteractableArea {
     return this.occupants.length > 0;
   }
 
+  protected get townEmitter(): TownEmitter {
+    return this._townEmitter;
+  }
+
   public get boundingBox(): BoundingBox {
     return { x: this._x, y: this._y, width: this._width, height: this._height };
   }
@@ -158,20 +166,39 @@ export default abstract class InteractableArea {
     return !noOverlap;
   }
 
+  /**
+   * Has this area tell a listener whenever it changes, instead of broadcasting its model to every player in
+   * the town, so that the listener can send each player their own view of the area (@see toModel)
+   *
+   * @param listener called with this area whenever it changes
+   */
+  public onAreaChanged(listener: (area: InteractableArea) => void): void {
+    this._changeListener = listener;
+  }
+
   /**
    * Emits an event to the players in the town notifying them that this InteractableArea has changed, passing
-   * the model for this InteractableArea in that event.
+   * the model for this InteractableArea in that event. If a listener has been set with onAreaChanged, the
+   * listener is called instead, and is responsible for notifying the players.
    */
   protected _emitAreaChanged() {
-    this._townEmitter.emit('interactableUpdate', this.toModel());
+    if (this._changeListener) {
+      this._changeListener(this);
+    } else {
+      this._townEmitter.emit('interactableUpdate', this.toModel());
+    }
   }
 
   /**
    * Converts this InteractableArea into a simple structure that is suitable for transmission over a socket
    * to other clients. The value returned must not contain references to internal server state (e.g. the townEmitter);
    * otherwise serialization errors will occur when attempting to transmit it
+   *
+   * @param viewer the player that the model will be sent to. Areas that hold hidden information (e.g. the
+   *  hands of the players of a card game) leave out whatever that player may not see; without a viewer,
+   *  the model holds only what every player may see.
    */
-  public abstract toModel(): Interactable;
+  public abstract toModel(viewer?: PlayerID): Interactable;
 
   public abstract handleCommand<CommandType extends InteractableCommand>(
     command: CommandType,
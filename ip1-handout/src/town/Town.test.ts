@@ -1,6 +1,10 @@
-import { ITiledMap } from '@jonbell/tiled-map-type-guard';
+import { ITiledMap, ITiledMapObject } from '@jonbell/tiled-map-type-guard';
 import { DeepMockProxy, mockClear, mockDeep, mockReset } from 'jest-mock-extended';
 import { nanoid } from 'nanoid';
+import {
+  PLAYER_NOT_QUEUED_MESSAGE,
+  UNKNOWN_GAME_TYPE_MESSAGE,
+} from '../lib/InvalidParametersError';
 import Player from '../lib/Player';
 import TwilioVideo from '../lib/TwilioVideo';
 import {
@@ -12,19 +16,53 @@ import {
   mockPlayer,
 } from '../TestUtils';
 import {
+  BattleshipGameState,
+  BattleshipShip,
   ChatMessage,
+  GameArea as GameAreaModel,
   Interactable,
+  InteractableCommand,
   PlayerID,
   PlayerLocation,
+  RockPaperScissorsGameState,
+  TicTacToeGameState,
   TownEmitter,
   ViewingArea as ViewingAreaModel,
 } from '../types/CoveyTownSocket';
 import ConversationArea from './ConversationArea';
+import GameRegistry from './games/GameRegistry';
+import REGISTERED_GAMES from './games/RegisteredGames';
 import Town from './Town';
 
 const mockTwilioVideo = mockDeep<TwilioVideo>();
 jest.spyOn(TwilioVideo, 'getInstance').mockReturnValue(mockTwilioVideo);
 
+const FLEET: BattleshipShip[] = [
+  { ship: 'Carrier', row: 0, col: 0, orientation: 'Vertical' },
+  { ship: 'Battleship', row: 0, col: 1, orientation: 'Vertical' },
+  { ship: 'Cruiser', row: 0, col: 2, orientation: 'Vertical' },
+  { ship: 'Submarine', row: 0, col: 3, orientation: 'Vertical' },
+  { ship: 'Destroyer', row: 0, col: 4, orientation: 'Vertical' },
+];
+
+/**
+ * @returns a map object for a game area that hosts the given type of game
+ */
+function gameAreaObject(id: number, name: string, gameType: string, x: number): ITiledMapObject {
+  return {
+    type: 'GameArea',
+    height: 100,
+    id,
+    name,
+    properties: [{ name: 'type', type: 'string', value: gameType }],
+    rotation: 0,
+    visible: true,
+    width: 100,
+    x,
+    y: 500,
+  };
+}
+
 type TestMapDict = {
   [key in string]: ITiledMap;
 };
@@ -113,6 +151,29 @@ const testingMaps: TestMapDict = {
       },
     ],
   },
+  gameAreas: {
+    tiledversion: '1.9.0',
+    tileheight: 32,
+    tilesets: [],
+    tilewidth: 32,
+    type: 'map',
+    layers: [
+      {
+        id: 4,
+        name: 'Objects',
+        objects: [
+          gameAreaObject(60, 'TicTacToe1', 'TicTacToe', 0),
+          gameAreaObject(61, 'RockPaperScissors1', 'RockPaperScissors', 200),
+          gameAreaObject(62, 'Battleship1', 'Battleship', 400),
+        ],
+        opacity: 1,
+        type: 'objectgroup',
+        visible: true,
+        x: 0,
+        y: 0,
+      },
+    ],
+  },
   noObjects: {
     tiledversion: '1.9.0',
     tileheight: 32,
@@ -472,7 +533,7 @@ describe('Town', () => {
       function disconnectPlayer(playerToLeave: MockedPlayer) {
         // Call the disconnect event handler
         const disconnectHandler = getEventListener(playerToLeave.socket, 'disconnect');
-        disconnectHandler('unknown');
+        disconnectHandler('transport close');
       }
       it("Invalidates the players's session token", async () => {
         const token = player.sessionToken;
@@ -857,6 +918,230 @@ describe('Town', () => {
       });
     });
   });
+  describe('game areas', () => {
+    let secondPlayer: MockedPlayer;
+    let secondPlayerObj: Player;
+    beforeEach(async () => {
+      GameRegistry.initializeGameRegistry(REGISTERED_GAMES);
+      town.initializeFromMap(testingMaps.gameAreas);
+      secondPlayer = mockPlayer(town.townID);
+      secondPlayerObj = await town.addPlayer(secondPlayer.userName, secondPlayer.socket);
+    });
+
+    /**
+     * Sends a command to an interactable from a player's socket
+     * @returns the response that was sent back to the player
+     */
+    function sendCommand<CommandType extends InteractableCommand>(
+      sender: MockedPlayer,
+      interactableID: string,
+      command: CommandType,
+    ) {
+      const commandID = nanoid();
+      getEventListener(
+        sender.socket,
+        'interactableCommand',
+      )({
+        ...command,
+        commandID,
+        interactableID,
+      });
+      const response = getLastEmittedEvent(sender.socket, 'commandResponse');
+      expect(response.commandID).toEqual(commandID);
+      return response;
+    }
+
+    /**
+     * Seats both players in a new game in the given area
+     * @returns the ID of the game
+     */
+    function startGame(interactableID: string): string {
+      const { payload } = sendCommand(playerTestData, interactableID, { type: 'JoinGame' });
+      sendCommand(secondPlayer, interactableID, { type: 'JoinGame' });
+      return (payload as { gameID: string }).gameID;
+    }
+
+    describe('interactableUpdate events', () => {
+      it('Sends each player their own view of the area, without the choice of the other player', () => {
+        const gameID = startGame('RockPaperScissors1');
+        sendCommand(playerTestData, 'RockPaperScissors1', {
+          type: 'GameMove',
+          gameID,
+          move: { choice: 'Rock' },
+        });
+        const ownView = getLastEmittedEvent(
+          playerTestData.socket,
+          'interactableUpdate',
+        ) as GameAreaModel<RockPaperScissorsGameState>;
+        const otherView = getLastEmittedEvent(
+          secondPlayer.socket,
+          'interactableUpdate',
+        ) as GameAreaModel<RockPaperScissorsGameState>;
+        expect(ownView.game?.state.choices).toEqual({ [player.id]: 'Rock' });
+        expect(otherView.game?.state.choices).toEqual({});
+        expect(otherView.game?.state.chosen).toEqual([player.id]);
+        expect(() => getLastEmittedEvent(townEmitter, 'interactableUpdate')).toThrowError();
+      });
+      it('Sends each player their own view of the area, without the fleet of the other player', () => {
+        const gameID = startGame('Battleship1');
+        sendCommand(playerTestData, 'Battleship1', {
+          type: 'GameMove',
+          gameID,
+          move: { ships: FLEET },
+        });
+        const ownView = getLastEmittedEvent(
+          playerTestData.socket,
+          'interactableUpdate',
+        ) as GameAreaModel<BattleshipGameState>;
+        const otherView = getLastEmittedEvent(
+          secondPlayer.socket,
+          'interactableUpdate',
+        ) as GameAreaModel<BattleshipGameState>;
+        expect(ownView.game?.state.fleets).toEqual({ [player.id]: FLEET });
+        expect(otherView.game?.state.fleets).toEqual({});
+      });
+      it('Sends the area to players who are not in the game, with no hidden information', async () => {
+        const spectator = mockPlayer(town.townID);
+        await town.addPlayer(spectator.userName, spectator.socket);
+        const gameID = startGame('RockPaperScissors1');
+        sendCommand(secondPlayer, 'RockPaperScissors1', {
+          type: 'GameMove',
+          gameID,
+          move: { choice: 'Paper' },
+        });
+        const view = getLastEmittedEvent(
+          spectator.socket,
+          'interactableUpdate',
+        ) as GameAreaModel<RockPaperScissorsGameState>;
+        expect(view.id).toEqual('RockPaperScissors1');
+        expect(view.game?.state.choices).toEqual({});
+      });
+    });
+    describe('challenges', () => {
+      it('Delivers a challenge only to the player who is challenged', () => {
+        const response = sendCommand(playerTestData, 'TicTacToe1', {
+          type: 'ChallengePlayer',
+          opponentID: secondPlayerObj.id,
+        });
+        expect(response.error).toBeUndefined();
+        const challenge = getLastEmittedEvent(secondPlayer.socket, 'challengeReceived');
+        expect(challenge).toMatchObject({
+          interactableID: 'TicTacToe1',
+          challenger: player.id,
+        });
+        expect(response.payload).toEqual(challenge);
+        expect(() =>
+          getLastEmittedEvent(playerTestData.socket, 'challengeReceived'),
+        ).toThrowError();
+        sendCommand(secondPlayer, 'TicTacToe1', {
+          type: 'DeclineChallenge',
+          challengeID: challenge.id,
+        });
+      });
+      it('Seats both players when a challenge is accepted, and takes them out of the matchmaking queue', () => {
+        getEventListener(secondPlayer.socket, 'joinMatchmaking')({ gameType: 'TicTacToe' });
+        sendCommand(playerTestData, 'TicTacToe1', {
+          type: 'ChallengePlayer',
+          opponentID: secondPlayerObj.id,
+        });
+        const challenge = getLastEmittedEvent(secondPlayer.socket, 'challengeReceived');
+        const response = sendCommand(secondPlayer, 'TicTacToe1', {
+          type: 'AcceptChallenge',
+          challengeID: challenge.id,
+        });
+        expect(response.error).toBeUndefined();
+        const view = getLastEmittedEvent(
+          playerTestData.socket,
+          'interactableUpdate',
+        ) as GameAreaModel<TicTacToeGameState>;
+        expect(view.game?.id).toEqual((response.payload as { gameID: string }).gameID);
+        expectArraysToContainSameMembers(view.game?.players ?? [], [player.id, secondPlayerObj.id]);
+        expect(town.matchmaking.queue('TicTacToe')).toEqual([]);
+      });
+      it('Ends the game of a challenge if one of its players leaves the town', () => {
+        sendCommand(playerTestData, 'TicTacToe1', {
+          type: 'ChallengePlayer',
+          opponentID: secondPlayerObj.id,
+        });
+        const challenge = getLastEmittedEvent(secondPlayer.socket, 'challengeReceived');
+        sendCommand(secondPlayer, 'TicTacToe1', {
+          type: 'AcceptChallenge',
+          challengeID: challenge.id,
+        });
+        getEventListener(playerTestData.socket, 'disconnect')('transport close');
+        const view = getLastEmittedEvent(
+          secondPlayer.socket,
+          'interactableUpdate',
+        ) as GameAreaModel<TicTacToeGameState>;
+        expect(view.game?.state).toMatchObject({ status: 'OVER', winner: secondPlayerObj.id });
+        expect(view.game?.players).toEqual([secondPlayerObj.id]);
+      });
+      it('Answers challenges to players who are not in the town with an error', () => {
+        const response = sendCommand(playerTestData, 'TicTacToe1', {
+          type: 'ChallengePlayer',
+          opponentID: nanoid(),
+        });
+        expect(response.error).toBeDefined();
+        expect(() => getLastEmittedEvent(secondPlayer.socket, 'challengeReceived')).toThrowError();
+      });
+    });
+    describe('matchmaking', () => {
+      it('Tells each player who is matched where their game is', () => {
+        getEventListener(playerTestData.socket, 'joinMatchmaking')({ gameType: 'TicTacToe' });
+        expect(() => getLastEmittedEvent(playerTestData.socket, 'matchFound')).toThrowError();
+        getEventListener(secondPlayer.socket, 'joinMatchmaking')({ gameType: 'TicTacToe' });
+        const match = getLastEmittedEvent(playerTestData.socket, 'matchFound');
+        expect(match).toMatchObject({
+          gameType: 'TicTacToe',
+          interactableID: 'TicTacToe1',
+          players: [player.id, secondPlayerObj.id],
+        });
+        expect(getLastEmittedEvent(secondPlayer.socket, 'matchFound')).toEqual(match);
+        expect(town.getInteractable('TicTacToe1').toModel()).toMatchObject({
+          game: { id: match.gameID },
+        });
+      });
+      it('Stops matching players who leave the queue', () => {
+        getEventListener(playerTestData.socket, 'joinMatchmaking')({ gameType: 'TicTacToe' });
+        getEventListener(playerTestData.socket, 'leaveMatchmaking')();
+        getEventListener(secondPlayer.socket, 'joinMatchmaking')({ gameType: 'TicTacToe' });
+        expect(() => getLastEmittedEvent(secondPlayer.socket, 'matchFound')).toThrowError();
+        expect(town.matchmaking.queue('TicTacToe')).toEqual([secondPlayerObj]);
+      });
+      it('Answers invalid matchmaking requests with a matchmakingError event', () => {
+        getEventListener(playerTestData.socket, 'joinMatchmaking')({ gameType: 'NotAGame' });
+        expect(getLastEmittedEvent(playerTestData.socket, 'matchmakingError')).toEqual(
+          UNKNOWN_GAME_TYPE_MESSAGE,
+        );
+        getEventListener(secondPlayer.socket, 'leaveMatchmaking')();
+        expect(getLastEmittedEvent(secondPlayer.socket, 'matchmakingError')).toEqual(
+          PLAYER_NOT_QUEUED_MESSAGE,
+        );
+      });
+      it('Takes players who leave the town out of the queue', () => {
+        getEventListener(playerTestData.socket, 'joinMatchmaking')({ gameType: 'TicTacToe' });
+        getEventListener(playerTestData.socket, 'disconnect')('transport close');
+        expect(town.matchmaking.queue('TicTacToe')).toEqual([]);
+      });
+      it('Ends the game of a matched player who leaves the town, so that the area can be matched again', async () => {
+        getEventListener(playerTestData.socket, 'joinMatchmaking')({ gameType: 'TicTacToe' });
+        getEventListener(secondPlayer.socket, 'joinMatchmaking')({ gameType: 'TicTacToe' });
+        const { gameID } = getLastEmittedEvent(playerTestData.socket, 'matchFound');
+        getEventListener(secondPlayer.socket, 'disconnect')('transport close');
+        const area = town
+          .getInteractable('TicTacToe1')
+          .toModel() as GameAreaModel<TicTacToeGameState>;
+        expect(area.game?.state).toMatchObject({ status: 'OVER', winner: player.id });
+        expect(area.history.map(result => result.gameID)).toEqual([gameID]);
+
+        const thirdPlayer = mockPlayer(town.townID);
+        await town.addPlayer(thirdPlayer.userName, thirdPlayer.socket);
+        getEventListener(thirdPlayer.socket, 'joinMatchmaking')({ gameType: 'TicTacToe' });
+        getEventListener(playerTestData.socket, 'joinMatchmaking')({ gameType: 'TicTacToe' });
+        expect(getLastEmittedEvent(thirdPlayer.socket, 'matchFound').gameID).not.toEqual(gameID);
+      });
+    });
+  });
   describe('Updating town settings', () => {
     it('Emits townSettingsUpdated events when friendlyName changes', async () => {
       const newFriendlyName = nanoid();
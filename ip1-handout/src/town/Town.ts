@@ -10,9 +10,12 @@ import {
   ChatMessage,
   ConversationArea as ConversationAreaModel,
   CoveyTownSocket,
+  GameReplay,
+  GameState,
   Interactable,
   InteractableCommand,
   InteractableCommandBase,
+  MatchmakingRequest,
   PlayerLocation,
   ServerToClientEvents,
   SocketData,
@@ -20,7 +23,12 @@ import {
 } from '../types/CoveyTownSocket';
 import { logError } from '../Utils';
 import ConversationArea from './ConversationArea';
+import ChallengeService, { isChallengeCommand } from './games/ChallengeService';
+import Game from './games/Game';
+import GameArea from './games/GameArea';
 import GameAreaFactory from './games/GameAreaFactory';
+import MatchmakingService from './games/MatchmakingService';
+import RatingService from './games/RatingService';
 import InteractableArea from './InteractableArea';
 import ViewingArea from './ViewingArea';
 
@@ -71,6 +79,18 @@ export default class Town {
     return this._interactables;
   }
 
+  get ratingService(): RatingService {
+    return this._ratingService;
+  }
+
+  get matchmaking(): MatchmakingService {
+    return this._matchmaking;
+  }
+
+  get challenges(): ChallengeService {
+    return this._challenges;
+  }
+
   /** The list of players currently in the town * */
   private _players: Player[] = [];
 
@@ -79,6 +99,23 @@ export default class Town {
 
   private _interactables: InteractableArea[] = [];
 
+  /** The Elo ratings of the players in this town, updated after every game in any of its game areas * */
+  private _ratingService: RatingService = new RatingService();
+
+  /** The players waiting to be paired for a game at any of this town's game areas * */
+  private _matchmaking: MatchmakingService = new MatchmakingService(
+    () => this._interactables,
+    (player, match) => this._socketsByPlayerID.get(player.id)?.emit('matchFound', match),
+    (player, err) => this._emitMatchmakingError(this._socketsByPlayerID.get(player.id), err),
+  );
+
+  /** The challenges that players in this town have made to each other and not yet answered * */
+  private _challenges: ChallengeService = new ChallengeService(
+    () => this._players,
+    (player, challenge) =>
+      this._socketsByPlayerID.get(player.id)?.emit('challengeReceived', challenge),
+  );
+
   private readonly _townID: string;
 
   private _friendlyName: string;
@@ -93,6 +130,8 @@ export default class Town {
 
   private _connectedSockets: Set<CoveyTownSocket> = new Set();
 
+  private _socketsByPlayerID: Map<string, CoveyTownSocket> = new Map();
+
   constructor(
     friendlyName: string,
     isPubliclyListed: boolean,
@@ -118,6 +157,7 @@ export default class Town {
     this._players.push(newPlayer);
 
     this._connectedSockets.add(socket);
+    this._socketsByPlayerID.set(newPlayer.id, socket);
 
     // Create a video token for this user to join this town
     newPlayer.videoToken = await this._videoClient.getTokenForTown(this._townID, newPlayer.id);
@@ -131,6 +171,7 @@ export default class Town {
     socket.on('disconnect', () => {
       this._removePlayer(newPlayer);
       this._connectedSockets.delete(socket);
+      this._socketsByPlayerID.delete(newPlayer.id);
     });
 
     // Set up a listener to forward all chat messages to all clients in the town
@@ -163,20 +204,30 @@ export default class Town {
     });
 
     // Set up a listener to process commands to interactables.
-    // Dispatches commands to the appropriate interactable and sends the response back to the client
+    // Dispatches commands to the appropriate interactable and sends the response back to the client.
+    // Challenges to play in a game area are handled by the town's ChallengeService instead, and players
+    // who accept a challenge stop waiting in the matchmaking queue
     socket.on('interactableCommand', (command: InteractableCommand & InteractableCommandBase) => {
       const interactable = this._interactables.find(
         eachInteractable => eachInteractable.id === command.interactableID,
       );
       if (interactable) {
         try {
-          const payload = interactable.handleCommand(command, newPlayer);
+          const payload = isChallengeCommand(command)
+            ? this._challenges.handleCommand(command, newPlayer, interactable)
+            : interactable.handleCommand(command, newPlayer);
+          if (command.type === 'AcceptChallenge' && interactable instanceof GameArea) {
+            interactable.game?.players.forEach((eachPlayer: Player) =>
+              this._matchmaking.remove(eachPlayer),
+            );
+          }
           socket.emit('commandResponse', {
             commandID: command.commandID,
             interactableID: command.interactableID,
             isOK: true,
             payload,
           });
+          this._matchmaking.matchPlayers();
         } catch (err) {
           if (err instanceof InvalidParametersError) {
             socket.emit('commandResponse', {
@@ -204,9 +255,38 @@ export default class Town {
         });
       }
     });
+
+    // Set up listeners to add the player to, and remove them from, the matchmaking queue.
+    // Players are told where their game is with a matchFound event (@see MatchmakingService),
+    // and invalid requests are answered with a matchmakingError event
+    socket.on('joinMatchmaking', (request: MatchmakingRequest) => {
+      this._handleMatchmakingRequest(socket, () =>
+        this._matchmaking.enqueue(newPlayer, request.gameType),
+      );
+    });
+    socket.on('leaveMatchmaking', () => {
+      this._handleMatchmakingRequest(socket, () => this._matchmaking.dequeue(newPlayer));
+    });
     return newPlayer;
   }
 
+  private _handleMatchmakingRequest(socket: CoveyTownSocket, request: () => void): void {
+    try {
+      request();
+    } catch (err) {
+      this._emitMatchmakingError(socket, err);
+    }
+  }
+
+  private _emitMatchmakingError(socket: CoveyTownSocket | undefined, err: unknown): void {
+    if (err instanceof InvalidParametersError) {
+      socket?.emit('matchmakingError', err.message);
+    } else {
+      logError(err);
+      socket?.emit('matchmakingError', 'Unknown error');
+    }
+  }
+
   /**
    * Destroys all data related to a player in this town.
    *
@@ -216,7 +296,16 @@ export default class Town {
     if (player.location.interactableID) {
       this._removePlayerFromInteractable(player);
     }
+    // matchmaking and challenges seat players in games in areas that they may not be standing in
+    this._interactables.forEach(area => {
+      if (area instanceof GameArea) {
+        area.removeFromGame(player);
+      }
+    });
     this._players = this._players.filter(p => p.id !== player.id);
+    this._matchmaking.remove(player);
+    this._matchmaking.matchPlayers();
+    this._challenges.remove(player);
     this._broadcastEmitter.emit('playerDisconnect', player.toPlayerModel());
   }
 
@@ -237,8 +326,9 @@ export default class Town {
 
     if (!prevInteractable?.contains(location)) {
       if (prevInteractable) {
-        // Remove from old area
+        // Remove from old area, which may end a game and free the area for players who are waiting
         prevInteractable.remove(player);
+        this._matchmaking.matchPlayers();
       }
       const newInteractable = this._interactables.find(
         eachArea => eachArea.isActive && eachArea.contains(location),
@@ -356,6 +446,36 @@ export default class Town {
     return ret;
   }
 
+  /**
+   * Finds the replay of a game that has finished in any of this town's game areas
+   *
+   * @param gameID the ID of the game
+   * @returns the replay, or undefined if no such game has finished in this town
+   */
+  public getReplay(gameID: string): GameReplay | undefined {
+    return this._gameAreaThatPlayed(gameID)?.getReplay(gameID);
+  }
+
+  /**
+   * Finds the PGN of a game that has finished in any of this town's game areas (@see GameArea.getPGN)
+   *
+   * @param gameID the ID of the game
+   * @returns the PGN, or undefined if no such game has finished in this town, or it has no PGN
+   */
+  public getPGN(gameID: string): string | undefined {
+    return this._gameAreaThatPlayed(gameID)?.getPGN(gameID);
+  }
+
+  /**
+   * @returns the game area in which a game with this ID has finished, if any
+   */
+  private _gameAreaThatPlayed(gameID: string): GameArea<Game<GameState, unknown>> | undefined {
+    return this._interactables.find(
+      (interactable): interactable is GameArea<Game<GameState, unknown>> =>
+        interactable instanceof GameArea && interactable.getReplay(gameID) !== undefined,
+    );
+  }
+
   /**
    * Informs all players' clients that they are about to be disconnected, and then
    * disconnects all players.
@@ -402,7 +522,11 @@ export default class Town {
 
     const gameAreas = objectLayer.objects
       .filter(eachObject => eachObject.type === 'GameArea')
-      .map(eachGameAreaObj => GameAreaFactory(eachGameAreaObj, this._broadcastEmitter));
+      .map(eachGameAreaObj =>
+        GameAreaFactory(eachGameAreaObj, this._broadcastEmitter, this._ratingService),
+      );
+    // Games can hold hidden information, so each player is sent their own view of a game area
+    gameAreas.forEach(gameArea => gameArea.onAreaChanged(area => this._emitAreaToEachPlayer(area)));
 
     this._interactables = this._interactables
       .concat(viewingAreas)
@@ -411,6 +535,17 @@ export default class Town {
     this._validateInteractables();
   }
 
+  /**
+   * Sends every player in the town their own view of an area (@see InteractableArea.toModel)
+   *
+   * @param area the area that has changed
+   */
+  private _emitAreaToEachPlayer(area: InteractableArea): void {
+    this._socketsByPlayerID.forEach((socket, playerID) =>
+      socket.emit('interactableUpdate', area.toModel(playerID)),
+    );
+  }
+
   private _validateInteractables() {
     // Make sure that the IDs are unique
     const interactableIDs = this._interactables.map(eachInteractable => eachInteractable.id);
@@ -2,10 +2,17 @@ import assert from 'assert';
 import { DeepMockProxy, mockDeep } from 'jest-mock-extended';
 import { nanoid } from 'nanoid';
 import { Town } from '../api/Model';
-import { ConversationArea, Interactable, TownEmitter, ViewingArea } from '../types/CoveyTownSocket';
+import {
+  ConversationArea,
+  GameReplay,
+  Interactable,
+  TownEmitter,
+  ViewingArea,
+} from '../types/CoveyTownSocket';
 import TownsStore from '../lib/TownsStore';
 import {
   createConversationForTesting,
+  createPlayerForTesting,
   getLastEmittedEvent,
   extractSessionToken,
   mockPlayer,
@@ -14,6 +21,8 @@ import {
   MockedPlayer,
 } from '../TestUtils';
 import { TownsController } from './TownsController';
+import GameRegistry from './games/GameRegistry';
+import REGISTERED_GAMES from './games/RegisteredGames';
 
 type TestTownData = {
   friendlyName: string;
@@ -251,6 +260,98 @@ describe('TownsController integration tests', () => {
       expect(initialData2.interactables.length).toEqual(initialData.interactables.length);
     });
   });
+  describe('getLeaderboard', () => {
+    let testingTown: TestTownData;
+    beforeEach(async () => {
+      GameRegistry.initializeGameRegistry(REGISTERED_GAMES);
+      testingTown = await createTownForTesting(undefined, true);
+    });
+    it('Ranks the players of the town in the requested game', async () => {
+      const town = TownsStore.getInstance().getTownByID(testingTown.townID);
+      assert(town);
+      const [winner, loser] = [createPlayerForTesting(), createPlayerForTesting()];
+      town.ratingService.recordGame('TicTacToe', [winner, loser], winner.id);
+      town.ratingService.recordGame('ConnectFour', [winner, loser], loser.id);
+
+      const leaderboard = await controller.getLeaderboard(testingTown.townID, 'TicTacToe');
+      expect(leaderboard.map(entry => [entry.rank, entry.userName])).toEqual([
+        [1, winner.userName],
+        [2, loser.userName],
+      ]);
+      expect(leaderboard[0]).toMatchObject({ wins: 1, losses: 0, draws: 0 });
+    });
+    it('Returns an empty leaderboard if no games have been played', async () => {
+      expect(await controller.getLeaderboard(testingTown.townID, 'ConnectFour')).toEqual([]);
+    });
+    it('Keeps a separate leaderboard for each town', async () => {
+      const otherTown = await createTownForTesting(undefined, true);
+      const town = TownsStore.getInstance().getTownByID(testingTown.townID);
+      assert(town);
+      town.ratingService.recordGame(
+        'TicTacToe',
+        [createPlayerForTesting(), createPlayerForTesting()],
+        undefined,
+      );
+      expect(await controller.getLeaderboard(otherTown.townID, 'TicTacToe')).toEqual([]);
+    });
+    it('Returns an error message if the town ID is invalid', async () => {
+      await expect(controller.getLeaderboard(nanoid(), 'TicTacToe')).rejects.toThrow();
+    });
+    it('Returns an error message if the game is not registered', async () => {
+      await expect(controller.getLeaderboard(testingTown.townID, 'NoSuchGame')).rejects.toThrow();
+    });
+  });
+
+  describe('getReplay', () => {
+    let testingTown: TestTownData;
+    beforeEach(async () => {
+      testingTown = await createTownForTesting(undefined, true);
+    });
+    it('Returns the replay of a game that finished in the town', async () => {
+      const town = TownsStore.getInstance().getTownByID(testingTown.townID);
+      assert(town);
+      const replay: GameReplay = {
+        gameID: nanoid(),
+        type: 'TicTacToeArea',
+        seats: [],
+        moves: [],
+        startedAt: 0,
+        endedAt: 1,
+      };
+      const getReplaySpy = jest.spyOn(town, 'getReplay').mockReturnValue(replay);
+      expect(await controller.getReplay(testingTown.townID, replay.gameID)).toBe(replay);
+      expect(getReplaySpy).toHaveBeenCalledWith(replay.gameID);
+    });
+    it('Returns an error message if the town ID is invalid', async () => {
+      await expect(controller.getReplay(nanoid(), nanoid())).rejects.toThrow();
+    });
+    it('Returns an error message if no such game finished in the town', async () => {
+      await expect(controller.getReplay(testingTown.townID, nanoid())).rejects.toThrow();
+    });
+  });
+
+  describe('getPGN', () => {
+    let testingTown: TestTownData;
+    beforeEach(async () => {
+      testingTown = await createTownForTesting(undefined, true);
+    });
+    it('Returns the PGN of a chess game that finished in the town', async () => {
+      const town = TownsStore.getInstance().getTownByID(testingTown.townID);
+      assert(town);
+      const gameID = nanoid();
+      const pgn = '[Result "1-0"]\n\n1. e4 1-0\n';
+      const getPGNSpy = jest.spyOn(town, 'getPGN').mockReturnValue(pgn);
+      expect(await controller.getPGN(testingTown.townID, gameID)).toBe(pgn);
+      expect(getPGNSpy).toHaveBeenCalledWith(gameID);
+    });
+    it('Returns an error message if the town ID is invalid', async () => {
+      await expect(controller.getPGN(nanoid(), nanoid())).rejects.toThrow();
+    });
+    it('Returns an error message if no such chess game finished in the town', async () => {
+      await expect(controller.getPGN(testingTown.townID, nanoid())).rejects.toThrow();
+    });
+  });
+
   describe('Interactables', () => {
     let testingTown: TestTownData;
     let player: MockedPlayer;
@@ -9,20 +9,23 @@ import {
   Patch,
   Path,
   Post,
+  Query,
   Response,
   Route,
   Tags,
 } from 'tsoa';
 
-import { Town, TownCreateParams, TownCreateResponse } from '../api/Model';
+import { LeaderboardEntry, Town, TownCreateParams, TownCreateResponse } from '../api/Model';
 import InvalidParametersError from '../lib/InvalidParametersError';
 import CoveyTownsStore from '../lib/TownsStore';
 import {
   ConversationArea,
   CoveyTownSocket,
+  GameReplay,
   TownSettingsUpdate,
   ViewingArea,
 } from '../types/CoveyTownSocket';
+import GameRegistry from './games/GameRegistry';
 
 /**
  * This is the town route
@@ -161,6 +164,68 @@ export class TownsController extends Controller {
     }
   }
 
+  /**
+   * Ranks the players of a town by their Elo rating in one kind of game, combining the games
+   * played at every game area of that kind in the town
+   *
+   * @param townID ID of the town to rank players in
+   * @param game the kind of game to rank players in, e.g. TicTacToe
+   * @returns the players who have played a rated game of that kind, from the highest rating to
+   *          the lowest, with their number of wins, losses and draws
+   *
+   * @throws InvalidParametersError if there is no such town, or no such kind of game
+   */
+  @Get('{townID}/leaderboard')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async getLeaderboard(
+    @Path() townID: string,
+    @Query() game: string,
+  ): Promise<LeaderboardEntry[]> {
+    const town = this._townsStore.getTownByID(townID);
+    if (!town || !GameRegistry.getInstance().getRegistration(game)) {
+      throw new InvalidParametersError('Invalid values specified');
+    }
+    return town.ratingService.getLeaderboard(game);
+  }
+
+  /**
+   * Retrieves the replay of a game that has finished in a town: the players' seats, and every move
+   * of the game in order, with the time at which it was made
+   *
+   * @param townID ID of the town that the game was played in
+   * @param gameID ID of the game
+   *
+   * @throws InvalidParametersError if there is no such town, or no such finished game in the town
+   */
+  @Get('{townID}/games/{gameID}/replay')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async getReplay(@Path() townID: string, @Path() gameID: string): Promise<GameReplay> {
+    const replay = this._townsStore.getTownByID(townID)?.getReplay(gameID);
+    if (!replay) {
+      throw new InvalidParametersError('Invalid values specified');
+    }
+    return replay;
+  }
+
+  /**
+   * Exports a chess game that has finished in a town in Portable Game Notation
+   *
+   * @param townID ID of the town that the game was played in
+   * @param gameID ID of the game
+   * @returns the game's PGN, including the players' names and the result
+   *
+   * @throws InvalidParametersError if there is no such town, or no such finished chess game in the town
+   */
+  @Get('{townID}/games/{gameID}/pgn')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async getPGN(@Path() townID: string, @Path() gameID: string): Promise<string> {
+    const pgn = this._townsStore.getTownByID(townID)?.getPGN(gameID);
+    if (!pgn) {
+      throw new InvalidParametersError('Invalid values specified');
+    }
+    return pgn;
+  }
+
   /**
    * Connects a client's socket to the requested town, or disconnects the socket if no such town exists
    *
@@ -190,7 +255,9 @@ export class TownsController extends Controller {
       currentPlayers: town.players.map(eachPlayer => eachPlayer.toPlayerModel()),
       friendlyName: town.friendlyName,
       isPubliclyListed: town.isPubliclyListed,
-      interactables: town.interactables.map(eachInteractable => eachInteractable.toModel()),
+      interactables: town.interactables.map(eachInteractable =>
+        eachInteractable.toModel(newPlayer.id),
+      ),
     });
   }
 }
@@ -0,0 +1,289 @@
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  ALREADY_FIRED_MESSAGE,
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  INVALID_FLEET_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  SHIP_OFF_BOARD_MESSAGE,
+  SHIPS_ALREADY_PLACED_MESSAGE,
+  SHIPS_NOT_PLACED_MESSAGE,
+  SHIPS_OVERLAP_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { BattleshipGridPosition, BattleshipShip } from '../../types/CoveyTownSocket';
+import BattleshipGame, { isBattleshipMove } from './BattleshipGame';
+
+/**
+ * A fleet with each ship lying horizontally at the left of its own row: the carrier in row 0
+ * (columns 0-4), the battleship in row 1 (0-3), the cruiser in row 2 (0-2), the submarine in
+ * row 3 (0-2) and the destroyer in row 4 (0-1)
+ */
+const FLEET: BattleshipShip[] = [
+  { ship: 'Carrier', row: 0, col: 0, orientation: 'Horizontal' },
+  { ship: 'Battleship', row: 1, col: 0, orientation: 'Horizontal' },
+  { ship: 'Cruiser', row: 2, col: 0, orientation: 'Horizontal' },
+  { ship: 'Submarine', row: 3, col: 0, orientation: 'Horizontal' },
+  { ship: 'Destroyer', row: 4, col: 0, orientation: 'Horizontal' },
+];
+
+/** Every square covered by FLEET */
+const FLEET_SQUARES: Array<[number, number]> = [5, 4, 3, 3, 2].flatMap((length, row) =>
+  Array.from({ length }, (_, col): [number, number] => [row, col]),
+);
+
+describe('BattleshipGame', () => {
+  let game: BattleshipGame;
+  let player1: Player;
+  let player2: Player;
+
+  beforeEach(() => {
+    game = new BattleshipGame();
+    player1 = createPlayerForTesting();
+    player2 = createPlayerForTesting();
+  });
+
+  function place(player: Player, ships: BattleshipShip[] = FLEET) {
+    game.applyMove({ gameID: game.id, playerID: player.id, move: { ships } });
+  }
+
+  function fire(player: Player, row: number, col: number) {
+    game.applyMove({
+      gameID: game.id,
+      playerID: player.id,
+      move: {
+        target: { row: row as BattleshipGridPosition, col: col as BattleshipGridPosition },
+      },
+    });
+  }
+
+  /**
+   * Fires at the given squares, alternating between player1 and player2 (starting with player1)
+   */
+  function fireAll(squares: Array<[number, number]>) {
+    squares.forEach(([row, col], index) => fire(index % 2 === 0 ? player1 : player2, row, col));
+  }
+
+  describe('_join', () => {
+    it('makes the first player player1 and leaves the game waiting to start', () => {
+      game.join(player1);
+      expect(game.state.player1).toEqual(player1.id);
+      expect(game.state.status).toEqual('WAITING_TO_START');
+    });
+    it('makes the second player player2 and starts the placement phase', () => {
+      game.join(player1);
+      game.join(player2);
+      expect(game.state.player2).toEqual(player2.id);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      expect(game.state.phase).toEqual('PLACEMENT');
+    });
+    it('throws an error if the player is already in the game', () => {
+      game.join(player1);
+      expect(() => game.join(player1)).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the game is full', () => {
+      game.join(player1);
+      game.join(player2);
+      expect(() => game.join(createPlayerForTesting())).toThrowError(GAME_FULL_MESSAGE);
+    });
+  });
+
+  describe('_leave', () => {
+    it('throws an error if the player is not in the game', () => {
+      game.join(player1);
+      expect(() => game.leave(player2)).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('frees the seat if the game has not started', () => {
+      game.join(player1);
+      game.leave(player1);
+      expect(game.state.player1).toBeUndefined();
+      game.join(player2);
+      expect(game.state.player1).toEqual(player2.id);
+    });
+    it('ends the game with the other player as the winner if the game is in progress', () => {
+      game.join(player1);
+      game.join(player2);
+      game.leave(player1);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(player2.id);
+    });
+  });
+
+  describe('applyMove', () => {
+    it('throws an error if the game has not started', () => {
+      game.join(player1);
+      expect(() => place(player1)).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    describe('in the placement phase', () => {
+      beforeEach(() => {
+        game.join(player1);
+        game.join(player2);
+      });
+      it('places the fleet of a player', () => {
+        place(player2);
+        expect(game.state.fleets[player2.id]).toEqual(FLEET);
+        expect(game.state.placed).toEqual([player2.id]);
+        expect(game.state.phase).toEqual('PLACEMENT');
+      });
+      it('moves on to the firing phase once both players have placed their fleets', () => {
+        place(player1);
+        place(player2);
+        expect(game.state.phase).toEqual('FIRING');
+      });
+      it('throws an error if the player has already placed their fleet', () => {
+        place(player1);
+        expect(() => place(player1)).toThrowError(SHIPS_ALREADY_PLACED_MESSAGE);
+      });
+      it('throws an error unless the fleet has exactly one ship of each type', () => {
+        expect(() => place(player1, FLEET.slice(1))).toThrowError(INVALID_FLEET_MESSAGE);
+        expect(() => place(player1, [...FLEET.slice(1), { ...FLEET[4], row: 6 }])).toThrowError(
+          INVALID_FLEET_MESSAGE,
+        );
+        expect(() =>
+          place(player1, [
+            ...FLEET,
+            { ship: 'Destroyer', row: 8, col: 0, orientation: 'Vertical' },
+          ]),
+        ).toThrowError(INVALID_FLEET_MESSAGE);
+      });
+      it('throws an error if a ship does not fit on the board', () => {
+        expect(() => place(player1, [...FLEET.slice(0, 4), { ...FLEET[4], col: 9 }])).toThrowError(
+          SHIP_OFF_BOARD_MESSAGE,
+        );
+        expect(() =>
+          place(player1, [{ ...FLEET[0], row: 6, orientation: 'Vertical' }, ...FLEET.slice(1)]),
+        ).toThrowError(SHIP_OFF_BOARD_MESSAGE);
+        expect(game.state.placed).toEqual([]);
+      });
+      it('throws an error if two ships overlap', () => {
+        expect(() =>
+          place(player1, [
+            ...FLEET.slice(0, 4),
+            { ...FLEET[4], row: 2, col: 2, orientation: 'Vertical' },
+          ]),
+        ).toThrowError(SHIPS_OVERLAP_MESSAGE);
+        expect(game.state.placed).toEqual([]);
+      });
+      it('throws an error if a player fires before both fleets are placed', () => {
+        place(player1);
+        expect(() => fire(player1, 0, 0)).toThrowError(SHIPS_NOT_PLACED_MESSAGE);
+      });
+    });
+    describe('in the firing phase', () => {
+      beforeEach(() => {
+        game.join(player1);
+        game.join(player2);
+        place(player1);
+        place(player2);
+      });
+      it('reports a miss', () => {
+        fire(player1, 9, 9);
+        expect(game.state.shots).toEqual([
+          { player: player1.id, target: { row: 9, col: 9 }, result: 'Miss' },
+        ]);
+      });
+      it('reports a hit, and the ship that a shot sinks', () => {
+        fireAll([
+          [4, 0],
+          [9, 9],
+          [4, 1],
+        ]);
+        expect(game.state.shots[0].result).toEqual('Hit');
+        expect(game.state.shots[2]).toEqual({
+          player: player1.id,
+          target: { row: 4, col: 1 },
+          result: 'Sunk',
+          sunk: 'Destroyer',
+        });
+      });
+      it('counts only the shots of the firing player towards sinking a ship', () => {
+        fireAll([
+          [9, 9],
+          [4, 0],
+          [4, 1],
+        ]);
+        expect(game.state.shots[2].result).toEqual('Hit');
+      });
+      it('throws an error if it is not the player’s turn', () => {
+        expect(() => fire(player2, 0, 0)).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+        fire(player1, 0, 0);
+        expect(() => fire(player1, 0, 1)).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      });
+      it('throws an error if the player has already fired at the square', () => {
+        fireAll([
+          [5, 5],
+          [5, 5],
+        ]);
+        expect(() => fire(player1, 5, 5)).toThrowError(ALREADY_FIRED_MESSAGE);
+      });
+      it('ends the game once every ship of the opponent has been sunk', () => {
+        const misses: Array<[number, number]> = FLEET_SQUARES.map((_, index) => [
+          9 - Math.floor(index / 10),
+          index % 10,
+        ]);
+        FLEET_SQUARES.forEach((square, index) => {
+          fire(player1, ...square);
+          if (index < FLEET_SQUARES.length - 1) {
+            fire(player2, ...misses[index]);
+          }
+        });
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toEqual(player1.id);
+        expect(() => fire(player2, 0, 0)).toThrowError(GAME_OVER_MESSAGE);
+      });
+    });
+  });
+
+  describe('toModel', () => {
+    let spectator: Player;
+    beforeEach(() => {
+      spectator = createPlayerForTesting();
+      game.join(player1);
+      game.join(player2);
+      game.spectate(spectator);
+      place(player1);
+    });
+    it('shows each player only their own fleet', () => {
+      place(player2, [{ ...FLEET[0], row: 9 }, ...FLEET.slice(1)]);
+      expect(game.toModel(player1.id).state.fleets).toEqual({ [player1.id]: FLEET });
+      expect(game.toModel(player2.id).state.fleets[player1.id]).toBeUndefined();
+      expect(game.toModel(spectator.id).state.fleets).toEqual({});
+      expect(game.toModel().state.fleets).toEqual({});
+    });
+    it('shows everyone the shots that have been fired', () => {
+      place(player2);
+      fire(player1, 0, 0);
+      expect(game.toModel(spectator.id).state.shots).toEqual(game.state.shots);
+      expect(game.toModel(player2.id).state.shots).toEqual(game.state.shots);
+    });
+    it('shows everyone both fleets once the game is over', () => {
+      place(player2);
+      game.leave(player2);
+      expect(game.toModel(spectator.id).state.fleets).toEqual(game.state.fleets);
+    });
+  });
+
+  describe('isBattleshipMove', () => {
+    it('accepts placements and shots', () => {
+      expect(isBattleshipMove({ ships: FLEET })).toBe(true);
+      expect(isBattleshipMove({ target: { row: 3, col: 9 } })).toBe(true);
+    });
+    it('rejects moves that are off the board or missing fields', () => {
+      expect(isBattleshipMove({ target: { row: 10, col: 0 } })).toBe(false);
+      expect(isBattleshipMove({ ships: [{ ...FLEET[0], ship: 'Dinghy' }] })).toBe(false);
+      expect(isBattleshipMove({ ships: [{ ...FLEET[0], orientation: 'Diagonal' }] })).toBe(false);
+      expect(isBattleshipMove({ ships: FLEET, target: { row: 0, col: 0 } })).toBe(false);
+      expect(isBattleshipMove({})).toBe(false);
+      expect(isBattleshipMove(null)).toBe(false);
+    });
+    it('rejects malformed fleets without throwing', () => {
+      expect(isBattleshipMove({ ships: [null] })).toBe(false);
+      expect(isBattleshipMove({ ships: [...FLEET.slice(1), undefined] })).toBe(false);
+      expect(isBattleshipMove({ ships: ['Carrier'] })).toBe(false);
+      expect(isBattleshipMove({ ships: 'Carrier' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,300 @@
+import InvalidParametersError, {
+  ALREADY_FIRED_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  INVALID_FLEET_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  SHIP_OFF_BOARD_MESSAGE,
+  SHIPS_ALREADY_PLACED_MESSAGE,
+  SHIPS_NOT_PLACED_MESSAGE,
+  SHIPS_OVERLAP_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  BattleshipGameState,
+  BattleshipMove,
+  BattleshipPlacementMove,
+  BattleshipShip,
+  BattleshipShipType,
+  BattleshipShot,
+  BattleshipShotMove,
+  BattleshipSquare,
+  GameMove,
+  PlayerID,
+} from '../../types/CoveyTownSocket';
+import Game from './Game';
+
+export const BATTLESHIP_BOARD_SIZE = 10;
+
+/** The number of squares that each type of ship covers. A fleet has one ship of each type. */
+export const shipLengths: Record<BattleshipShipType, number> = {
+  Carrier: 5,
+  Battleship: 4,
+  Cruiser: 3,
+  Submarine: 3,
+  Destroyer: 2,
+};
+
+function isSquare(square: unknown): square is BattleshipSquare {
+  if (typeof square !== 'object' || square === null) {
+    return false;
+  }
+  const { row, col } = square as Record<string, unknown>;
+  return [row, col].every(
+    position =>
+      typeof position === 'number' &&
+      Number.isInteger(position) &&
+      position >= 0 &&
+      position < BATTLESHIP_BOARD_SIZE,
+  );
+}
+
+/**
+ * Checks that a move received from a client has the shape of a BattleshipMove: either a placement,
+ * with a list of ships, or a shot, with a target on the board. Placements are only checked for their
+ * shape here; whether the ships fit on the board is checked when the move is applied.
+ * @param move the move to check
+ */
+export function isBattleshipMove(move: unknown): move is BattleshipMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { ships, target } = move as Record<string, unknown>;
+  if (ships !== undefined) {
+    return (
+      target === undefined &&
+      Array.isArray(ships) &&
+      ships.every(ship => {
+        if (!isSquare(ship)) {
+          return false;
+        }
+        const { ship: shipType, orientation } = ship as unknown as Record<string, unknown>;
+        return (
+          Object.keys(shipLengths).includes(shipType as string) &&
+          (orientation === 'Horizontal' || orientation === 'Vertical')
+        );
+      })
+    );
+  }
+  return isSquare(target);
+}
+
+/**
+ * @returns the squares covered by a ship, starting from its own square
+ */
+function shipSquares(ship: BattleshipShip): Array<{ row: number; col: number }> {
+  return Array.from({ length: shipLengths[ship.ship] }, (_, index) =>
+    ship.orientation === 'Horizontal'
+      ? { row: ship.row, col: ship.col + index }
+      : { row: ship.row + index, col: ship.col },
+  );
+}
+
+/**
+ * A BattleshipGame is a Game that implements the rules of Battleship, on a 10x10 board.
+ *
+ * Each player's fleet is kept from the other player (and from spectators) until the game is over
+ * (@see _stateFor); the shots that have been fired, and what they hit, are seen by everyone.
+ * @see https://en.wikipedia.org/wiki/Battleship_(game)
+ */
+export default class BattleshipGame extends Game<BattleshipGameState, BattleshipMove> {
+  public constructor() {
+    super({
+      phase: 'PLACEMENT',
+      fleets: {},
+      placed: [],
+      shots: [],
+      status: 'WAITING_TO_START',
+    });
+  }
+
+  /*
+   * Applies a player's move to the game: a placement of their fleet in the PLACEMENT phase, or a
+   * shot at the opponent's board in the FIRING phase.
+   * Validates the move before applying it. If the move is invalid, throws an InvalidParametersError with
+   * the error message specified below.
+   * A move is invalid if:
+   *    - The game is over (GAME_OVER_MESSAGE) or not yet in progress (GAME_NOT_IN_PROGRESS_MESSAGE)
+   *    - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   * A placement is invalid if:
+   *    - The player has already placed their ships (SHIPS_ALREADY_PLACED_MESSAGE)
+   *    - It does not have exactly one ship of each type (INVALID_FLEET_MESSAGE)
+   *    - A ship does not fit on the board (SHIP_OFF_BOARD_MESSAGE)
+   *    - Two ships cover the same square (SHIPS_OVERLAP_MESSAGE)
+   * A shot is invalid if:
+   *    - Either player has not placed their ships yet (SHIPS_NOT_PLACED_MESSAGE)
+   *    - It is not the player's turn (MOVE_NOT_YOUR_TURN_MESSAGE). player1 fires first.
+   *    - The player has already fired at that square (ALREADY_FIRED_MESSAGE)
+   *
+   * Once both players have placed their ships, the game moves on to its FIRING phase.
+   * Each shot is a Miss, a Hit, or - if it hits the last square of a ship that has not been hit
+   * before - Sunk. Once every ship of the opponent has been sunk, updates the game's state to set
+   * the status to OVER and sets the winner to the player who fired the shot.
+   *
+   * @param move The move to apply to the game
+   * @throws InvalidParametersError if the move is invalid (with specific message noted above)
+   */
+  protected _applyMove(move: GameMove<BattleshipMove>): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.status !== 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    if (move.playerID !== this.state.player1 && move.playerID !== this.state.player2) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if ('ships' in move.move) {
+      this._placeShips(move.playerID, move.move);
+    } else {
+      this._fire(move.playerID, move.move);
+    }
+  }
+
+  private _placeShips(playerID: PlayerID, { ships }: BattleshipPlacementMove): void {
+    if (this.state.placed.includes(playerID)) {
+      throw new InvalidParametersError(SHIPS_ALREADY_PLACED_MESSAGE);
+    }
+    const shipTypes = Object.keys(shipLengths);
+    if (
+      ships.length !== shipTypes.length ||
+      !shipTypes.every(shipType => ships.some(ship => ship.ship === shipType))
+    ) {
+      throw new InvalidParametersError(INVALID_FLEET_MESSAGE);
+    }
+    const covered = ships.flatMap(shipSquares);
+    if (
+      covered.some(({ row, col }) => row >= BATTLESHIP_BOARD_SIZE || col >= BATTLESHIP_BOARD_SIZE)
+    ) {
+      throw new InvalidParametersError(SHIP_OFF_BOARD_MESSAGE);
+    }
+    if (new Set(covered.map(({ row, col }) => `${row},${col}`)).size !== covered.length) {
+      throw new InvalidParametersError(SHIPS_OVERLAP_MESSAGE);
+    }
+    const placed = [...this.state.placed, playerID];
+    this.state = {
+      ...this.state,
+      fleets: { ...this.state.fleets, [playerID]: ships.map(ship => ({ ...ship })) },
+      placed,
+    };
+    if (placed.length === 2) {
+      this.state = { ...this.state, phase: 'FIRING' };
+      this._firstTurn();
+    }
+  }
+
+  private _fire(playerID: PlayerID, { target }: BattleshipShotMove): void {
+    if (this.state.phase !== 'FIRING') {
+      throw new InvalidParametersError(SHIPS_NOT_PLACED_MESSAGE);
+    }
+    if (playerID !== this._playerToMove()) {
+      throw new InvalidParametersError(MOVE_NOT_YOUR_TURN_MESSAGE);
+    }
+    const ownShots = this.state.shots.filter(shot => shot.player === playerID);
+    const isTarget = ({ row, col }: { row: number; col: number }) =>
+      row === target.row && col === target.col;
+    if (ownShots.some(shot => isTarget(shot.target))) {
+      throw new InvalidParametersError(ALREADY_FIRED_MESSAGE);
+    }
+    const opponent = playerID === this.state.player1 ? this.state.player2 : this.state.player1;
+    const fleet = this.state.fleets[opponent as PlayerID];
+    const hitShip = fleet.find(ship => shipSquares(ship).some(isTarget));
+    const targets = [...ownShots.map(shot => shot.target), target];
+    const isSunk = (ship: BattleshipShip) =>
+      shipSquares(ship).every(square =>
+        targets.some(({ row, col }) => row === square.row && col === square.col),
+      );
+    const shot: BattleshipShot = { player: playerID, target: { ...target }, result: 'Miss' };
+    if (hitShip) {
+      shot.result = isSunk(hitShip) ? 'Sunk' : 'Hit';
+      shot.sunk = isSunk(hitShip) ? hitShip.ship : undefined;
+    }
+    this.state = { ...this.state, shots: [...this.state.shots, shot] };
+    if (fleet.every(isSunk)) {
+      this.state = { ...this.state, status: 'OVER', winner: playerID };
+    } else {
+      this._nextTurn();
+    }
+  }
+
+  /**
+   * Both players place their ships at the same time, so it is nobody's turn until the FIRING phase
+   */
+  protected _playerToMove(): PlayerID | undefined {
+    return this.state.phase === 'FIRING' ? super._playerToMove() : undefined;
+  }
+
+  /**
+   * Keeps each player's fleet from everyone else until the game is over
+   */
+  protected _stateFor(viewer?: PlayerID): BattleshipGameState {
+    const { fleets, status } = this.state;
+    if (status === 'OVER') {
+      return this.state;
+    }
+    return {
+      ...this.state,
+      fleets: viewer !== undefined && fleets[viewer] ? { [viewer]: fleets[viewer] } : {},
+    };
+  }
+
+  /**
+   * Adds a player to the game.
+   * The first player to join is player1, the second is player2.
+   * If the game is now full (has two players), updates the game's state to set the status to IN_PROGRESS,
+   * starting the PLACEMENT phase.
+   *
+   * @param player The player to join the game
+   * @throws InvalidParametersError if the game is over (GAME_OVER_MESSAGE), the player is already
+   *  in the game (PLAYER_ALREADY_IN_GAME_MESSAGE) or the game is full (GAME_FULL_MESSAGE)
+   */
+  protected _join(player: Player): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.player1 === player.id || this.state.player2 === player.id) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    if (this._takeSeat(player) === 0) {
+      this.state = { ...this.state, player1: player.id };
+    } else {
+      this.state = { ...this.state, player2: player.id };
+    }
+    if (this.state.player1 && this.state.player2) {
+      this.state = { ...this.state, status: 'IN_PROGRESS' };
+    }
+  }
+
+  /**
+   * Removes a player from the game.
+   * If the game is in progress, the player forfeits: updates the game's status to OVER and sets
+   *   the winner to the other player.
+   * If the game has not yet started, frees the player's seat and leaves the status as WAITING_TO_START.
+   * If the game is already over, the result is left unchanged.
+   *
+   * @param player The player to remove from the game
+   * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  protected _leave(player: Player): void {
+    const { player1, player2, status } = this.state;
+    if (player1 !== player.id && player2 !== player.id) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    this._leaveSeat(player);
+    if (status === 'IN_PROGRESS') {
+      this.state = {
+        ...this.state,
+        status: 'OVER',
+        winner: player1 === player.id ? player2 : player1,
+      };
+    } else if (status === 'WAITING_TO_START') {
+      this.state = {
+        ...this.state,
+        player1: player1 === player.id ? undefined : player1,
+        player2: player2 === player.id ? undefined : player2,
+      };
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import { createPlayerForTesting } from '../../TestUtils';
+import { INVALID_MOVE_MESSAGE, SHIPS_OVERLAP_MESSAGE } from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  BattleshipShip,
+  BattleshipShotMove,
+  GameInstanceID,
+  TownEmitter,
+} from '../../types/CoveyTownSocket';
+import BattleshipGameArea from './BattleshipGameArea';
+
+const FLEET: BattleshipShip[] = [
+  { ship: 'Carrier', row: 0, col: 0, orientation: 'Vertical' },
+  { ship: 'Battleship', row: 0, col: 1, orientation: 'Vertical' },
+  { ship: 'Cruiser', row: 0, col: 2, orientation: 'Vertical' },
+  { ship: 'Submarine', row: 0, col: 3, orientation: 'Vertical' },
+  { ship: 'Destroyer', row: 0, col: 4, orientation: 'Vertical' },
+];
+
+describe('BattleshipGameArea', () => {
+  let gameArea: BattleshipGameArea;
+  let player1: Player;
+  let player2: Player;
+  let gameID: GameInstanceID;
+  let interactableUpdateSpy: jest.SpyInstance;
+  beforeEach(() => {
+    player1 = createPlayerForTesting();
+    player2 = createPlayerForTesting();
+    gameArea = new BattleshipGameArea(
+      nanoid(),
+      { x: 0, y: 0, width: 100, height: 100 },
+      mock<TownEmitter>(),
+    );
+    gameArea.add(player1);
+    gameArea.add(player2);
+    gameID = gameArea.handleCommand({ type: 'JoinGame' }, player1).gameID;
+    gameArea.handleCommand({ type: 'JoinGame' }, player2);
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Test requires access to protected method)
+    interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+  });
+
+  it('reports its type as BattleshipArea', () => {
+    expect(gameArea.toModel().type).toEqual('BattleshipArea');
+  });
+  function fire(player: Player, row: number, col: number) {
+    gameArea.handleCommand(
+      {
+        type: 'GameMove',
+        gameID,
+        move: { target: { row, col } as BattleshipShotMove['target'] },
+      },
+      player,
+    );
+  }
+
+  /**
+   * Places both fleets, then player1 sinks every ship of player2's while player2 misses every shot
+   */
+  function playToEnd() {
+    gameArea.handleCommand({ type: 'GameMove', gameID, move: { ships: FLEET } }, player1);
+    gameArea.handleCommand({ type: 'GameMove', gameID, move: { ships: FLEET } }, player2);
+    const hits = [5, 4, 3, 3, 2].flatMap((length, col) =>
+      Array.from({ length }, (_, row) => [row, col]),
+    );
+    hits.forEach(([row, col], index) => {
+      fire(player1, row, col);
+      if (index < hits.length - 1) {
+        fire(player2, 9 - Math.floor(index / 10), index % 10);
+      }
+    });
+  }
+
+  it('keeps each fleet out of the models sent to the opponent and to spectators', () => {
+    gameArea.handleCommand({ type: 'GameMove', gameID, move: { ships: FLEET } }, player1);
+    expect(gameArea.toModel(player1.id).game?.state.fleets).toEqual({ [player1.id]: FLEET });
+    expect(gameArea.toModel(player2.id).game?.state.fleets).toEqual({});
+    expect(gameArea.toModel().game?.state.fleets).toEqual({});
+  });
+  it('shows every fleet to everyone once the game is over, and records the winner', () => {
+    playToEnd();
+    expect(gameArea.game?.state).toMatchObject({ status: 'OVER', winner: player1.id });
+    const bothFleets = { [player1.id]: FLEET, [player2.id]: FLEET };
+    expect(gameArea.toModel(player2.id).game?.state.fleets).toEqual(bothFleets);
+    expect(gameArea.toModel().game?.state.fleets).toEqual(bothFleets);
+    expect(gameArea.history).toEqual([
+      { gameID, scores: { [player1.userName]: 1, [player2.userName]: 0 } },
+    ]);
+  });
+  it('starts a new game, with no fleets placed, when a player joins after the game is over', () => {
+    playToEnd();
+    const newGameID = gameArea.handleCommand({ type: 'JoinGame' }, player2).gameID;
+    expect(newGameID).not.toEqual(gameID);
+    expect(gameArea.game?.state).toMatchObject({
+      status: 'WAITING_TO_START',
+      phase: 'PLACEMENT',
+      player1: player2.id,
+      fleets: {},
+      shots: [],
+    });
+    expect(gameArea.history.map(result => result.gameID)).toEqual([gameID]);
+  });
+  it('throws an error when the move is not a BattleshipMove', () => {
+    expect(() =>
+      gameArea.handleCommand(
+        { type: 'GameMove', gameID, move: { target: { row: 10, col: 0 } } as never },
+        player1,
+      ),
+    ).toThrowError(INVALID_MOVE_MESSAGE);
+    expect(interactableUpdateSpy).not.toHaveBeenCalled();
+  });
+  it('passes on errors from the game without calling _emitAreaChanged', () => {
+    expect(() =>
+      gameArea.handleCommand(
+        { type: 'GameMove', gameID, move: { ships: [...FLEET.slice(1), { ...FLEET[0], col: 1 }] } },
+        player1,
+      ),
+    ).toThrowError(SHIPS_OVERLAP_MESSAGE);
+    expect(interactableUpdateSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,34 @@
+import { BattleshipMove, InteractableType } from '../../types/CoveyTownSocket';
+import BattleshipGame, { isBattleshipMove } from './BattleshipGame';
+import GameArea from './GameArea';
+import { GameRegistration } from './GameRegistry';
+
+/**
+ * A BattleshipGameArea is a GameArea that hosts a BattleshipGame.
+ * @see BattleshipGame
+ * @see GameArea
+ */
+export default class BattleshipGameArea extends GameArea<BattleshipGame> {
+  protected getType(): InteractableType {
+    return 'BattleshipArea';
+  }
+
+  protected _createGame(): BattleshipGame {
+    return new BattleshipGame();
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isBattleshipMove(move);
+  }
+}
+
+/**
+ * Registers Battleship with the GameRegistry: map objects with `type: Battleship` host a BattleshipGameArea
+ */
+export const battleshipRegistration: GameRegistration<BattleshipGame, BattleshipMove> = {
+  gameType: 'Battleship',
+  interactableType: 'BattleshipArea',
+  gameClass: BattleshipGame,
+  areaClass: BattleshipGameArea,
+  isValidMove: isBattleshipMove,
+};
@@ -0,0 +1,197 @@
+import { mock } from 'jest-mock-extended';
+import { createPlayerForTesting, mockClock, MockClock } from '../../TestUtils';
+import {
+  CANNOT_CHALLENGE_SELF_MESSAGE,
+  CHALLENGE_NOT_FOUND_MESSAGE,
+  GAME_IN_PROGRESS_MESSAGE,
+  INVALID_COMMAND_MESSAGE,
+  PLAYER_NOT_IN_TOWN_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { GameChallenge, TownEmitter } from '../../types/CoveyTownSocket';
+import ViewingArea from '../ViewingArea';
+import ChallengeService, { CHALLENGE_EXPIRY_MS, isChallengeCommand } from './ChallengeService';
+import TicTacToeGameArea from './TicTacToeGameArea';
+
+describe('ChallengeService', () => {
+  let area: TicTacToeGameArea;
+  let clock: MockClock;
+  let players: Player[];
+  let challenger: Player;
+  let opponent: Player;
+  let onChallenge: jest.Mock;
+  let challenges: ChallengeService;
+
+  beforeEach(() => {
+    area = new TicTacToeGameArea(
+      'TicTacToe',
+      { x: 0, y: 0, width: 10, height: 10 },
+      mock<TownEmitter>(),
+    );
+    clock = mockClock();
+    players = [createPlayerForTesting(), createPlayerForTesting(), createPlayerForTesting()];
+    [challenger, opponent] = players;
+    onChallenge = jest.fn();
+    challenges = new ChallengeService(() => players, onChallenge, clock);
+  });
+
+  it('isChallengeCommand recognizes only the challenge commands', () => {
+    expect(isChallengeCommand({ type: 'ChallengePlayer', opponentID: opponent.id })).toBe(true);
+    expect(isChallengeCommand({ type: 'AcceptChallenge', challengeID: '1' })).toBe(true);
+    expect(isChallengeCommand({ type: 'DeclineChallenge', challengeID: '1' })).toBe(true);
+    expect(isChallengeCommand({ type: 'JoinGame' })).toBe(false);
+  });
+
+  describe('challenge', () => {
+    it('delivers the challenge to the opponent only', () => {
+      const challenge = challenges.challenge(challenger, opponent.id, area);
+      expect(challenge).toEqual({
+        id: challenge.id,
+        interactableID: 'TicTacToe',
+        challenger: challenger.id,
+        opponent: opponent.id,
+        expiresAt: CHALLENGE_EXPIRY_MS,
+      });
+      expect(onChallenge).toHaveBeenCalledTimes(1);
+      expect(onChallenge).toHaveBeenCalledWith(opponent, challenge);
+      expect(challenges.challengesFor(opponent.id)).toEqual([challenge]);
+      expect(challenges.challengesFor(challenger.id)).toEqual([]);
+    });
+    it('does not seat anyone until the challenge is accepted', () => {
+      challenges.challenge(challenger, opponent.id, area);
+      expect(area.game).toBeUndefined();
+    });
+    it('throws an error if the area is not a game area', () => {
+      const viewingArea = new ViewingArea(
+        { id: 'Viewing', video: undefined, isPlaying: false, elapsedTimeSec: 0, occupants: [] },
+        { x: 20, y: 20, width: 10, height: 10 },
+        mock<TownEmitter>(),
+      );
+      expect(() => challenges.challenge(challenger, opponent.id, viewingArea)).toThrowError(
+        INVALID_COMMAND_MESSAGE,
+      );
+    });
+    it('throws an error if the opponent is not in the town', () => {
+      expect(() =>
+        challenges.challenge(challenger, createPlayerForTesting().id, area),
+      ).toThrowError(PLAYER_NOT_IN_TOWN_MESSAGE);
+    });
+    it('throws an error if the player challenges themselves', () => {
+      expect(() => challenges.challenge(challenger, challenger.id, area)).toThrowError(
+        CANNOT_CHALLENGE_SELF_MESSAGE,
+      );
+    });
+    it('throws an error if a game is already being played in the area', () => {
+      area.handleCommand({ type: 'JoinGame' }, players[2]);
+      expect(() => challenges.challenge(challenger, opponent.id, area)).toThrowError(
+        GAME_IN_PROGRESS_MESSAGE,
+      );
+      expect(onChallenge).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('accept', () => {
+    let challenge: GameChallenge;
+    beforeEach(() => {
+      challenge = challenges.challenge(challenger, opponent.id, area);
+    });
+    it('starts a game in the area with the challenger and the opponent seated', () => {
+      const gameID = challenges.accept(opponent, challenge.id);
+      expect(area.game?.id).toEqual(gameID);
+      expect(area.game?.state.x).toEqual(challenger.id);
+      expect(area.game?.state.o).toEqual(opponent.id);
+      expect(area.game?.state.status).toEqual('IN_PROGRESS');
+      expect(challenges.challengesFor(opponent.id)).toEqual([]);
+    });
+    it('leaves no seat for anyone else to take', () => {
+      challenges.accept(opponent, challenge.id);
+      expect(() => area.handleCommand({ type: 'JoinGame' }, players[2])).toThrowError();
+    });
+    it('throws an error if the challenge was not made to the player', () => {
+      expect(() => challenges.accept(challenger, challenge.id)).toThrowError(
+        CHALLENGE_NOT_FOUND_MESSAGE,
+      );
+      expect(() => challenges.accept(opponent, 'nonsense')).toThrowError(
+        CHALLENGE_NOT_FOUND_MESSAGE,
+      );
+    });
+    it('throws an error if the challenge has expired', () => {
+      clock.advance(CHALLENGE_EXPIRY_MS - 1);
+      expect(challenges.challengesFor(opponent.id)).toEqual([challenge]);
+      clock.advance(1);
+      expect(challenges.challengesFor(opponent.id)).toEqual([]);
+      expect(() => challenges.accept(opponent, challenge.id)).toThrowError(
+        CHALLENGE_NOT_FOUND_MESSAGE,
+      );
+    });
+    it('throws an error if the challenger has left the town', () => {
+      players = players.filter(eachPlayer => eachPlayer !== challenger);
+      expect(() => challenges.accept(opponent, challenge.id)).toThrowError(
+        PLAYER_NOT_IN_TOWN_MESSAGE,
+      );
+      expect(area.game).toBeUndefined();
+    });
+    it('throws an error if a game has started in the area since the challenge was made', () => {
+      area.handleCommand({ type: 'JoinGame' }, players[2]);
+      expect(() => challenges.accept(opponent, challenge.id)).toThrowError(
+        GAME_IN_PROGRESS_MESSAGE,
+      );
+      expect(challenges.challengesFor(opponent.id)).toEqual([]);
+    });
+  });
+
+  describe('decline', () => {
+    it('answers the challenge without starting a game', () => {
+      const challenge = challenges.challenge(challenger, opponent.id, area);
+      challenges.decline(opponent, challenge.id);
+      expect(challenges.challengesFor(opponent.id)).toEqual([]);
+      expect(area.game).toBeUndefined();
+      expect(() => challenges.accept(opponent, challenge.id)).toThrowError(
+        CHALLENGE_NOT_FOUND_MESSAGE,
+      );
+    });
+    it('throws an error if the challenge was not made to the player', () => {
+      const challenge = challenges.challenge(challenger, opponent.id, area);
+      expect(() => challenges.decline(players[2], challenge.id)).toThrowError(
+        CHALLENGE_NOT_FOUND_MESSAGE,
+      );
+    });
+  });
+
+  describe('handleCommand', () => {
+    it('dispatches each kind of challenge command', () => {
+      const challenge = challenges.handleCommand(
+        { type: 'ChallengePlayer', opponentID: opponent.id },
+        challenger,
+        area,
+      );
+      expect(challenges.challengesFor(opponent.id)).toEqual([challenge]);
+      const { gameID } = challenges.handleCommand(
+        { type: 'AcceptChallenge', challengeID: challenge.id },
+        opponent,
+        area,
+      );
+      expect(area.game?.id).toEqual(gameID);
+    });
+    it('declines a challenge with DeclineChallenge', () => {
+      const challenge = challenges.challenge(challenger, opponent.id, area);
+      expect(
+        challenges.handleCommand(
+          { type: 'DeclineChallenge', challengeID: challenge.id },
+          opponent,
+          area,
+        ),
+      ).toBeUndefined();
+      expect(challenges.challengesFor(opponent.id)).toEqual([]);
+    });
+  });
+
+  it('remove withdraws the challenges made by and to a player', () => {
+    challenges.challenge(challenger, opponent.id, area);
+    const other = challenges.challenge(players[2], challenger.id, area);
+    const kept = challenges.challenge(players[2], opponent.id, area);
+    challenges.remove(challenger);
+    expect(challenges.challengesFor(opponent.id)).toEqual([kept]);
+    expect(challenges.challengesFor(challenger.id)).not.toContain(other);
+  });
+});
@@ -0,0 +1,231 @@
+import { nanoid } from 'nanoid';
+import Clock, { systemClock, TimerHandle } from '../../lib/Clock';
+import InvalidParametersError, {
+  CANNOT_CHALLENGE_SELF_MESSAGE,
+  CHALLENGE_NOT_FOUND_MESSAGE,
+  GAME_IN_PROGRESS_MESSAGE,
+  INVALID_COMMAND_MESSAGE,
+  PLAYER_NOT_IN_TOWN_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  AcceptChallengeCommand,
+  ChallengeID,
+  ChallengePlayerCommand,
+  DeclineChallengeCommand,
+  GameChallenge,
+  GameInstanceID,
+  GameState,
+  InteractableCommand,
+  InteractableCommandReturnType,
+  PlayerID,
+} from '../../types/CoveyTownSocket';
+import InteractableArea from '../InteractableArea';
+import Game from './Game';
+import GameArea from './GameArea';
+
+/** The number of milliseconds that a player has to answer a challenge before it expires */
+export const CHALLENGE_EXPIRY_MS = 60 * 1000;
+
+type ChallengeCommand = ChallengePlayerCommand | AcceptChallengeCommand | DeclineChallengeCommand;
+
+/**
+ * @returns true if the command is one that is handled by a ChallengeService rather than by the
+ *  interactable that it is sent to
+ */
+export function isChallengeCommand(command: InteractableCommand): command is ChallengeCommand {
+  return (
+    command.type === 'ChallengePlayer' ||
+    command.type === 'AcceptChallenge' ||
+    command.type === 'DeclineChallenge'
+  );
+}
+
+/**
+ * A ChallengeService keeps track of the challenges that players in a town have made to each other.
+ * A challenge names a game area and an opponent, and is delivered only to that opponent (through the
+ * onChallenge listener). If the opponent accepts it before it expires, a new game is started in that
+ * area with both players already seated, so that nobody else can take either seat.
+ */
+export default class ChallengeService {
+  private _challenges: Map<ChallengeID, GameChallenge> = new Map();
+
+  private _challengeAreas: Map<ChallengeID, GameArea<Game<GameState, unknown>>> = new Map();
+
+  private _expiryTimers: Map<ChallengeID, TimerHandle> = new Map();
+
+  private _players: () => Player[];
+
+  private _onChallenge: (player: Player, challenge: GameChallenge) => void;
+
+  private _clock: Clock;
+
+  /**
+   * Creates a new ChallengeService
+   *
+   * @param players returns the players in the town, among which to look for opponents
+   * @param onChallenge called with the opponent and the challenge whenever a challenge is made
+   * @param clock the clock that challenges expire by
+   */
+  public constructor(
+    players: () => Player[],
+    onChallenge: (player: Player, challenge: GameChallenge) => void,
+    clock: Clock = systemClock,
+  ) {
+    this._players = players;
+    this._onChallenge = onChallenge;
+    this._clock = clock;
+  }
+
+  /**
+   * @returns the challenges that have been made to a player and have not yet been answered or expired
+   */
+  public challengesFor(playerID: PlayerID): GameChallenge[] {
+    return [...this._challenges.values()].filter(challenge => challenge.opponent === playerID);
+  }
+
+  /**
+   * Handles a ChallengePlayer, AcceptChallenge or DeclineChallenge command
+   *
+   * @param command the command to handle
+   * @param player the player who sent the command
+   * @param area the interactable that the command was sent to
+   * @returns the challenge that was made for ChallengePlayer, the ID of the new game for AcceptChallenge
+   * @throws InvalidParametersError if the command is invalid (@see challenge, @see accept, @see decline)
+   */
+  public handleCommand<CommandType extends ChallengeCommand>(
+    command: CommandType,
+    player: Player,
+    area: InteractableArea,
+  ): InteractableCommandReturnType<CommandType> {
+    if (command.type === 'ChallengePlayer') {
+      return this.challenge(
+        player,
+        command.opponentID,
+        area,
+      ) as InteractableCommandReturnType<CommandType>;
+    }
+    if (command.type === 'AcceptChallenge') {
+      return {
+        gameID: this.accept(player, command.challengeID),
+      } as InteractableCommandReturnType<CommandType>;
+    }
+    this.decline(player, command.challengeID);
+    return undefined as InteractableCommandReturnType<CommandType>;
+  }
+
+  /**
+   * Challenges another player to a game in a game area, and delivers the challenge to them
+   *
+   * @param challenger the player making the challenge
+   * @param opponentID the player being challenged
+   * @param area the game area to play in
+   * @returns the challenge
+   * @throws InvalidParametersError if:
+   *  - The area is not a game area (INVALID_COMMAND_MESSAGE)
+   *  - The opponent is not in the town (PLAYER_NOT_IN_TOWN_MESSAGE)
+   *  - The opponent is the challenger (CANNOT_CHALLENGE_SELF_MESSAGE)
+   *  - A game is already being played in the area (GAME_IN_PROGRESS_MESSAGE)
+   */
+  public challenge(
+    challenger: Player,
+    opponentID: PlayerID,
+    area: InteractableArea,
+  ): GameChallenge {
+    if (!(area instanceof GameArea)) {
+      throw new InvalidParametersError(INVALID_COMMAND_MESSAGE);
+    }
+    const opponent = this._player(opponentID);
+    if (!opponent) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_TOWN_MESSAGE);
+    }
+    if (opponent.id === challenger.id) {
+      throw new InvalidParametersError(CANNOT_CHALLENGE_SELF_MESSAGE);
+    }
+    if (!area.isAvailable) {
+      throw new InvalidParametersError(GAME_IN_PROGRESS_MESSAGE);
+    }
+    const challenge: GameChallenge = {
+      id: nanoid(),
+      interactableID: area.id,
+      challenger: challenger.id,
+      opponent: opponent.id,
+      expiresAt: this._clock.now() + CHALLENGE_EXPIRY_MS,
+    };
+    this._challenges.set(challenge.id, challenge);
+    this._expiryTimers.set(
+      challenge.id,
+      this._clock.setTimeout(() => this._withdraw(challenge.id), CHALLENGE_EXPIRY_MS),
+    );
+    this._challengeAreas.set(challenge.id, area);
+    this._onChallenge(opponent, challenge);
+    return challenge;
+  }
+
+  /**
+   * Accepts a challenge, starting a new game in its area with the challenger and the opponent seated
+   * in that order. The challenge is answered whether or not the game can be started.
+   *
+   * @param player the player accepting the challenge
+   * @param challengeID the challenge to accept
+   * @returns the ID of the new game
+   * @throws InvalidParametersError if:
+   *  - There is no unanswered challenge with that ID to the player (CHALLENGE_NOT_FOUND_MESSAGE)
+   *  - The challenger has left the town (PLAYER_NOT_IN_TOWN_MESSAGE)
+   *  - A game has started in the area since the challenge was made (GAME_IN_PROGRESS_MESSAGE)
+   */
+  public accept(player: Player, challengeID: ChallengeID): GameInstanceID {
+    const challenge = this._challengeTo(player, challengeID);
+    const area = this._challengeAreas.get(challengeID) as GameArea<Game<GameState, unknown>>;
+    this._withdraw(challengeID);
+    const challenger = this._player(challenge.challenger);
+    if (!challenger) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_TOWN_MESSAGE);
+    }
+    return area.startGame([challenger, player]);
+  }
+
+  /**
+   * Declines a challenge
+   *
+   * @param player the player declining the challenge
+   * @param challengeID the challenge to decline
+   * @throws InvalidParametersError if there is no unanswered challenge with that ID to the player
+   *  (CHALLENGE_NOT_FOUND_MESSAGE)
+   */
+  public decline(player: Player, challengeID: ChallengeID): void {
+    this._challengeTo(player, challengeID);
+    this._withdraw(challengeID);
+  }
+
+  /**
+   * Withdraws every challenge made by or to a player, e.g. when they leave the town
+   */
+  public remove(player: Player): void {
+    [...this._challenges.values()]
+      .filter(challenge => challenge.challenger === player.id || challenge.opponent === player.id)
+      .forEach(challenge => this._withdraw(challenge.id));
+  }
+
+  private _challengeTo(player: Player, challengeID: ChallengeID): GameChallenge {
+    const challenge = this._challenges.get(challengeID);
+    if (!challenge || challenge.opponent !== player.id) {
+      throw new InvalidParametersError(CHALLENGE_NOT_FOUND_MESSAGE);
+    }
+    return challenge;
+  }
+
+  private _withdraw(challengeID: ChallengeID): void {
+    const timer = this._expiryTimers.get(challengeID);
+    if (timer !== undefined) {
+      this._clock.clearTimeout(timer);
+    }
+    this._challenges.delete(challengeID);
+    this._challengeAreas.delete(challengeID);
+    this._expiryTimers.delete(challengeID);
+  }
+
+  private _player(playerID: PlayerID): Player | undefined {
+    return this._players().find(eachPlayer => eachPlayer.id === playerID);
+  }
+}
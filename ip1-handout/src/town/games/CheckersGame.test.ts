@@ -0,0 +1,415 @@
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  BOARD_POSITION_NOT_EMPTY_MESSAGE,
+  CAPTURE_REQUIRED_MESSAGE,
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  INVALID_STEP_MESSAGE,
+  JUMP_NOT_FINISHED_MESSAGE,
+  MOVE_BACKWARDS_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  NO_PIECE_TO_MOVE_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  PROMOTION_ENDS_MOVE_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  CheckersColor,
+  CheckersGridPosition,
+  CheckersPiece,
+  CheckersSquare,
+} from '../../types/CoveyTownSocket';
+import CheckersGame, { CHECKERS_BOARD_SIZE, isCheckersMove } from './CheckersGame';
+
+describe('CheckersGame', () => {
+  let game: CheckersGame;
+  let black: Player;
+  let red: Player;
+
+  beforeEach(() => {
+    game = new CheckersGame();
+    black = createPlayerForTesting();
+    red = createPlayerForTesting();
+  });
+
+  function square(row: number, col: number): CheckersSquare {
+    return { row: row as CheckersGridPosition, col: col as CheckersGridPosition };
+  }
+
+  function piece(color: CheckersColor, row: number, col: number, king = false): CheckersPiece {
+    return { ...square(row, col), color, king };
+  }
+
+  /**
+   * Moves a piece along a path of [row, col] squares
+   */
+  function move(player: Player, path: Array<[number, number]>) {
+    game.applyMove({
+      gameID: game.id,
+      playerID: player.id,
+      move: {
+        gamePiece: player === black ? 'Black' : 'Red',
+        path: path.map(([row, col]) => square(row, col)),
+      },
+    });
+  }
+
+  /**
+   * Replaces the pieces on the board, so that a test can start from any position
+   */
+  function placePieces(pieces: CheckersPiece[]) {
+    const board: Array<Array<CheckersPiece | undefined>> = Array.from(
+      { length: CHECKERS_BOARD_SIZE },
+      () => Array(CHECKERS_BOARD_SIZE).fill(undefined),
+    );
+    pieces.forEach(eachPiece => {
+      board[eachPiece.row][eachPiece.col] = eachPiece;
+    });
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Test requires access to private field)
+    game._board = board;
+  }
+
+  function pieceAt(row: number, col: number): CheckersPiece | undefined {
+    return game.state.pieces.find(eachPiece => eachPiece.row === row && eachPiece.col === col);
+  }
+
+  it('starts with twelve pieces of each color on the dark squares', () => {
+    const { pieces } = game.state;
+    expect(pieces.filter(eachPiece => eachPiece.color === 'Black')).toHaveLength(12);
+    expect(pieces.filter(eachPiece => eachPiece.color === 'Red')).toHaveLength(12);
+    pieces.forEach(eachPiece => {
+      expect((eachPiece.row + eachPiece.col) % 2).toEqual(1);
+      expect(eachPiece.king).toBe(false);
+      expect(eachPiece.color).toEqual(eachPiece.row < 3 ? 'Red' : 'Black');
+    });
+  });
+
+  describe('_join', () => {
+    it('makes the first player black and the second player red, and starts the game', () => {
+      game.join(black);
+      expect(game.state.black).toEqual(black.id);
+      expect(game.state.status).toEqual('WAITING_TO_START');
+      game.join(red);
+      expect(game.state.red).toEqual(red.id);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+    });
+    it('throws an error if the player is already in the game', () => {
+      game.join(black);
+      expect(() => game.join(black)).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the game is full', () => {
+      game.join(black);
+      game.join(red);
+      expect(() => game.join(createPlayerForTesting())).toThrowError(GAME_FULL_MESSAGE);
+    });
+    it('throws an error if the game is over', () => {
+      game.join(black);
+      game.join(red);
+      game.leave(red);
+      expect(() => game.join(createPlayerForTesting())).toThrowError(GAME_OVER_MESSAGE);
+    });
+  });
+
+  describe('_leave', () => {
+    it('throws an error if the player is not in the game', () => {
+      game.join(black);
+      expect(() => game.leave(red)).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('frees the seat if the game has not started', () => {
+      game.join(black);
+      game.leave(black);
+      expect(game.state.black).toBeUndefined();
+      expect(game.state.status).toEqual('WAITING_TO_START');
+    });
+    it('ends the game with the other player as the winner if the game is in progress', () => {
+      game.join(black);
+      game.join(red);
+      game.leave(black);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(red.id);
+    });
+  });
+
+  describe('applyMove', () => {
+    it('throws an error if the game has not started', () => {
+      game.join(black);
+      expect(() =>
+        move(black, [
+          [5, 0],
+          [4, 1],
+        ]),
+      ).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    describe('when the game is in progress', () => {
+      beforeEach(() => {
+        game.join(black);
+        game.join(red);
+      });
+      it('moves a piece one square diagonally forward', () => {
+        move(black, [
+          [5, 0],
+          [4, 1],
+        ]);
+        expect(pieceAt(5, 0)).toBeUndefined();
+        expect(pieceAt(4, 1)).toEqual(piece('Black', 4, 1));
+        expect(game.state.moves).toEqual([
+          { gamePiece: 'Black', path: [square(5, 0), square(4, 1)] },
+        ]);
+      });
+      it('throws an error if it is not the player’s turn', () => {
+        expect(() =>
+          move(red, [
+            [2, 1],
+            [3, 0],
+          ]),
+        ).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      });
+      it('throws an error if the player is not in the game', () => {
+        expect(() =>
+          game.applyMove({
+            gameID: game.id,
+            playerID: createPlayerForTesting().id,
+            move: { gamePiece: 'Black', path: [square(5, 0), square(4, 1)] },
+          }),
+        ).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+      });
+      it('throws an error if the player does not have a piece on the first square', () => {
+        expect(() =>
+          move(black, [
+            [4, 1],
+            [3, 2],
+          ]),
+        ).toThrowError(NO_PIECE_TO_MOVE_MESSAGE);
+        expect(() =>
+          move(black, [
+            [2, 1],
+            [3, 2],
+          ]),
+        ).toThrowError(NO_PIECE_TO_MOVE_MESSAGE);
+      });
+      it('throws an error if the path is not a diagonal step', () => {
+        expect(() =>
+          move(black, [
+            [5, 0],
+            [4, 0],
+          ]),
+        ).toThrowError(INVALID_STEP_MESSAGE);
+        expect(() =>
+          move(black, [
+            [5, 0],
+            [2, 3],
+          ]),
+        ).toThrowError(INVALID_STEP_MESSAGE);
+        expect(() =>
+          move(black, [
+            [5, 0],
+            [4, 1],
+            [3, 2],
+          ]),
+        ).toThrowError(INVALID_STEP_MESSAGE);
+      });
+      it('throws an error if the piece lands on another piece', () => {
+        expect(() =>
+          move(black, [
+            [6, 1],
+            [5, 2],
+          ]),
+        ).toThrowError(BOARD_POSITION_NOT_EMPTY_MESSAGE);
+      });
+      it('requires a capture when one is available', () => {
+        move(black, [
+          [5, 2],
+          [4, 3],
+        ]);
+        move(red, [
+          [2, 5],
+          [3, 4],
+        ]);
+        expect(() =>
+          move(black, [
+            [5, 0],
+            [4, 1],
+          ]),
+        ).toThrowError(CAPTURE_REQUIRED_MESSAGE);
+        move(black, [
+          [4, 3],
+          [2, 5],
+        ]);
+        expect(pieceAt(3, 4)).toBeUndefined();
+        expect(pieceAt(2, 5)).toEqual(piece('Black', 2, 5));
+        expect(game.state.pieces.filter(eachPiece => eachPiece.color === 'Red')).toHaveLength(11);
+      });
+      it('throws an error if a jump does not go over an opponent’s piece', () => {
+        placePieces([piece('Black', 5, 2), piece('Black', 4, 3), piece('Red', 0, 1)]);
+        expect(() =>
+          move(black, [
+            [5, 2],
+            [3, 4],
+          ]),
+        ).toThrowError(INVALID_STEP_MESSAGE);
+        expect(() =>
+          move(black, [
+            [5, 2],
+            [3, 0],
+          ]),
+        ).toThrowError(INVALID_STEP_MESSAGE);
+      });
+      it('captures several pieces in a single move', () => {
+        placePieces([
+          piece('Black', 6, 1),
+          piece('Red', 5, 2),
+          piece('Red', 3, 4),
+          piece('Red', 0, 7),
+        ]);
+        move(black, [
+          [6, 1],
+          [4, 3],
+          [2, 5],
+        ]);
+        expect(game.state.pieces).toEqual([piece('Red', 0, 7), piece('Black', 2, 5)]);
+        expect(game.state.status).toEqual('IN_PROGRESS');
+      });
+      it('throws an error if a jump sequence stops while another capture is possible', () => {
+        placePieces([
+          piece('Black', 6, 1),
+          piece('Red', 5, 2),
+          piece('Red', 3, 4),
+          piece('Red', 0, 7),
+        ]);
+        expect(() =>
+          move(black, [
+            [6, 1],
+            [4, 3],
+          ]),
+        ).toThrowError(JUMP_NOT_FINISHED_MESSAGE);
+        expect(game.state.moves).toEqual([]);
+      });
+      it('only lets kings move backwards', () => {
+        placePieces([piece('Black', 4, 1), piece('Black', 4, 5, true), piece('Red', 0, 1)]);
+        expect(() =>
+          move(black, [
+            [4, 1],
+            [5, 2],
+          ]),
+        ).toThrowError(MOVE_BACKWARDS_MESSAGE);
+        move(black, [
+          [4, 5],
+          [5, 6],
+        ]);
+        expect(pieceAt(5, 6)).toEqual(piece('Black', 5, 6, true));
+      });
+      it('crowns a piece that reaches the far row', () => {
+        placePieces([piece('Black', 1, 2), piece('Red', 3, 6)]);
+        move(black, [
+          [1, 2],
+          [0, 1],
+        ]);
+        expect(pieceAt(0, 1)).toEqual(piece('Black', 0, 1, true));
+      });
+      it('ends the move of a piece when it is crowned', () => {
+        placePieces([
+          piece('Black', 2, 1),
+          piece('Red', 1, 2),
+          piece('Red', 1, 4),
+          piece('Red', 3, 6),
+        ]);
+        expect(() =>
+          move(black, [
+            [2, 1],
+            [0, 3],
+            [2, 5],
+          ]),
+        ).toThrowError(PROMOTION_ENDS_MOVE_MESSAGE);
+        move(black, [
+          [2, 1],
+          [0, 3],
+        ]);
+        expect(pieceAt(0, 3)).toEqual(piece('Black', 0, 3, true));
+        expect(pieceAt(1, 4)).toEqual(piece('Red', 1, 4));
+      });
+      it('declares a win when the opponent has no pieces left', () => {
+        placePieces([piece('Black', 4, 1), piece('Red', 3, 2)]);
+        move(black, [
+          [4, 1],
+          [2, 3],
+        ]);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toEqual(black.id);
+        expect(() =>
+          move(red, [
+            [2, 3],
+            [3, 4],
+          ]),
+        ).toThrowError(GAME_OVER_MESSAGE);
+      });
+      it('declares a win when the opponent’s pieces cannot move', () => {
+        placePieces([
+          piece('Black', 7, 0),
+          piece('Black', 7, 2),
+          piece('Black', 5, 0),
+          piece('Black', 5, 2),
+          piece('Black', 4, 5),
+          piece('Red', 6, 1),
+        ]);
+        move(black, [
+          [4, 5],
+          [3, 4],
+        ]);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toEqual(black.id);
+      });
+    });
+  });
+
+  describe('undoLastMove', () => {
+    it('takes back a capture, putting the captured piece back on the board', () => {
+      game.join(black);
+      game.join(red);
+      move(black, [
+        [5, 2],
+        [4, 3],
+      ]);
+      move(red, [
+        [2, 5],
+        [3, 4],
+      ]);
+      move(black, [
+        [4, 3],
+        [2, 5],
+      ]);
+      expect(game.state.pieces.filter(eachPiece => eachPiece.color === 'Red')).toHaveLength(11);
+      game.undoLastMove();
+      expect(game.state.moves).toHaveLength(2);
+      expect(game.state.pieces.filter(eachPiece => eachPiece.color === 'Red')).toHaveLength(12);
+      expect(pieceAt(3, 4)).toEqual(piece('Red', 3, 4));
+      expect(pieceAt(4, 3)).toEqual(piece('Black', 4, 3));
+      move(black, [
+        [4, 3],
+        [2, 5],
+      ]);
+      expect(pieceAt(2, 5)).toEqual(piece('Black', 2, 5));
+    });
+  });
+
+  describe('isCheckersMove', () => {
+    it('accepts moves with a game piece and a path of squares on the board', () => {
+      expect(isCheckersMove({ gamePiece: 'Black', path: [square(5, 0), square(4, 1)] })).toBe(true);
+      expect(
+        isCheckersMove({ gamePiece: 'Red', path: [square(2, 1), square(4, 3), square(6, 5)] }),
+      ).toBe(true);
+    });
+    it('rejects moves with a short path, squares off the board or missing fields', () => {
+      expect(isCheckersMove({ gamePiece: 'Black', path: [square(5, 0)] })).toBe(false);
+      expect(isCheckersMove({ gamePiece: 'Black', path: [square(5, 0), square(8, 1)] })).toBe(
+        false,
+      );
+      expect(isCheckersMove({ gamePiece: 'Black', path: [square(5, 0), { row: 4 }] })).toBe(false);
+      expect(isCheckersMove({ gamePiece: 'X', path: [square(5, 0), square(4, 1)] })).toBe(false);
+      expect(isCheckersMove({ gamePiece: 'Black' })).toBe(false);
+      expect(isCheckersMove(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,372 @@
+import InvalidParametersError, {
+  BOARD_POSITION_NOT_EMPTY_MESSAGE,
+  CAPTURE_REQUIRED_MESSAGE,
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  INVALID_STEP_MESSAGE,
+  JUMP_NOT_FINISHED_MESSAGE,
+  MOVE_BACKWARDS_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  NO_PIECE_TO_MOVE_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  PROMOTION_ENDS_MOVE_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  CheckersColor,
+  CheckersGameState,
+  CheckersGridPosition,
+  CheckersMove,
+  CheckersPiece,
+  CheckersSquare,
+  GameMove,
+  PlayerID,
+} from '../../types/CoveyTownSocket';
+import Game from './Game';
+
+export const CHECKERS_BOARD_SIZE = 8;
+
+type CheckersBoard = Array<Array<CheckersPiece | undefined>>;
+
+/**
+ * Checks that a move received from a client has the shape of a CheckersMove
+ * @param move the move to check
+ * @returns true if the move has a valid game piece and a path of at least two squares on the board
+ */
+export function isCheckersMove(move: unknown): move is CheckersMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { gamePiece, path } = move as Record<string, unknown>;
+  const isIndex = (value: unknown) =>
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value < CHECKERS_BOARD_SIZE;
+  return (
+    (gamePiece === 'Black' || gamePiece === 'Red') &&
+    Array.isArray(path) &&
+    path.length >= 2 &&
+    path.every(
+      square =>
+        typeof square === 'object' && square !== null && isIndex(square.row) && isIndex(square.col),
+    )
+  );
+}
+
+/**
+ * The direction (in rows) that a color's pieces move in until they are crowned
+ */
+function forward(color: CheckersColor): number {
+  return color === 'Black' ? -1 : 1;
+}
+
+/**
+ * The row that a color's pieces are crowned on
+ */
+function kingRow(color: CheckersColor): number {
+  return color === 'Black' ? 0 : CHECKERS_BOARD_SIZE - 1;
+}
+
+/**
+ * The pieces at the start of a game: each color fills the dark squares of the three rows
+ * nearest to it. Red starts at the top of the board (row 0), and black at the bottom.
+ */
+function initialPieces(): CheckersPiece[] {
+  const pieces: CheckersPiece[] = [];
+  for (let row = 0; row < CHECKERS_BOARD_SIZE; row++) {
+    for (let col = (row + 1) % 2; col < CHECKERS_BOARD_SIZE; col += 2) {
+      if (row < 3 || row >= CHECKERS_BOARD_SIZE - 3) {
+        pieces.push({
+          row: row as CheckersGridPosition,
+          col: col as CheckersGridPosition,
+          color: row < 3 ? 'Red' : 'Black',
+          king: false,
+        });
+      }
+    }
+  }
+  return pieces;
+}
+
+/**
+ * The squares that a piece could land on by moving `distance` squares diagonally in each of the
+ * directions that it is allowed to move in, whether or not they are empty
+ */
+function reachableSquares(piece: CheckersPiece, distance: number): CheckersSquare[] {
+  const rowSteps = piece.king ? [-1, 1] : [forward(piece.color)];
+  const squares: CheckersSquare[] = [];
+  rowSteps.forEach(rowStep =>
+    [-1, 1].forEach(colStep => {
+      const row = piece.row + rowStep * distance;
+      const col = piece.col + colStep * distance;
+      if (row >= 0 && row < CHECKERS_BOARD_SIZE && col >= 0 && col < CHECKERS_BOARD_SIZE) {
+        squares.push({ row: row as CheckersGridPosition, col: col as CheckersGridPosition });
+      }
+    }),
+  );
+  return squares;
+}
+
+/**
+ * Checks whether a piece can capture an opponent's piece by jumping over it
+ */
+function canJump(board: CheckersBoard, piece: CheckersPiece): boolean {
+  return reachableSquares(piece, 2).some(to => {
+    const jumped = board[(piece.row + to.row) / 2][(piece.col + to.col) / 2];
+    return !board[to.row][to.col] && jumped !== undefined && jumped.color !== piece.color;
+  });
+}
+
+/**
+ * Checks whether a piece can move one square diagonally into an empty square
+ */
+function canStep(board: CheckersBoard, piece: CheckersPiece): boolean {
+  return reachableSquares(piece, 1).some(to => !board[to.row][to.col]);
+}
+
+/**
+ * Checks that a piece can land on a square by moving `distance` squares diagonally, ignoring
+ * whether there is a piece to jump over
+ */
+function checkLanding(
+  board: CheckersBoard,
+  piece: CheckersPiece,
+  to: CheckersSquare,
+  distance: number,
+): void {
+  const rowStep = to.row - piece.row;
+  if (Math.abs(rowStep) !== distance || Math.abs(to.col - piece.col) !== distance) {
+    throw new InvalidParametersError(INVALID_STEP_MESSAGE);
+  }
+  if (!piece.king && Math.sign(rowStep) !== forward(piece.color)) {
+    throw new InvalidParametersError(MOVE_BACKWARDS_MESSAGE);
+  }
+  if (board[to.row][to.col]) {
+    throw new InvalidParametersError(BOARD_POSITION_NOT_EMPTY_MESSAGE);
+  }
+}
+
+function piecesOf(board: CheckersBoard, color: CheckersColor): CheckersPiece[] {
+  return board.flat().filter((piece): piece is CheckersPiece => piece?.color === color);
+}
+
+/**
+ * A CheckersGame is a Game that implements the rules of Checkers (English draughts) on an 8x8 board.
+ * @see https://en.wikipedia.org/wiki/English_draughts
+ */
+export default class CheckersGame extends Game<CheckersGameState, CheckersMove> {
+  public constructor() {
+    super({
+      moves: [],
+      pieces: initialPieces(),
+      status: 'WAITING_TO_START',
+    });
+    this.state.pieces.forEach(piece => {
+      this._board[piece.row][piece.col] = piece;
+    });
+  }
+
+  /*
+   * The board, indexed by [row][col]. Kept in step with this.state.pieces.
+   */
+  private _board: CheckersBoard = Array.from({ length: CHECKERS_BOARD_SIZE }, () =>
+    Array(CHECKERS_BOARD_SIZE).fill(undefined),
+  );
+
+  /*
+   * Applies a player's move to the game.
+   * Uses the player's ID to determine which game piece they are using (ignores move.gamePiece)
+   * The move's path starts at the square of the piece to move, followed by every square that it lands on.
+   * A piece either steps one square diagonally into an empty square, or makes one or more jumps: a jump
+   * moves two squares diagonally, over an opponent's piece and into an empty square, and captures the
+   * piece that it jumps over. Pieces only move towards the opponent's side of the board until they reach
+   * its far row, where they are crowned as kings; kings can also move backwards.
+   * Validates the move before applying it. If the move is invalid, throws an InvalidParametersError with
+   * the error message specified below.
+   * A move is invalid if:
+   *    - The game is over (GAME_OVER_MESSAGE) or not yet in progress (GAME_NOT_IN_PROGRESS_MESSAGE)
+   *    - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *    - The move is not the player's turn (MOVE_NOT_YOUR_TURN_MESSAGE). Black moves first.
+   *    - The first square of the path does not hold one of the player's pieces (NO_PIECE_TO_MOVE_MESSAGE)
+   *    - Any part of the path is not a diagonal step or jump, or a step is followed by anything else,
+   *      or a jump does not go over an opponent's piece (INVALID_STEP_MESSAGE)
+   *    - A piece that is not a king moves backwards (MOVE_BACKWARDS_MESSAGE)
+   *    - The piece lands on a square that holds another piece (BOARD_POSITION_NOT_EMPTY_MESSAGE)
+   *    - The move is a step, but one of the player's pieces can capture (CAPTURE_REQUIRED_MESSAGE)
+   *    - The path continues after the piece is crowned (PROMOTION_ENDS_MOVE_MESSAGE)
+   *    - The path ends while the piece can still capture another piece (JUMP_NOT_FINISHED_MESSAGE)
+   *
+   * If the opponent has no legal move after the move (because they have no pieces left, or all of
+   * their pieces are blocked), updates the game's state to set the status to OVER and sets the winner
+   * to the player who made the move.
+   *
+   * @param move The move to apply to the game
+   * @throws InvalidParametersError if the move is invalid (with specific message noted above)
+   */
+  protected _applyMove(move: GameMove<CheckersMove>): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.status !== 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    const gamePiece = this._gamePieceFor(move.playerID);
+    if (!gamePiece) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    const nextPiece: CheckersColor = this.state.moves.length % 2 === 0 ? 'Black' : 'Red';
+    if (gamePiece !== nextPiece) {
+      throw new InvalidParametersError(MOVE_NOT_YOUR_TURN_MESSAGE);
+    }
+    const [start, ...landings] = move.move.path;
+    const piece = this._board[start.row][start.col];
+    if (piece?.color !== gamePiece) {
+      throw new InvalidParametersError(NO_PIECE_TO_MOVE_MESSAGE);
+    }
+
+    const board = this._board.map(row => [...row]);
+    board[start.row][start.col] = undefined;
+    let current = piece;
+    let crowned = false;
+    const isJump = Math.abs(landings[0].row - start.row) === 2;
+    if (!isJump && landings.length > 1) {
+      throw new InvalidParametersError(INVALID_STEP_MESSAGE);
+    }
+    landings.forEach(to => {
+      if (crowned) {
+        throw new InvalidParametersError(PROMOTION_ENDS_MOVE_MESSAGE);
+      }
+      checkLanding(board, current, to, isJump ? 2 : 1);
+      if (isJump) {
+        const jumpedRow = (current.row + to.row) / 2;
+        const jumpedCol = (current.col + to.col) / 2;
+        const jumped = board[jumpedRow][jumpedCol];
+        if (!jumped || jumped.color === gamePiece) {
+          throw new InvalidParametersError(INVALID_STEP_MESSAGE);
+        }
+        board[jumpedRow][jumpedCol] = undefined;
+      }
+      crowned = !current.king && to.row === kingRow(gamePiece);
+      current = { ...current, row: to.row, col: to.col, king: current.king || crowned };
+    });
+    board[current.row][current.col] = current;
+    if (!isJump && piecesOf(this._board, gamePiece).some(each => canJump(this._board, each))) {
+      throw new InvalidParametersError(CAPTURE_REQUIRED_MESSAGE);
+    }
+    if (isJump && !crowned && canJump(board, current)) {
+      throw new InvalidParametersError(JUMP_NOT_FINISHED_MESSAGE);
+    }
+
+    this._board = board;
+    this.state = {
+      ...this.state,
+      moves: [...this.state.moves, { gamePiece, path: [start, ...landings] }],
+      pieces: board.flat().filter((each): each is CheckersPiece => each !== undefined),
+    };
+
+    const opponent: CheckersColor = gamePiece === 'Black' ? 'Red' : 'Black';
+    const opponentCanMove = piecesOf(board, opponent).some(
+      each => canStep(board, each) || canJump(board, each),
+    );
+    if (!opponentCanMove) {
+      this.state = { ...this.state, status: 'OVER', winner: move.playerID };
+    }
+  }
+
+  /**
+   * Black moves first, then the players take turns
+   */
+  protected _playerToMove(): PlayerID | undefined {
+    return this.state.moves.length % 2 === 0 ? this.state.black : this.state.red;
+  }
+
+  /**
+   * Sets the pieces out as at the start of the game, so that moves can be taken back
+   * (@see Game.undoLastMove)
+   */
+  protected _resetMoves(): void {
+    const pieces = initialPieces();
+    this._board = Array.from({ length: CHECKERS_BOARD_SIZE }, () =>
+      Array(CHECKERS_BOARD_SIZE).fill(undefined),
+    );
+    pieces.forEach(piece => {
+      this._board[piece.row][piece.col] = piece;
+    });
+    this.state = { ...this.state, moves: [], pieces, status: 'IN_PROGRESS', winner: undefined };
+  }
+
+  protected _seatName(playerID: PlayerID): string {
+    return playerID === this.state.black ? 'Black' : 'Red';
+  }
+
+  /**
+   * Adds a player to the game.
+   * The first player to join is black, the second is red.
+   * If the game is now full (has two players), updates the game's state to set the status to IN_PROGRESS.
+   *
+   * @param player The player to join the game
+   * @throws InvalidParametersError if the game is over (GAME_OVER_MESSAGE), the player is already
+   *  in the game (PLAYER_ALREADY_IN_GAME_MESSAGE) or the game is full (GAME_FULL_MESSAGE)
+   */
+  protected _join(player: Player): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.black === player.id || this.state.red === player.id) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    if (!this.state.black) {
+      this.state = { ...this.state, black: player.id };
+    } else if (!this.state.red) {
+      this.state = { ...this.state, red: player.id };
+    } else {
+      throw new InvalidParametersError(GAME_FULL_MESSAGE);
+    }
+    if (this.state.black && this.state.red) {
+      this.state = { ...this.state, status: 'IN_PROGRESS' };
+    }
+  }
+
+  /**
+   * Removes a player from the game.
+   * If the game is in progress, the player forfeits: updates the game's status to OVER and sets
+   *   the winner to the other player.
+   * If the game has not yet started, frees the player's seat and leaves the status as WAITING_TO_START.
+   * If the game is already over, the result is left unchanged.
+   *
+   * @param player The player to remove from the game
+   * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  protected _leave(player: Player): void {
+    const { black, red, status } = this.state;
+    if (black !== player.id && red !== player.id) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (status === 'IN_PROGRESS') {
+      this.state = {
+        ...this.state,
+        status: 'OVER',
+        winner: black === player.id ? red : black,
+      };
+    } else if (status === 'WAITING_TO_START') {
+      this.state = {
+        ...this.state,
+        black: black === player.id ? undefined : black,
+        red: red === player.id ? undefined : red,
+      };
+    }
+  }
+
+  private _gamePieceFor(playerID: string): CheckersColor | undefined {
+    if (playerID === this.state.black) {
+      return 'Black';
+    }
+    if (playerID === this.state.red) {
+      return 'Red';
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,115 @@
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  CAPTURE_REQUIRED_MESSAGE,
+  INVALID_MOVE_MESSAGE,
+  MOVE_BACKWARDS_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { CheckersGridPosition, GameInstanceID, TownEmitter } from '../../types/CoveyTownSocket';
+import CheckersGameArea from './CheckersGameArea';
+
+describe('CheckersGameArea', () => {
+  let gameArea: CheckersGameArea;
+  let black: Player;
+  let red: Player;
+  let gameID: GameInstanceID;
+  let interactableUpdateSpy: jest.SpyInstance;
+  beforeEach(() => {
+    black = createPlayerForTesting();
+    red = createPlayerForTesting();
+    gameArea = new CheckersGameArea(
+      nanoid(),
+      { x: 0, y: 0, width: 100, height: 100 },
+      mock<TownEmitter>(),
+    );
+    gameArea.add(black);
+    gameArea.add(red);
+    gameID = gameArea.handleCommand({ type: 'JoinGame' }, black).gameID;
+    gameArea.handleCommand({ type: 'JoinGame' }, red);
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Test requires access to protected method)
+    interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+  });
+
+  function move(player: Player, path: Array<[number, number]>) {
+    gameArea.handleCommand(
+      {
+        type: 'GameMove',
+        gameID,
+        move: {
+          gamePiece: player === black ? 'Black' : 'Red',
+          path: path.map(([row, col]) => ({
+            row: row as CheckersGridPosition,
+            col: col as CheckersGridPosition,
+          })),
+        },
+      },
+      player,
+    );
+  }
+
+  it('reports its type as CheckersArea', () => {
+    expect(gameArea.toModel().type).toEqual('CheckersArea');
+  });
+
+  it('seats the first player as black and the second as red', () => {
+    expect(gameArea.game?.state.black).toEqual(black.id);
+    expect(gameArea.game?.state.red).toEqual(red.id);
+    expect(gameArea.game?.state.status).toEqual('IN_PROGRESS');
+  });
+
+  describe('GameMove', () => {
+    it('applies the move and calls _emitAreaChanged', () => {
+      move(black, [
+        [5, 2],
+        [4, 3],
+      ]);
+      expect(gameArea.game?.state.moves).toHaveLength(1);
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+    });
+    it('throws an error when the move is not a CheckersMove', () => {
+      expect(() =>
+        gameArea.handleCommand(
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-ignore (Testing an invalid move, only possible at the boundary of the type system)
+          { type: 'GameMove', gameID, move: { gamePiece: 'Black', path: [{ row: 5, col: 2 }] } },
+          black,
+        ),
+      ).toThrowError(INVALID_MOVE_MESSAGE);
+      expect(interactableUpdateSpy).not.toHaveBeenCalled();
+    });
+    it('passes on the game’s errors for illegal moves without calling _emitAreaChanged', () => {
+      expect(() =>
+        move(black, [
+          [5, 2],
+          [6, 3],
+        ]),
+      ).toThrowError(MOVE_BACKWARDS_MESSAGE);
+      move(black, [
+        [5, 2],
+        [4, 3],
+      ]);
+      move(red, [
+        [2, 5],
+        [3, 4],
+      ]);
+      interactableUpdateSpy.mockClear();
+      expect(() =>
+        move(black, [
+          [5, 0],
+          [4, 1],
+        ]),
+      ).toThrowError(CAPTURE_REQUIRED_MESSAGE);
+      expect(interactableUpdateSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  it('records the winner in the history when a player forfeits', () => {
+    gameArea.handleCommand({ type: 'LeaveGame', gameID }, red);
+    expect(gameArea.history).toEqual([
+      { gameID, scores: { [black.userName]: 1, [red.userName]: 0 } },
+    ]);
+  });
+});
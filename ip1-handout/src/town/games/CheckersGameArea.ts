@@ -0,0 +1,34 @@
+import { CheckersMove, InteractableType } from '../../types/CoveyTownSocket';
+import CheckersGame, { isCheckersMove } from './CheckersGame';
+import GameArea from './GameArea';
+import { GameRegistration } from './GameRegistry';
+
+/**
+ * A CheckersGameArea is a GameArea that hosts a CheckersGame.
+ * @see CheckersGame
+ * @see GameArea
+ */
+export default class CheckersGameArea extends GameArea<CheckersGame> {
+  protected getType(): InteractableType {
+    return 'CheckersArea';
+  }
+
+  protected _createGame(): CheckersGame {
+    return new CheckersGame();
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isCheckersMove(move);
+  }
+}
+
+/**
+ * Registers Checkers with the GameRegistry: map objects with `type: Checkers` host a CheckersGameArea
+ */
+export const checkersRegistration: GameRegistration<CheckersGame, CheckersMove> = {
+  gameType: 'Checkers',
+  interactableType: 'CheckersArea',
+  gameClass: CheckersGame,
+  areaClass: CheckersGameArea,
+  isValidMove: isCheckersMove,
+};
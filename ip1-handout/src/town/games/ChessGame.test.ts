@@ -0,0 +1,350 @@
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  INVALID_FEN_MESSAGE,
+  KING_IN_CHECK_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  NO_PIECE_TO_MOVE_MESSAGE,
+  PIECE_CANNOT_MOVE_THERE_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  PROMOTION_NOT_ALLOWED_MESSAGE,
+  PROMOTION_REQUIRED_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { ChessPromotionPiece, ChessSquare } from '../../types/CoveyTownSocket';
+import ChessGame, { isChessMove } from './ChessGame';
+import { STARTING_FEN } from './ChessPosition';
+
+describe('ChessGame', () => {
+  let game: ChessGame;
+  let white: Player;
+  let black: Player;
+
+  beforeEach(() => {
+    white = createPlayerForTesting();
+    black = createPlayerForTesting();
+  });
+
+  /**
+   * Starts a game from the given position, with white and black seated
+   */
+  function startGame(fen?: string) {
+    game = new ChessGame(fen);
+    game.join(white);
+    game.join(black);
+  }
+
+  function move(
+    player: Player,
+    from: ChessSquare,
+    to: ChessSquare,
+    promotion?: ChessPromotionPiece,
+  ) {
+    game.applyMove({
+      gameID: game.id,
+      playerID: player.id,
+      move: { gamePiece: player === white ? 'White' : 'Black', from, to, promotion },
+    });
+  }
+
+  /**
+   * Plays moves written as 'e2e4', alternating between the player to move and their opponent
+   */
+  function play(moves: string[], first: Player = white) {
+    moves.forEach((eachMove, index) => {
+      const player = index % 2 === 0 ? first : [white, black].find(p => p !== first);
+      move(
+        player as Player,
+        eachMove.slice(0, 2) as ChessSquare,
+        eachMove.slice(2, 4) as ChessSquare,
+      );
+    });
+  }
+
+  describe('constructor', () => {
+    it('starts from the usual position, waiting for players', () => {
+      game = new ChessGame();
+      expect(game.state).toEqual({
+        moves: [],
+        fen: STARTING_FEN,
+        check: false,
+        status: 'WAITING_TO_START',
+      });
+    });
+    it('can start from any position given in FEN', () => {
+      const fen = '4k3/8/8/8/8/8/8/4K2R b K - 0 40';
+      expect(new ChessGame(fen).state.fen).toEqual(fen);
+    });
+    it('throws an error for an invalid FEN', () => {
+      expect(() => new ChessGame('not a position')).toThrowError(INVALID_FEN_MESSAGE);
+    });
+  });
+
+  describe('_join', () => {
+    it('makes the first player white and the second player black, and starts the game', () => {
+      game = new ChessGame();
+      game.join(white);
+      expect(game.state.white).toEqual(white.id);
+      expect(game.state.status).toEqual('WAITING_TO_START');
+      game.join(black);
+      expect(game.state.black).toEqual(black.id);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+    });
+    it('throws an error if the player is already in the game', () => {
+      game = new ChessGame();
+      game.join(white);
+      expect(() => game.join(white)).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the game is full', () => {
+      startGame();
+      expect(() => game.join(createPlayerForTesting())).toThrowError(GAME_FULL_MESSAGE);
+    });
+  });
+
+  describe('_leave', () => {
+    it('frees the seat if the game has not started', () => {
+      game = new ChessGame();
+      game.join(white);
+      game.leave(white);
+      expect(game.state.white).toBeUndefined();
+      expect(game.state.status).toEqual('WAITING_TO_START');
+    });
+    it('ends the game with the other player as the winner if the game is in progress', () => {
+      startGame();
+      game.leave(white);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(black.id);
+      expect(game.state.endReason).toBeUndefined();
+    });
+    it('throws an error if the player is not in the game', () => {
+      startGame();
+      expect(() => game.leave(createPlayerForTesting())).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+  });
+
+  describe('applyMove', () => {
+    it('throws an error if the game has not started', () => {
+      game = new ChessGame();
+      game.join(white);
+      expect(() => move(white, 'e2', 'e4')).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    it('moves the piece and updates the FEN', () => {
+      startGame();
+      move(white, 'e2', 'e4');
+      expect(game.state.fen).toEqual('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+      expect(game.state.moves).toEqual([{ gamePiece: 'White', from: 'e2', to: 'e4' }]);
+    });
+    it('uses the player to determine the game piece', () => {
+      startGame();
+      game.applyMove({
+        gameID: game.id,
+        playerID: white.id,
+        move: { gamePiece: 'Black', from: 'e2', to: 'e4' },
+      });
+      expect(game.state.moves[0].gamePiece).toEqual('White');
+    });
+    it('throws an error if it is not the player’s turn', () => {
+      startGame();
+      expect(() => move(black, 'e7', 'e5')).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      move(white, 'e2', 'e4');
+      expect(() => move(white, 'd2', 'd4')).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+    });
+    it('lets black move first in a position with black to move', () => {
+      startGame('4k3/8/8/8/8/8/8/4K2R b K - 0 1');
+      expect(() => move(white, 'h1', 'h2')).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      move(black, 'e8', 'd7');
+    });
+    it('throws an error if the player is not in the game', () => {
+      startGame();
+      expect(() =>
+        game.applyMove({
+          gameID: game.id,
+          playerID: createPlayerForTesting().id,
+          move: { gamePiece: 'White', from: 'e2', to: 'e4' },
+        }),
+      ).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the player has no piece on the square', () => {
+      startGame();
+      expect(() => move(white, 'e4', 'e5')).toThrowError(NO_PIECE_TO_MOVE_MESSAGE);
+      expect(() => move(white, 'e7', 'e5')).toThrowError(NO_PIECE_TO_MOVE_MESSAGE);
+    });
+    it('throws an error if the piece cannot move to the square', () => {
+      startGame();
+      expect(() => move(white, 'e2', 'e5')).toThrowError(PIECE_CANNOT_MOVE_THERE_MESSAGE);
+      expect(() => move(white, 'a1', 'a3')).toThrowError(PIECE_CANNOT_MOVE_THERE_MESSAGE);
+      expect(() => move(white, 'g1', 'e2')).toThrowError(PIECE_CANNOT_MOVE_THERE_MESSAGE);
+      expect(game.state.moves).toEqual([]);
+    });
+    it('throws an error if the move leaves the king in check', () => {
+      startGame('4k3/4r3/8/8/8/8/4B3/4K3 w - - 0 1');
+      expect(() => move(white, 'e2', 'd3')).toThrowError(KING_IN_CHECK_MESSAGE);
+      expect(() => move(white, 'e1', 'd1')).not.toThrowError();
+    });
+    it('requires a promotion for a pawn that reaches the last rank, and only then', () => {
+      startGame('4k3/P7/8/8/8/8/8/4K3 w - - 0 1');
+      expect(() => move(white, 'a7', 'a8')).toThrowError(PROMOTION_REQUIRED_MESSAGE);
+      expect(() => move(white, 'e1', 'e2', 'Queen')).toThrowError(PROMOTION_NOT_ALLOWED_MESSAGE);
+      move(white, 'a7', 'a8', 'Rook');
+      expect(game.state.fen).toEqual('R3k3/8/8/8/8/8/8/4K3 b - - 0 1');
+      expect(game.state.check).toBe(true);
+    });
+    it('castles', () => {
+      startGame('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+      move(white, 'e1', 'g1');
+      move(black, 'e8', 'c8');
+      expect(game.state.fen).toEqual('2kr3r/8/8/8/8/8/8/R4RK1 w - - 2 2');
+    });
+    it('declares checkmate', () => {
+      startGame();
+      play(['f2f3', 'e7e5', 'g2g4', 'd8h4']);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(black.id);
+      expect(game.state.endReason).toEqual('checkmate');
+      expect(game.state.check).toBe(true);
+      expect(() => move(white, 'a2', 'a3')).toThrowError(GAME_OVER_MESSAGE);
+    });
+    it('declares a draw by stalemate', () => {
+      startGame('7k/8/6Q1/8/8/8/8/4K3 w - - 0 1');
+      move(white, 'g6', 'f7');
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toBeUndefined();
+      expect(game.state.endReason).toEqual('stalemate');
+    });
+    it('declares a draw when a position occurs for the third time', () => {
+      startGame();
+      play(['g1f3', 'g8f6', 'f3g1', 'f6g8', 'g1f3', 'g8f6', 'f3g1']);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      play(['f6g8'], black);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toBeUndefined();
+      expect(game.state.endReason).toEqual('threefold repetition');
+    });
+    it('declares a draw after fifty moves by each player without a capture or pawn move', () => {
+      startGame('4k3/8/8/8/8/8/R7/4K3 w - - 98 80');
+      move(white, 'a2', 'a3');
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      move(black, 'e8', 'd7');
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.endReason).toEqual('fifty-move rule');
+    });
+    it('declares checkmate rather than a draw on the fiftieth move', () => {
+      startGame('6k1/5ppp/8/8/8/8/8/R5K1 w - - 99 80');
+      move(white, 'a1', 'a8');
+      expect(game.state.endReason).toEqual('checkmate');
+      expect(game.state.winner).toEqual(white.id);
+    });
+    it('declares a draw when neither player can checkmate', () => {
+      startGame('4k3/8/8/8/8/8/3r4/4K3 w - - 0 1');
+      move(white, 'e1', 'd2');
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.endReason).toEqual('insufficient material');
+    });
+  });
+
+  describe('undoLastMove', () => {
+    it('takes back the last move, restoring the position and the turn', () => {
+      startGame();
+      play(['e2e4', 'e7e5']);
+      const { fen } = game.state;
+      play(['g1f3']);
+      game.undoLastMove();
+      expect(game.state.fen).toEqual(fen);
+      expect(game.state.moves).toHaveLength(2);
+      expect(() => move(black, 'b8', 'c6')).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      play(['d2d4']);
+      expect(game.toPGN({})).toContain('1. e4 e5 2. d4');
+    });
+    it('goes back to the position that the game started from', () => {
+      const fen = '4k3/8/8/8/8/8/4P3/4K3 w - - 0 1';
+      startGame(fen);
+      play(['e2e4']);
+      game.undoLastMove();
+      expect(game.state.fen).toEqual(fen);
+      expect(game.state.moves).toEqual([]);
+    });
+    it('forgets the positions that were taken back when counting repetitions', () => {
+      startGame();
+      play(['g1f3', 'g8f6', 'f3g1', 'f6g8', 'g1f3', 'g8f6', 'f3g1']);
+      game.undoLastMove();
+      game.undoLastMove();
+      play(['g8f6', 'f3g1'], black);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      play(['f6g8'], black);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.endReason).toEqual('threefold repetition');
+    });
+  });
+
+  describe('toPGN', () => {
+    it('exports the tags, moves and result of a finished game', () => {
+      startGame();
+      play(['e2e4', 'e7e5', 'd1h5', 'b8c6', 'f1c4', 'g8f6', 'h5f7']);
+      expect(game.toPGN({ Event: 'Casual game', White: 'Alice', Black: 'Bob' })).toEqual(
+        [
+          '[Event "Casual game"]',
+          '[Site "?"]',
+          '[Date "????.??.??"]',
+          '[Round "?"]',
+          '[White "Alice"]',
+          '[Black "Bob"]',
+          '[Result "1-0"]',
+          '',
+          '1. e4 e5 2. Qh5 Nc6 3. Bc4 Nf6 4. Qxf7# 1-0',
+          '',
+        ].join('\n'),
+      );
+    });
+    it('marks games in progress and drawn games', () => {
+      startGame();
+      expect(game.toPGN()).toContain('[Result "*"]');
+      expect(game.toPGN().endsWith('\n\n*\n')).toBe(true);
+      startGame('7k/8/6Q1/8/8/8/8/4K3 w - - 0 1');
+      move(white, 'g6', 'f7');
+      expect(game.toPGN()).toContain('[Result "1/2-1/2"]');
+    });
+    it('records the starting position of a game that did not start from the usual position', () => {
+      const fen = '4k3/8/8/8/8/8/8/4K2R b K - 0 40';
+      startGame(fen);
+      move(black, 'e8', 'd7');
+      move(white, 'e1', 'g1');
+      const pgn = game.toPGN();
+      expect(pgn).toContain('[SetUp "1"]');
+      expect(pgn).toContain(`[FEN "${fen}"]`);
+      expect(pgn).toContain('\n40... Kd7 41. O-O *\n');
+    });
+    it('escapes tag values and keeps lines to 80 characters', () => {
+      startGame();
+      const shuffle = ['g1f3', 'g8f6', 'b1c3', 'b8c6', 'f3g5', 'f6g4', 'c3b5', 'c6b4'];
+      play([...shuffle, 'g5f3', 'g4f6', 'b5c3', 'b4c6', 'f3d4', 'f6d5', 'c3e4', 'c6e5']);
+      play(['d4f5', 'd5f4', 'e4g5', 'e5g4', 'f5d4', 'f4d5', 'g5e4', 'g4e5']);
+      const pgn = game.toPGN({ Event: 'The "big" game' });
+      expect(pgn).toContain('[Event "The \\"big\\" game"]');
+      const movetext = pgn.split('\n\n')[1].trim().split('\n');
+      expect(movetext.length).toBeGreaterThan(1);
+      movetext.forEach(line => expect(line.length).toBeLessThanOrEqual(80));
+    });
+  });
+
+  describe('isChessMove', () => {
+    it('accepts moves between two squares, with an optional promotion', () => {
+      expect(isChessMove({ gamePiece: 'White', from: 'e2', to: 'e4' })).toBe(true);
+      expect(isChessMove({ gamePiece: 'Black', from: 'a2', to: 'a1', promotion: 'Knight' })).toBe(
+        true,
+      );
+    });
+    it('rejects moves that are off the board or have invalid fields', () => {
+      expect(isChessMove({ gamePiece: 'White', from: 'e2', to: 'e9' })).toBe(false);
+      expect(isChessMove({ gamePiece: 'White', from: 'i2', to: 'e4' })).toBe(false);
+      expect(isChessMove({ gamePiece: 'Red', from: 'e2', to: 'e4' })).toBe(false);
+      expect(isChessMove({ gamePiece: 'White', from: 'a7', to: 'a8', promotion: 'King' })).toBe(
+        false,
+      );
+      expect(isChessMove({ gamePiece: 'White', from: 'e2' })).toBe(false);
+      expect(isChessMove(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,358 @@
+import InvalidParametersError, {
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  KING_IN_CHECK_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  NO_PIECE_TO_MOVE_MESSAGE,
+  PIECE_CANNOT_MOVE_THERE_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  PROMOTION_NOT_ALLOWED_MESSAGE,
+  PROMOTION_REQUIRED_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  ChessColor,
+  ChessGameState,
+  ChessMove,
+  ChessPromotionPiece,
+  GameMove,
+  PlayerID,
+} from '../../types/CoveyTownSocket';
+import ChessPosition, { squareIndex, STARTING_FEN } from './ChessPosition';
+import Game from './Game';
+
+const promotionLetters: Record<ChessPromotionPiece, string> = {
+  Queen: 'q',
+  Rook: 'r',
+  Bishop: 'b',
+  Knight: 'n',
+};
+
+/**
+ * Checks that a move received from a client has the shape of a ChessMove
+ * @param move the move to check
+ * @returns true if the move has a valid game piece, two squares on the board, and a valid promotion if any
+ */
+export function isChessMove(move: unknown): move is ChessMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { gamePiece, from, to, promotion } = move as Record<string, unknown>;
+  const isSquare = (square: unknown) => typeof square === 'string' && /^[a-h][1-8]$/.test(square);
+  return (
+    (gamePiece === 'White' || gamePiece === 'Black') &&
+    isSquare(from) &&
+    isSquare(to) &&
+    (promotion === undefined || Object.keys(promotionLetters).includes(promotion as string))
+  );
+}
+
+/**
+ * A ChessGame is a Game that implements the rules of chess.
+ * @see https://en.wikipedia.org/wiki/Rules_of_chess
+ *
+ * Draws by threefold repetition and by the fifty-move rule are not claimed by the players: the game
+ * ends as soon as a position occurs for the third time, or fifty moves are made by each player without
+ * a capture or a pawn move. The game is also drawn when neither player can possibly checkmate.
+ */
+export default class ChessGame extends Game<ChessGameState, ChessMove> {
+  private _startingFEN: string;
+
+  private _position: ChessPosition;
+
+  private _positionCounts: Map<string, number> = new Map();
+
+  private _sanMoves: string[] = [];
+
+  /**
+   * Creates a new game of chess
+   * @param fen the position to start from, in Forsyth-Edwards Notation. Defaults to the usual starting position
+   * @throws InvalidParametersError if the FEN is not a valid position (INVALID_FEN_MESSAGE)
+   */
+  public constructor(fen: string = STARTING_FEN) {
+    const position = ChessPosition.fromFEN(fen);
+    super({
+      moves: [],
+      fen: position.toFEN(),
+      check: position.isInCheck(),
+      status: 'WAITING_TO_START',
+    });
+    this._position = position;
+    this._startingFEN = position.toFEN();
+    this._positionCounts.set(position.repetitionKey(), 1);
+  }
+
+  /*
+   * Applies a player's move to the game.
+   * Uses the player's ID to determine which game piece they are using (ignores move.gamePiece)
+   * Validates the move before applying it. If the move is invalid, throws an InvalidParametersError with
+   * the error message specified below.
+   * A move is invalid if:
+   *    - The game is over (GAME_OVER_MESSAGE) or not yet in progress (GAME_NOT_IN_PROGRESS_MESSAGE)
+   *    - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *    - The move is not the player's turn (MOVE_NOT_YOUR_TURN_MESSAGE). White moves first, unless
+   *      the game started from a position with black to move.
+   *    - The player does not have a piece on the `from` square (NO_PIECE_TO_MOVE_MESSAGE)
+   *    - The piece can not move to the `to` square (PIECE_CANNOT_MOVE_THERE_MESSAGE)
+   *    - The move would leave the player's king in check (KING_IN_CHECK_MESSAGE)
+   *    - A pawn reaches the last rank without a promotion (PROMOTION_REQUIRED_MESSAGE), or a move that
+   *      is not a pawn reaching the last rank has a promotion (PROMOTION_NOT_ALLOWED_MESSAGE)
+   *
+   * If the move checkmates the opponent, updates the game's state to set the status to OVER and sets
+   * the winner to the player who made the move. If the move stalemates the opponent, repeats a position
+   * for the third time, completes fifty moves by each player without a capture or pawn move, or leaves
+   * neither player able to checkmate, updates the game's state to set the status to OVER with no winner.
+   * In either case, the reason that the game ended is recorded in the state's endReason.
+   *
+   * @param move The move to apply to the game
+   * @throws InvalidParametersError if the move is invalid (with specific message noted above)
+   */
+  protected _applyMove(move: GameMove<ChessMove>): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.status !== 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    const gamePiece = this._gamePieceFor(move.playerID);
+    if (!gamePiece) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (gamePiece !== this._colorToMove()) {
+      throw new InvalidParametersError(MOVE_NOT_YOUR_TURN_MESSAGE);
+    }
+    const position = this._position;
+    const from = squareIndex(move.move.from);
+    const to = squareIndex(move.move.to);
+    const piece = position.board[from];
+    if (piece === undefined || (piece === piece.toUpperCase()) !== (position.turn === 'w')) {
+      throw new InvalidParametersError(NO_PIECE_TO_MOVE_MESSAGE);
+    }
+    const candidates = position
+      .pseudoLegalMoves()
+      .filter(candidate => candidate.from === from && candidate.to === to);
+    if (candidates.length === 0) {
+      throw new InvalidParametersError(PIECE_CANNOT_MOVE_THERE_MESSAGE);
+    }
+    const isPromotion = candidates.some(candidate => candidate.promotion !== undefined);
+    if (isPromotion && !move.move.promotion) {
+      throw new InvalidParametersError(PROMOTION_REQUIRED_MESSAGE);
+    }
+    if (!isPromotion && move.move.promotion) {
+      throw new InvalidParametersError(PROMOTION_NOT_ALLOWED_MESSAGE);
+    }
+    const positionMove = {
+      from,
+      to,
+      promotion: move.move.promotion && promotionLetters[move.move.promotion],
+    };
+    const next = position.play(positionMove);
+    if (next.isInCheck(position.turn)) {
+      throw new InvalidParametersError(KING_IN_CHECK_MESSAGE);
+    }
+
+    this._sanMoves.push(position.toSAN(positionMove));
+    this._position = next;
+    const key = next.repetitionKey();
+    const repetitions = (this._positionCounts.get(key) || 0) + 1;
+    this._positionCounts.set(key, repetitions);
+    const check = next.isInCheck();
+    this.state = {
+      ...this.state,
+      moves: [...this.state.moves, { ...move.move, gamePiece }],
+      fen: next.toFEN(),
+      check,
+    };
+
+    if (next.legalMoves().length === 0) {
+      this.state = {
+        ...this.state,
+        status: 'OVER',
+        winner: check ? move.playerID : undefined,
+        endReason: check ? 'checkmate' : 'stalemate',
+      };
+    } else if (repetitions >= 3) {
+      this.state = { ...this.state, status: 'OVER', endReason: 'threefold repetition' };
+    } else if (next.halfmoveClock >= 100) {
+      this.state = { ...this.state, status: 'OVER', endReason: 'fifty-move rule' };
+    } else if (next.hasInsufficientMaterial()) {
+      this.state = { ...this.state, status: 'OVER', endReason: 'insufficient material' };
+    }
+  }
+
+  protected _playerToMove(): PlayerID | undefined {
+    return this._colorToMove() === 'White' ? this.state.white : this.state.black;
+  }
+
+  /**
+   * Goes back to the starting position and forgets the positions that have occurred since, so that
+   * moves can be taken back (@see Game.undoLastMove)
+   */
+  protected _resetMoves(): void {
+    const position = ChessPosition.fromFEN(this._startingFEN);
+    this._position = position;
+    this._positionCounts = new Map([[position.repetitionKey(), 1]]);
+    this._sanMoves = [];
+    this.state = {
+      ...this.state,
+      moves: [],
+      fen: position.toFEN(),
+      check: position.isInCheck(),
+      status: 'IN_PROGRESS',
+      winner: undefined,
+      endReason: undefined,
+    };
+  }
+
+  protected _seatName(playerID: PlayerID): string {
+    return playerID === this.state.white ? 'White' : 'Black';
+  }
+
+  /**
+   * Adds a player to the game.
+   * The first player to join is white, the second is black.
+   * If the game is now full (has two players), updates the game's state to set the status to IN_PROGRESS.
+   *
+   * @param player The player to join the game
+   * @throws InvalidParametersError if the game is over (GAME_OVER_MESSAGE), the player is already
+   *  in the game (PLAYER_ALREADY_IN_GAME_MESSAGE) or the game is full (GAME_FULL_MESSAGE)
+   */
+  protected _join(player: Player): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.white === player.id || this.state.black === player.id) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    if (!this.state.white) {
+      this.state = { ...this.state, white: player.id };
+    } else if (!this.state.black) {
+      this.state = { ...this.state, black: player.id };
+    } else {
+      throw new InvalidParametersError(GAME_FULL_MESSAGE);
+    }
+    if (this.state.white && this.state.black) {
+      this.state = { ...this.state, status: 'IN_PROGRESS' };
+    }
+  }
+
+  /**
+   * Removes a player from the game.
+   * If the game is in progress, the player forfeits: updates the game's status to OVER and sets
+   *   the winner to the other player.
+   * If the game has not yet started, frees the player's seat and leaves the status as WAITING_TO_START.
+   * If the game is already over, the result is left unchanged.
+   *
+   * @param player The player to remove from the game
+   * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  protected _leave(player: Player): void {
+    const { white, black, status } = this.state;
+    if (white !== player.id && black !== player.id) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (status === 'IN_PROGRESS') {
+      this.state = {
+        ...this.state,
+        status: 'OVER',
+        winner: white === player.id ? black : white,
+      };
+    } else if (status === 'WAITING_TO_START') {
+      this.state = {
+        ...this.state,
+        white: white === player.id ? undefined : white,
+        black: black === player.id ? undefined : black,
+      };
+    }
+  }
+
+  /**
+   * Exports the game in Portable Game Notation. The seven standard tags are always included, with '?'
+   * for any that are not given; games that did not start from the usual position also get SetUp and
+   * FEN tags.
+   * @see https://en.wikipedia.org/wiki/Portable_Game_Notation
+   *
+   * @param tags the values of PGN tags, e.g. { Event: 'Club championship', White: 'Alice' }
+   * @returns the PGN, with the moves in Standard Algebraic Notation and lines of at most 80 characters
+   */
+  public toPGN(tags: Record<string, string> = {}): string {
+    const result = this._pgnResult();
+    const allTags: Record<string, string> = {
+      Event: '?',
+      Site: '?',
+      Date: '????.??.??',
+      Round: '?',
+      White: '?',
+      Black: '?',
+      ...tags,
+      Result: result,
+    };
+    if (this._startingFEN !== STARTING_FEN) {
+      allTags.SetUp = '1';
+      allTags.FEN = this._startingFEN;
+    }
+    const tagLines = Object.entries(allTags).map(
+      ([name, value]) => `[${name} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`,
+    );
+
+    const start = ChessPosition.fromFEN(this._startingFEN);
+    const blackStarts = start.turn === 'b';
+    const tokens: string[] = [];
+    this._sanMoves.forEach((san, index) => {
+      const ply = index + (blackStarts ? 1 : 0);
+      const moveNumber = start.fullmoveNumber + Math.floor(ply / 2);
+      if (ply % 2 === 0) {
+        tokens.push(`${moveNumber}.`);
+      } else if (index === 0) {
+        tokens.push(`${moveNumber}...`);
+      }
+      tokens.push(san);
+    });
+    tokens.push(result);
+    const lines = tokens.reduce(
+      (wrapped, token) => {
+        const last = wrapped[wrapped.length - 1];
+        if (last === '') {
+          wrapped[wrapped.length - 1] = token;
+        } else if (last.length + 1 + token.length <= 80) {
+          wrapped[wrapped.length - 1] = `${last} ${token}`;
+        } else {
+          wrapped.push(token);
+        }
+        return wrapped;
+      },
+      [''],
+    );
+    return `${tagLines.join('\n')}\n\n${lines.join('\n')}\n`;
+  }
+
+  private _pgnResult(): string {
+    const { status, winner, white, black } = this.state;
+    if (status !== 'OVER') {
+      return '*';
+    }
+    if (winner === undefined) {
+      return '1/2-1/2';
+    }
+    if (winner === white) {
+      return '1-0';
+    }
+    return winner === black ? '0-1' : '*';
+  }
+
+  private _colorToMove(): ChessColor {
+    return this._position.turn === 'w' ? 'White' : 'Black';
+  }
+
+  private _gamePieceFor(playerID: string): ChessColor | undefined {
+    if (playerID === this.state.white) {
+      return 'White';
+    }
+    if (playerID === this.state.black) {
+      return 'Black';
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,106 @@
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import { createPlayerForTesting, mockClock } from '../../TestUtils';
+import { INVALID_MOVE_MESSAGE, KING_IN_CHECK_MESSAGE } from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { ChessSquare, GameInstanceID, TownEmitter } from '../../types/CoveyTownSocket';
+import ChessGameArea from './ChessGameArea';
+
+describe('ChessGameArea', () => {
+  let gameArea: ChessGameArea;
+  let white: Player;
+  let black: Player;
+  let gameID: GameInstanceID;
+  let interactableUpdateSpy: jest.SpyInstance;
+  beforeEach(() => {
+    white = createPlayerForTesting();
+    black = createPlayerForTesting();
+    gameArea = new ChessGameArea(
+      'Chess 1',
+      { x: 0, y: 0, width: 100, height: 100 },
+      mock<TownEmitter>(),
+      undefined,
+      mockClock(),
+    );
+    gameArea.add(white);
+    gameArea.add(black);
+    gameID = gameArea.handleCommand({ type: 'JoinGame' }, white).gameID;
+    gameArea.handleCommand({ type: 'JoinGame' }, black);
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Test requires access to protected method)
+    interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+  });
+
+  function move(player: Player, from: ChessSquare, to: ChessSquare) {
+    gameArea.handleCommand(
+      {
+        type: 'GameMove',
+        gameID,
+        move: { gamePiece: player === white ? 'White' : 'Black', from, to },
+      },
+      player,
+    );
+  }
+
+  it('reports its type as ChessArea', () => {
+    expect(gameArea.toModel().type).toEqual('ChessArea');
+  });
+
+  describe('GameMove', () => {
+    it('applies the move and calls _emitAreaChanged', () => {
+      move(white, 'e2', 'e4');
+      expect(gameArea.game?.state.moves).toEqual([{ gamePiece: 'White', from: 'e2', to: 'e4' }]);
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+    });
+    it('throws an error when the move is not a ChessMove', () => {
+      expect(() =>
+        gameArea.handleCommand(
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-ignore (Testing an invalid move, only possible at the boundary of the type system)
+          { type: 'GameMove', gameID, move: { gamePiece: 'White', from: 'e2', to: 'e0' } },
+          white,
+        ),
+      ).toThrowError(INVALID_MOVE_MESSAGE);
+      expect(interactableUpdateSpy).not.toHaveBeenCalled();
+    });
+    it('passes on the game’s errors for illegal moves without calling _emitAreaChanged', () => {
+      move(white, 'e2', 'e4');
+      move(black, 'd7', 'd5');
+      move(white, 'f1', 'b5');
+      interactableUpdateSpy.mockClear();
+      expect(() => move(black, 'e8', 'd7')).toThrowError(KING_IN_CHECK_MESSAGE);
+      expect(interactableUpdateSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPGN', () => {
+    it('is undefined for a game that has not finished', () => {
+      move(white, 'e2', 'e4');
+      expect(gameArea.getPGN(gameID)).toBeUndefined();
+    });
+    it('exports a finished game with the names of the players and the result', () => {
+      [
+        [white, 'f2', 'f3'],
+        [black, 'e7', 'e5'],
+        [white, 'g2', 'g4'],
+        [black, 'd8', 'h4'],
+      ].forEach(([player, from, to]) =>
+        move(player as Player, from as ChessSquare, to as ChessSquare),
+      );
+      const pgn = gameArea.getPGN(gameID);
+      expect(pgn).toContain('[Event "Covey.Town chess"]');
+      expect(pgn).toContain('[Site "Chess 1"]');
+      expect(pgn).toContain('[Date "1970.01.01"]');
+      expect(pgn).toContain(`[White "${white.userName}"]`);
+      expect(pgn).toContain(`[Black "${black.userName}"]`);
+      expect(pgn).toContain('1. f3 e5 2. g4 Qh4# 0-1');
+      expect(gameArea.getPGN(nanoid())).toBeUndefined();
+    });
+    it('exports a game that a player forfeited', () => {
+      move(white, 'e2', 'e4');
+      gameArea.handleCommand({ type: 'LeaveGame', gameID }, white);
+      expect(gameArea.getPGN(gameID)).toContain('1. e4 0-1');
+      expect(gameArea.getPGN(gameID)).toContain(`[White "${white.userName}"]`);
+    });
+  });
+});
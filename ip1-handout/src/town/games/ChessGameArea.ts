@@ -0,0 +1,82 @@
+import Player from '../../lib/Player';
+import { ChessMove, GameInstanceID, InteractableType } from '../../types/CoveyTownSocket';
+import ChessGame, { isChessMove } from './ChessGame';
+import GameArea from './GameArea';
+import { GameRegistration } from './GameRegistry';
+
+/**
+ * Formats a time as a PGN date (e.g. '2024.03.09'), in UTC
+ */
+function pgnDate(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getUTCFullYear()}.${pad(date.getUTCMonth() + 1)}.${pad(date.getUTCDate())}`;
+}
+
+/**
+ * A ChessGameArea is a GameArea that hosts a ChessGame, and keeps every finished game in
+ * Portable Game Notation so that it can be downloaded.
+ * @see ChessGame
+ * @see GameArea
+ */
+export default class ChessGameArea extends GameArea<ChessGame> {
+  private _pgns: Map<GameInstanceID, string> = new Map();
+
+  /**
+   * Finds the PGN of a game that has finished in this area
+   * @param gameID the ID of the game
+   * @returns the PGN, or undefined if no game with this ID has been recorded in this area's history
+   */
+  public getPGN(gameID: string): string | undefined {
+    return this._pgns.get(gameID);
+  }
+
+  protected getType(): InteractableType {
+    return 'ChessArea';
+  }
+
+  protected _createGame(): ChessGame {
+    return new ChessGame();
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isChessMove(move);
+  }
+
+  /**
+   * Records the outcome of a game that has just ended (@see GameArea._handleGameOver), along with its PGN
+   *
+   * @param player the player whose command may have ended the game
+   */
+  protected _handleGameOver(player: Player): void {
+    super._handleGameOver(player);
+    const game = this._game;
+    const replay = game && this.getReplay(game.id);
+    if (!game || !replay || this._pgns.has(game.id)) {
+      return;
+    }
+    const nameOf = (seat: string) =>
+      replay.seats.find(eachSeat => eachSeat.seat === seat)?.userName || '?';
+    this._pgns.set(
+      game.id,
+      game.toPGN({
+        Event: 'Covey.Town chess',
+        Site: this.id,
+        Date: pgnDate(replay.startedAt),
+        White: nameOf('White'),
+        Black: nameOf('Black'),
+      }),
+    );
+  }
+}
+
+/**
+ * Registers Chess with the GameRegistry: map objects with `type: Chess` host a ChessGameArea
+ */
+export const chessRegistration: GameRegistration<ChessGame, ChessMove> = {
+  gameType: 'Chess',
+  interactableType: 'ChessArea',
+  gameClass: ChessGame,
+  areaClass: ChessGameArea,
+  isValidMove: isChessMove,
+};
@@ -0,0 +1,170 @@
+import { INVALID_FEN_MESSAGE } from '../../lib/InvalidParametersError';
+import ChessPosition, {
+  PositionMove,
+  squareIndex,
+  squareName,
+  STARTING_FEN,
+} from './ChessPosition';
+import { ChessSquare } from '../../types/CoveyTownSocket';
+
+/**
+ * Counts the positions that can be reached in `depth` moves: a standard test of move generation,
+ * with well-known results for a few positions
+ * @see https://www.chessprogramming.org/Perft_Results
+ */
+function perft(position: ChessPosition, depth: number): number {
+  if (depth === 0) {
+    return 1;
+  }
+  return position
+    .legalMoves()
+    .reduce((count, move) => count + perft(position.play(move), depth - 1), 0);
+}
+
+function positionMove(from: ChessSquare, to: ChessSquare, promotion?: string): PositionMove {
+  return { from: squareIndex(from), to: squareIndex(to), promotion };
+}
+
+describe('ChessPosition', () => {
+  describe('fromFEN and toFEN', () => {
+    it('reads and writes the starting position', () => {
+      expect(ChessPosition.fromFEN(STARTING_FEN).toFEN()).toEqual(STARTING_FEN);
+    });
+    it('defaults the move counters when they are left out', () => {
+      const fen = '4k3/8/8/8/8/8/8/4K3 b - -';
+      expect(ChessPosition.fromFEN(fen).toFEN()).toEqual(`${fen} 0 1`);
+    });
+    it('throws an error for malformed FEN', () => {
+      [
+        '',
+        'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP w KQkq - 0 1',
+        'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR x KQkq - 0 1',
+        'rnbqkbnr/pppppppp/9/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+        'rnbqkbnr/ppppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+        'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNX w KQkq - 0 1',
+        'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkx - 0 1',
+        'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq e4 0 1',
+        'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 0',
+      ].forEach(fen => expect(() => ChessPosition.fromFEN(fen)).toThrowError(INVALID_FEN_MESSAGE));
+    });
+    it('throws an error for positions that cannot occur in a game', () => {
+      [
+        '8/8/8/8/8/8/8/4K3 w - - 0 1',
+        '4k3/8/8/8/8/8/8/3KK3 w - - 0 1',
+        'P3k3/8/8/8/8/8/8/4K3 w - - 0 1',
+        '4k3/8/8/8/8/8/8/4R1K1 w - - 0 1',
+      ].forEach(fen => expect(() => ChessPosition.fromFEN(fen)).toThrowError(INVALID_FEN_MESSAGE));
+    });
+  });
+
+  describe('legalMoves', () => {
+    it('generates the known number of positions from the starting position', () => {
+      const position = ChessPosition.fromFEN(STARTING_FEN);
+      expect(perft(position, 1)).toEqual(20);
+      expect(perft(position, 2)).toEqual(400);
+      expect(perft(position, 3)).toEqual(8902);
+    });
+    it('generates the known number of positions with castling, en passant and promotions', () => {
+      const kiwipete = ChessPosition.fromFEN(
+        'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+      );
+      expect(perft(kiwipete, 1)).toEqual(48);
+      expect(perft(kiwipete, 2)).toEqual(2039);
+      const endgame = ChessPosition.fromFEN('8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1');
+      expect(perft(endgame, 3)).toEqual(2812);
+      const promotions = ChessPosition.fromFEN(
+        'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+      );
+      expect(perft(promotions, 2)).toEqual(264);
+      const discoveries = ChessPosition.fromFEN(
+        'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+      );
+      expect(perft(discoveries, 2)).toEqual(1486);
+    });
+    it('does not let the king castle out of, through or into check', () => {
+      const castles = (fen: string) =>
+        ChessPosition.fromFEN(fen)
+          .legalMoves()
+          .filter(move => move.from === squareIndex('e1') && Math.abs(move.to - move.from) === 2)
+          .map(move => squareName(move.to));
+      expect(castles('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1')).toEqual(['g1', 'c1']);
+      expect(castles('4k3/8/8/8/8/8/4r3/R3K2R w KQ - 0 1')).toEqual([]);
+      expect(castles('4k3/8/8/8/8/8/5r2/R3K2R w KQ - 0 1')).toEqual(['c1']);
+      expect(castles('4k3/8/8/8/8/8/2r5/R3K2R w KQ - 0 1')).toEqual(['g1']);
+      expect(castles('4k3/8/8/8/8/8/8/R3K2R w Q - 0 1')).toEqual(['c1']);
+    });
+  });
+
+  describe('play', () => {
+    it('updates the castling rights, en passant square and move counters', () => {
+      let position = ChessPosition.fromFEN('r3k2r/8/8/8/8/8/4P3/R3K2R w KQkq - 5 10');
+      position = position.play(positionMove('e2', 'e4'));
+      expect(position.toFEN()).toEqual('r3k2r/8/8/8/4P3/8/8/R3K2R b KQkq e3 0 10');
+      position = position.play(positionMove('h8', 'h1'));
+      expect(position.toFEN()).toEqual('r3k3/8/8/8/4P3/8/8/R3K2r w Qq - 0 11');
+      position = position.play(positionMove('e1', 'd2'));
+      expect(position.toFEN()).toEqual('r3k3/8/8/8/4P3/8/3K4/R6r b q - 1 11');
+    });
+    it('moves the rook when castling, and removes the pawn captured en passant', () => {
+      const castled = ChessPosition.fromFEN('r3k2r/8/8/8/8/8/8/R3K2R b KQkq - 0 1').play(
+        positionMove('e8', 'c8'),
+      );
+      expect(castled.toFEN()).toEqual('2kr3r/8/8/8/8/8/8/R3K2R w KQ - 1 2');
+      const enPassant = ChessPosition.fromFEN('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1').play(
+        positionMove('e5', 'd6'),
+      );
+      expect(enPassant.toFEN()).toEqual('4k3/8/3P4/8/8/8/8/4K3 b - - 0 1');
+    });
+    it('promotes pawns to the chosen piece', () => {
+      const promoted = ChessPosition.fromFEN('4k3/8/8/8/8/8/p7/4K3 b - - 0 1').play(
+        positionMove('a2', 'a1', 'n'),
+      );
+      expect(promoted.toFEN()).toEqual('4k3/8/8/8/8/8/8/n3K3 w - - 0 2');
+    });
+  });
+
+  describe('toSAN', () => {
+    it('writes moves in standard algebraic notation', () => {
+      const start = ChessPosition.fromFEN(STARTING_FEN);
+      expect(start.toSAN(positionMove('e2', 'e4'))).toEqual('e4');
+      expect(start.toSAN(positionMove('g1', 'f3'))).toEqual('Nf3');
+      const middlegame = ChessPosition.fromFEN(
+        'r3k2r/pP3ppp/8/3pP3/8/5N2/P4PPP/R3K1NR w KQkq d6 0 1',
+      );
+      expect(middlegame.toSAN(positionMove('e5', 'd6'))).toEqual('exd6');
+      expect(middlegame.toSAN(positionMove('b7', 'a8', 'q'))).toEqual('bxa8=Q+');
+      expect(middlegame.toSAN(positionMove('e1', 'c1'))).toEqual('O-O-O');
+    });
+    it('disambiguates by file, by rank, and by square when neither is enough', () => {
+      const knights = ChessPosition.fromFEN('4k3/8/8/8/8/5N2/8/1N2K3 w - - 0 1');
+      expect(knights.toSAN(positionMove('f3', 'd2'))).toEqual('Nfd2');
+      const rooks = ChessPosition.fromFEN('4k3/8/R7/8/8/8/8/R3K3 w - - 0 1');
+      expect(rooks.toSAN(positionMove('a1', 'a3'))).toEqual('R1a3');
+      const queens = ChessPosition.fromFEN('4k3/8/8/8/8/Q1Q5/8/Q3K3 w - - 0 1');
+      expect(queens.toSAN(positionMove('a3', 'b2'))).toEqual('Qa3b2');
+    });
+    it('marks checkmate', () => {
+      const position = ChessPosition.fromFEN(
+        'rnbqkbnr/ppppp2p/5p2/6p1/4P3/8/PPPP1PPP/RNBQKBNR w KQkq g6 0 3',
+      );
+      expect(position.toSAN(positionMove('d1', 'h5'))).toEqual('Qh5#');
+    });
+  });
+
+  describe('hasInsufficientMaterial', () => {
+    it('is true when neither player can checkmate', () => {
+      [
+        '4k3/8/8/8/8/8/8/4K3 w - - 0 1',
+        '4k3/8/8/8/8/8/8/4KN2 w - - 0 1',
+        '2b1k3/8/8/8/8/8/8/4KB2 w - - 0 1',
+      ].forEach(fen => expect(ChessPosition.fromFEN(fen).hasInsufficientMaterial()).toBe(true));
+    });
+    it('is false when a checkmate is still possible', () => {
+      [
+        '4k3/8/8/8/8/8/8/4KR2 w - - 0 1',
+        '4k3/8/8/8/8/8/8/3NKN2 w - - 0 1',
+        '3bk3/8/8/8/8/8/8/4KB2 w - - 0 1',
+      ].forEach(fen => expect(ChessPosition.fromFEN(fen).hasInsufficientMaterial()).toBe(false));
+    });
+  });
+});
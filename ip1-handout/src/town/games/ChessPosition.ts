@@ -0,0 +1,493 @@
+import InvalidParametersError, { INVALID_FEN_MESSAGE } from '../../lib/InvalidParametersError';
+import { ChessSquare } from '../../types/CoveyTownSocket';
+
+export const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const FILES = 'abcdefgh';
+
+const KNIGHT_STEPS = [
+  [1, 2],
+  [2, 1],
+  [2, -1],
+  [1, -2],
+  [-1, -2],
+  [-2, -1],
+  [-2, 1],
+  [-1, 2],
+];
+const BISHOP_DIRECTIONS = [
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+const ROOK_DIRECTIONS = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+];
+const KING_STEPS = [...BISHOP_DIRECTIONS, ...ROOK_DIRECTIONS];
+
+/** 'w' for white, 'b' for black, as in FEN */
+export type Side = 'w' | 'b';
+
+/**
+ * A piece, as a letter in FEN: uppercase for white and lowercase for black (e.g. 'N' is a white knight)
+ */
+export type Piece = string;
+
+/**
+ * A move from one square to another, with squares numbered from 0 (a1) to 63 (h8) rank by rank.
+ * The promotion is the lowercase FEN letter of the piece that a pawn is promoted to.
+ */
+export interface PositionMove {
+  from: number;
+  to: number;
+  promotion?: string;
+}
+
+export function squareName(square: number): ChessSquare {
+  return `${FILES[square % 8]}${Math.floor(square / 8) + 1}` as ChessSquare;
+}
+
+export function squareIndex(name: ChessSquare): number {
+  return (Number(name[1]) - 1) * 8 + FILES.indexOf(name[0]);
+}
+
+function sideOf(piece: Piece): Side {
+  return piece === piece.toUpperCase() ? 'w' : 'b';
+}
+
+function opponentOf(side: Side): Side {
+  return side === 'w' ? 'b' : 'w';
+}
+
+/**
+ * The square `fileStep` files and `rankStep` ranks away from a square, or undefined if that is off the board
+ */
+function offset(square: number, fileStep: number, rankStep: number): number | undefined {
+  const file = (square % 8) + fileStep;
+  const rank = Math.floor(square / 8) + rankStep;
+  if (file < 0 || file > 7 || rank < 0 || rank > 7) {
+    return undefined;
+  }
+  return rank * 8 + file;
+}
+
+/**
+ * A ChessPosition is a snapshot of a game of chess: where the pieces are, whose turn it is, and
+ * the castling, en passant and fifty-move rule information that FEN records. Positions are
+ * immutable: playing a move creates a new position.
+ * @see https://en.wikipedia.org/wiki/Forsyth%E2%80%93Edwards_Notation
+ */
+export default class ChessPosition {
+  /** The piece on each square, indexed from 0 (a1) to 63 (h8) rank by rank */
+  public readonly board: ReadonlyArray<Piece | undefined>;
+
+  public readonly turn: Side;
+
+  /** The castling rights that remain, as in FEN (e.g. 'KQk'), or '' if there are none */
+  public readonly castling: string;
+
+  /** The square that a pawn skipped over with its last move, which can be captured en passant */
+  public readonly enPassant?: number;
+
+  /** The number of half-moves since the last capture or pawn move */
+  public readonly halfmoveClock: number;
+
+  public readonly fullmoveNumber: number;
+
+  private constructor(
+    board: ReadonlyArray<Piece | undefined>,
+    turn: Side,
+    castling: string,
+    enPassant: number | undefined,
+    halfmoveClock: number,
+    fullmoveNumber: number,
+  ) {
+    this.board = board;
+    this.turn = turn;
+    this.castling = castling;
+    this.enPassant = enPassant;
+    this.halfmoveClock = halfmoveClock;
+    this.fullmoveNumber = fullmoveNumber;
+  }
+
+  /**
+   * Reads a position from its FEN. The move counters may be left out, in which case they default to 0 and 1.
+   *
+   * @param fen the position in Forsyth-Edwards Notation
+   * @throws InvalidParametersError (INVALID_FEN_MESSAGE) if the FEN is malformed, or describes a position
+   *  that cannot occur in a game: without exactly one king of each color, with pawns on the first or last
+   *  rank, or with the player who is not to move in check
+   */
+  public static fromFEN(fen: string): ChessPosition {
+    const fields = fen.trim().split(/\s+/);
+    const [placement, turn, castling, enPassant, halfmoves = '0', fullmoves = '1'] = fields;
+    const ranks = placement.split('/');
+    if (
+      fields.length < 4 ||
+      fields.length > 6 ||
+      ranks.length !== 8 ||
+      (turn !== 'w' && turn !== 'b') ||
+      !/^(-|K?Q?k?q?)$/.test(castling) ||
+      !/^(-|[a-h][36])$/.test(enPassant) ||
+      !/^\d+$/.test(halfmoves) ||
+      !/^[1-9]\d*$/.test(fullmoves)
+    ) {
+      throw new InvalidParametersError(INVALID_FEN_MESSAGE);
+    }
+    const board: Array<Piece | undefined> = Array(64).fill(undefined);
+    ranks.forEach((rankPlacement, index) => {
+      const rank = 7 - index;
+      let file = 0;
+      rankPlacement.split('').forEach(char => {
+        if (/^[1-8]$/.test(char)) {
+          file += Number(char);
+        } else if (/^[pnbrqkPNBRQK]$/.test(char) && file < 8) {
+          board[rank * 8 + file] = char;
+          file += 1;
+        } else {
+          throw new InvalidParametersError(INVALID_FEN_MESSAGE);
+        }
+      });
+      if (file !== 8) {
+        throw new InvalidParametersError(INVALID_FEN_MESSAGE);
+      }
+    });
+    const position = new ChessPosition(
+      board,
+      turn,
+      castling === '-' ? '' : castling,
+      enPassant === '-' ? undefined : squareIndex(enPassant as ChessSquare),
+      Number(halfmoves),
+      Number(fullmoves),
+    );
+    const pawnOnEdge = board.some(
+      (piece, square) => (piece === 'P' || piece === 'p') && (square < 8 || square >= 56),
+    );
+    if (
+      board.filter(piece => piece === 'K').length !== 1 ||
+      board.filter(piece => piece === 'k').length !== 1 ||
+      pawnOnEdge ||
+      position.isInCheck(opponentOf(turn))
+    ) {
+      throw new InvalidParametersError(INVALID_FEN_MESSAGE);
+    }
+    return position;
+  }
+
+  /**
+   * Writes this position in Forsyth-Edwards Notation
+   */
+  public toFEN(): string {
+    return [
+      this._placement(),
+      this.turn,
+      this.castling || '-',
+      this.enPassant === undefined ? '-' : squareName(this.enPassant),
+      this.halfmoveClock,
+      this.fullmoveNumber,
+    ].join(' ');
+  }
+
+  /**
+   * Identifies the position for the threefold repetition rule: two positions are the same if the same
+   * pieces are on the same squares, the same player is to move, and both players have the same castling
+   * and en passant options.
+   */
+  public repetitionKey(): string {
+    const enPassantPossible = this.legalMoves().some(move => this._isEnPassant(move));
+    return [
+      this._placement(),
+      this.turn,
+      this.castling,
+      enPassantPossible ? this.enPassant : '',
+    ].join(' ');
+  }
+
+  /**
+   * Checks whether any piece of a color attacks a square
+   */
+  public isAttacked(square: number, by: Side): boolean {
+    const pieceAt = (fileStep: number, rankStep: number) => {
+      const target = offset(square, fileStep, rankStep);
+      return target === undefined ? undefined : this.board[target];
+    };
+    const ofSide = (letter: string) => (by === 'w' ? letter.toUpperCase() : letter);
+    const pawnRank = by === 'w' ? -1 : 1;
+    if (pieceAt(-1, pawnRank) === ofSide('p') || pieceAt(1, pawnRank) === ofSide('p')) {
+      return true;
+    }
+    if (KNIGHT_STEPS.some(([f, r]) => pieceAt(f, r) === ofSide('n'))) {
+      return true;
+    }
+    if (KING_STEPS.some(([f, r]) => pieceAt(f, r) === ofSide('k'))) {
+      return true;
+    }
+    const slidesTo = (directions: number[][], letters: string[]) =>
+      directions.some(([f, r]) => {
+        let target = offset(square, f, r);
+        while (target !== undefined && this.board[target] === undefined) {
+          target = offset(target, f, r);
+        }
+        return target !== undefined && letters.map(ofSide).includes(this.board[target] as Piece);
+      });
+    return slidesTo(ROOK_DIRECTIONS, ['r', 'q']) || slidesTo(BISHOP_DIRECTIONS, ['b', 'q']);
+  }
+
+  /**
+   * Checks whether a color's king is attacked
+   */
+  public isInCheck(side: Side = this.turn): boolean {
+    const king = this.board.indexOf(side === 'w' ? 'K' : 'k');
+    return this.isAttacked(king, opponentOf(side));
+  }
+
+  /**
+   * Lists the moves that the pieces of the player to move could make if it did not matter whether
+   * their own king was left in check. Castling is only included if it is fully legal.
+   */
+  public pseudoLegalMoves(): PositionMove[] {
+    const moves: PositionMove[] = [];
+    this.board.forEach((piece, from) => {
+      if (piece === undefined || sideOf(piece) !== this.turn) {
+        return;
+      }
+      const type = piece.toLowerCase();
+      if (type === 'p') {
+        this._pawnMoves(from, moves);
+      } else if (type === 'n' || type === 'k') {
+        (type === 'n' ? KNIGHT_STEPS : KING_STEPS).forEach(([f, r]) => {
+          const to = offset(from, f, r);
+          if (to !== undefined && this._canLandOn(to)) {
+            moves.push({ from, to });
+          }
+        });
+      } else {
+        const directions = {
+          b: BISHOP_DIRECTIONS,
+          r: ROOK_DIRECTIONS,
+          q: KING_STEPS,
+        }[type] as number[][];
+        directions.forEach(([f, r]) => {
+          let to = offset(from, f, r);
+          while (to !== undefined && this._canLandOn(to)) {
+            moves.push({ from, to });
+            to = this.board[to] === undefined ? offset(to, f, r) : undefined;
+          }
+        });
+      }
+    });
+    this._castlingMoves(moves);
+    return moves;
+  }
+
+  /**
+   * Lists the moves that the player to move can make without leaving their own king in check
+   */
+  public legalMoves(): PositionMove[] {
+    return this.pseudoLegalMoves().filter(move => !this.play(move).isInCheck(this.turn));
+  }
+
+  /**
+   * Plays a move, without checking that it is legal
+   * @returns the position after the move
+   */
+  public play(move: PositionMove): ChessPosition {
+    const board = [...this.board];
+    const piece = board[move.from] as Piece;
+    const type = piece.toLowerCase();
+    const captured = board[move.to];
+    board[move.from] = undefined;
+    const placed = move.promotion || piece;
+    board[move.to] = this.turn === 'w' ? placed.toUpperCase() : placed.toLowerCase();
+    if (this._isEnPassant(move)) {
+      board[move.to - (this.turn === 'w' ? 8 : -8)] = undefined;
+    }
+    if (type === 'k' && Math.abs(move.to - move.from) === 2) {
+      const kingside = move.to > move.from;
+      const rookFrom = kingside ? move.from + 3 : move.from - 4;
+      const rookTo = kingside ? move.from + 1 : move.from - 1;
+      board[rookTo] = board[rookFrom];
+      board[rookFrom] = undefined;
+    }
+    const lostRights: Record<number, string> = { 0: 'Q', 7: 'K', 56: 'q', 63: 'k' };
+    let castling = this.castling
+      .split('')
+      .filter(right => right !== lostRights[move.from] && right !== lostRights[move.to])
+      .join('');
+    if (type === 'k') {
+      castling = castling.replace(this.turn === 'w' ? /[KQ]/g : /[kq]/g, '');
+    }
+    const doubleStep = type === 'p' && Math.abs(move.to - move.from) === 16;
+    return new ChessPosition(
+      board,
+      opponentOf(this.turn),
+      castling,
+      doubleStep ? (move.from + move.to) / 2 : undefined,
+      type === 'p' || captured !== undefined ? 0 : this.halfmoveClock + 1,
+      this.turn === 'b' ? this.fullmoveNumber + 1 : this.fullmoveNumber,
+    );
+  }
+
+  /**
+   * Writes a legal move in Standard Algebraic Notation (e.g. 'Nbd7', 'exd5', 'e8=Q+', 'O-O')
+   */
+  public toSAN(move: PositionMove): string {
+    const piece = this.board[move.from] as Piece;
+    const type = piece.toLowerCase();
+    const after = this.play(move);
+    let check = '';
+    if (after.isInCheck()) {
+      check = after.legalMoves().length === 0 ? '#' : '+';
+    }
+    if (type === 'k' && Math.abs(move.to - move.from) === 2) {
+      return (move.to > move.from ? 'O-O' : 'O-O-O') + check;
+    }
+    const isCapture = this.board[move.to] !== undefined || this._isEnPassant(move);
+    const capture = isCapture ? 'x' : '';
+    const promotion = move.promotion ? `=${move.promotion.toUpperCase()}` : '';
+    const to = squareName(move.to);
+    if (type === 'p') {
+      return `${isCapture ? squareName(move.from)[0] : ''}${capture}${to}${promotion}${check}`;
+    }
+    const rivals = this.legalMoves().filter(
+      other => other.to === move.to && other.from !== move.from && this.board[other.from] === piece,
+    );
+    const from = squareName(move.from);
+    let disambiguation = '';
+    if (rivals.length > 0) {
+      if (!rivals.some(other => other.from % 8 === move.from % 8)) {
+        [disambiguation] = from;
+      } else if (!rivals.some(other => Math.floor(other.from / 8) === Math.floor(move.from / 8))) {
+        [, disambiguation] = from;
+      } else {
+        disambiguation = from;
+      }
+    }
+    return `${piece.toUpperCase()}${disambiguation}${capture}${to}${check}`;
+  }
+
+  /**
+   * Checks whether neither player has enough pieces left to checkmate: only kings, a king and a single
+   * knight or bishop against a king, or kings and bishops that all stand on squares of the same color
+   */
+  public hasInsufficientMaterial(): boolean {
+    const others = this.board
+      .map((piece, square) => ({ piece, square }))
+      .filter(({ piece }) => piece !== undefined && piece.toLowerCase() !== 'k');
+    if (others.length === 0) {
+      return true;
+    }
+    if (others.length === 1 && /^[nNbB]$/.test(others[0].piece as Piece)) {
+      return true;
+    }
+    const squareColor = (square: number) => ((square % 8) + Math.floor(square / 8)) % 2;
+    return (
+      others.every(({ piece }) => piece === 'b' || piece === 'B') &&
+      others.every(({ square }) => squareColor(square) === squareColor(others[0].square))
+    );
+  }
+
+  private _placement(): string {
+    const ranks: string[] = [];
+    for (let rank = 7; rank >= 0; rank--) {
+      let text = '';
+      let empty = 0;
+      for (let file = 0; file < 8; file++) {
+        const piece = this.board[rank * 8 + file];
+        if (piece === undefined) {
+          empty += 1;
+        } else {
+          text += `${empty || ''}${piece}`;
+          empty = 0;
+        }
+      }
+      ranks.push(`${text}${empty || ''}`);
+    }
+    return ranks.join('/');
+  }
+
+  /**
+   * Checks whether a piece of the player to move could land on a square: it must be empty or hold
+   * an opponent's piece
+   */
+  private _canLandOn(square: number): boolean {
+    const target = this.board[square];
+    return target === undefined || sideOf(target) !== this.turn;
+  }
+
+  private _isEnPassant(move: PositionMove): boolean {
+    const piece = this.board[move.from];
+    return (
+      move.to === this.enPassant &&
+      (piece === 'P' || piece === 'p') &&
+      move.from % 8 !== move.to % 8
+    );
+  }
+
+  private _pawnMoves(from: number, moves: PositionMove[]): void {
+    const forward = this.turn === 'w' ? 1 : -1;
+    const startRank = this.turn === 'w' ? 1 : 6;
+    const add = (to: number) => {
+      if (to < 8 || to >= 56) {
+        ['q', 'r', 'b', 'n'].forEach(promotion => moves.push({ from, to, promotion }));
+      } else {
+        moves.push({ from, to });
+      }
+    };
+    const oneStep = offset(from, 0, forward);
+    if (oneStep !== undefined && this.board[oneStep] === undefined) {
+      add(oneStep);
+      const twoSteps = offset(from, 0, 2 * forward);
+      if (
+        Math.floor(from / 8) === startRank &&
+        twoSteps !== undefined &&
+        this.board[twoSteps] === undefined
+      ) {
+        add(twoSteps);
+      }
+    }
+    [-1, 1].forEach(fileStep => {
+      const to = offset(from, fileStep, forward);
+      if (to === undefined) {
+        return;
+      }
+      const target = this.board[to];
+      if ((target !== undefined && sideOf(target) !== this.turn) || to === this.enPassant) {
+        add(to);
+      }
+    });
+  }
+
+  /**
+   * Adds the castling moves of the player to move: the king and rook must not have moved (which the
+   * castling rights record), the squares between them must be empty, and the king must not be in check,
+   * pass through a square that is attacked, or end up in check.
+   */
+  private _castlingMoves(moves: PositionMove[]): void {
+    const isWhite = this.turn === 'w';
+    const king = isWhite ? 4 : 60;
+    const opponent = opponentOf(this.turn);
+    if (this.board[king] !== (isWhite ? 'K' : 'k') || this.isAttacked(king, opponent)) {
+      return;
+    }
+    const rook = isWhite ? 'R' : 'r';
+    const options = [
+      { right: isWhite ? 'K' : 'k', rookSquare: king + 3, empty: [1, 2], passes: [1, 2] },
+      { right: isWhite ? 'Q' : 'q', rookSquare: king - 4, empty: [-1, -2, -3], passes: [-1, -2] },
+    ];
+    options.forEach(({ right, rookSquare, empty, passes }) => {
+      if (
+        this.castling.includes(right) &&
+        this.board[rookSquare] === rook &&
+        empty.every(step => this.board[king + step] === undefined) &&
+        passes.every(step => !this.isAttacked(king + step, opponent))
+      ) {
+        moves.push({ from: king, to: king + passes[1] });
+      }
+    });
+  }
+}
@@ -0,0 +1,234 @@
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  COLUMN_FULL_MESSAGE,
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { ConnectFourColIndex } from '../../types/CoveyTownSocket';
+import ConnectFourGame, { isConnectFourMove } from './ConnectFourGame';
+
+describe('ConnectFourGame', () => {
+  let game: ConnectFourGame;
+  let red: Player;
+  let yellow: Player;
+
+  beforeEach(() => {
+    game = new ConnectFourGame();
+    red = createPlayerForTesting();
+    yellow = createPlayerForTesting();
+  });
+
+  function drop(player: Player, col: ConnectFourColIndex) {
+    game.applyMove({
+      gameID: game.id,
+      playerID: player.id,
+      move: { gamePiece: player === red ? 'Red' : 'Yellow', col },
+    });
+  }
+
+  /**
+   * Drops pieces into the given columns, alternating between red and yellow (starting with red)
+   */
+  function dropAll(cols: ConnectFourColIndex[]) {
+    cols.forEach((col, index) => drop(index % 2 === 0 ? red : yellow, col));
+  }
+
+  describe('_join', () => {
+    it('makes the first player red and leaves the game waiting to start', () => {
+      game.join(red);
+      expect(game.state.red).toEqual(red.id);
+      expect(game.state.yellow).toBeUndefined();
+      expect(game.state.status).toEqual('WAITING_TO_START');
+    });
+    it('makes the second player yellow and starts the game', () => {
+      game.join(red);
+      game.join(yellow);
+      expect(game.state.yellow).toEqual(yellow.id);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      expect(game.players).toEqual([red, yellow]);
+    });
+    it('throws an error if the player is already in the game', () => {
+      game.join(red);
+      expect(() => game.join(red)).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the game is full', () => {
+      game.join(red);
+      game.join(yellow);
+      expect(() => game.join(createPlayerForTesting())).toThrowError(GAME_FULL_MESSAGE);
+    });
+    it('throws an error if the game is over', () => {
+      game.join(red);
+      game.join(yellow);
+      game.leave(yellow);
+      expect(() => game.join(createPlayerForTesting())).toThrowError(GAME_OVER_MESSAGE);
+    });
+  });
+
+  describe('_leave', () => {
+    it('throws an error if the player is not in the game', () => {
+      game.join(red);
+      expect(() => game.leave(yellow)).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('frees the seat if the game has not started', () => {
+      game.join(red);
+      game.leave(red);
+      expect(game.state.red).toBeUndefined();
+      expect(game.state.status).toEqual('WAITING_TO_START');
+      expect(game.players).toEqual([]);
+      game.join(yellow);
+      expect(game.state.red).toEqual(yellow.id);
+    });
+    it('ends the game with the other player as the winner if the game is in progress', () => {
+      game.join(red);
+      game.join(yellow);
+      drop(red, 3);
+      game.leave(red);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(yellow.id);
+    });
+    it('does not change the result if the game is already over', () => {
+      game.join(red);
+      game.join(yellow);
+      game.leave(red);
+      game.leave(yellow);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(yellow.id);
+    });
+  });
+
+  describe('applyMove', () => {
+    it('throws an error if the game has not started', () => {
+      game.join(red);
+      expect(() => drop(red, 0)).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    describe('when the game is in progress', () => {
+      beforeEach(() => {
+        game.join(red);
+        game.join(yellow);
+      });
+      it('drops the piece into the bottom row of an empty column', () => {
+        drop(red, 3);
+        expect(game.state.moves).toEqual([{ gamePiece: 'Red', col: 3, row: 5 }]);
+      });
+      it('stacks pieces on top of each other', () => {
+        dropAll([3, 3, 3]);
+        expect(game.state.moves.map(move => move.row)).toEqual([5, 4, 3]);
+        expect(game.state.moves.map(move => move.gamePiece)).toEqual(['Red', 'Yellow', 'Red']);
+      });
+      it('uses the player to determine the game piece', () => {
+        game.applyMove({
+          gameID: game.id,
+          playerID: red.id,
+          move: { gamePiece: 'Yellow', col: 0 },
+        });
+        expect(game.state.moves[0].gamePiece).toEqual('Red');
+      });
+      it('throws an error if it is not the player’s turn', () => {
+        expect(() => drop(yellow, 0)).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+        drop(red, 0);
+        expect(() => drop(red, 0)).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      });
+      it('throws an error if the player is not in the game', () => {
+        expect(() =>
+          game.applyMove({
+            gameID: game.id,
+            playerID: createPlayerForTesting().id,
+            move: { gamePiece: 'Red', col: 0 },
+          }),
+        ).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+      });
+      it('throws an error if the column is full', () => {
+        dropAll([0, 0, 0, 0, 0, 0]);
+        expect(() => drop(red, 0)).toThrowError(COLUMN_FULL_MESSAGE);
+        expect(game.state.moves).toHaveLength(6);
+      });
+      it('declares a horizontal win', () => {
+        dropAll([0, 0, 1, 1, 2, 2, 3]);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toEqual(red.id);
+      });
+      it('declares a vertical win', () => {
+        dropAll([6, 0, 1, 0, 2, 0, 6, 0]);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toEqual(yellow.id);
+      });
+      it('declares a diagonal win rising to the right', () => {
+        dropAll([0, 1, 1, 2, 2, 3, 2, 3, 3, 6, 3]);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toEqual(red.id);
+      });
+      it('declares a diagonal win rising to the left', () => {
+        dropAll([6, 5, 5, 4, 4, 3, 4, 3, 3, 0, 3]);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toEqual(red.id);
+      });
+      it('declares a win when the last piece fills the middle of a line', () => {
+        dropAll([0, 0, 1, 1, 3, 3, 2]);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toEqual(red.id);
+      });
+      it('does not declare a win for three in a row', () => {
+        dropAll([0, 0, 1, 1, 2, 2]);
+        expect(game.state.status).toEqual('IN_PROGRESS');
+        expect(game.state.winner).toBeUndefined();
+      });
+      it('declares a draw when the board fills up without a winner', () => {
+        // Fill columns in pairs so that no four of the same color line up
+        const cols: ConnectFourColIndex[] = [];
+        ([0, 2, 4] as ConnectFourColIndex[]).forEach(col => {
+          for (let i = 0; i < 3; i++) {
+            cols.push(col, (col + 1) as ConnectFourColIndex);
+          }
+          for (let i = 0; i < 3; i++) {
+            cols.push((col + 1) as ConnectFourColIndex, col);
+          }
+        });
+        for (let i = 0; i < 6; i++) {
+          cols.push(6);
+        }
+        dropAll(cols);
+        expect(game.state.moves).toHaveLength(42);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toBeUndefined();
+      });
+      it('throws an error if the game is over', () => {
+        dropAll([0, 0, 1, 1, 2, 2, 3]);
+        expect(() => drop(yellow, 4)).toThrowError(GAME_OVER_MESSAGE);
+      });
+    });
+  });
+
+  describe('undoLastMove', () => {
+    beforeEach(() => {
+      game.join(red);
+      game.join(yellow);
+    });
+    it('takes back the last move, emptying its square and giving the turn back', () => {
+      dropAll([3, 3]);
+      game.undoLastMove();
+      expect(game.state.moves).toEqual([{ gamePiece: 'Red', col: 3, row: 5 }]);
+      expect(() => drop(red, 3)).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      drop(yellow, 3);
+      expect(game.state.moves[1]).toEqual({ gamePiece: 'Yellow', col: 3, row: 4 });
+    });
+  });
+
+  describe('isConnectFourMove', () => {
+    it('accepts moves with a game piece and a column on the board', () => {
+      expect(isConnectFourMove({ gamePiece: 'Red', col: 0 })).toBe(true);
+      expect(isConnectFourMove({ gamePiece: 'Yellow', col: 6 })).toBe(true);
+    });
+    it('rejects moves that are off the board or missing fields', () => {
+      expect(isConnectFourMove({ gamePiece: 'Red', col: 7 })).toBe(false);
+      expect(isConnectFourMove({ gamePiece: 'Red', col: 1.5 })).toBe(false);
+      expect(isConnectFourMove({ gamePiece: 'X', col: 0 })).toBe(false);
+      expect(isConnectFourMove({ gamePiece: 'Red' })).toBe(false);
+      expect(isConnectFourMove(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import InvalidParametersError, {
+  COLUMN_FULL_MESSAGE,
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  ConnectFourColIndex,
+  ConnectFourColor,
+  ConnectFourGameState,
+  ConnectFourMove,
+  ConnectFourRowIndex,
+  GameMove,
+  PlayerID,
+} from '../../types/CoveyTownSocket';
+import Game from './Game';
+
+export const CONNECT_FOUR_ROWS = 6;
+export const CONNECT_FOUR_COLS = 7;
+
+/**
+ * Checks that a move received from a client has the shape of a ConnectFourMove
+ * @param move the move to check
+ * @returns true if the move has a valid game piece and column
+ */
+export function isConnectFourMove(move: unknown): move is ConnectFourMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { gamePiece, col } = move as Record<string, unknown>;
+  return (
+    (gamePiece === 'Red' || gamePiece === 'Yellow') &&
+    typeof col === 'number' &&
+    Number.isInteger(col) &&
+    col >= 0 &&
+    col < CONNECT_FOUR_COLS
+  );
+}
+
+/**
+ * A ConnectFourGame is a Game that implements the rules of Connect Four.
+ * @see https://en.wikipedia.org/wiki/Connect_Four
+ */
+export default class ConnectFourGame extends Game<ConnectFourGameState, ConnectFourMove> {
+  public constructor() {
+    super({
+      moves: [],
+      status: 'WAITING_TO_START',
+    });
+  }
+
+  /*
+   * The board, indexed by [row][col]. Row 0 is the top row, so pieces are dropped into
+   * the highest-numbered empty row of a column.
+   */
+  private _board: Array<Array<ConnectFourColor | undefined>> = Array.from(
+    { length: CONNECT_FOUR_ROWS },
+    () => Array(CONNECT_FOUR_COLS).fill(undefined),
+  );
+
+  /*
+   * Applies a player's move to the game.
+   * Uses the player's ID to determine which game piece they are using (ignores move.gamePiece)
+   * The piece drops into the lowest empty row of the chosen column.
+   * Validates the move before applying it. If the move is invalid, throws an InvalidParametersError with
+   * the error message specified below.
+   * A move is invalid if:
+   *    - The game is over (GAME_OVER_MESSAGE) or not yet in progress (GAME_NOT_IN_PROGRESS_MESSAGE)
+   *    - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *    - The move is not the player's turn (MOVE_NOT_YOUR_TURN_MESSAGE). Red moves first.
+   *    - The chosen column is already full (COLUMN_FULL_MESSAGE)
+   *
+   * If the move results in four pieces in a row (horizontally, vertically, or diagonally), updates the
+   * game's state to set the status to OVER and sets the winner to the player who made the move.
+   * If the move fills the board without a winner, updates the game's state to set the status to OVER
+   * and sets winner to undefined.
+   *
+   * @param move The move to apply to the game
+   * @throws InvalidParametersError if the move is invalid (with specific message noted above)
+   */
+  protected _applyMove(move: GameMove<ConnectFourMove>): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.status !== 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    const gamePiece = this._gamePieceFor(move.playerID);
+    if (!gamePiece) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    const nextPiece: ConnectFourColor = this.state.moves.length % 2 === 0 ? 'Red' : 'Yellow';
+    if (gamePiece !== nextPiece) {
+      throw new InvalidParametersError(MOVE_NOT_YOUR_TURN_MESSAGE);
+    }
+    const { col } = move.move;
+    const row = this._lowestEmptyRow(col);
+    if (row === undefined) {
+      throw new InvalidParametersError(COLUMN_FULL_MESSAGE);
+    }
+
+    this._board[row][col] = gamePiece;
+    this.state = {
+      ...this.state,
+      moves: [...this.state.moves, { gamePiece, col, row }],
+    };
+
+    if (this._checkForWin(row, col, gamePiece)) {
+      this.state = { ...this.state, status: 'OVER', winner: move.playerID };
+    } else if (this.state.moves.length === CONNECT_FOUR_ROWS * CONNECT_FOUR_COLS) {
+      this.state = { ...this.state, status: 'OVER', winner: undefined };
+    }
+  }
+
+  /**
+   * Red moves first, then the players take turns
+   */
+  protected _playerToMove(): PlayerID | undefined {
+    return this.state.moves.length % 2 === 0 ? this.state.red : this.state.yellow;
+  }
+
+  /**
+   * Empties the board, so that moves can be taken back (@see Game.undoLastMove)
+   */
+  protected _resetMoves(): void {
+    this._board = Array.from({ length: CONNECT_FOUR_ROWS }, () =>
+      Array(CONNECT_FOUR_COLS).fill(undefined),
+    );
+    this.state = { ...this.state, moves: [], status: 'IN_PROGRESS', winner: undefined };
+  }
+
+  protected _seatName(playerID: PlayerID): string {
+    return playerID === this.state.red ? 'Red' : 'Yellow';
+  }
+
+  /**
+   * Adds a player to the game.
+   * The first player to join is red, the second is yellow.
+   * If the game is now full (has two players), updates the game's state to set the status to IN_PROGRESS.
+   *
+   * @param player The player to join the game
+   * @throws InvalidParametersError if the game is over (GAME_OVER_MESSAGE), the player is already
+   *  in the game (PLAYER_ALREADY_IN_GAME_MESSAGE) or the game is full (GAME_FULL_MESSAGE)
+   */
+  protected _join(player: Player): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.red === player.id || this.state.yellow === player.id) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    if (!this.state.red) {
+      this.state = { ...this.state, red: player.id };
+    } else if (!this.state.yellow) {
+      this.state = { ...this.state, yellow: player.id };
+    } else {
+      throw new InvalidParametersError(GAME_FULL_MESSAGE);
+    }
+    if (this.state.red && this.state.yellow) {
+      this.state = { ...this.state, status: 'IN_PROGRESS' };
+    }
+  }
+
+  /**
+   * Removes a player from the game.
+   * If the game is in progress, the player forfeits: updates the game's status to OVER and sets
+   *   the winner to the other player.
+   * If the game has not yet started, frees the player's seat and leaves the status as WAITING_TO_START.
+   * If the game is already over, the result is left unchanged.
+   *
+   * @param player The player to remove from the game
+   * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  protected _leave(player: Player): void {
+    const { red, yellow, status } = this.state;
+    if (red !== player.id && yellow !== player.id) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (status === 'IN_PROGRESS') {
+      this.state = {
+        ...this.state,
+        status: 'OVER',
+        winner: red === player.id ? yellow : red,
+      };
+    } else if (status === 'WAITING_TO_START') {
+      this.state = {
+        ...this.state,
+        red: red === player.id ? undefined : red,
+        yellow: yellow === player.id ? undefined : yellow,
+      };
+    }
+  }
+
+  private _gamePieceFor(playerID: string): ConnectFourColor | undefined {
+    if (playerID === this.state.red) {
+      return 'Red';
+    }
+    if (playerID === this.state.yellow) {
+      return 'Yellow';
+    }
+    return undefined;
+  }
+
+  private _lowestEmptyRow(col: ConnectFourColIndex): ConnectFourRowIndex | undefined {
+    for (let row = CONNECT_FOUR_ROWS - 1; row >= 0; row--) {
+      if (this._board[row][col] === undefined) {
+        return row as ConnectFourRowIndex;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks whether the piece just placed at (row, col) is part of four in a row, counting
+   * outwards from it in each of the four directions (horizontal, vertical and both diagonals)
+   */
+  private _checkForWin(row: number, col: number, gamePiece: ConnectFourColor): boolean {
+    const directions = [
+      [0, 1],
+      [1, 0],
+      [1, 1],
+      [1, -1],
+    ];
+    const countInDirection = (rowStep: number, colStep: number) => {
+      let count = 0;
+      let r = row + rowStep;
+      let c = col + colStep;
+      while (this._board[r]?.[c] === gamePiece) {
+        count++;
+        r += rowStep;
+        c += colStep;
+      }
+      return count;
+    };
+    return directions.some(
+      ([rowStep, colStep]) =>
+        1 + countInDirection(rowStep, colStep) + countInDirection(-rowStep, -colStep) >= 4,
+    );
+  }
+}
@@ -0,0 +1,490 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import { createPlayerForTesting, mockClock, MockClock } from '../../TestUtils';
+import {
+  GAME_ID_MISSMATCH_MESSAGE,
+  GAME_IN_PROGRESS_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  INVALID_COMMAND_MESSAGE,
+  INVALID_MOVE_MESSAGE,
+  NO_MOVE_TO_UNDO_MESSAGE,
+  NO_SUCH_TEAM_MESSAGE,
+  NO_UNDO_REQUESTED_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  REPLAY_NOT_FOUND_MESSAGE,
+  SPECTATOR_CANNOT_MOVE_MESSAGE,
+  UNDO_ALREADY_REQUESTED_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { ConnectFourColIndex, GameInstanceID, TownEmitter } from '../../types/CoveyTownSocket';
+import ConnectFourGameArea from './ConnectFourGameArea';
+import { UNDO_REQUEST_TIMEOUT_MS } from './GameArea';
+import RatingService from './RatingService';
+
+describe('ConnectFourGameArea', () => {
+  let gameArea: ConnectFourGameArea;
+  let red: Player;
+  let yellow: Player;
+  let interactableUpdateSpy: jest.SpyInstance;
+  beforeEach(() => {
+    red = createPlayerForTesting();
+    yellow = createPlayerForTesting();
+    gameArea = new ConnectFourGameArea(
+      nanoid(),
+      { x: 0, y: 0, width: 100, height: 100 },
+      mock<TownEmitter>(),
+    );
+    gameArea.add(red);
+    gameArea.add(yellow);
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Test requires access to protected method)
+    interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+  });
+
+  function drop(player: Player, gameID: GameInstanceID, col: ConnectFourColIndex) {
+    gameArea.handleCommand({ type: 'GameMove', gameID, move: { gamePiece: 'Red', col } }, player);
+  }
+
+  it('reports its type as ConnectFourArea', () => {
+    expect(gameArea.toModel().type).toEqual('ConnectFourArea');
+  });
+
+  describe('JoinGame', () => {
+    it('creates a new game, seats the player and calls _emitAreaChanged', () => {
+      const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, red);
+      expect(gameArea.game?.id).toEqual(gameID);
+      expect(gameArea.game?.state.red).toEqual(red.id);
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+    });
+    it('seats the second player in the same game and starts it', () => {
+      const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, red);
+      const gameID2 = gameArea.handleCommand({ type: 'JoinGame' }, yellow).gameID;
+      expect(gameID2).toEqual(gameID);
+      expect(gameArea.game?.state.yellow).toEqual(yellow.id);
+      expect(gameArea.game?.state.status).toEqual('IN_PROGRESS');
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(2);
+    });
+    it('throws an error if the player asks to join a team, as Connect Four is not a team game', () => {
+      gameArea.handleCommand({ type: 'JoinGame' }, red);
+      expect(() => gameArea.handleCommand({ type: 'JoinGame', team: 1 }, yellow)).toThrowError(
+        NO_SUCH_TEAM_MESSAGE,
+      );
+      expect(gameArea.game?.players).toHaveLength(1);
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('GameMove', () => {
+    it('throws an error when there is no game in progress', () => {
+      expect(() => drop(red, nanoid(), 0)).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    describe('when there is a game in progress', () => {
+      let gameID: GameInstanceID;
+      beforeEach(() => {
+        gameID = gameArea.handleCommand({ type: 'JoinGame' }, red).gameID;
+        gameArea.handleCommand({ type: 'JoinGame' }, yellow);
+        interactableUpdateSpy.mockClear();
+      });
+      it('throws an error when the game ID does not match', () => {
+        expect(() => drop(red, nanoid(), 0)).toThrowError(GAME_ID_MISSMATCH_MESSAGE);
+        expect(interactableUpdateSpy).not.toHaveBeenCalled();
+      });
+      it('throws an error when the move is not a ConnectFourMove', () => {
+        expect(() =>
+          gameArea.handleCommand(
+            // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+            // @ts-ignore (Testing an invalid move, only possible at the boundary of the type system)
+            { type: 'GameMove', gameID, move: { gamePiece: 'Red', col: 9 } },
+            red,
+          ),
+        ).toThrowError(INVALID_MOVE_MESSAGE);
+        expect(interactableUpdateSpy).not.toHaveBeenCalled();
+      });
+      it('applies the move and calls _emitAreaChanged', () => {
+        drop(red, gameID, 4);
+        expect(gameArea.game?.state.moves).toEqual([{ gamePiece: 'Red', col: 4, row: 5 }]);
+        expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+      });
+      it('records the winner in the history when the game ends', () => {
+        [0, 0, 1, 1, 2, 2].forEach((col, index) =>
+          drop(index % 2 === 0 ? red : yellow, gameID, col as ConnectFourColIndex),
+        );
+        expect(gameArea.history).toEqual([]);
+        drop(red, gameID, 3);
+        expect(gameArea.game?.state.status).toEqual('OVER');
+        expect(gameArea.history).toEqual([
+          { gameID, scores: { [red.userName]: 1, [yellow.userName]: 0 } },
+        ]);
+      });
+    });
+  });
+
+  describe('startGame', () => {
+    it('starts a new game with the players seated in order, and calls _emitAreaChanged', () => {
+      expect(gameArea.isAvailable).toBe(true);
+      const gameID = gameArea.startGame([yellow, red]);
+      expect(gameArea.game?.id).toEqual(gameID);
+      expect(gameArea.game?.state.red).toEqual(yellow.id);
+      expect(gameArea.game?.state.status).toEqual('IN_PROGRESS');
+      expect(gameArea.isAvailable).toBe(false);
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+    });
+    it('replaces a game that is over', () => {
+      const firstGameID = gameArea.startGame([red, yellow]);
+      gameArea.handleCommand({ type: 'LeaveGame', gameID: firstGameID }, red);
+      expect(gameArea.isAvailable).toBe(true);
+      expect(gameArea.startGame([red, yellow])).not.toEqual(firstGameID);
+    });
+    it('throws an error if a game is in progress or waiting for players', () => {
+      gameArea.handleCommand({ type: 'JoinGame' }, red);
+      expect(gameArea.isAvailable).toBe(false);
+      expect(() => gameArea.startGame([yellow])).toThrowError(GAME_IN_PROGRESS_MESSAGE);
+    });
+  });
+
+  describe('LeaveGame', () => {
+    it('throws an error when there is no game in progress', () => {
+      expect(() =>
+        gameArea.handleCommand({ type: 'LeaveGame', gameID: nanoid() }, red),
+      ).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    it('records a forfeit in the history', () => {
+      const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, red);
+      gameArea.handleCommand({ type: 'JoinGame' }, yellow);
+      interactableUpdateSpy.mockClear();
+      gameArea.handleCommand({ type: 'LeaveGame', gameID }, red);
+      expect(gameArea.game?.state.winner).toEqual(yellow.id);
+      expect(gameArea.history).toEqual([
+        { gameID, scores: { [red.userName]: 0, [yellow.userName]: 1 } },
+      ]);
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('GetReplay', () => {
+    it('returns the seats and moves of a finished game, in order', () => {
+      const clock = mockClock();
+      const replayArea = new ConnectFourGameArea(
+        nanoid(),
+        { x: 0, y: 0, width: 100, height: 100 },
+        mock<TownEmitter>(),
+        undefined,
+        clock,
+      );
+      const { gameID } = replayArea.handleCommand({ type: 'JoinGame' }, red);
+      replayArea.handleCommand({ type: 'JoinGame' }, yellow);
+      const cols: ConnectFourColIndex[] = [0, 1, 0, 1, 0, 1, 0];
+      cols.forEach((col, index) => {
+        clock.advance(1000);
+        replayArea.handleCommand(
+          {
+            type: 'GameMove',
+            gameID,
+            move: { gamePiece: index % 2 === 0 ? 'Red' : 'Yellow', col },
+          },
+          index % 2 === 0 ? red : yellow,
+        );
+      });
+      const replay = replayArea.handleCommand(
+        { type: 'GetReplay', gameID },
+        createPlayerForTesting(),
+      );
+      expect(replay).toMatchObject({
+        gameID,
+        type: 'ConnectFourArea',
+        seats: [
+          { seat: 'Red', playerID: red.id, userName: red.userName },
+          { seat: 'Yellow', playerID: yellow.id, userName: yellow.userName },
+        ],
+        startedAt: 0,
+        endedAt: 7000,
+        winner: red.id,
+      });
+      expect(replay.moves.map(move => [move.playerID, move.timestamp])).toEqual(
+        cols.map((_, index) => [index % 2 === 0 ? red.id : yellow.id, (index + 1) * 1000]),
+      );
+      expect(replay.moves[2].move).toEqual({ gamePiece: 'Red', col: 0 });
+      expect(replayArea.getReplay(gameID)).toBe(replay);
+    });
+    it('throws an error if the game is still in progress', () => {
+      const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, red);
+      gameArea.handleCommand({ type: 'JoinGame' }, yellow);
+      expect(() => gameArea.handleCommand({ type: 'GetReplay', gameID }, red)).toThrowError(
+        REPLAY_NOT_FOUND_MESSAGE,
+      );
+    });
+    it('throws an error if no such game was played in the area', () => {
+      expect(() =>
+        gameArea.handleCommand({ type: 'GetReplay', gameID: nanoid() }, red),
+      ).toThrowError(REPLAY_NOT_FOUND_MESSAGE);
+    });
+  });
+
+  describe('rateGames', () => {
+    it('reports the outcome of each game to the rating service exactly once', () => {
+      const ratingService = mock<RatingService>();
+      gameArea.rateGames('ConnectFour', ratingService);
+      const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, red);
+      gameArea.handleCommand({ type: 'JoinGame' }, yellow);
+      expect(ratingService.recordGame).not.toHaveBeenCalled();
+      gameArea.handleCommand({ type: 'LeaveGame', gameID }, red);
+      gameArea.remove(yellow);
+      expect(ratingService.recordGame).toHaveBeenCalledTimes(1);
+      expect(ratingService.recordGame).toHaveBeenCalledWith(
+        'ConnectFour',
+        [red, yellow],
+        yellow.id,
+      );
+    });
+  });
+
+  describe('time controls', () => {
+    function mapObjectWithProperties(properties: Record<string, unknown>): ITiledMapObject {
+      return {
+        id: 1,
+        name: 'Game',
+        type: 'GameArea',
+        x: 0,
+        y: 0,
+        width: 100,
+        height: 100,
+        rotation: 0,
+        visible: true,
+        properties: Object.entries(properties).map(([name, value]) => ({
+          name,
+          type: 'float',
+          value,
+        })),
+      } as ITiledMapObject;
+    }
+    function createTimedArea(properties: Record<string, unknown>, clock = mockClock()) {
+      return new ConnectFourGameArea(
+        nanoid(),
+        { x: 0, y: 0, width: 100, height: 100 },
+        mock<TownEmitter>(),
+        mapObjectWithProperties(properties),
+        clock,
+      );
+    }
+    it('are not used unless the map object sets them', () => {
+      gameArea.handleCommand({ type: 'JoinGame' }, red);
+      gameArea.handleCommand({ type: 'JoinGame' }, yellow);
+      expect(gameArea.toModel().game?.state.clock).toBeUndefined();
+    });
+    it('are read from the map object, in seconds', () => {
+      const timedArea = createTimedArea({ timePerPlayer: 300, timePerMove: 30 });
+      timedArea.handleCommand({ type: 'JoinGame' }, red);
+      timedArea.handleCommand({ type: 'JoinGame' }, yellow);
+      expect(timedArea.toModel().game?.state.clock).toMatchObject({
+        perPlayer: 300000,
+        perMove: 30000,
+        remaining: { [red.id]: 300000, [yellow.id]: 300000 },
+        running: red.id,
+      });
+    });
+    it('throw an error if a time limit is not a positive number', () => {
+      expect(() => createTimedArea({ timePerMove: 0 })).toThrowError();
+      expect(() => createTimedArea({ timePerPlayer: -10 })).toThrowError();
+      expect(() => createTimedArea({ timePerPlayer: 'forever' })).toThrowError();
+    });
+    it('forfeit the game of a player who runs out of time, recording it and calling _emitAreaChanged', () => {
+      const clock = mockClock();
+      const timedArea = createTimedArea({ timePerMove: 10 }, clock);
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore (Test requires access to protected method)
+      const emitSpy = jest.spyOn(timedArea, '_emitAreaChanged');
+      const { gameID } = timedArea.handleCommand({ type: 'JoinGame' }, red);
+      timedArea.handleCommand({ type: 'JoinGame' }, yellow);
+      clock.advance(9000);
+      timedArea.handleCommand(
+        { type: 'GameMove', gameID, move: { gamePiece: 'Red', col: 3 } },
+        red,
+      );
+      emitSpy.mockClear();
+      clock.advance(10000);
+      expect(timedArea.game?.state.status).toEqual('OVER');
+      expect(timedArea.game?.state.winner).toEqual(red.id);
+      expect(timedArea.history).toEqual([
+        { gameID, scores: { [red.userName]: 1, [yellow.userName]: 0 } },
+      ]);
+      expect(emitSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('RequestUndo and RespondUndo', () => {
+    let clock: MockClock;
+    let gameID: GameInstanceID;
+    beforeEach(() => {
+      clock = mockClock();
+      gameArea = new ConnectFourGameArea(
+        nanoid(),
+        { x: 0, y: 0, width: 100, height: 100 },
+        mock<TownEmitter>(),
+        undefined,
+        clock,
+      );
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore (Test requires access to protected method)
+      interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+      gameID = gameArea.handleCommand({ type: 'JoinGame' }, red).gameID;
+      gameArea.handleCommand({ type: 'JoinGame' }, yellow);
+      drop(red, gameID, 3);
+      interactableUpdateSpy.mockClear();
+    });
+    it('records a pending request in the area model and calls _emitAreaChanged', () => {
+      gameArea.handleCommand({ type: 'RequestUndo', gameID }, red);
+      expect(gameArea.toModel().undoRequest).toEqual({
+        gameID,
+        requester: red.id,
+        status: 'PENDING',
+        expiresAt: UNDO_REQUEST_TIMEOUT_MS,
+      });
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+    });
+    it('takes back the last move when the opponent accepts', () => {
+      gameArea.handleCommand({ type: 'RequestUndo', gameID }, red);
+      gameArea.handleCommand({ type: 'RespondUndo', gameID, accept: true }, yellow);
+      expect(gameArea.game?.state.moves).toEqual([]);
+      expect(gameArea.toModel().undoRequest?.status).toEqual('ACCEPTED');
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(2);
+      drop(red, gameID, 0);
+      expect(gameArea.game?.state.moves).toEqual([{ gamePiece: 'Red', col: 0, row: 5 }]);
+    });
+    it('reports a decline to the requester and keeps the move', () => {
+      gameArea.handleCommand({ type: 'RequestUndo', gameID }, red);
+      gameArea.handleCommand({ type: 'RespondUndo', gameID, accept: false }, yellow);
+      expect(gameArea.game?.state.moves).toHaveLength(1);
+      expect(gameArea.toModel().undoRequest?.status).toEqual('DECLINED');
+    });
+    it('declines a request that is still pending when a move is made', () => {
+      gameArea.handleCommand({ type: 'RequestUndo', gameID }, red);
+      drop(yellow, gameID, 3);
+      expect(gameArea.toModel().undoRequest?.status).toEqual('DECLINED');
+      expect(() =>
+        gameArea.handleCommand({ type: 'RespondUndo', gameID, accept: true }, yellow),
+      ).toThrowError(NO_UNDO_REQUESTED_MESSAGE);
+    });
+    it('reports a request that is not answered in time as expired', () => {
+      gameArea.handleCommand({ type: 'RequestUndo', gameID }, red);
+      interactableUpdateSpy.mockClear();
+      clock.advance(UNDO_REQUEST_TIMEOUT_MS);
+      expect(gameArea.toModel().undoRequest?.status).toEqual('EXPIRED');
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+      expect(() =>
+        gameArea.handleCommand({ type: 'RespondUndo', gameID, accept: true }, yellow),
+      ).toThrowError(NO_UNDO_REQUESTED_MESSAGE);
+      expect(gameArea.game?.state.moves).toHaveLength(1);
+    });
+    it('throws an error if a request is already waiting for an answer', () => {
+      gameArea.handleCommand({ type: 'RequestUndo', gameID }, red);
+      expect(() => gameArea.handleCommand({ type: 'RequestUndo', gameID }, yellow)).toThrowError(
+        UNDO_ALREADY_REQUESTED_MESSAGE,
+      );
+    });
+    it('throws an error if the requester tries to answer their own request', () => {
+      gameArea.handleCommand({ type: 'RequestUndo', gameID }, red);
+      expect(() =>
+        gameArea.handleCommand({ type: 'RespondUndo', gameID, accept: true }, red),
+      ).toThrowError(NO_UNDO_REQUESTED_MESSAGE);
+    });
+    it('throws an error if the player is not in the game', () => {
+      const spectator = createPlayerForTesting();
+      expect(() => gameArea.handleCommand({ type: 'RequestUndo', gameID }, spectator)).toThrowError(
+        PLAYER_NOT_IN_GAME_MESSAGE,
+      );
+    });
+    it('throws an error if no move has been made', () => {
+      gameArea.handleCommand({ type: 'RequestUndo', gameID }, red);
+      gameArea.handleCommand({ type: 'RespondUndo', gameID, accept: true }, yellow);
+      expect(() => gameArea.handleCommand({ type: 'RequestUndo', gameID }, red)).toThrowError(
+        NO_MOVE_TO_UNDO_MESSAGE,
+      );
+    });
+  });
+
+  describe('Spectate and StopSpectating', () => {
+    let gameID: GameInstanceID;
+    let spectator: Player;
+    beforeEach(() => {
+      gameID = gameArea.handleCommand({ type: 'JoinGame' }, red).gameID;
+      gameArea.handleCommand({ type: 'JoinGame' }, yellow);
+      spectator = createPlayerForTesting();
+      gameArea.add(spectator);
+      interactableUpdateSpy.mockClear();
+    });
+    it('adds the player to the spectators of the game and calls _emitAreaChanged', () => {
+      gameArea.handleCommand({ type: 'Spectate', gameID }, spectator);
+      expect(gameArea.toModel().game?.spectators).toEqual([spectator.id]);
+      expect(gameArea.toModel().game?.players).toEqual([red.id, yellow.id]);
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+    });
+    it('removes the player from the spectators of the game and calls _emitAreaChanged', () => {
+      gameArea.handleCommand({ type: 'Spectate', gameID }, spectator);
+      gameArea.handleCommand({ type: 'StopSpectating', gameID }, spectator);
+      expect(gameArea.toModel().game?.spectators).toEqual([]);
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(2);
+    });
+    it('throws an error when there is no game in progress', () => {
+      const emptyArea = new ConnectFourGameArea(
+        nanoid(),
+        { x: 0, y: 0, width: 100, height: 100 },
+        mock<TownEmitter>(),
+      );
+      expect(() => emptyArea.handleCommand({ type: 'Spectate', gameID }, spectator)).toThrowError(
+        GAME_NOT_IN_PROGRESS_MESSAGE,
+      );
+    });
+    it('throws an error when the game ID does not match', () => {
+      expect(() =>
+        gameArea.handleCommand({ type: 'Spectate', gameID: nanoid() }, spectator),
+      ).toThrowError(GAME_ID_MISSMATCH_MESSAGE);
+      expect(() =>
+        gameArea.handleCommand({ type: 'StopSpectating', gameID: nanoid() }, spectator),
+      ).toThrowError(GAME_ID_MISSMATCH_MESSAGE);
+      expect(interactableUpdateSpy).not.toHaveBeenCalled();
+    });
+    it('never lets a spectator make a move', () => {
+      gameArea.handleCommand({ type: 'Spectate', gameID }, spectator);
+      interactableUpdateSpy.mockClear();
+      expect(() => drop(spectator, gameID, 0)).toThrowError(SPECTATOR_CANNOT_MOVE_MESSAGE);
+      expect(gameArea.game?.state.moves).toEqual([]);
+      expect(interactableUpdateSpy).not.toHaveBeenCalled();
+    });
+    it('stops spectating when the spectator leaves the area', () => {
+      gameArea.handleCommand({ type: 'Spectate', gameID }, spectator);
+      gameArea.remove(spectator);
+      expect(gameArea.game?.spectators).toEqual([]);
+      expect(gameArea.game?.state.status).toEqual('IN_PROGRESS');
+    });
+  });
+
+  describe('remove', () => {
+    it('forfeits the game for a player who walks out of the area', () => {
+      const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, red);
+      gameArea.handleCommand({ type: 'JoinGame' }, yellow);
+      gameArea.remove(yellow);
+      expect(gameArea.game?.state.winner).toEqual(red.id);
+      expect(gameArea.history).toEqual([
+        { gameID, scores: { [red.userName]: 1, [yellow.userName]: 0 } },
+      ]);
+    });
+    it('does not affect the game when an occupant who is not playing leaves', () => {
+      gameArea.handleCommand({ type: 'JoinGame' }, red);
+      gameArea.handleCommand({ type: 'JoinGame' }, yellow);
+      const bystander = createPlayerForTesting();
+      gameArea.add(bystander);
+      gameArea.remove(bystander);
+      expect(gameArea.game?.state.status).toEqual('IN_PROGRESS');
+      expect(gameArea.occupantsByID).toEqual([red.id, yellow.id]);
+    });
+  });
+
+  it('throws an error for an unsupported command', () => {
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Testing an invalid command, only possible at the boundary of the type system)
+    expect(() => gameArea.handleCommand({ type: 'InvalidCommand' }, red)).toThrowError(
+      INVALID_COMMAND_MESSAGE,
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import { ConnectFourMove, InteractableType } from '../../types/CoveyTownSocket';
+import ConnectFourGame, { isConnectFourMove } from './ConnectFourGame';
+import GameArea from './GameArea';
+import { GameRegistration } from './GameRegistry';
+
+/**
+ * A ConnectFourGameArea is a GameArea that hosts a ConnectFourGame.
+ * @see ConnectFourGame
+ * @see GameArea
+ */
+export default class ConnectFourGameArea extends GameArea<ConnectFourGame> {
+  protected getType(): InteractableType {
+    return 'ConnectFourArea';
+  }
+
+  protected _createGame(): ConnectFourGame {
+    return new ConnectFourGame();
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isConnectFourMove(move);
+  }
+}
+
+/**
+ * Registers ConnectFour with the GameRegistry: map objects with `type: ConnectFour` host a ConnectFourGameArea
+ */
+export const connectFourRegistration: GameRegistration<ConnectFourGame, ConnectFourMove> = {
+  gameType: 'ConnectFour',
+  interactableType: 'ConnectFourArea',
+  gameClass: ConnectFourGame,
+  areaClass: ConnectFourGameArea,
+  isValidMove: isConnectFourMove,
+};
@@ -0,0 +1,253 @@
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  GAME_FULL_MESSAGE,
+  GAME_IN_PROGRESS_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  LINE_ALREADY_CLAIMED_MESSAGE,
+  LINE_OFF_BOARD_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  TEAM_FULL_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { DotsAndBoxesMove } from '../../types/CoveyTownSocket';
+import DotsAndBoxesGame, { isDotsAndBoxesMove } from './DotsAndBoxesGame';
+
+/** Lines on a 2x2 board, after which the first player has two boxes and the second has two */
+const DRAWN_GAME = 'V10 V01 H00 V00 H10 H20 V11 H11 H01 V02 H21 V12';
+
+/**
+ * @returns the line with the given name: H (horizontal) or V (vertical), then the row and column of
+ *  the dot that it starts at
+ */
+function line(name: string): DotsAndBoxesMove {
+  return {
+    orientation: name[0] === 'H' ? 'Horizontal' : 'Vertical',
+    row: Number(name[1]),
+    col: Number(name[2]),
+  };
+}
+
+describe('DotsAndBoxesGame', () => {
+  let game: DotsAndBoxesGame;
+  let players: Player[];
+
+  beforeEach(() => {
+    game = new DotsAndBoxesGame(2);
+    players = [0, 1, 2, 3, 4].map(() => createPlayerForTesting());
+  });
+
+  function claim(player: Player, name: string) {
+    game.applyMove({ gameID: game.id, playerID: player.id, move: line(name) });
+  }
+
+  /**
+   * Claims each of the named lines, each for whichever player's turn it is
+   */
+  function playAll(names: string) {
+    names.split(' ').forEach(name => {
+      const player = players.find(eachPlayer => eachPlayer.id === game.state.turn) as Player;
+      claim(player, name);
+    });
+  }
+
+  /**
+   * Joins the given number of players to the game, and makes them all ready
+   */
+  function startGame(count = 2) {
+    const joined = players.slice(0, count);
+    joined.forEach(player => game.join(player));
+    joined.forEach(player => game.setReady(player));
+  }
+
+  it('starts with a board of the given size, and no lines', () => {
+    expect(game.state).toMatchObject({ rows: 2, cols: 2, lines: [], boxes: [], scores: {} });
+    expect(new DotsAndBoxesGame(3, 5).state).toMatchObject({ rows: 3, cols: 5 });
+  });
+
+  describe('_join', () => {
+    it('waits for the players to be ready once two players have joined', () => {
+      game.join(players[0]);
+      expect(game.state.status).toEqual('WAITING_TO_START');
+      game.join(players[1]);
+      expect(game.state.status).toEqual('WAITING_FOR_READY');
+      expect(game.state.scores).toEqual({ [players[0].id]: 0, [players[1].id]: 0 });
+    });
+    it('lets up to four players join before the game starts', () => {
+      players.slice(0, 4).forEach(player => game.join(player));
+      expect(() => game.join(players[4])).toThrowError(GAME_FULL_MESSAGE);
+      players.slice(0, 3).forEach(player => game.setReady(player));
+      expect(game.state.status).toEqual('WAITING_FOR_READY');
+      game.setReady(players[3]);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      expect(game.state.turn).toEqual(players[0].id);
+    });
+    it('throws an error if the player is already in the game', () => {
+      game.join(players[0]);
+      expect(() => game.join(players[0])).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the game has started', () => {
+      startGame();
+      expect(() => game.join(players[2])).toThrowError(GAME_IN_PROGRESS_MESSAGE);
+    });
+  });
+
+  describe('_leave', () => {
+    it('throws an error if the player is not in the game', () => {
+      game.join(players[0]);
+      expect(() => game.leave(players[1])).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('stops waiting for players to be ready if fewer than two are left', () => {
+      game.join(players[0]);
+      game.join(players[1]);
+      game.setReady(players[0]);
+      game.leave(players[0]);
+      expect(game.state.status).toEqual('WAITING_TO_START');
+      expect(game.state.scores).toEqual({ [players[1].id]: 0 });
+    });
+    it('starts the game if every player who is left is ready', () => {
+      players.slice(0, 3).forEach(player => game.join(player));
+      game.setReady(players[1]);
+      game.setReady(players[2]);
+      game.leave(players[0]);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      expect(game.state.turn).toEqual(players[1].id);
+    });
+    it('goes on without the player if more than one player is left', () => {
+      startGame(3);
+      game.leave(players[0]);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      expect(game.state.turn).toEqual(players[1].id);
+      claim(players[1], 'H00');
+      claim(players[2], 'H10');
+      expect(game.state.turn).toEqual(players[1].id);
+    });
+    it('ends the game with the last player left as the winner', () => {
+      startGame();
+      game.leave(players[0]);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(players[1].id);
+      expect(game.state.turn).toBeUndefined();
+    });
+  });
+
+  describe('applyMove', () => {
+    it('throws an error if the game has not started', () => {
+      game.join(players[0]);
+      game.join(players[1]);
+      expect(() => claim(players[0], 'H00')).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    describe('when the game is in progress', () => {
+      beforeEach(() => startGame());
+      it('claims the line and passes the turn', () => {
+        claim(players[0], 'H00');
+        expect(game.state.lines).toEqual([{ ...line('H00'), player: players[0].id }]);
+        expect(game.state.turn).toEqual(players[1].id);
+      });
+      it('throws an error if it is not the player’s turn', () => {
+        expect(() => claim(players[1], 'H00')).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      });
+      it('throws an error if the player is not in the game', () => {
+        expect(() => claim(players[2], 'H00')).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+      });
+      it('throws an error if the line does not join two dots on the board', () => {
+        expect(() => claim(players[0], 'H30')).toThrowError(LINE_OFF_BOARD_MESSAGE);
+        expect(() => claim(players[0], 'H02')).toThrowError(LINE_OFF_BOARD_MESSAGE);
+        expect(() => claim(players[0], 'V20')).toThrowError(LINE_OFF_BOARD_MESSAGE);
+        claim(players[0], 'V02');
+      });
+      it('throws an error if the line has already been claimed', () => {
+        claim(players[0], 'H00');
+        expect(() => claim(players[1], 'H00')).toThrowError(LINE_ALREADY_CLAIMED_MESSAGE);
+      });
+      it('gives a player who completes a box the box, and another turn', () => {
+        playAll('H00 H10 V00 V01');
+        expect(game.state.boxes).toEqual([{ row: 0, col: 0, player: players[1].id }]);
+        expect(game.state.scores[players[1].id]).toEqual(1);
+        expect(game.state.turn).toEqual(players[1].id);
+      });
+      it('completes both boxes that a line is a side of', () => {
+        playAll('H00 H10 V00 H01 H11 V02');
+        claim(players[0], 'V01');
+        expect(game.state.scores[players[0].id]).toEqual(2);
+        expect(game.state.turn).toEqual(players[0].id);
+      });
+      it('ends the game once every box is completed, and the player with the most boxes wins', () => {
+        playAll('H00 H10 V00 H01 H11 V02 V01 H20 H21 V10 V12 V11');
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.scores).toEqual({ [players[0].id]: 4, [players[1].id]: 0 });
+        expect(game.state.winner).toEqual(players[0].id);
+        expect(game.state.turn).toBeUndefined();
+        expect(() => claim(players[0], 'H00')).toThrowError(GAME_OVER_MESSAGE);
+      });
+      it('ends the game in a draw if more than one player has the most boxes', () => {
+        playAll(DRAWN_GAME);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.scores).toEqual({ [players[0].id]: 2, [players[1].id]: 2 });
+        expect(game.state.winner).toBeUndefined();
+      });
+    });
+  });
+
+  describe('in teams', () => {
+    beforeEach(() => {
+      game = new DotsAndBoxesGame(2, 2, true);
+    });
+    it('waits for all four players to join, dealing them to the teams in turn', () => {
+      players.slice(0, 3).forEach(player => game.join(player));
+      expect(game.state.status).toEqual('WAITING_TO_START');
+      game.join(players[3]);
+      expect(game.state.status).toEqual('WAITING_FOR_READY');
+      expect(players.slice(0, 4).map(player => game.teamOf(player.id))).toEqual([0, 1, 0, 1]);
+    });
+    it('lets players choose their team, until it is full', () => {
+      game.join(players[0], 1);
+      game.join(players[1], 1);
+      expect(() => game.join(players[2], 1)).toThrowError(TEAM_FULL_MESSAGE);
+      game.join(players[2]);
+      expect(game.teamOf(players[0].id)).toEqual(1);
+      expect(game.teamOf(players[2].id)).toEqual(0);
+    });
+    it('alternates turns between the teams, and the team with the most boxes wins', () => {
+      startGame(4);
+      expect(game.state.turn).toEqual(players[0].id);
+      claim(players[0], 'H00');
+      expect(game.state.turn).toEqual(players[1].id);
+      playAll('H10 V00 H01 H11 V02 V01 H20 H21 V10 V12 V11');
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.scores[players[2].id]).toEqual(4);
+      expect(game.state.winningTeam).toEqual(0);
+      expect(game.state.winner).toBeUndefined();
+    });
+    it('ends the game in a draw if both teams have as many boxes', () => {
+      startGame(4);
+      playAll(DRAWN_GAME);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winningTeam).toBeUndefined();
+    });
+    it('ends the game with the other team as the winner once a whole team has left', () => {
+      startGame(4);
+      game.leave(players[1]);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      game.leave(players[3]);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winningTeam).toEqual(0);
+    });
+  });
+
+  describe('isDotsAndBoxesMove', () => {
+    it('accepts moves with an orientation and a dot', () => {
+      expect(isDotsAndBoxesMove({ orientation: 'Horizontal', row: 0, col: 10 })).toBe(true);
+      expect(isDotsAndBoxesMove({ orientation: 'Vertical', row: 3, col: 0 })).toBe(true);
+    });
+    it('rejects anything else', () => {
+      expect(isDotsAndBoxesMove({ orientation: 'Diagonal', row: 0, col: 0 })).toBe(false);
+      expect(isDotsAndBoxesMove({ orientation: 'Vertical', row: 11, col: 0 })).toBe(false);
+      expect(isDotsAndBoxesMove({ orientation: 'Vertical', row: -1, col: 0 })).toBe(false);
+      expect(isDotsAndBoxesMove({ orientation: 'Vertical', row: 0 })).toBe(false);
+      expect(isDotsAndBoxesMove(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import InvalidParametersError, {
+  GAME_IN_PROGRESS_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  LINE_ALREADY_CLAIMED_MESSAGE,
+  LINE_OFF_BOARD_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  DotsAndBoxesGameState,
+  DotsAndBoxesMove,
+  GameMove,
+  PlayerID,
+  TeamIndex,
+} from '../../types/CoveyTownSocket';
+import Game from './Game';
+
+export const DOTS_AND_BOXES_MIN_PLAYERS = 2;
+
+export const DOTS_AND_BOXES_MAX_PLAYERS = 4;
+
+/** The number of players on each team when Dots and Boxes is played in teams */
+export const DOTS_AND_BOXES_TEAM_SIZES = [2, 2];
+
+/** The largest number of boxes across, or down, a board */
+export const DOTS_AND_BOXES_MAX_SIZE = 10;
+
+export const DEFAULT_DOTS_AND_BOXES_SIZE = 4;
+
+/**
+ * Checks that a move received from a client has the shape of a DotsAndBoxesMove. Whether the line is on
+ * the board depends on the size of the board, which the game checks.
+ * @param move the move to check
+ * @returns true if the move has an orientation and the position of a dot
+ */
+export function isDotsAndBoxesMove(move: unknown): move is DotsAndBoxesMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { orientation, row, col } = move as Record<string, unknown>;
+  return (
+    (orientation === 'Horizontal' || orientation === 'Vertical') &&
+    [row, col].every(
+      position =>
+        typeof position === 'number' &&
+        Number.isInteger(position) &&
+        position >= 0 &&
+        position <= DOTS_AND_BOXES_MAX_SIZE,
+    )
+  );
+}
+
+function sameLine(line: DotsAndBoxesMove, other: DotsAndBoxesMove): boolean {
+  return line.orientation === other.orientation && line.row === other.row && line.col === other.col;
+}
+
+/**
+ * @returns the four lines around the box whose top left corner is the dot at (row, col)
+ */
+function linesAround(row: number, col: number): DotsAndBoxesMove[] {
+  return [
+    { orientation: 'Horizontal', row, col },
+    { orientation: 'Horizontal', row: row + 1, col },
+    { orientation: 'Vertical', row, col },
+    { orientation: 'Vertical', row, col: col + 1 },
+  ];
+}
+
+/**
+ * @returns the boxes, as [row, col], that a line is one of the sides of: those above and below a
+ *  horizontal line, or to the left and right of a vertical line, which may be off the board
+ */
+function boxesBeside({ orientation, row, col }: DotsAndBoxesMove): Array<[number, number]> {
+  return orientation === 'Horizontal'
+    ? [
+        [row - 1, col],
+        [row, col],
+      ]
+    : [
+        [row, col - 1],
+        [row, col],
+      ];
+}
+
+/**
+ * @returns the key with the highest total, or undefined if there are none or more than one has the highest
+ */
+function leader<Key>(totals: Array<[Key, number]>): Key | undefined {
+  const ranked = [...totals].sort(([, a], [, b]) => b - a);
+  if (ranked.length === 0 || ranked[1]?.[1] === ranked[0][1]) {
+    return undefined;
+  }
+  return ranked[0][0];
+}
+
+/**
+ * A DotsAndBoxesGame is a Game that implements the rules of Dots and Boxes, for two to four players.
+ * Once two players have joined, the game waits for its players to be ready (@see Game.setReady); more
+ * players can join until it starts.
+ *
+ * It can also be played two against two, in teams (@see DOTS_AND_BOXES_TEAM_SIZES): the game then waits
+ * for all four players to join, turns alternate between the teams, and the team with the most boxes wins.
+ * @see https://en.wikipedia.org/wiki/Dots_and_boxes
+ */
+export default class DotsAndBoxesGame extends Game<DotsAndBoxesGameState, DotsAndBoxesMove> {
+  /**
+   * Creates a new DotsAndBoxesGame
+   * @param rows the number of boxes down the board
+   * @param cols the number of boxes across the board
+   * @param teams whether the game is played two against two, in teams
+   */
+  public constructor(rows = DEFAULT_DOTS_AND_BOXES_SIZE, cols = rows, teams = false) {
+    super(
+      { rows, cols, lines: [], boxes: [], scores: {}, status: 'WAITING_TO_START' },
+      teams ? DOTS_AND_BOXES_MAX_PLAYERS : DOTS_AND_BOXES_MIN_PLAYERS,
+      DOTS_AND_BOXES_MAX_PLAYERS,
+      teams ? DOTS_AND_BOXES_TEAM_SIZES : undefined,
+    );
+  }
+
+  /**
+   * Confirms that a player is ready, and once every player is, gives the first turn to the player who
+   * joined first
+   * @see Game.setReady
+   */
+  public setReady(player: Player): void {
+    super.setReady(player);
+    if (this.state.status === 'IN_PROGRESS') {
+      this.state = { ...this.state, turn: this._playerToMove() };
+    }
+  }
+
+  /*
+   * Applies a player's move to the game.
+   * Validates the move before applying it. If the move is invalid, throws an InvalidParametersError with
+   * the error message specified below.
+   * A move is invalid if:
+   *    - The game is over (GAME_OVER_MESSAGE) or not yet in progress (GAME_NOT_IN_PROGRESS_MESSAGE)
+   *    - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *    - It is not the player's turn (MOVE_NOT_YOUR_TURN_MESSAGE)
+   *    - The line does not join two dots on the board (LINE_OFF_BOARD_MESSAGE)
+   *    - The line has already been claimed (LINE_ALREADY_CLAIMED_MESSAGE)
+   *
+   * Claims the line, and the player completes each box that the line is the last side of. A player who
+   * completes a box moves again; otherwise, the turn passes to the next player. Once every box has been
+   * completed, updates the game's state to set the status to OVER: the player with the most boxes wins,
+   * and if more than one player has the most, winner is undefined. In team games, the team with the
+   * most boxes wins instead (winningTeam), and if both teams have as many, winningTeam is undefined.
+   *
+   * @param move The move to apply to the game
+   * @throws InvalidParametersError if the move is invalid (with specific message noted above)
+   */
+  protected _applyMove(move: GameMove<DotsAndBoxesMove>): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.status !== 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    const { playerID } = move;
+    if (!this.seats.includes(playerID)) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (playerID !== this._playerToMove()) {
+      throw new InvalidParametersError(MOVE_NOT_YOUR_TURN_MESSAGE);
+    }
+    const { orientation, row, col } = move.move;
+    const { rows, cols } = this.state;
+    const onBoard =
+      orientation === 'Horizontal' ? row <= rows && col < cols : row < rows && col <= cols;
+    if (!onBoard) {
+      throw new InvalidParametersError(LINE_OFF_BOARD_MESSAGE);
+    }
+    if (this.state.lines.some(line => sameLine(line, move.move))) {
+      throw new InvalidParametersError(LINE_ALREADY_CLAIMED_MESSAGE);
+    }
+    const lines = [...this.state.lines, { orientation, row, col, player: playerID }];
+    const completed = boxesBeside(move.move)
+      .filter(([boxRow, boxCol]) => boxRow >= 0 && boxRow < rows && boxCol >= 0 && boxCol < cols)
+      .filter(([boxRow, boxCol]) =>
+        linesAround(boxRow, boxCol).every(side => lines.some(line => sameLine(line, side))),
+      )
+      .map(([boxRow, boxCol]) => ({ row: boxRow, col: boxCol, player: playerID }));
+    const boxes = [...this.state.boxes, ...completed];
+    const scores = {
+      ...this.state.scores,
+      [playerID]: (this.state.scores[playerID] ?? 0) + completed.length,
+    };
+    this.state = { ...this.state, lines, boxes, scores };
+    if (boxes.length === rows * cols) {
+      this.state = { ...this.state, status: 'OVER', ...this._outcome(), turn: undefined };
+      return;
+    }
+    // completing a box earns another turn
+    if (completed.length === 0) {
+      this._nextTurn();
+    }
+    this.state = { ...this.state, turn: this._playerToMove() };
+  }
+
+  /**
+   * Adds a player to the game, with no boxes.
+   * Once two players have joined (in team games, four), updates the game's state to set the status to
+   * WAITING_FOR_READY; players can keep joining until every seat is taken or the game starts.
+   *
+   * @param player The player to join the game
+   * @param team In team games, the team that the player would like to join
+   * @throws InvalidParametersError if the game is over (GAME_OVER_MESSAGE) or has started
+   *  (GAME_IN_PROGRESS_MESSAGE), the player is already in the game (PLAYER_ALREADY_IN_GAME_MESSAGE),
+   *  every seat is taken (GAME_FULL_MESSAGE) or every seat on the team is taken (TEAM_FULL_MESSAGE)
+   */
+  protected _join(player: Player, team?: TeamIndex): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.status === 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_IN_PROGRESS_MESSAGE);
+    }
+    if (this.seats.includes(player.id)) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    this._takeSeat(player, team);
+    // whoever is in the first seat taken moves first
+    this._firstTurn();
+    this.state = { ...this.state, scores: { ...this.state.scores, [player.id]: 0 } };
+    if (this.state.status === 'WAITING_TO_START' && this._seatedCount >= this.minPlayers) {
+      this.state = { ...this.state, status: 'WAITING_FOR_READY', ready: [] };
+    }
+  }
+
+  /**
+   * Removes a player from the game, along with their score; any boxes that they completed stay theirs.
+   * If the game is in progress and only one player (in team games, one team) is left, updates the game's
+   *   status to OVER and sets the winner to that player (or winningTeam to that team); otherwise, the game
+   *   goes on without them.
+   * If the game has not started, frees the player's seat. If fewer than two players (in team games, four)
+   *   are left, the game goes back to WAITING_TO_START; if every player who is left is ready, the game starts.
+   * If the game is already over, the result is left unchanged.
+   *
+   * @param player The player to remove from the game
+   * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  protected _leave(player: Player): void {
+    if (!this.seats.includes(player.id)) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    this._leaveSeat(player);
+    const { status } = this.state;
+    if (status === 'OVER') {
+      return;
+    }
+    const scores = Object.fromEntries(
+      Object.entries(this.state.scores).filter(([playerID]) => playerID !== player.id),
+    );
+    this.state = { ...this.state, scores };
+    if (status === 'IN_PROGRESS') {
+      const sidesLeft = new Set(
+        this.seats
+          .filter(playerID => playerID !== undefined)
+          .map(playerID => (this.teamSizes ? this.teamOf(playerID as PlayerID) : playerID)),
+      );
+      if (sidesLeft.size === 1) {
+        this.state = { ...this.state, status: 'OVER', ...this._outcome(), turn: undefined };
+      } else {
+        this.state = { ...this.state, turn: this._playerToMove() };
+      }
+      return;
+    }
+    this._firstTurn();
+    if (this._seatedCount < this.minPlayers) {
+      this.state = { ...this.state, status: 'WAITING_TO_START', ready: undefined };
+      return;
+    }
+    const ready = (this.state.ready ?? []).filter(playerID => playerID !== player.id);
+    if (this.seats.every(playerID => playerID === undefined || ready.includes(playerID))) {
+      this.state = { ...this.state, status: 'IN_PROGRESS', ready: undefined };
+      this.state = { ...this.state, turn: this._playerToMove() };
+    } else {
+      this.state = { ...this.state, ready };
+    }
+  }
+
+  /**
+   * @returns the player who has completed the most boxes, or undefined if more than one player has; in
+   *  team games, the team whose players have completed the most boxes, or undefined if both teams have
+   *  the same number. Only the boxes of the players who are still in the game count.
+   */
+  private _outcome(): { winner?: PlayerID; winningTeam?: TeamIndex } {
+    const { scores } = this.state;
+    if (!this.teamSizes) {
+      return { winner: leader(Object.entries(scores)) };
+    }
+    const totals = new Map<TeamIndex, number>();
+    Object.entries(scores).forEach(([playerID, score]) => {
+      const team = this.teamOf(playerID) as TeamIndex;
+      totals.set(team, (totals.get(team) ?? 0) + score);
+    });
+    return { winningTeam: leader([...totals.entries()]) };
+  }
+}
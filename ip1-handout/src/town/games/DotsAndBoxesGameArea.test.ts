@@ -0,0 +1,203 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  GAME_FULL_MESSAGE,
+  GAME_IN_PROGRESS_MESSAGE,
+  INVALID_MOVE_MESSAGE,
+  LINE_OFF_BOARD_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { GameInstanceID, TownEmitter } from '../../types/CoveyTownSocket';
+import DotsAndBoxesGameArea from './DotsAndBoxesGameArea';
+
+function createArea(properties: Record<string, unknown>) {
+  return new DotsAndBoxesGameArea(
+    nanoid(),
+    { x: 0, y: 0, width: 100, height: 100 },
+    mock<TownEmitter>(),
+    {
+      id: 1,
+      name: 'Game',
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      rotation: 0,
+      type: 'GameArea',
+      visible: true,
+      properties: Object.entries(properties).map(([name, value]) => ({
+        name,
+        type: { number: 'int', boolean: 'bool' }[typeof value as string] ?? 'string',
+        value,
+      })),
+    } as ITiledMapObject,
+  );
+}
+
+describe('DotsAndBoxesGameArea', () => {
+  let gameArea: DotsAndBoxesGameArea;
+  let player1: Player;
+  let player2: Player;
+  let gameID: GameInstanceID;
+  let interactableUpdateSpy: jest.SpyInstance;
+  beforeEach(() => {
+    player1 = createPlayerForTesting();
+    player2 = createPlayerForTesting();
+    gameArea = createArea({ rows: 1, columns: 2 });
+    gameArea.add(player1);
+    gameArea.add(player2);
+    gameID = gameArea.handleCommand({ type: 'JoinGame' }, player1).gameID;
+    gameArea.handleCommand({ type: 'JoinGame' }, player2);
+    gameArea.handleCommand({ type: 'SetReady', gameID }, player1);
+    gameArea.handleCommand({ type: 'SetReady', gameID }, player2);
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Test requires access to protected method)
+    interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+  });
+
+  function claim(player: Player, orientation: 'Horizontal' | 'Vertical', row: number, col: number) {
+    gameArea.handleCommand({ type: 'GameMove', gameID, move: { orientation, row, col } }, player);
+  }
+
+  it('reports its type as DotsAndBoxesArea', () => {
+    expect(gameArea.toModel().type).toEqual('DotsAndBoxesArea');
+  });
+  it('plays on a board of the size given by the map object', () => {
+    expect(gameArea.game?.state).toMatchObject({ rows: 1, cols: 2 });
+    const area = createArea({});
+    area.handleCommand({ type: 'JoinGame' }, player1);
+    expect(area.game?.state).toMatchObject({ rows: 4, cols: 4 });
+  });
+  it('throws an error if rows, columns or teams is invalid', () => {
+    expect(() => createArea({ rows: 0 })).toThrowError();
+    expect(() => createArea({ columns: 11 })).toThrowError();
+    expect(() => createArea({ rows: 2.5 })).toThrowError();
+    expect(() => createArea({ columns: 'four' })).toThrowError();
+    expect(() => createArea({ teams: 'yes' })).toThrowError();
+  });
+  it('plays two against two if the map object says so, with players choosing their team', () => {
+    const area = createArea({ rows: 1, columns: 2, teams: true });
+    expect(area.minPlayers).toEqual(4);
+    expect(createArea({ rows: 1, columns: 2 }).minPlayers).toEqual(2);
+    const [player3, player4] = [createPlayerForTesting(), createPlayerForTesting()];
+    [player1, player2, player3, player4].forEach(player => area.add(player));
+    const teamGameID = area.handleCommand({ type: 'JoinGame', team: 1 }, player1).gameID;
+    area.handleCommand({ type: 'JoinGame', team: 0 }, player2);
+    area.handleCommand({ type: 'JoinGame' }, player3);
+    expect(area.game?.state.status).toEqual('WAITING_TO_START');
+    area.handleCommand({ type: 'JoinGame' }, player4);
+    [player1, player2, player3, player4].forEach(player =>
+      area.handleCommand({ type: 'SetReady', gameID: teamGameID }, player),
+    );
+    expect(area.game?.teams).toEqual([
+      [player2.id, player3.id],
+      [player1.id, player4.id],
+    ]);
+    // turns go around the seats: player2, player1, player3, then player4
+    const moves: Array<[Player, 'Horizontal' | 'Vertical', number, number]> = [
+      [player2, 'Horizontal', 0, 0],
+      [player1, 'Horizontal', 1, 0],
+      [player3, 'Vertical', 0, 0],
+      [player4, 'Vertical', 0, 1],
+      [player4, 'Horizontal', 0, 1],
+      [player2, 'Horizontal', 1, 1],
+      [player1, 'Vertical', 0, 2],
+    ];
+    moves.forEach(([player, orientation, row, col]) =>
+      area.handleCommand(
+        { type: 'GameMove', gameID: teamGameID, move: { orientation, row, col } },
+        player,
+      ),
+    );
+    expect(area.game?.state).toMatchObject({ status: 'OVER', winningTeam: 1 });
+    expect(area.history).toEqual([
+      {
+        gameID: teamGameID,
+        scores: {
+          [player1.userName]: 1,
+          [player2.userName]: 0,
+          [player3.userName]: 0,
+          [player4.userName]: 1,
+        },
+        teams: [
+          { team: 0, players: [player2.userName, player3.userName], score: 0 },
+          { team: 1, players: [player1.userName, player4.userName], score: 1 },
+        ],
+      },
+    ]);
+  });
+  it('throws an error when the move is not a DotsAndBoxesMove, or not on the board', () => {
+    expect(() =>
+      gameArea.handleCommand(
+        { type: 'GameMove', gameID, move: { orientation: 'Up', row: 0, col: 0 } as never },
+        player1,
+      ),
+    ).toThrowError(INVALID_MOVE_MESSAGE);
+    expect(() => claim(player1, 'Vertical', 1, 0)).toThrowError(LINE_OFF_BOARD_MESSAGE);
+    expect(interactableUpdateSpy).not.toHaveBeenCalled();
+  });
+  /**
+   * Claims every line on the board, so that player2 completes the second box and wins
+   */
+  function playToEnd() {
+    claim(player1, 'Horizontal', 0, 0);
+    claim(player2, 'Horizontal', 1, 0);
+    claim(player1, 'Vertical', 0, 0);
+    claim(player2, 'Vertical', 0, 1);
+    claim(player2, 'Horizontal', 0, 1);
+    claim(player1, 'Horizontal', 1, 1);
+    claim(player2, 'Vertical', 0, 2);
+  }
+
+  it('waits in a lobby for up to four players, and starts once they are all ready', () => {
+    const area = createArea({});
+    const [player3, player4, player5] = [0, 1, 2].map(() => createPlayerForTesting());
+    [player1, player2, player3, player4, player5].forEach(player => area.add(player));
+    const lobbyID = area.handleCommand({ type: 'JoinGame' }, player1).gameID;
+    area.handleCommand({ type: 'JoinGame' }, player2);
+    area.handleCommand({ type: 'SetReady', gameID: lobbyID }, player1);
+    expect(area.game?.state.status).toEqual('WAITING_FOR_READY');
+    expect(area.handleCommand({ type: 'JoinGame' }, player3).gameID).toEqual(lobbyID);
+    area.handleCommand({ type: 'JoinGame' }, player4);
+    expect(() => area.handleCommand({ type: 'JoinGame' }, player5)).toThrowError(GAME_FULL_MESSAGE);
+    [player2, player3].forEach(player =>
+      area.handleCommand({ type: 'SetReady', gameID: lobbyID }, player),
+    );
+    expect(area.game?.state.status).toEqual('WAITING_FOR_READY');
+    area.handleCommand({ type: 'SetReady', gameID: lobbyID }, player4);
+    expect(area.game?.state).toMatchObject({ status: 'IN_PROGRESS', turn: player1.id });
+    expect(Object.keys(area.game?.state.scores ?? {})).toHaveLength(4);
+  });
+  it('lets nobody else join once the game has started', () => {
+    const player3 = createPlayerForTesting();
+    gameArea.add(player3);
+    expect(() => gameArea.handleCommand({ type: 'JoinGame' }, player3)).toThrowError(
+      GAME_IN_PROGRESS_MESSAGE,
+    );
+    expect(gameArea.game?.players).toEqual([player1, player2]);
+  });
+  it('records the winner in the history when the last box is completed', () => {
+    playToEnd();
+    expect(interactableUpdateSpy).toHaveBeenCalledTimes(7);
+    expect(gameArea.game?.state.status).toEqual('OVER');
+    expect(gameArea.history).toEqual([
+      { gameID, scores: { [player2.userName]: 1, [player1.userName]: 0 } },
+    ]);
+  });
+  it('starts a new game, on an empty board of the same size, when a player joins after the game is over', () => {
+    playToEnd();
+    const newGameID = gameArea.handleCommand({ type: 'JoinGame' }, player2).gameID;
+    expect(newGameID).not.toEqual(gameID);
+    expect(gameArea.game?.state).toMatchObject({
+      status: 'WAITING_TO_START',
+      rows: 1,
+      cols: 2,
+      lines: [],
+      boxes: [],
+      scores: { [player2.id]: 0 },
+    });
+    expect(gameArea.history.map(result => result.gameID)).toEqual([gameID]);
+  });
+});
@@ -0,0 +1,108 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import Clock, { systemClock } from '../../lib/Clock';
+import {
+  BoundingBox,
+  DotsAndBoxesMove,
+  InteractableID,
+  InteractableType,
+  TownEmitter,
+} from '../../types/CoveyTownSocket';
+import DotsAndBoxesGame, {
+  DEFAULT_DOTS_AND_BOXES_SIZE,
+  DOTS_AND_BOXES_MAX_PLAYERS,
+  DOTS_AND_BOXES_MAX_SIZE,
+  DOTS_AND_BOXES_MIN_PLAYERS,
+  isDotsAndBoxesMove,
+} from './DotsAndBoxesGame';
+import GameArea from './GameArea';
+import { GameRegistration } from './GameRegistry';
+
+/**
+ * A DotsAndBoxesGameArea is a GameArea that hosts a DotsAndBoxesGame, on a board of the size given by
+ * its map object, and played in teams if its map object says so.
+ * @see DotsAndBoxesGame
+ * @see GameArea
+ */
+export default class DotsAndBoxesGameArea extends GameArea<DotsAndBoxesGame> {
+  private _rows: number;
+
+  private _cols: number;
+
+  private _teams: boolean;
+
+  /**
+   * Creates a new DotsAndBoxesGameArea
+   *
+   * @param id unique ID for this area
+   * @param boundingBox the bounding box that defines this area
+   * @param townEmitter a broadcast emitter that can be used to emit updates to players
+   * @param mapObject the map object that this area was created from. It may have `rows` and `columns`
+   *  properties, giving the number of boxes down and across the board (by default,
+   *  DEFAULT_DOTS_AND_BOXES_SIZE each), and a boolean `teams` property: if it is true, each game is
+   *  played two against two (@see DotsAndBoxesGame), and players can choose a team when they join.
+   * @param clock the clock that time controls are measured with (@see GameArea)
+   * @throws Error if `rows` or `columns` is not an integer from 1 to DOTS_AND_BOXES_MAX_SIZE, or `teams`
+   *  is not a boolean
+   */
+  public constructor(
+    id: InteractableID,
+    boundingBox: BoundingBox,
+    townEmitter: TownEmitter,
+    mapObject?: ITiledMapObject,
+    clock: Clock = systemClock,
+  ) {
+    super(id, boundingBox, townEmitter, mapObject, clock);
+    const size = (name: string) => {
+      const value =
+        mapObject?.properties?.find(prop => prop.name === name)?.value ??
+        DEFAULT_DOTS_AND_BOXES_SIZE;
+      if (
+        typeof value !== 'number' ||
+        !Number.isInteger(value) ||
+        value < 1 ||
+        value > DOTS_AND_BOXES_MAX_SIZE
+      ) {
+        throw new Error(
+          `Malformed game area ${id}: ${name} must be an integer from 1 to ${DOTS_AND_BOXES_MAX_SIZE}`,
+        );
+      }
+      return value;
+    };
+    this._rows = size('rows');
+    this._cols = size('columns');
+    const teams = mapObject?.properties?.find(prop => prop.name === 'teams')?.value ?? false;
+    if (typeof teams !== 'boolean') {
+      throw new Error(`Malformed game area ${id}: teams must be true or false`);
+    }
+    this._teams = teams;
+  }
+
+  /** In teams, all four seats must be taken before the game can start */
+  public get minPlayers(): number {
+    return this._teams ? DOTS_AND_BOXES_MAX_PLAYERS : DOTS_AND_BOXES_MIN_PLAYERS;
+  }
+
+  protected getType(): InteractableType {
+    return 'DotsAndBoxesArea';
+  }
+
+  protected _createGame(): DotsAndBoxesGame {
+    return new DotsAndBoxesGame(this._rows, this._cols, this._teams);
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isDotsAndBoxesMove(move);
+  }
+}
+
+/**
+ * Registers Dots and Boxes with the GameRegistry: map objects with `type: DotsAndBoxes` host a
+ * DotsAndBoxesGameArea
+ */
+export const dotsAndBoxesRegistration: GameRegistration<DotsAndBoxesGame, DotsAndBoxesMove> = {
+  gameType: 'DotsAndBoxes',
+  interactableType: 'DotsAndBoxesArea',
+  gameClass: DotsAndBoxesGame,
+  areaClass: DotsAndBoxesGameArea,
+  isValidMove: isDotsAndBoxesMove,
+};
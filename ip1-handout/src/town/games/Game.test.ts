@@ -0,0 +1,486 @@
+import { createPlayerForTesting, mockClock, MockClock } from '../../TestUtils';
+import {
+  GAME_FULL_MESSAGE,
+  NO_SUCH_TEAM_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_ALREADY_SPECTATING_MESSAGE,
+  PLAYER_NOT_SPECTATING_MESSAGE,
+  TEAM_FULL_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { GameMove, PlayerID, TeamIndex, WinnableGameState } from '../../types/CoveyTownSocket';
+import Game from './Game';
+
+type TestingMove = { wins?: boolean; note?: string };
+
+/**
+ * A game in which the players take turns in the order of their seats. It starts once every seat is taken,
+ * and each move passes the turn to the next player, unless it wins the game. A player who leaves a game
+ * in progress gives up their seat; once fewer than the minimum number of players remain, the game ends,
+ * and if only one player remains, they win. A move can leave a note, which only its player can see.
+ */
+class TestingGame extends Game<
+  WinnableGameState & { moves: number; notes?: { [playerID: string]: string } },
+  TestingMove
+> {
+  public constructor(minPlayers = 2, maxPlayers = minPlayers, teamSizes?: number[]) {
+    super({ status: 'WAITING_TO_START', moves: 0 }, minPlayers, maxPlayers, teamSizes);
+  }
+
+  protected _applyMove(move: GameMove<TestingMove>): void {
+    if (move.playerID !== this._playerToMove()) {
+      throw new Error('Not your turn');
+    }
+    this.state = { ...this.state, moves: this.state.moves + 1 };
+    if (move.move.note !== undefined) {
+      this.state = {
+        ...this.state,
+        notes: { ...this.state.notes, [move.playerID]: move.move.note },
+      };
+    }
+    if (move.move.wins) {
+      this.state = { ...this.state, status: 'OVER', winner: move.playerID };
+    } else {
+      this._nextTurn();
+    }
+  }
+
+  protected _join(player: Player, team?: TeamIndex): void {
+    this._takeSeat(player, team);
+    if (this._seatedCount === this.maxPlayers) {
+      this.state = { ...this.state, status: 'IN_PROGRESS' };
+      this._firstTurn();
+    }
+  }
+
+  protected _leave(player: Player): void {
+    this._leaveSeat(player);
+    if (this.state.status === 'IN_PROGRESS' && this._seatedCount < this.minPlayers) {
+      const remaining = this.seats.filter(playerID => playerID !== undefined);
+      this.state = {
+        ...this.state,
+        status: 'OVER',
+        winner: remaining.length === 1 ? remaining[0] : undefined,
+      };
+    }
+  }
+
+  protected _stateFor(viewer?: PlayerID) {
+    const notes = this.state.notes ?? {};
+    return {
+      ...this.state,
+      notes: viewer !== undefined && notes[viewer] !== undefined ? { [viewer]: notes[viewer] } : {},
+    };
+  }
+
+  public get playerToMove(): PlayerID | undefined {
+    return this._playerToMove();
+  }
+}
+
+describe('Game', () => {
+  let game: TestingGame;
+  let player: Player;
+  let spectator: Player;
+  beforeEach(() => {
+    game = new TestingGame();
+    player = createPlayerForTesting();
+    spectator = createPlayerForTesting();
+    game.join(player);
+  });
+
+  describe('spectate', () => {
+    it('adds the player to the spectators without adding them to the players', () => {
+      game.spectate(spectator);
+      expect(game.spectators).toEqual([spectator]);
+      expect(game.players).toEqual([player]);
+      expect(game.toModel().spectators).toEqual([spectator.id]);
+      expect(game.toModel().players).toEqual([player.id]);
+    });
+    it('throws an error if the player is playing in the game', () => {
+      expect(() => game.spectate(player)).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+      expect(game.spectators).toEqual([]);
+    });
+    it('throws an error if the player is already spectating the game', () => {
+      game.spectate(spectator);
+      expect(() => game.spectate(spectator)).toThrowError(PLAYER_ALREADY_SPECTATING_MESSAGE);
+      expect(game.spectators).toEqual([spectator]);
+    });
+  });
+
+  describe('stopSpectating', () => {
+    it('removes the player from the spectators', () => {
+      const otherSpectator = createPlayerForTesting();
+      game.spectate(spectator);
+      game.spectate(otherSpectator);
+      game.stopSpectating(spectator);
+      expect(game.spectators).toEqual([otherSpectator]);
+    });
+    it('throws an error if the player is not spectating the game', () => {
+      expect(() => game.stopSpectating(spectator)).toThrowError(PLAYER_NOT_SPECTATING_MESSAGE);
+      expect(() => game.stopSpectating(player)).toThrowError(PLAYER_NOT_SPECTATING_MESSAGE);
+    });
+  });
+
+  describe('join', () => {
+    it('moves a spectator who joins the game into the players', () => {
+      game.spectate(spectator);
+      game.join(spectator);
+      expect(game.players).toEqual([player, spectator]);
+      expect(game.spectators).toEqual([]);
+    });
+  });
+
+  describe('seats and turns', () => {
+    let table: TestingGame;
+    let players: Player[];
+    beforeEach(() => {
+      table = new TestingGame(3, 4);
+      players = [1, 2, 3, 4, 5].map(() => createPlayerForTesting());
+    });
+    function move(mover: Player) {
+      table.applyMove({ gameID: table.id, playerID: mover.id, move: {} });
+    }
+    it('declares the number of players that the game can be played with', () => {
+      expect(table.minPlayers).toEqual(3);
+      expect(table.maxPlayers).toEqual(4);
+      expect(new TestingGame().maxPlayers).toEqual(2);
+      expect(() => new TestingGame(0)).toThrowError();
+      expect(() => new TestingGame(3, 2)).toThrowError();
+    });
+    it('seats the players in the order in which they join', () => {
+      table.join(players[0]);
+      table.join(players[1]);
+      expect(table.seats).toEqual([players[0].id, players[1].id, undefined, undefined]);
+    });
+    it('throws an error once every seat is taken', () => {
+      players.slice(0, 4).forEach(eachPlayer => table.join(eachPlayer));
+      expect(() => table.join(players[4])).toThrowError(GAME_FULL_MESSAGE);
+      expect(table.players).toHaveLength(4);
+    });
+    it('gives a freed seat to the next player to join', () => {
+      table.join(players[0]);
+      table.join(players[1]);
+      table.leave(players[0]);
+      table.join(players[2]);
+      expect(table.seats).toEqual([players[2].id, players[1].id, undefined, undefined]);
+    });
+    describe('once the game is in progress', () => {
+      beforeEach(() => {
+        players.slice(0, 4).forEach(eachPlayer => table.join(eachPlayer));
+      });
+      it('passes the turn round the table in seat order', () => {
+        expect(table.playerToMove).toEqual(players[0].id);
+        move(players[0]);
+        move(players[1]);
+        move(players[2]);
+        expect(table.playerToMove).toEqual(players[3].id);
+        move(players[3]);
+        expect(table.playerToMove).toEqual(players[0].id);
+      });
+      it('passes the turn on if the player whose turn it is leaves', () => {
+        move(players[0]);
+        table.leave(players[1]);
+        expect(table.playerToMove).toEqual(players[2].id);
+        expect(table.seats).toEqual([players[0].id, undefined, players[2].id, players[3].id]);
+      });
+      it('skips a player who has left when their turn comes round', () => {
+        table.leave(players[1]);
+        move(players[0]);
+        expect(table.playerToMove).toEqual(players[2].id);
+        move(players[2]);
+        move(players[3]);
+        expect(table.playerToMove).toEqual(players[0].id);
+      });
+      it('goes round the table past the last seat when its player leaves on their turn', () => {
+        move(players[0]);
+        move(players[1]);
+        move(players[2]);
+        table.leave(players[3]);
+        expect(table.playerToMove).toEqual(players[0].id);
+      });
+      it('is nobody’s turn once the game is over', () => {
+        table.leave(players[0]);
+        table.leave(players[1]);
+        expect(table.state.status).toEqual('OVER');
+        expect(table.playerToMove).toBeUndefined();
+      });
+    });
+  });
+
+  describe('teams', () => {
+    let teamGame: TestingGame;
+    let players: Player[];
+    beforeEach(() => {
+      teamGame = new TestingGame(4, 4, [2, 2]);
+      players = [1, 2, 3, 4, 5].map(() => createPlayerForTesting());
+    });
+    it('throws an error if the team sizes do not add up to the number of seats', () => {
+      expect(() => new TestingGame(4, 4, [2, 1])).toThrowError();
+      expect(() => new TestingGame(2, 2, [2, 0])).toThrowError();
+    });
+    it('has no teams unless it is a team game', () => {
+      const soloGame = new TestingGame();
+      soloGame.join(players[0]);
+      expect(soloGame.teams).toBeUndefined();
+      expect(soloGame.teamOf(players[0].id)).toBeUndefined();
+      expect(() => soloGame.join(players[1], 0)).toThrowError(NO_SUCH_TEAM_MESSAGE);
+    });
+    it('keeps the teams even when players do not say which team they would like to join', () => {
+      players.slice(0, 4).forEach(eachPlayer => teamGame.join(eachPlayer));
+      expect(teamGame.teams).toEqual([
+        [players[0].id, players[2].id],
+        [players[1].id, players[3].id],
+      ]);
+      expect(teamGame.teamOf(players[3].id)).toEqual(1);
+      expect(teamGame.toModel().teams).toEqual(teamGame.teams);
+    });
+    it('seats players on the team that they would like to join', () => {
+      teamGame.join(players[0], 1);
+      teamGame.join(players[1], 1);
+      teamGame.join(players[2]);
+      expect(teamGame.teams).toEqual([[players[2].id], [players[0].id, players[1].id]]);
+    });
+    it('throws an error if the team is full or does not exist', () => {
+      teamGame.join(players[0], 1);
+      teamGame.join(players[1], 1);
+      expect(() => teamGame.join(players[2], 1)).toThrowError(TEAM_FULL_MESSAGE);
+      expect(() => teamGame.join(players[2], 2)).toThrowError(NO_SUCH_TEAM_MESSAGE);
+      expect(() => teamGame.join(players[2], -1)).toThrowError(NO_SUCH_TEAM_MESSAGE);
+      expect(teamGame.players).toHaveLength(2);
+    });
+    it('takes a player off their team if they leave before the game starts', () => {
+      teamGame.join(players[0]);
+      teamGame.join(players[1]);
+      teamGame.leave(players[0]);
+      expect(teamGame.teams).toEqual([[], [players[1].id]]);
+      expect(teamGame.teamOf(players[0].id)).toBeUndefined();
+    });
+    it('rotates the turn between the teams', () => {
+      teamGame.join(players[0], 0);
+      teamGame.join(players[1], 0);
+      teamGame.join(players[2], 1);
+      teamGame.join(players[3], 1);
+      const turns = [0, 1, 2, 3].map(() => {
+        const mover = teamGame.playerToMove as PlayerID;
+        teamGame.applyMove({ gameID: teamGame.id, playerID: mover, move: {} });
+        return mover;
+      });
+      expect(turns).toEqual([players[0].id, players[2].id, players[1].id, players[3].id]);
+    });
+    it('keeps a player on their team once the game has started, even if they leave', () => {
+      players.slice(0, 4).forEach(eachPlayer => teamGame.join(eachPlayer));
+      teamGame.leave(players[0]);
+      expect(teamGame.teamOf(players[0].id)).toEqual(0);
+      expect(teamGame.teams?.[0]).toContain(players[0].id);
+    });
+    it('makes the other team the winner when a player runs out of time', () => {
+      const clock = mockClock();
+      teamGame.useClock(clock);
+      teamGame.setTimeControl({ perMove: 1000 });
+      players.slice(0, 4).forEach(eachPlayer => teamGame.join(eachPlayer));
+      clock.advance(1000);
+      expect(teamGame.state.status).toEqual('OVER');
+      expect(teamGame.state.winningTeam).toEqual(1);
+      expect(teamGame.state.winner).toBeUndefined();
+    });
+  });
+
+  describe('time controls', () => {
+    let clock: MockClock;
+    let timedGame: TestingGame;
+    let first: Player;
+    let second: Player;
+    let onTimeout: jest.Mock;
+    beforeEach(() => {
+      clock = mockClock();
+      timedGame = new TestingGame();
+      first = createPlayerForTesting();
+      second = createPlayerForTesting();
+      onTimeout = jest.fn();
+    });
+    function move(mover: Player, wins = false) {
+      timedGame.applyMove({ gameID: timedGame.id, playerID: mover.id, move: { wins } });
+    }
+    function startGame(perPlayer?: number, perMove?: number) {
+      timedGame.useClock(clock);
+      timedGame.setTimeControl({ perPlayer, perMove }, onTimeout);
+      timedGame.join(first);
+      timedGame.join(second);
+    }
+
+    it('are not part of the state of a game without time controls', () => {
+      game.join(spectator);
+      expect(game.state.clock).toBeUndefined();
+    });
+    it('do not start any clock until the game is in progress', () => {
+      timedGame.useClock(clock);
+      timedGame.setTimeControl({ perPlayer: 1000 }, onTimeout);
+      timedGame.join(first);
+      expect(timedGame.state.clock?.running).toBeUndefined();
+      clock.advance(5000);
+      expect(onTimeout).not.toHaveBeenCalled();
+      expect(timedGame.state.status).toEqual('WAITING_TO_START');
+    });
+    describe('with a per-player limit', () => {
+      beforeEach(() => {
+        startGame(10000);
+      });
+      it('shows the remaining time of each player and the deadline of the running player', () => {
+        expect(timedGame.state.clock).toEqual({
+          perPlayer: 10000,
+          perMove: undefined,
+          remaining: { [first.id]: 10000, [second.id]: 10000 },
+          running: first.id,
+          deadline: 10000,
+        });
+      });
+      it('takes the time spent on each turn off the clock of the player who took it', () => {
+        clock.advance(3000);
+        move(first);
+        clock.advance(1000);
+        move(second);
+        expect(timedGame.state.clock?.remaining).toEqual({ [first.id]: 7000, [second.id]: 9000 });
+        expect(timedGame.state.clock?.running).toEqual(first.id);
+        expect(timedGame.state.clock?.deadline).toEqual(4000 + 7000);
+      });
+      it('ends the game when a player runs out of time, and the other player wins', () => {
+        clock.advance(3000);
+        move(first);
+        clock.advance(9999);
+        expect(onTimeout).not.toHaveBeenCalled();
+        clock.advance(1);
+        expect(timedGame.state.status).toEqual('OVER');
+        expect(timedGame.state.winner).toEqual(first.id);
+        expect(timedGame.state.clock?.remaining?.[second.id]).toEqual(0);
+        expect(timedGame.state.clock?.running).toBeUndefined();
+        expect(onTimeout).toHaveBeenCalledWith(second);
+      });
+      it('stops the clocks when the game ends', () => {
+        clock.advance(2000);
+        move(first, true);
+        clock.advance(100000);
+        expect(onTimeout).not.toHaveBeenCalled();
+        expect(timedGame.state.winner).toEqual(first.id);
+        expect(timedGame.state.clock?.remaining?.[first.id]).toEqual(8000);
+        expect(timedGame.state.clock?.running).toBeUndefined();
+      });
+    });
+    describe('with a per-move limit', () => {
+      beforeEach(() => {
+        startGame(undefined, 5000);
+      });
+      it('gives a player the full limit for every move', () => {
+        clock.advance(4000);
+        move(first);
+        clock.advance(4000);
+        move(second);
+        clock.advance(4000);
+        expect(onTimeout).not.toHaveBeenCalled();
+        expect(timedGame.state.clock?.remaining).toBeUndefined();
+        expect(timedGame.state.clock?.deadline).toEqual(8000 + 5000);
+      });
+      it('ends the game when a player takes longer than the limit for a move', () => {
+        clock.advance(4000);
+        move(first);
+        clock.advance(5000);
+        expect(timedGame.state.status).toEqual('OVER');
+        expect(timedGame.state.winner).toEqual(first.id);
+        expect(onTimeout).toHaveBeenCalledWith(second);
+      });
+    });
+    it('use whichever limit runs out first when both are set', () => {
+      startGame(6000, 5000);
+      clock.advance(4000);
+      move(first);
+      move(second);
+      expect(timedGame.state.clock?.deadline).toEqual(4000 + 2000);
+      clock.advance(2000);
+      expect(timedGame.state.winner).toEqual(second.id);
+      expect(onTimeout).toHaveBeenCalledWith(first);
+    });
+  });
+
+  describe('toModel', () => {
+    let opponent: Player;
+    beforeEach(() => {
+      opponent = createPlayerForTesting();
+      game.join(opponent);
+      game.spectate(spectator);
+      game.applyMove({ gameID: game.id, playerID: player.id, move: { note: 'first' } });
+      game.applyMove({ gameID: game.id, playerID: opponent.id, move: { note: 'second' } });
+    });
+    it('shows each viewer only what they may see of the state', () => {
+      expect(game.toModel(player.id).state.notes).toEqual({ [player.id]: 'first' });
+      expect(game.toModel(opponent.id).state.notes).toEqual({ [opponent.id]: 'second' });
+      expect(game.toModel(spectator.id).state.notes).toEqual({});
+      expect(game.toModel().state.notes).toEqual({});
+    });
+    it('does not hide anything else from any viewer', () => {
+      const { state, ...rest } = game.toModel(player.id);
+      expect(rest).toEqual({ ...game.toModel(), state: undefined });
+      expect(state).toEqual({ ...game.state, notes: { [player.id]: 'first' } });
+    });
+  });
+
+  describe('toReplay', () => {
+    let clock: MockClock;
+    let replayedGame: TestingGame;
+    let other: Player;
+    beforeEach(() => {
+      clock = mockClock();
+      replayedGame = new TestingGame();
+      replayedGame.useClock(clock);
+      other = createPlayerForTesting();
+      clock.advance(1000);
+      replayedGame.join(player);
+      clock.advance(1000);
+      replayedGame.join(other);
+    });
+    function move(mover: Player, wins = false) {
+      clock.advance(500);
+      replayedGame.applyMove({ gameID: replayedGame.id, playerID: mover.id, move: { wins } });
+    }
+    it('is undefined until the game is over', () => {
+      move(player);
+      expect(replayedGame.toReplay()).toBeUndefined();
+    });
+    it('records the seats, every move with its time, and the start and end of the game', () => {
+      move(player);
+      move(other);
+      move(player, true);
+      expect(replayedGame.toReplay()).toEqual({
+        gameID: replayedGame.id,
+        seats: [
+          { seat: 'Player 1', playerID: player.id, userName: player.userName },
+          { seat: 'Player 2', playerID: other.id, userName: other.userName },
+        ],
+        moves: [
+          { playerID: player.id, move: { wins: false }, timestamp: 2500 },
+          { playerID: other.id, move: { wins: false }, timestamp: 3000 },
+          { playerID: player.id, move: { wins: true }, timestamp: 3500 },
+        ],
+        startedAt: 2000,
+        endedAt: 3500,
+        winner: player.id,
+      });
+    });
+    it('does not record moves that the game rejects', () => {
+      expect(() => move(other)).toThrowError();
+      move(player, true);
+      expect(replayedGame.toReplay()?.moves.map(eachMove => eachMove.playerID)).toEqual([
+        player.id,
+      ]);
+    });
+    it('keeps the seat of a player who leaves before the game ends', () => {
+      move(player);
+      clock.advance(100);
+      replayedGame.leave(other);
+      expect(replayedGame.toReplay()).toMatchObject({ endedAt: 2600, winner: player.id });
+      expect(replayedGame.toReplay()?.seats.map(seat => seat.playerID)).toEqual([
+        player.id,
+        other.id,
+      ]);
+    });
+  });
+});
@@ -1,11 +1,33 @@
 import { nanoid } from 'nanoid';
+import InvalidParametersError, {
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_NOT_WAITING_FOR_READY_MESSAGE,
+  NO_MOVE_TO_UNDO_MESSAGE,
+  NO_SUCH_TEAM_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_ALREADY_SPECTATING_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  PLAYER_NOT_SPECTATING_MESSAGE,
+  TEAM_FULL_MESSAGE,
+  UNDO_NOT_SUPPORTED_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Clock, { systemClock, TimerHandle } from '../../lib/Clock';
 import Player from '../../lib/Player';
 import {
+  GameClock,
   GameInstance,
   GameInstanceID,
   GameMove,
+  GameReplay,
   GameResult,
   GameState,
+  PlayerID,
+  ReplayMove,
+  ReplaySeat,
+  TeamIndex,
+  TimeControl,
+  WinnableGameState,
 } from '../../types/CoveyTownSocket';
 
 /**
@@ -21,14 +43,135 @@ export default abstract class Game<StateType extends GameState, MoveType> {
 
   protected _players: Player[] = [];
 
+  protected _spectators: Player[] = [];
+
+  private _timeControl?: TimeControl;
+
+  /** The clock that the game measures time with (@see useClock) */
+  protected _clock: Clock = systemClock;
+
+  private _timer?: TimerHandle;
+
+  private _turnStartedAt = 0;
+
+  private _timeoutListener?: (player: Player) => void;
+
+  private _moves: ReplayMove[] = [];
+
+  private _replaySeats: ReplaySeat[] = [];
+
+  private _startedAt?: number;
+
+  private _endedAt?: number;
+
+  /** The smallest number of players that the game can be played with */
+  public readonly minPlayers: number;
+
+  /** The largest number of players that the game can be played with: the number of seats */
+  public readonly maxPlayers: number;
+
+  /** The player in each seat, in turn order; undefined for an empty seat */
+  private _seatList: Array<PlayerID | undefined>;
+
+  /** The index in this._seatList of the seat whose turn it is */
+  private _turnSeat = 0;
+
+  /** In team games, the number of seats on each team */
+  public readonly teamSizes?: number[];
+
+  /** In team games, the team that each seat belongs to */
+  private _seatTeams?: TeamIndex[];
+
+  /**
+   * In team games, the team of each player who has taken a seat: until the game starts, only the
+   * players who are still seated, and from then on, also those who have left
+   */
+  private _playerTeams: Map<PlayerID, TeamIndex> = new Map();
+
   /**
    * Creates a new Game instance.
+   *
+   * In a team game, the seats are dealt out to the teams in turn (the first seat of each team, then the
+   * second seat of each team, and so on), so that turns rotate by team.
+   *
    * @param initialState State to initialize the game with.
-   * @param emitAreaChanged A callback to invoke when the state of the game changes. This is used to notify clients.
+   * @param minPlayers The smallest number of players that the game can be played with.
+   * @param maxPlayers The number of seats at the game. Defaults to minPlayers.
+   * @param teamSizes The number of seats on each team, for team games; they must add up to maxPlayers.
+   * @throws Error if minPlayers is less than 1, maxPlayers is less than minPlayers, or the team sizes
+   *  are not positive or do not add up to maxPlayers
    */
-  public constructor(initialState: StateType) {
+  public constructor(
+    initialState: StateType,
+    minPlayers = 2,
+    maxPlayers = minPlayers,
+    teamSizes?: number[],
+  ) {
+    if (minPlayers < 1 || maxPlayers < minPlayers) {
+      throw new Error(`Invalid number of seats: ${minPlayers} to ${maxPlayers}`);
+    }
+    if (
+      teamSizes &&
+      (teamSizes.some(size => size < 1) ||
+        teamSizes.reduce((total, size) => total + size, 0) !== maxPlayers)
+    ) {
+      throw new Error(`Invalid team sizes for ${maxPlayers} seats: ${teamSizes.join(', ')}`);
+    }
     this.id = nanoid() as GameInstanceID;
     this._state = initialState;
+    this.minPlayers = minPlayers;
+    this.maxPlayers = maxPlayers;
+    this._seatList = Array(maxPlayers).fill(undefined);
+    if (teamSizes) {
+      this.teamSizes = [...teamSizes];
+      const seatTeams: TeamIndex[] = [];
+      for (let round = 0; seatTeams.length < maxPlayers; round++) {
+        teamSizes.forEach((size, team) => {
+          if (round < size) {
+            seatTeams.push(team);
+          }
+        });
+      }
+      this._seatTeams = seatTeams;
+    }
+  }
+
+  public get players(): Player[] {
+    return this._players;
+  }
+
+  public get spectators(): Player[] {
+    return this._spectators;
+  }
+
+  /**
+   * The player in each seat at the game, in turn order; undefined for an empty seat.
+   * Only games that seat their players with _takeSeat have seats.
+   */
+  public get seats(): Array<PlayerID | undefined> {
+    return [...this._seatList];
+  }
+
+  /**
+   * In team games, the players on each team, in the order of the teams: until the game starts, the players
+   * who are seated on it, and from then on, every player who has played on it (including those who have left)
+   */
+  public get teams(): PlayerID[][] | undefined {
+    const { teamSizes } = this;
+    if (!teamSizes) {
+      return undefined;
+    }
+    const teams: PlayerID[][] = teamSizes.map(() => []);
+    this._playerTeams.forEach((team, playerID) => teams[team].push(playerID));
+    return teams;
+  }
+
+  /**
+   * @returns the team that a player is on (@see teams), or undefined if the game is not a team game or
+   *  the player is not on a team
+   */
+  public teamOf(playerID: PlayerID): TeamIndex | undefined {
+    return this._playerTeams.get(playerID);
   }
 
   public get state() {
@@ -45,15 +188,17 @@ export default abstract class Game<StateType extends GameState, MoveType> {
    * @param move A move to apply to the game.
    * @throws InvalidParametersError if the move is invalid.
    */
-  public abstract applyMove(move: GameMove<MoveType>): void;
+  protected abstract _applyMove(move: GameMove<MoveType>): void;
 
   /**
    * Attempt to join a game.
    * This method should be implemented by subclasses.
    * @param player The player to join the game.
+   * @param team In team games, the team that the player would like to join, if they have a preference
+   *  (@see _takeSeat). It is always one of the game's teams.
    * @throws InvalidParametersError if the player can not join the game
    */
-  protected abstract _join(player: Player): void;
+  protected abstract _join(player: Player, team?: TeamIndex): void;
 
   /**
    * Attempt to leave a game.
@@ -63,15 +208,208 @@ export default abstract class Game<StateType extends GameState, MoveType> {
    */
   protected abstract _leave(player: Player): void;
 
+  /**
+   * Finds the player whose turn it is. By default, while the game is in progress, this is the player
+   * in the seat that the turn pointer is at (@see _nextTurn); games that keep track of turns in some
+   * other way override this method. Only games in which it is someone's turn can be played with
+   * time controls.
+   *
+   * @returns the ID of the player who must make the next move, or undefined if it is nobody's turn
+   */
+  protected _playerToMove(): PlayerID | undefined {
+    return this._state.status === 'IN_PROGRESS' ? this._seatList[this._turnSeat] : undefined;
+  }
+
+  /**
+   * Seats a player in the first empty seat. Games call this from _join once the player may join.
+   * In team games, the player joins the team of their seat: the first empty seat on the team that they
+   * would like to join, if they have a preference, and otherwise the first empty seat in turn order,
+   * which keeps the teams even.
+   *
+   * @param player The player to seat
+   * @param team In team games, the team that the player would like to join
+   * @returns the index of the player's seat, in turn order
+   * @throws InvalidParametersError if every seat is taken (GAME_FULL_MESSAGE), or every seat on the
+   *  team that the player would like to join is taken (TEAM_FULL_MESSAGE)
+   */
+  protected _takeSeat(player: Player, team?: TeamIndex): number {
+    const seat = this._seatList.findIndex(
+      (playerID, index) =>
+        playerID === undefined && (team === undefined || this._seatTeams?.[index] === team),
+    );
+    if (seat === -1) {
+      throw new InvalidParametersError(
+        this._seatList.includes(undefined) ? TEAM_FULL_MESSAGE : GAME_FULL_MESSAGE,
+      );
+    }
+    this._seatList[seat] = player.id;
+    if (this._seatTeams) {
+      this._playerTeams.set(player.id, this._seatTeams[seat]);
+    }
+    return seat;
+  }
+
+  /**
+   * Empties the seat of a player, if they have one. Games call this from _leave. If it was the player's
+   * turn, the turn passes to the next player, so that players who leave are skipped.
+   *
+   * @param player The player who is leaving
+   */
+  protected _leaveSeat(player: Player): void {
+    const seat = this._seatList.indexOf(player.id);
+    if (seat === -1) {
+      return;
+    }
+    this._seatList[seat] = undefined;
+    if (this._startedAt === undefined) {
+      this._playerTeams.delete(player.id);
+    }
+    if (seat === this._turnSeat) {
+      this._nextTurn();
+    }
+  }
+
+  /**
+   * The number of seats that are taken
+   */
+  protected get _seatedCount(): number {
+    return this._seatList.filter(playerID => playerID !== undefined).length;
+  }
+
+  /**
+   * Moves the turn pointer to the first seat that is taken, e.g. when the game starts
+   */
+  protected _firstTurn(): void {
+    this._turnSeat = Math.max(
+      0,
+      this._seatList.findIndex(playerID => playerID !== undefined),
+    );
+  }
+
+  /**
+   * Moves the turn pointer to the next seat that is taken, in turn order, going round the table
+   * after the last seat. Games call this once a player has finished their turn.
+   */
+  protected _nextTurn(): void {
+    const seats = this._seatList.length;
+    for (let offset = 1; offset <= seats; offset++) {
+      const seat = (this._turnSeat + offset) % seats;
+      if (this._seatList[seat] !== undefined) {
+        this._turnSeat = seat;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Names the seat of a player in the game, for replays. Games whose seats have names (e.g. 'X' and 'O')
+   * override this method; by default, seats are numbered in the order in which the players joined.
+   *
+   * @param playerID the ID of a player in the game
+   */
+  protected _seatName(playerID: PlayerID): string {
+    return `Player ${this._players.findIndex(eachPlayer => eachPlayer.id === playerID) + 1}`;
+  }
+
+  /**
+   * Puts the game back in the position that it started in, before any moves were made, keeping its
+   * players in their seats and its status IN_PROGRESS. Games whose moves can be taken back implement
+   * this method (@see undoLastMove); in games that do not, it is undefined.
+   */
+  protected _resetMoves?(): void;
+
+  /**
+   * Measures time with the given clock: both for time controls, and for the timestamps of recorded moves.
+   * Must be called before the game starts.
+   *
+   * @param clock the clock to measure time with
+   */
+  public useClock(clock: Clock): void {
+    this._clock = clock;
+  }
+
+  /**
+   * Plays this game with time controls. Must be called before the game starts.
+   *
+   * The time that a player spends on their turn is taken off their clock (per-player limits), and
+   * each move must be made within the per-move limit. A player who runs out of time loses the game:
+   * the game ends, the other player wins if there is exactly one, and the listener is called.
+   *
+   * @param timeControl the limits to play with
+   * @param onTimeout called with the player who ran out of time, after the game has ended
+   */
+  public setTimeControl(timeControl: TimeControl, onTimeout?: (player: Player) => void): void {
+    this._timeControl = timeControl;
+    this._timeoutListener = onTimeout;
+    this._updateClock();
+  }
+
+  /**
+   * Apply a move to the game, record it for replays, and start the clock of the player whose turn
+   * it is next.
+   * @param move A move to apply to the game.
+   * @throws InvalidParametersError if the move is invalid.
+   */
+  public applyMove(move: GameMove<MoveType>): void {
+    this._applyMove(move);
+    this._moves.push({ playerID: move.playerID, move: move.move, timestamp: this._clock.now() });
+    this._stateChanged();
+  }
+
+  /**
+   * Checks that the last move of this game can be taken back now (@see undoLastMove)
+   * @throws InvalidParametersError if the game does not support taking back moves (UNDO_NOT_SUPPORTED_MESSAGE),
+   *  is not in progress (GAME_NOT_IN_PROGRESS_MESSAGE), or no move has been made (NO_MOVE_TO_UNDO_MESSAGE)
+   */
+  public checkUndo(): void {
+    if (!this._resetMoves) {
+      throw new InvalidParametersError(UNDO_NOT_SUPPORTED_MESSAGE);
+    }
+    if (this._state.status !== 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    if (this._moves.length === 0) {
+      throw new InvalidParametersError(NO_MOVE_TO_UNDO_MESSAGE);
+    }
+  }
+
+  /**
+   * Take back the last move of a game that is in progress. The game is reset to its starting position
+   * and every move but the last is applied again, so that any state derived from the moves (such as
+   * the board, or whose turn it is) is rebuilt from the moves that remain.
+   * @throws InvalidParametersError if the move can not be taken back (@see checkUndo)
+   */
+  public undoLastMove(): void {
+    this.checkUndo();
+    const moves = this._moves.slice(0, -1);
+    this._resetMoves?.();
+    moves.forEach(({ playerID, move }) =>
+      this._applyMove({ playerID, gameID: this.id, move: move as MoveType }),
+    );
+    this._moves = moves;
+    this._stateChanged();
+  }
+
   /**
    * Attempt to join a game.
    * Adds the player to the list of players for the game if the game allows the player to join.
+   * A spectator who joins the game stops spectating it.
    * @param player The player to join the game.
-   * @throws InvalidParametersError if the player can not join the game
+   * @param team In team games, the team that the player would like to join, if they have a preference
+   * @throws InvalidParametersError if the game is not a team game or has no such team (NO_SUCH_TEAM_MESSAGE),
+   *  or the player can not join the game
    */
-  public join(player: Player): void {
-    this._join(player);
+  public join(player: Player, team?: TeamIndex): void {
+    if (
+      team !== undefined &&
+      (!this.teamSizes || !Number.isInteger(team) || team < 0 || team >= this.teamSizes.length)
+    ) {
+      throw new InvalidParametersError(NO_SUCH_TEAM_MESSAGE);
+    }
+    this._join(player, team);
     this._players.push(player);
+    this._spectators = this._spectators.filter(p => p.id !== player.id);
+    this._stateChanged();
   }
 
   /**
@@ -83,14 +421,214 @@ export default abstract class Game<StateType extends GameState, MoveType> {
   public leave(player: Player): void {
     this._leave(player);
     this._players = this._players.filter(p => p.id !== player.id);
+    this._stateChanged();
+  }
+
+  /**
+   * Confirm that a player is ready to start a game that is waiting for its players to be ready
+   * (games that have a lobby switch their status to WAITING_FOR_READY once their seats are taken).
+   * Once every player is ready, the game's status becomes IN_PROGRESS, and the turn goes to the player in
+   * the first seat that is taken (@see _firstTurn), whoever has left the lobby and taken a seat since.
+   * @param player The player who is ready.
+   * @throws InvalidParametersError if the game is not waiting for its players to be ready
+   *  (GAME_NOT_WAITING_FOR_READY_MESSAGE) or the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  public setReady(player: Player): void {
+    if (this._state.status !== 'WAITING_FOR_READY') {
+      throw new InvalidParametersError(GAME_NOT_WAITING_FOR_READY_MESSAGE);
+    }
+    if (!this._players.some(p => p.id === player.id)) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    const ready = (this._state.ready || []).filter(playerID => playerID !== player.id);
+    ready.push(player.id);
+    if (this._players.every(p => ready.includes(p.id))) {
+      this._state = { ...this._state, status: 'IN_PROGRESS', ready: undefined };
+      this._firstTurn();
+    } else {
+      this._state = { ...this._state, ready };
+    }
+    this._stateChanged();
+  }
+
+  /**
+   * Start watching a game without playing in it.
+   * @param player The player to add to the spectators of the game.
+   * @throws InvalidParametersError if the player is playing in the game (PLAYER_ALREADY_IN_GAME_MESSAGE)
+   *  or is already spectating it (PLAYER_ALREADY_SPECTATING_MESSAGE)
+   */
+  public spectate(player: Player): void {
+    if (this._players.some(p => p.id === player.id)) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    if (this._spectators.some(p => p.id === player.id)) {
+      throw new InvalidParametersError(PLAYER_ALREADY_SPECTATING_MESSAGE);
+    }
+    this._spectators.push(player);
   }
 
-  public toModel(): GameInstance<StateType> {
+  /**
+   * Stop watching a game.
+   * @param player The player to remove from the spectators of the game.
+   * @throws InvalidParametersError if the player is not spectating the game (PLAYER_NOT_SPECTATING_MESSAGE)
+   */
+  public stopSpectating(player: Player): void {
+    if (!this._spectators.some(p => p.id === player.id)) {
+      throw new InvalidParametersError(PLAYER_NOT_SPECTATING_MESSAGE);
+    }
+    this._spectators = this._spectators.filter(p => p.id !== player.id);
+  }
+
+  /**
+   * Builds the record of this game for replays
+   * @returns the record, or undefined if the game has not ended
+   */
+  public toReplay(): Omit<GameReplay, 'type'> | undefined {
+    if (this._startedAt === undefined || this._endedAt === undefined) {
+      return undefined;
+    }
+    return {
+      gameID: this.id,
+      seats: this._replaySeats,
+      moves: this._moves,
+      startedAt: this._startedAt,
+      endedAt: this._endedAt,
+      winner: (this._state as WinnableGameState).winner,
+    };
+  }
+
+  /**
+   * Records the start and end of the game and updates its clocks after its state has changed. Commands
+   * do this for themselves; games whose state also changes on their own (e.g. when a timer of theirs
+   * runs out) call this once they have changed it.
+   */
+  protected _stateChanged(): void {
+    this._recordStartAndEnd();
+    this._updateClock();
+  }
+
+  /**
+   * Records the seats of the players when the game starts, and the time at which it starts and ends
+   */
+  private _recordStartAndEnd(): void {
+    const { status } = this._state;
+    if (
+      status !== 'WAITING_TO_START' &&
+      status !== 'WAITING_FOR_READY' &&
+      this._startedAt === undefined
+    ) {
+      this._startedAt = this._clock.now();
+      this._replaySeats = this._players.map(eachPlayer => ({
+        seat: this._seatName(eachPlayer.id),
+        playerID: eachPlayer.id,
+        userName: eachPlayer.userName,
+      }));
+    }
+    if (status === 'OVER' && this._endedAt === undefined) {
+      this._endedAt = this._clock.now();
+    }
+  }
+
+  /**
+   * Takes the time since the running player's turn began off their clock, and if the game is in
+   * progress, starts the clock of the player whose turn it is (even if it is the same player again).
+   * Does nothing if the game is not played with time controls.
+   */
+  private _updateClock(): void {
+    const timeControl = this._timeControl;
+    if (!timeControl) {
+      return;
+    }
+    if (this._timer !== undefined) {
+      this._clock.clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+    const now = this._clock.now();
+    const clock: GameClock = { ...timeControl };
+    if (timeControl.perPlayer !== undefined) {
+      const remaining = { ...this._state.clock?.remaining };
+      const running = this._state.clock?.running;
+      if (running && remaining[running] !== undefined) {
+        remaining[running] = Math.max(0, remaining[running] - (now - this._turnStartedAt));
+      }
+      this._players.forEach(eachPlayer => {
+        if (remaining[eachPlayer.id] === undefined) {
+          remaining[eachPlayer.id] = timeControl.perPlayer as number;
+        }
+      });
+      clock.remaining = remaining;
+    }
+    const next = this._state.status === 'IN_PROGRESS' ? this._playerToMove() : undefined;
+    if (next) {
+      const limits = [clock.remaining?.[next], timeControl.perMove].filter(
+        (limit): limit is number => limit !== undefined,
+      );
+      const timeLeft = Math.min(...limits);
+      clock.running = next;
+      clock.deadline = now + timeLeft;
+      this._turnStartedAt = now;
+      this._timer = this._clock.setTimeout(() => this._timeOut(next), timeLeft);
+    }
+    this._state = { ...this._state, clock };
+  }
+
+  /**
+   * Ends the game because a player ran out of time. In team games, their team loses, and the other team
+   * wins if exactly one other team has players left; otherwise the other player wins if there is exactly one.
+   * @param playerID the player who ran out of time
+   */
+  private _timeOut(playerID: PlayerID): void {
+    this._timer = undefined;
+    const player = this._players.find(eachPlayer => eachPlayer.id === playerID);
+    if (!player || this._state.clock?.running !== playerID) {
+      return;
+    }
+    const others = this._players.filter(eachPlayer => eachPlayer.id !== playerID);
+    const clock: GameClock = { ...this._state.clock, running: undefined, deadline: undefined };
+    if (clock.remaining) {
+      clock.remaining = { ...clock.remaining, [playerID]: 0 };
+    }
+    const team = this.teamOf(playerID);
+    const otherTeams = [...new Set(others.map(eachPlayer => this.teamOf(eachPlayer.id)))].filter(
+      otherTeam => otherTeam !== undefined && otherTeam !== team,
+    );
+    const outcome: Partial<WinnableGameState> = this.teamSizes
+      ? { winningTeam: otherTeams.length === 1 ? otherTeams[0] : undefined }
+      : { winner: others.length === 1 ? others[0].id : undefined };
+    this._state = {
+      ...this._state,
+      status: 'OVER',
+      ...outcome,
+      clock,
+    } as WinnableGameState as StateType;
+    this._recordStartAndEnd();
+    this._timeoutListener?.(player);
+  }
+
+  /**
+   * Finds what a viewer may see of the state of this game. Games with hidden information (e.g. the hands
+   * of the players of a card game) override this method to leave out whatever the viewer may not see;
+   * by default, every viewer sees the whole state.
+   *
+   * @param viewer the player that the state will be shown to, who may be playing the game, spectating it,
+   *  or neither; undefined for a view that every player may see
+   */
+  protected _stateFor(viewer?: PlayerID): StateType {
+    return this._state;
+  }
+
+  /**
+   * @param viewer the player that the model will be sent to, who only sees what they may see of the
+   *  state of the game (@see _stateFor); undefined for a model that every player may see
+   */
+  public toModel(viewer?: PlayerID): GameInstance<StateType> {
     return {
-      state: this._state,
+      state: this._stateFor(viewer),
       id: this.id,
       result: this._result,
       players: this._players.map(player => player.id),
+      spectators: this._spectators.map(player => player.id),
+      teams: this.teams,
     };
   }
 }
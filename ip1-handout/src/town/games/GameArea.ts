@@ -1,16 +1,79 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import Clock, { systemClock, TimerHandle } from '../../lib/Clock';
+import InvalidParametersError, {
+  GAME_ID_MISSMATCH_MESSAGE,
+  GAME_IN_PROGRESS_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  INVALID_COMMAND_MESSAGE,
+  INVALID_MOVE_MESSAGE,
+  NO_UNDO_REQUESTED_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  REPLAY_NOT_FOUND_MESSAGE,
+  SPECTATOR_CANNOT_MOVE_MESSAGE,
+  UNDO_ALREADY_REQUESTED_MESSAGE,
+} from '../../lib/InvalidParametersError';
 import Player from '../../lib/Player';
 import {
+  BoundingBox,
   GameArea as GameAreaModel,
+  GameInstanceID,
+  GameMoveCommand,
+  GameReplay,
   GameResult,
+  GetReplayCommand,
   GameState,
+  InteractableCommand,
+  InteractableCommandReturnType,
+  InteractableID,
   InteractableType,
+  JoinGameCommand,
+  PlayerID,
+  LeaveGameCommand,
+  RequestUndoCommand,
+  RespondUndoCommand,
+  SetReadyCommand,
+  SpectateCommand,
+  StopSpectatingCommand,
+  TimeControl,
+  TownEmitter,
+  UndoRequest,
+  UndoRequestStatus,
+  WinnableGameState,
 } from '../../types/CoveyTownSocket';
 import InteractableArea from '../InteractableArea';
 import Game from './Game';
+import RatingService from './RatingService';
+
+/** The number of milliseconds that a player has to answer a request to take back a move */
+export const UNDO_REQUEST_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Reads a time limit, given in seconds, from a property of a map object
+ * @returns the time limit in milliseconds, or undefined if the map object does not have the property
+ * @throws Error if the property is not a positive number
+ */
+function timeLimitProperty(
+  id: InteractableID,
+  mapObject: ITiledMapObject | undefined,
+  name: string,
+): number | undefined {
+  const value = mapObject?.properties?.find(prop => prop.name === name)?.value;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !(value > 0)) {
+    throw new Error(`Malformed game area ${id}: ${name} must be a positive number of seconds`);
+  }
+  return value * 1000;
+}
 
 /**
  * A GameArea is an InteractableArea on the map that can host a game.
  * At any given point in time, there is at most one game in progress in a GameArea.
+ *
+ * Games can be played with time controls, set through the properties of the area's map object:
+ * `timePerPlayer` is the total number of seconds that each player has for all of their moves, and
+ * `timePerMove` is the number of seconds that a player has for each move.
  */
 export default abstract class GameArea<
   GameType extends Game<GameState, unknown>,
@@ -19,6 +82,44 @@ export default abstract class GameArea<
 
   protected _history: GameResult[] = [];
 
+  private _replays: GameReplay[] = [];
+
+  private _ratings?: { gameType: string; ratingService: RatingService };
+
+  private _timeControl?: TimeControl;
+
+  private _clock: Clock;
+
+  private _undoRequest?: UndoRequest;
+
+  private _undoTimer?: TimerHandle;
+
+  /**
+   * Creates a new GameArea
+   *
+   * @param id unique ID for this area
+   * @param boundingBox the bounding box that defines this area
+   * @param townEmitter a broadcast emitter that can be used to emit updates to players
+   * @param mapObject the map object that this area was created from, which may set time controls
+   * @param clock the clock that time controls are measured with
+   * @throws Error if `timePerPlayer` or `timePerMove` is not a positive number
+   */
+  public constructor(
+    id: InteractableID,
+    boundingBox: BoundingBox,
+    townEmitter: TownEmitter,
+    mapObject?: ITiledMapObject,
+    clock: Clock = systemClock,
+  ) {
+    super(id, boundingBox, townEmitter);
+    const perPlayer = timeLimitProperty(id, mapObject, 'timePerPlayer');
+    const perMove = timeLimitProperty(id, mapObject, 'timePerMove');
+    if (perPlayer !== undefined || perMove !== undefined) {
+      this._timeControl = { perPlayer, perMove };
+    }
+    this._clock = clock;
+  }
+
   public get game(): GameType | undefined {
     return this._game;
   }
@@ -27,11 +128,76 @@ export default abstract class GameArea<
     return this._history;
   }
 
-  public toModel(): GameAreaModel<GameType['state']> {
+  /**
+   * Whether a new game can be started in this area without interrupting anyone: either no game has
+   * been played here yet, the last game is over, or every player has left a game that had not started
+   */
+  public get isAvailable(): boolean {
+    const game = this._game;
+    return (
+      game === undefined ||
+      game.state.status === 'OVER' ||
+      (game.state.status === 'WAITING_TO_START' && game.players.length === 0)
+    );
+  }
+
+  /**
+   * The smallest number of players that a game in this area can be played with: two, unless the area
+   * hosts a game that can be played with other numbers of players and overrides this
+   */
+  public get minPlayers(): number {
+    return 2;
+  }
+
+  /**
+   * Starts a new game in this area with the given players already seated, in order (e.g. for players
+   * who were paired by matchmaking), and calls this._emitAreaChanged. The players have already agreed
+   * to play, so if the game has a lobby they are all marked as ready.
+   *
+   * @param players the players to seat in the new game
+   * @returns the ID of the new game
+   * @throws InvalidParametersError if a game that is not over is already in this area
+   *  (GAME_IN_PROGRESS_MESSAGE), or if a player can not join the game
+   */
+  public startGame(players: Player[]): GameInstanceID {
+    if (!this.isAvailable) {
+      throw new InvalidParametersError(GAME_IN_PROGRESS_MESSAGE);
+    }
+    const newGame = this._newGame();
+    players.forEach(eachPlayer => newGame.join(eachPlayer));
+    if (newGame.state.status === 'WAITING_FOR_READY') {
+      players.forEach(eachPlayer => newGame.setReady(eachPlayer));
+    }
+    this._game = newGame;
+    this._emitAreaChanged();
+    return newGame.id;
+  }
+
+  /**
+   * Finds the replay of a game that has finished in this area
+   * @param gameID the ID of the game
+   * @returns the replay, or undefined if no game with this ID has been recorded in this area's history
+   */
+  public getReplay(gameID: string): GameReplay | undefined {
+    return this._replays.find(replay => replay.gameID === gameID);
+  }
+
+  /**
+   * Finds the Portable Game Notation of a game that has finished in this area, so that it can be
+   * downloaded. Only areas that host games with a PGN, such as chess, override this method.
+   * @param gameID the ID of the game
+   * @returns the PGN, or undefined if this area's games have none or no such game has finished here
+   */
+  public getPGN(gameID: string): string | undefined {
+    return undefined;
+  }
+
+  public toModel(viewer?: PlayerID): GameAreaModel<GameType['state']> {
     return {
       id: this.id,
-      game: this._game?.toModel(),
+      game: this._game?.toModel(viewer),
       history: this._history,
+      undoRequest: this._undoRequest,
       occupants: this.occupantsByID,
       type: this.getType(),
     };
@@ -43,10 +209,449 @@ export default abstract class GameArea<
 
   protected abstract getType(): InteractableType;
 
+  /**
+   * Reports the outcome of every game that ends in this area to a rating service
+   *
+   * @param gameType the kind of game that this area hosts, e.g. 'TicTacToe'
+   * @param ratingService the rating service of the town that this area is in
+   */
+  public rateGames(gameType: string, ratingService: RatingService): void {
+    this._ratings = { gameType, ratingService };
+  }
+
+  /**
+   * Creates a new instance of the game that this area hosts
+   */
+  protected abstract _createGame(): GameType;
+
+  /**
+   * Creates a new game, played with this area's time controls if it has any. When a player runs
+   * out of time, the outcome is recorded in this._history and this._emitAreaChanged is called.
+   */
+  protected _newGame(): GameType {
+    this._answerUndoRequest();
+    this._undoRequest = undefined;
+    const newGame = this._createGame();
+    newGame.useClock(this._clock);
+    if (this._timeControl) {
+      newGame.setTimeControl(this._timeControl, player => {
+        this._handleGameOver(player);
+        this._emitAreaChanged();
+      });
+    }
+    return newGame;
+  }
+
+  /**
+   * Checks that a move received from a client has the shape of a move for the game that this area hosts
+   * @param move the move to check
+   */
+  protected abstract _isValidMove(move: unknown): boolean;
+
+  /**
+   * Removes a player from this game area. If the player is playing the game in this area,
+   * they leave the game, and if that ends the game its outcome is recorded in this._history.
+   * If the player is spectating the game in this area, they stop spectating it.
+   *
+   * @param player Player to remove
+   */
   public remove(player: Player): void {
-    if (this._game) {
+    this._leaveGame(player);
+    super.remove(player);
+  }
+
+  /**
+   * Takes a player out of the game in this area, as they leave the town. Players can be seated in a
+   * game without standing in its area (e.g. by matchmaking, or by accepting a challenge), so this is
+   * called for every game area, not only the one that the player is in. If the player is playing or
+   * spectating the game, they leave it as they would by leaving the area (@see remove), and this
+   * calls this._emitAreaChanged.
+   *
+   * @param player the player who is leaving the town
+   */
+  public removeFromGame(player: Player): void {
+    if (this._leaveGame(player)) {
+      this._emitAreaChanged();
+    }
+  }
+
+  /**
+   * Makes a player leave the game in this area if they are playing it, recording its outcome if that
+   * ends the game, or stop spectating it if they are spectating it
+   *
+   * @returns true if the player was playing or spectating the game
+   */
+  private _leaveGame(player: Player): boolean {
+    if (this._game?.players.some(eachPlayer => eachPlayer.id === player.id)) {
       this._game.leave(player);
+      this._handleGameOver(player);
+      return true;
     }
-    super.remove(player);
+    if (this._game?.spectators.some(eachPlayer => eachPlayer.id === player.id)) {
+      this._game.stopSpectating(player);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Handle a command from a player in this game area.
+   * Supported commands:
+   * - JoinGame (joins the game `this._game`, or creates a new one if no game has been played yet or the
+   *   last one is over (@see isAvailable); in team games, on the team that the player would like to
+   *   join, if any)
+   * - GameMove (applies a move to the game)
+   * - LeaveGame (leaves the game)
+   * - SetReady (confirms that the player is ready to start a game that is WAITING_FOR_READY)
+   * - RequestUndo (asks the opponent for permission to take back the last move; the request is DECLINED
+   *   if a move is made before it is answered, and EXPIRED if it is not answered in time)
+   * - RespondUndo (answers the opponent's request, taking back the last move if it is accepted)
+   * - Spectate (starts watching the game without playing in it)
+   * - StopSpectating (stops watching the game)
+   * - GetReplay (returns the replay of a game in this area's history)
+   *
+   * If the command ended the game, records the outcome in this._history
+   * If the command is successful (does not throw an error), calls this._emitAreaChanged (necessary
+   *  to notify any listeners of a state update, including any change to history)
+   * If the command is unsuccessful (throws an error), the error is propagated to the caller
+   *
+   * @see InteractableCommand
+   *
+   * @param command command to handle
+   * @param player player making the request
+   * @returns response to the command, @see InteractableCommandResponse
+   * @throws InvalidParametersError if the command is not supported or is invalid. Invalid commands:
+   *  - JoinGame: the game is not a team game or has no such team (NO_SUCH_TEAM_MESSAGE), or the player
+   *        can not join the game (e.g. GAME_FULL_MESSAGE, TEAM_FULL_MESSAGE)
+   *  - LeaveGame, GameMove, SetReady, Spectate and StopSpectating: No game in progress (GAME_NOT_IN_PROGRESS_MESSAGE),
+   *        or gameID does not match the game in progress (GAME_ID_MISSMATCH_MESSAGE)
+   *  - GameMove: the player is spectating the game (SPECTATOR_CANNOT_MOVE_MESSAGE),
+   *        or the move is not a move for this game (INVALID_MOVE_MESSAGE)
+   *  - SetReady: the game is not waiting for its players to be ready (GAME_NOT_WAITING_FOR_READY_MESSAGE),
+   *        or the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *  - RequestUndo and RespondUndo: No game in progress (GAME_NOT_IN_PROGRESS_MESSAGE), gameID does not
+   *        match the game in progress (GAME_ID_MISSMATCH_MESSAGE), or the player is not in the game
+   *        (PLAYER_NOT_IN_GAME_MESSAGE)
+   *  - RequestUndo: the last move can not be taken back (@see Game.checkUndo), or the player's
+   *        opponent has not answered an earlier request yet (UNDO_ALREADY_REQUESTED_MESSAGE)
+   *  - RespondUndo: no request from the player's opponent is waiting for an answer (NO_UNDO_REQUESTED_MESSAGE),
+   *        or the request is accepted but the last move can not be taken back (@see Game.checkUndo)
+   *  - GetReplay: no game with this ID is in this area's history (REPLAY_NOT_FOUND_MESSAGE)
+   *  - Any other command: INVALID_COMMAND_MESSAGE
+   */
+  public handleCommand<CommandType extends InteractableCommand>(
+    command: CommandType,
+    player: Player,
+  ): InteractableCommandReturnType<CommandType> {
+    switch (command.type) {
+      case 'JoinGame':
+        return this._handleJoinGame(
+          player,
+          command as JoinGameCommand,
+        ) as InteractableCommandReturnType<CommandType>;
+      case 'GameMove':
+        return this._handleGameMove(
+          player,
+          command as GameMoveCommand<unknown>,
+        ) as InteractableCommandReturnType<CommandType>;
+      case 'LeaveGame':
+        return this._handleLeaveGame(
+          player,
+          command as LeaveGameCommand,
+        ) as InteractableCommandReturnType<CommandType>;
+      case 'SetReady':
+        return this._handleSetReady(
+          player,
+          command as SetReadyCommand,
+        ) as InteractableCommandReturnType<CommandType>;
+      case 'RequestUndo':
+        return this._handleRequestUndo(
+          player,
+          command as RequestUndoCommand,
+        ) as InteractableCommandReturnType<CommandType>;
+      case 'RespondUndo':
+        return this._handleRespondUndo(
+          player,
+          command as RespondUndoCommand,
+        ) as InteractableCommandReturnType<CommandType>;
+      case 'Spectate':
+        return this._handleSpectate(
+          player,
+          command as SpectateCommand,
+        ) as InteractableCommandReturnType<CommandType>;
+      case 'StopSpectating':
+        return this._handleStopSpectating(
+          player,
+          command as StopSpectatingCommand,
+        ) as InteractableCommandReturnType<CommandType>;
+      case 'GetReplay':
+        return this._handleGetReplay(
+          command as GetReplayCommand,
+        ) as InteractableCommandReturnType<CommandType>;
+      default:
+        throw new InvalidParametersError(INVALID_COMMAND_MESSAGE);
+    }
+  }
+
+  private _handleJoinGame(
+    player: Player,
+    command: JoinGameCommand,
+  ): InteractableCommandReturnType<JoinGameCommand> {
+    // If no game has been played yet, or the last one is over, create a new game and join it;
+    // otherwise join the game that is already in this area
+    const game = this._game && !this.isAvailable ? this._game : this._newGame();
+    game.join(player, command.team);
+    this._game = game;
+    this._emitAreaChanged();
+    return { gameID: game.id };
+  }
+
+  private _handleGameMove(player: Player, command: GameMoveCommand<unknown>): undefined {
+    const game = this._gameWithID(command.gameID);
+
+    if (game.spectators.some(eachPlayer => eachPlayer.id === player.id)) {
+      throw new InvalidParametersError(SPECTATOR_CANNOT_MOVE_MESSAGE);
+    }
+
+    if (!this._isValidMove(command.move)) {
+      throw new InvalidParametersError(INVALID_MOVE_MESSAGE);
+    }
+
+    game.applyMove({
+      playerID: player.id,
+      gameID: game.id,
+      move: command.move,
+    });
+    this._answerUndoRequest('DECLINED');
+
+    this._handleGameOver(player);
+
+    this._emitAreaChanged();
+    return undefined;
+  }
+
+  private _handleLeaveGame(
+    player: Player,
+    command: LeaveGameCommand,
+  ): InteractableCommandReturnType<LeaveGameCommand> {
+    const game = this._gameWithID(command.gameID);
+
+    game.leave(player);
+
+    this._handleGameOver(player);
+
+    this._emitAreaChanged();
+    return undefined;
+  }
+
+  private _handleSetReady(
+    player: Player,
+    command: SetReadyCommand,
+  ): InteractableCommandReturnType<SetReadyCommand> {
+    this._gameWithID(command.gameID).setReady(player);
+    this._emitAreaChanged();
+    return undefined;
+  }
+
+  private _handleRequestUndo(
+    player: Player,
+    command: RequestUndoCommand,
+  ): InteractableCommandReturnType<RequestUndoCommand> {
+    const game = this._gameInProgressFor(player, command.gameID);
+    game.checkUndo();
+    if (this._undoRequest?.gameID === game.id && this._undoRequest.status === 'PENDING') {
+      throw new InvalidParametersError(UNDO_ALREADY_REQUESTED_MESSAGE);
+    }
+    this._undoRequest = {
+      gameID: game.id,
+      requester: player.id,
+      status: 'PENDING',
+      expiresAt: this._clock.now() + UNDO_REQUEST_TIMEOUT_MS,
+    };
+    this._undoTimer = this._clock.setTimeout(() => {
+      this._undoTimer = undefined;
+      this._answerUndoRequest('EXPIRED');
+      this._emitAreaChanged();
+    }, UNDO_REQUEST_TIMEOUT_MS);
+    this._emitAreaChanged();
+    return undefined;
+  }
+
+  private _handleRespondUndo(
+    player: Player,
+    command: RespondUndoCommand,
+  ): InteractableCommandReturnType<RespondUndoCommand> {
+    const game = this._gameInProgressFor(player, command.gameID);
+    const request = this._undoRequest;
+    if (
+      request?.gameID !== game.id ||
+      request.status !== 'PENDING' ||
+      request.requester === player.id
+    ) {
+      throw new InvalidParametersError(NO_UNDO_REQUESTED_MESSAGE);
+    }
+    if (command.accept) {
+      game.undoLastMove();
+    }
+    this._answerUndoRequest(command.accept ? 'ACCEPTED' : 'DECLINED');
+    this._emitAreaChanged();
+    return undefined;
+  }
+
+  /**
+   * Answers the pending request to take back a move, if there is one, and stops its expiry timer
+   * @param status the answer, or undefined to leave the request's status as it is
+   */
+  private _answerUndoRequest(status?: UndoRequestStatus): void {
+    if (this._undoTimer !== undefined) {
+      this._clock.clearTimeout(this._undoTimer);
+      this._undoTimer = undefined;
+    }
+    if (status && this._undoRequest?.status === 'PENDING') {
+      this._undoRequest = { ...this._undoRequest, status };
+    }
+  }
+
+  private _handleSpectate(
+    player: Player,
+    command: SpectateCommand,
+  ): InteractableCommandReturnType<SpectateCommand> {
+    this._gameWithID(command.gameID).spectate(player);
+    this._emitAreaChanged();
+    return undefined;
+  }
+
+  private _handleStopSpectating(
+    player: Player,
+    command: StopSpectatingCommand,
+  ): InteractableCommandReturnType<StopSpectatingCommand> {
+    this._gameWithID(command.gameID).stopSpectating(player);
+    this._emitAreaChanged();
+    return undefined;
+  }
+
+  private _handleGetReplay(
+    command: GetReplayCommand,
+  ): InteractableCommandReturnType<GetReplayCommand> {
+    const replay = this.getReplay(command.gameID);
+    if (!replay) {
+      throw new InvalidParametersError(REPLAY_NOT_FOUND_MESSAGE);
+    }
+    return replay;
+  }
+
+  /**
+   * Finds the game that a command refers to
+   * @param gameID the gameID sent with the command
+   * @returns the game in progress
+   * @throws InvalidParametersError if there is no game in progress (GAME_NOT_IN_PROGRESS_MESSAGE)
+   *  or the gameID does not match the game in progress (GAME_ID_MISSMATCH_MESSAGE)
+   */
+  protected _gameWithID(gameID: string): GameType {
+    if (!this._game) {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    if (gameID !== this._game.id) {
+      throw new InvalidParametersError(GAME_ID_MISSMATCH_MESSAGE);
+    }
+    return this._game;
+  }
+
+  /**
+   * Finds the game that a command refers to, and checks that the player sending it is playing in it
+   * @throws InvalidParametersError if the game can not be found (@see _gameWithID), or the player is not
+   *  in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  private _gameInProgressFor(player: Player, gameID: string): GameType {
+    const game = this._gameWithID(gameID);
+    if (!game.players.some(eachPlayer => eachPlayer.id === player.id)) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    return game;
+  }
+
+  /**
+   * If the game has just ended, records its outcome in this._history (@see _gameResult). The players
+   * of the game include the player who made the last command, even if they have just left the game.
+   * Each game is recorded at most once, along with its replay. If this area's games are rated
+   * (@see rateGames) and the game is one that counts towards ratings (@see _isRated), the outcome is
+   * also reported to the rating service.
+   *
+   * @param player the player whose command may have ended the game, if it was ended by a command
+   */
+  protected _handleGameOver(player?: Player): void {
+    const game = this._game;
+    if (game?.state.status !== 'OVER' || this._history.some(r => r.gameID === game.id)) {
+      return;
+    }
+    const participants = [...(player ? [player] : []), ...game.players].filter(
+      (eachPlayer, index, all) => all.findIndex(other => other.id === eachPlayer.id) === index,
+    );
+    const result = this._gameResult(game, participants);
+    if (!result) {
+      return;
+    }
+    this._history.push(result);
+    const replay = game.toReplay();
+    if (replay) {
+      this._replays.push({ type: this.getType(), ...replay });
+    }
+    if (this._isRated(game, participants)) {
+      this._ratings?.ratingService.recordGame(
+        this._ratings.gameType,
+        participants,
+        (game.state as WinnableGameState).winner,
+      );
+    }
+  }
+
+  /**
+   * Whether the outcome of a game that has just ended counts towards its players' ratings. Team games
+   * are not rated, as ratings are kept for individual players. Areas whose games can be played against
+   * opponents that are not rated, such as bots, override this method.
+   *
+   * @param game the game that has ended
+   * @param participants every player who took part in the game
+   */
+  protected _isRated(game: GameType, participants: Player[]): boolean {
+    return !game.teamSizes;
+  }
+
+  /**
+   * Works out the result of a game that has just ended: the winner scores 1, and every other player
+   * scores 0. In team games, every player on the winning team (the team of the winner, if the game
+   * names a winning player rather than a winning team) scores 1, and the result of each team is
+   * included as well. Areas whose games are scored in some other way override this method.
+   *
+   * @param game the game that has ended
+   * @param participants every player who took part in the game
+   * @returns the result to record, or undefined if the game is not recorded (games with fewer than
+   *  two players are not)
+   */
+  protected _gameResult(game: GameType, participants: Player[]): GameResult | undefined {
+    if (participants.length < 2) {
+      return undefined;
+    }
+    const { winner } = game.state as WinnableGameState;
+    const winningTeam =
+      (game.state as WinnableGameState).winningTeam ??
+      (winner === undefined ? undefined : game.teamOf(winner));
+    const score = (playerID: PlayerID) =>
+      playerID === winner || (winningTeam !== undefined && game.teamOf(playerID) === winningTeam)
+        ? 1
+        : 0;
+    return {
+      gameID: game.id,
+      scores: Object.fromEntries(
+        participants.map(eachPlayer => [eachPlayer.userName, score(eachPlayer.id)]),
+      ),
+      teams: game.teamSizes?.map((size, team) => ({
+        team,
+        players: participants
+          .filter(eachPlayer => game.teamOf(eachPlayer.id) === team)
+          .map(eachPlayer => eachPlayer.userName),
+        score: team === winningTeam ? 1 : 0,
+      })),
+    };
   }
 }
@@ -0,0 +1,174 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { mock } from 'jest-mock-extended';
+import { createPlayerForTesting } from '../../TestUtils';
+import { TownEmitter } from '../../types/CoveyTownSocket';
+import BattleshipGameArea from './BattleshipGameArea';
+import ChessGameArea from './ChessGameArea';
+import DotsAndBoxesGameArea from './DotsAndBoxesGameArea';
+import GameAreaFactory from './GameAreaFactory';
+import GameRegistry from './GameRegistry';
+import GoGameArea from './GoGameArea';
+import HangmanGameArea from './HangmanGameArea';
+import MancalaGameArea from './MancalaGameArea';
+import RatingService from './RatingService';
+import REGISTERED_GAMES from './RegisteredGames';
+import ReversiGameArea from './ReversiGameArea';
+import RockPaperScissorsGameArea from './RockPaperScissorsGameArea';
+import TicTacToeGameArea from './TicTacToeGameArea';
+import TriviaGameArea from './TriviaGameArea';
+
+function gameAreaObject(gameType?: string): ITiledMapObject {
+  return {
+    id: 1,
+    name: 'Game 1',
+    type: 'GameArea',
+    x: 10,
+    y: 20,
+    width: 100,
+    height: 50,
+    rotation: 0,
+    visible: true,
+    properties:
+      gameType === undefined ? undefined : [{ name: 'type', type: 'string', value: gameType }],
+  } as ITiledMapObject;
+}
+
+describe('GameAreaFactory', () => {
+  const townEmitter = mock<TownEmitter>();
+  beforeEach(() => {
+    GameRegistry.initializeGameRegistry(REGISTERED_GAMES);
+  });
+  it('creates the area registered for the type property of the map object', () => {
+    const area = GameAreaFactory(gameAreaObject('TicTacToe'), townEmitter);
+    expect(area).toBeInstanceOf(TicTacToeGameArea);
+    expect(area.id).toEqual('Game 1');
+    expect(area.boundingBox).toEqual({ x: 10, y: 20, width: 100, height: 50 });
+  });
+  it('creates a chess area for map objects of type Chess', () => {
+    expect(GameAreaFactory(gameAreaObject('Chess'), townEmitter)).toBeInstanceOf(ChessGameArea);
+  });
+  it('creates a rock-paper-scissors area for map objects of type RockPaperScissors', () => {
+    expect(GameAreaFactory(gameAreaObject('RockPaperScissors'), townEmitter)).toBeInstanceOf(
+      RockPaperScissorsGameArea,
+    );
+  });
+  it('creates a battleship area for map objects of type Battleship', () => {
+    expect(GameAreaFactory(gameAreaObject('Battleship'), townEmitter)).toBeInstanceOf(
+      BattleshipGameArea,
+    );
+  });
+  it('creates a hangman area for map objects of type Hangman', () => {
+    const mapObject = gameAreaObject('Hangman');
+    mapObject.properties?.push({
+      name: 'wordList',
+      type: 'string',
+      value: 'testData/hangmanWords.txt',
+    });
+    expect(GameAreaFactory(mapObject, townEmitter)).toBeInstanceOf(HangmanGameArea);
+  });
+  it('creates a trivia area for map objects of type Trivia', () => {
+    const mapObject = gameAreaObject('Trivia');
+    mapObject.properties?.push({
+      name: 'questionBank',
+      type: 'string',
+      value: 'testData/triviaQuestions.json',
+    });
+    expect(GameAreaFactory(mapObject, townEmitter)).toBeInstanceOf(TriviaGameArea);
+  });
+  it('creates a reversi area for map objects of type Reversi', () => {
+    expect(GameAreaFactory(gameAreaObject('Reversi'), townEmitter)).toBeInstanceOf(ReversiGameArea);
+  });
+  it('creates a go area for map objects of type Go', () => {
+    expect(GameAreaFactory(gameAreaObject('Go'), townEmitter)).toBeInstanceOf(GoGameArea);
+  });
+  it('creates a dots and boxes area for map objects of type DotsAndBoxes', () => {
+    expect(GameAreaFactory(gameAreaObject('DotsAndBoxes'), townEmitter)).toBeInstanceOf(
+      DotsAndBoxesGameArea,
+    );
+  });
+  it('creates a mancala area for map objects of type Mancala', () => {
+    expect(GameAreaFactory(gameAreaObject('Mancala'), townEmitter)).toBeInstanceOf(MancalaGameArea);
+  });
+  it('creates areas for games registered after the registry was created', () => {
+    const registry = GameRegistry.getInstance();
+    const registration = registry.getRegistration('TicTacToe');
+    if (!registration) {
+      throw new Error('Expected TicTacToe to be registered');
+    }
+    class OtherGameArea extends TicTacToeGameArea {}
+    registry.register({
+      ...registration,
+      gameType: 'FactoryTestGame',
+      interactableType: 'FactoryTestGameArea',
+      areaClass: OtherGameArea,
+    });
+    expect(GameAreaFactory(gameAreaObject('FactoryTestGame'), townEmitter)).toBeInstanceOf(
+      OtherGameArea,
+    );
+  });
+  it('reports the games played in the area to the rating service under the game type', () => {
+    const ratingService = new RatingService();
+    const area = GameAreaFactory(gameAreaObject('ConnectFour'), townEmitter, ratingService);
+    const [red, yellow] = [createPlayerForTesting(), createPlayerForTesting()];
+    const { gameID } = area.handleCommand({ type: 'JoinGame' }, red);
+    area.handleCommand({ type: 'JoinGame' }, yellow);
+    area.handleCommand({ type: 'LeaveGame', gameID }, red);
+    expect(ratingService.getLeaderboard('ConnectFour').map(entry => entry.playerID)).toEqual([
+      yellow.id,
+      red.id,
+    ]);
+  });
+  it('does not report trivia games to the rating service', () => {
+    const ratingService = new RatingService();
+    const mapObject = gameAreaObject('Trivia');
+    mapObject.properties?.push({
+      name: 'questionBank',
+      type: 'string',
+      value: 'testData/triviaQuestions.json',
+    });
+    const area = GameAreaFactory(mapObject, townEmitter, ratingService);
+    const players = [createPlayerForTesting(), createPlayerForTesting()];
+    const { gameID } = area.handleCommand({ type: 'JoinGame' }, players[0]);
+    area.handleCommand({ type: 'JoinGame' }, players[1]);
+    players.forEach(eachPlayer => area.handleCommand({ type: 'SetReady', gameID }, eachPlayer));
+    [0, 1, 2, 3].forEach(() =>
+      players.forEach(eachPlayer =>
+        area.handleCommand({ type: 'GameMove', gameID, move: { choice: 0 } }, eachPlayer),
+      ),
+    );
+    expect((area as TriviaGameArea).history).toHaveLength(1);
+    expect(ratingService.getLeaderboard('Trivia')).toEqual([]);
+  });
+  it('does not report hangman games to the rating service', () => {
+    const ratingService = new RatingService();
+    const mapObject = gameAreaObject('Hangman');
+    mapObject.properties?.push({
+      name: 'wordList',
+      type: 'string',
+      value: 'testData/hangmanWords.txt',
+    });
+    const area = GameAreaFactory(mapObject, townEmitter, ratingService);
+    const players = [createPlayerForTesting(), createPlayerForTesting()];
+    const { gameID } = area.handleCommand({ type: 'JoinGame' }, players[0]);
+    area.handleCommand({ type: 'JoinGame' }, players[1]);
+    const hangmanArea = area as HangmanGameArea;
+    'abcdefghijklmnopqrstuvwxyz'.split('').forEach((letter, index) => {
+      if (hangmanArea.game?.state.status === 'IN_PROGRESS') {
+        area.handleCommand({ type: 'GameMove', gameID, move: { letter } }, players[index % 2]);
+      }
+    });
+    expect(Object.keys(hangmanArea.history[0].scores)).toHaveLength(2);
+    expect(ratingService.getLeaderboard('Hangman')).toEqual([]);
+  });
+  it('throws an error if the game type is not registered', () => {
+    expect(() => GameAreaFactory(gameAreaObject('NoSuchGame'), townEmitter)).toThrowError();
+  });
+  it('throws an error if the map object has no game type', () => {
+    expect(() => GameAreaFactory(gameAreaObject(), townEmitter)).toThrowError();
+  });
+  it('throws an error if the map object has no size', () => {
+    expect(() =>
+      GameAreaFactory({ ...gameAreaObject('TicTacToe'), width: 0 }, townEmitter),
+    ).toThrowError();
+  });
+});
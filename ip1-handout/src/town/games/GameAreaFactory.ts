@@ -1,27 +1,55 @@
 import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
-import { BoundingBox, TownEmitter } from '../../types/CoveyTownSocket';
+import { BoundingBox, GameState, TownEmitter } from '../../types/CoveyTownSocket';
 import InteractableArea from '../InteractableArea';
-import TicTacToeGameArea from './TicTacToeGameArea';
+import Game from './Game';
+import GameRegistry, { GameAreaConstructor } from './GameRegistry';
+import RatingService from './RatingService';
 
 /**
- * Creates a new GameArea from a map object
+ * Creates a GameArea of the given class, named after the map object that it is created from
+ * @param AreaClass the GameArea subclass that hosts the game (@see GameRegistration.areaClass)
  * @param mapObject the map object to create the game area from
+ * @param rect the bounding box of the map object
  * @param broadcastEmitter a broadcast emitter that can be used to emit updates to players
+ */
+function createGameArea(
+  AreaClass: GameAreaConstructor<Game<GameState, unknown>>,
+  mapObject: ITiledMapObject,
+  rect: BoundingBox,
+  broadcastEmitter: TownEmitter,
+) {
+  return new AreaClass(mapObject.name, rect, broadcastEmitter, mapObject);
+}
+
+/**
+ * Creates a new GameArea from a map object, using the game registered for the map object's
+ * `type` property (@see GameRegistry)
+ * @param mapObject the map object to create the game area from
+ * @param broadcastEmitter a broadcast emitter that can be used to emit updates to players
+ * @param ratingService if given, and the game is rated (@see GameRegistration.rated), the outcome
+ *  of every game played in the area is reported to it
  * @returns the interactable area
- * @throws an error if the map object is malformed
+ * @throws an error if the map object is malformed or its type is not a registered game
  */
 export default function GameAreaFactory(
   mapObject: ITiledMapObject,
   broadcastEmitter: TownEmitter,
+  ratingService?: RatingService,
 ): InteractableArea {
   const { name, width, height } = mapObject;
   if (!width || !height) {
-    throw new Error(`Malformed viewing area ${name}`);
+    throw new Error(`Malformed game area ${name}`);
   }
   const rect: BoundingBox = { x: mapObject.x, y: mapObject.y, width, height };
   const gameType = mapObject.properties?.find(prop => prop.name === 'type')?.value;
-  if (gameType === 'TicTacToe') {
-    return new TicTacToeGameArea(name, rect, broadcastEmitter);
+  const registration =
+    typeof gameType === 'string' ? GameRegistry.getInstance().getRegistration(gameType) : undefined;
+  if (!registration) {
+    throw new Error(`Unknown game area type ${gameType}`);
+  }
+  const area = createGameArea(registration.areaClass, mapObject, rect, broadcastEmitter);
+  if (ratingService && registration.rated !== false) {
+    area.rateGames(registration.gameType, ratingService);
   }
-  throw new Error(`Unknown game area type ${mapObject.class}`);
+  return area;
 }
@@ -0,0 +1,65 @@
+import GameRegistry, { GameRegistration } from './GameRegistry';
+import REGISTERED_GAMES from './RegisteredGames';
+import TicTacToeGame, { isTicTacToeMove } from './TicTacToeGame';
+import TicTacToeGameArea, { ticTacToeRegistration } from './TicTacToeGameArea';
+
+describe('GameRegistry', () => {
+  let registry: GameRegistry;
+  const otherRegistration: GameRegistration = {
+    ...ticTacToeRegistration,
+    gameType: 'OtherTicTacToe',
+    interactableType: 'OtherTicTacToeArea',
+  } as GameRegistration;
+  beforeEach(() => {
+    registry = new GameRegistry();
+  });
+  describe('initializeGameRegistry', () => {
+    it('registers TicTacToe', () => {
+      GameRegistry.initializeGameRegistry(REGISTERED_GAMES);
+      const registration = GameRegistry.getInstance().getRegistration('TicTacToe');
+      expect(registration).toBeDefined();
+      expect(registration?.interactableType).toEqual('TicTacToeArea');
+      expect(registration?.gameClass).toBe(TicTacToeGame);
+      expect(registration?.areaClass).toBe(TicTacToeGameArea);
+      expect(registration?.isValidMove).toBe(isTicTacToeMove);
+    });
+    it('replaces any existing registry', () => {
+      GameRegistry.initializeGameRegistry(REGISTERED_GAMES);
+      const oldRegistry = GameRegistry.getInstance();
+      GameRegistry.initializeGameRegistry([]);
+      expect(GameRegistry.getInstance()).not.toBe(oldRegistry);
+      expect(GameRegistry.getInstance().registrations).toEqual([]);
+    });
+  });
+  describe('register', () => {
+    it('makes the game available by game type and by interactable type', () => {
+      registry.register(ticTacToeRegistration);
+      registry.register(otherRegistration);
+      expect(registry.getRegistration('OtherTicTacToe')).toBe(otherRegistration);
+      expect(registry.getRegistrationByInteractableType('OtherTicTacToeArea')).toBe(
+        otherRegistration,
+      );
+      expect(registry.registrations).toEqual([ticTacToeRegistration, otherRegistration]);
+    });
+    it('throws an error if the game type is already registered', () => {
+      registry.register(ticTacToeRegistration);
+      expect(() =>
+        registry.register({ ...otherRegistration, gameType: 'TicTacToe' }),
+      ).toThrowError();
+      expect(registry.registrations).toEqual([ticTacToeRegistration]);
+    });
+    it('throws an error if the interactable type is already registered', () => {
+      registry.register(ticTacToeRegistration);
+      expect(() =>
+        registry.register({ ...otherRegistration, interactableType: 'TicTacToeArea' }),
+      ).toThrowError();
+      expect(registry.registrations).toEqual([ticTacToeRegistration]);
+    });
+  });
+  describe('getRegistration', () => {
+    it('returns undefined for an unknown game type', () => {
+      expect(registry.getRegistration('TicTacToe')).toBeUndefined();
+      expect(registry.getRegistrationByInteractableType('TicTacToeArea')).toBeUndefined();
+    });
+  });
+});
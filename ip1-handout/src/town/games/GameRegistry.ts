@@ -0,0 +1,127 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import {
+  BoundingBox,
+  GameAreaType,
+  GameState,
+  InteractableID,
+  TownEmitter,
+} from '../../types/CoveyTownSocket';
+import Game from './Game';
+import GameArea from './GameArea';
+
+/**
+ * Constructor for a GameArea. The map object that the area was created from is passed
+ * along so that areas can read any additional properties (e.g. board size) from it.
+ */
+export type GameAreaConstructor<GameType extends Game<GameState, unknown>> = new (
+  id: InteractableID,
+  boundingBox: BoundingBox,
+  townEmitter: TownEmitter,
+  mapObject?: ITiledMapObject,
+) => GameArea<GameType>;
+
+/**
+ * Everything that the town needs to know about a kind of game in order to place it on a map.
+ */
+export interface GameRegistration<
+  GameType extends Game<GameState, MoveType> = Game<GameState, unknown>,
+  MoveType = unknown,
+> {
+  /** The value of the `type` property of a Tiled GameArea object that hosts this game, e.g. 'TicTacToe' */
+  gameType: string;
+  /** The interactable type reported by areas that host this game, e.g. 'TicTacToeArea' */
+  interactableType: GameAreaType;
+  /** The Game subclass that implements the rules of this game */
+  gameClass: new (...args: never[]) => GameType;
+  /** The GameArea subclass that hosts this game */
+  areaClass: GameAreaConstructor<GameType>;
+  /** Checks that a move received from a client has the shape of a move for this game */
+  isValidMove: (move: unknown) => move is MoveType;
+  /**
+   * Whether the outcome of each game is reported to the town's rating service (@see GameAreaFactory).
+   * Games are rated unless this is false, e.g. for games that are not played to beat an opponent.
+   */
+  rated?: boolean;
+}
+
+/**
+ * The GameRegistry keeps track of every kind of game that can be placed on a town map.
+ * The server initializes the registry with every game listed in RegisteredGames, and the
+ * GameAreaFactory looks up games by the `type` property of each map object.
+ *
+ * There is only a single instance of the GameRegistry - it follows the singleton pattern
+ */
+export default class GameRegistry {
+  private static _instance: GameRegistry;
+
+  private _registrations: Map<string, GameRegistration> = new Map();
+
+  /**
+   * Creates the singleton GameRegistry, registering each of the given games
+   *
+   * @param registrations the games to register
+   */
+  static initializeGameRegistry(registrations: GameRegistration[]) {
+    GameRegistry._instance = new GameRegistry();
+    registrations.forEach(eachRegistration => GameRegistry._instance.register(eachRegistration));
+  }
+
+  /**
+   * Retrieve the singleton GameRegistry.
+   *
+   * There is only a single instance of the GameRegistry - it follows the singleton pattern
+   */
+  static getInstance(): GameRegistry {
+    if (GameRegistry._instance === undefined) {
+      throw new Error('GameRegistry must be initialized before getInstance is called');
+    }
+    return GameRegistry._instance;
+  }
+
+  /**
+   * @returns every game that has been registered, in the order in which they were registered
+   */
+  get registrations(): GameRegistration[] {
+    return [...this._registrations.values()];
+  }
+
+  /**
+   * Registers a new kind of game
+   *
+   * @param registration the game to register
+   * @throws Error if another game has already been registered with the same game type or interactable type
+   */
+  register<GameType extends Game<GameState, MoveType>, MoveType>(
+    registration: GameRegistration<GameType, MoveType>,
+  ): void {
+    if (this._registrations.has(registration.gameType)) {
+      throw new Error(`Game type ${registration.gameType} is already registered`);
+    }
+    if (this.getRegistrationByInteractableType(registration.interactableType)) {
+      throw new Error(`Interactable type ${registration.interactableType} is already registered`);
+    }
+    this._registrations.set(registration.gameType, registration as unknown as GameRegistration);
+  }
+
+  /**
+   * Find a registered game by the `type` property of its map object
+   *
+   * @param gameType the game type to look up, e.g. 'TicTacToe'
+   * @returns the registration, or undefined if no such game has been registered
+   */
+  getRegistration(gameType: string): GameRegistration | undefined {
+    return this._registrations.get(gameType);
+  }
+
+  /**
+   * Find a registered game by the interactable type of the areas that host it
+   *
+   * @param interactableType the interactable type to look up, e.g. 'TicTacToeArea'
+   * @returns the registration, or undefined if no such game has been registered
+   */
+  getRegistrationByInteractableType(interactableType: string): GameRegistration | undefined {
+    return this.registrations.find(
+      eachRegistration => eachRegistration.interactableType === interactableType,
+    );
+  }
+}
@@ -0,0 +1,329 @@
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  BOARD_POSITION_NOT_EMPTY_MESSAGE,
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  KO_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  NOT_SCORING_MESSAGE,
+  NO_STONE_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  POINT_OFF_BOARD_MESSAGE,
+  SCORING_IN_PROGRESS_MESSAGE,
+  SUICIDE_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { GoMove } from '../../types/CoveyTownSocket';
+import GoGame, { isGoMove } from './GoGame';
+
+/**
+ * Moves, as [row, col], after which black captures white's stone on (1, 2) with a stone on (1, 3) that
+ * white could capture straight back: a ko
+ */
+const KO: Array<[number, number]> = [
+  [1, 1],
+  [0, 3],
+  [0, 2],
+  [2, 3],
+  [2, 2],
+  [1, 4],
+  [8, 8],
+  [1, 2],
+  [1, 3],
+];
+
+/**
+ * Moves, as [row, col], that build a wall of black stones down column 3 and of white stones down
+ * column 5, leaving black 27 points of territory, white 27, and column 4 to neither
+ */
+const WALLS: Array<[number, number]> = Array.from({ length: 9 }, (_, row) => [
+  [row, 3] as [number, number],
+  [row, 5] as [number, number],
+]).flat();
+
+describe('GoGame', () => {
+  let game: GoGame;
+  let black: Player;
+  let white: Player;
+
+  beforeEach(() => {
+    game = new GoGame();
+    black = createPlayerForTesting();
+    white = createPlayerForTesting();
+  });
+
+  function move(player: Player, goMove: GoMove) {
+    game.applyMove({ gameID: game.id, playerID: player.id, move: goMove });
+  }
+
+  function place(player: Player, row: number, col: number) {
+    move(player, { gamePiece: player === black ? 'Black' : 'White', row, col });
+  }
+
+  function pass(player: Player) {
+    move(player, { gamePiece: player === black ? 'Black' : 'White', pass: true });
+  }
+
+  /**
+   * Places stones on each of the points, each for whichever player's turn it is
+   */
+  function playAll(points: Array<[number, number]>) {
+    points.forEach(([row, col]) => place(game.state.turn === 'Black' ? black : white, row, col));
+  }
+
+  function startGame() {
+    game.join(black);
+    game.join(white);
+  }
+
+  it('starts with an empty board of the given size, and black to move', () => {
+    expect(game.state.size).toEqual(9);
+    expect(game.state.komi).toEqual(7.5);
+    expect(game.state.stones).toEqual([]);
+    expect(game.state.turn).toEqual('Black');
+    expect(game.state.phase).toEqual('PLAY');
+    expect(new GoGame(13, 6.5).state).toMatchObject({ size: 13, komi: 6.5 });
+  });
+
+  describe('_join', () => {
+    it('makes the first player black and the second white, and starts the game', () => {
+      game.join(black);
+      expect(game.state.status).toEqual('WAITING_TO_START');
+      game.join(white);
+      expect(game.state.black).toEqual(black.id);
+      expect(game.state.white).toEqual(white.id);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+    });
+    it('throws an error if the player is already in the game', () => {
+      game.join(black);
+      expect(() => game.join(black)).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the game is full', () => {
+      startGame();
+      expect(() => game.join(createPlayerForTesting())).toThrowError(GAME_FULL_MESSAGE);
+    });
+  });
+
+  describe('_leave', () => {
+    it('throws an error if the player is not in the game', () => {
+      game.join(black);
+      expect(() => game.leave(white)).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('frees the seat if the game has not started', () => {
+      game.join(black);
+      game.leave(black);
+      game.join(white);
+      expect(game.state.black).toEqual(white.id);
+    });
+    it('ends the game with the other player as the winner if the game is in progress', () => {
+      startGame();
+      game.leave(black);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(white.id);
+    });
+    it('ends the game with the other player as the winner during the scoring phase', () => {
+      startGame();
+      pass(black);
+      pass(white);
+      game.leave(white);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(black.id);
+      expect(game.state.score).toBeUndefined();
+    });
+  });
+
+  describe('applyMove', () => {
+    it('throws an error if the game has not started', () => {
+      game.join(black);
+      expect(() => place(black, 4, 4)).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    describe('when the game is in progress', () => {
+      beforeEach(startGame);
+      it('places the stone and passes the turn', () => {
+        place(black, 4, 4);
+        expect(game.state.moves).toEqual([{ gamePiece: 'Black', row: 4, col: 4 }]);
+        expect(game.state.stones).toEqual([{ row: 4, col: 4, color: 'Black' }]);
+        expect(game.state.turn).toEqual('White');
+      });
+      it('throws an error if it is not the player’s turn', () => {
+        expect(() => place(white, 4, 4)).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+        place(black, 4, 4);
+        expect(() => place(black, 3, 3)).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+        expect(() => pass(black)).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      });
+      it('throws an error if the player is not in the game', () => {
+        expect(() => place(createPlayerForTesting(), 4, 4)).toThrowError(
+          PLAYER_NOT_IN_GAME_MESSAGE,
+        );
+      });
+      it('throws an error if the point is not on the board or already has a stone on it', () => {
+        expect(() => place(black, 9, 0)).toThrowError(POINT_OFF_BOARD_MESSAGE);
+        place(black, 4, 4);
+        expect(() => place(white, 4, 4)).toThrowError(BOARD_POSITION_NOT_EMPTY_MESSAGE);
+      });
+      it('captures a group of the opponent’s stones that it leaves without liberties', () => {
+        playAll([
+          [0, 1],
+          [0, 0],
+          [1, 1],
+          [1, 0],
+          [2, 0],
+        ]);
+        expect(game.state.stones).toEqual([
+          { row: 0, col: 1, color: 'Black' },
+          { row: 1, col: 1, color: 'Black' },
+          { row: 2, col: 0, color: 'Black' },
+        ]);
+        expect(game.state.captures).toEqual({ black: 2, white: 0 });
+        expect(game.state.ko).toBeUndefined();
+      });
+      it('throws an error if the stone would have no liberties', () => {
+        playAll([
+          [4, 4],
+          [0, 1],
+          [5, 5],
+          [1, 0],
+        ]);
+        expect(() => place(black, 0, 0)).toThrowError(SUICIDE_MESSAGE);
+        expect(game.state.stones).toHaveLength(4);
+        expect(game.state.turn).toEqual('Black');
+      });
+      it('allows a stone without liberties of its own if it captures the stones around it', () => {
+        playAll([
+          [0, 2],
+          [0, 1],
+          [1, 1],
+          [1, 0],
+          [2, 0],
+          [8, 8],
+        ]);
+        place(black, 0, 0);
+        expect(game.state.captures).toEqual({ black: 2, white: 0 });
+        expect(game.state.stones).toContainEqual({ row: 0, col: 0, color: 'Black' });
+        expect(game.state.stones).not.toContainEqual({ row: 0, col: 1, color: 'White' });
+      });
+      it('forbids capturing straight back in a ko, until a move has been made elsewhere', () => {
+        playAll(KO);
+        expect(game.state.captures).toEqual({ black: 1, white: 0 });
+        expect(game.state.ko).toEqual({ row: 1, col: 2 });
+        expect(() => place(white, 1, 2)).toThrowError(KO_MESSAGE);
+        place(white, 8, 0);
+        expect(game.state.ko).toBeUndefined();
+        place(black, 7, 7);
+        place(white, 1, 2);
+        expect(game.state.captures).toEqual({ black: 1, white: 1 });
+        expect(game.state.ko).toEqual({ row: 1, col: 3 });
+      });
+      it('clears the ko when a player passes', () => {
+        playAll(KO);
+        pass(white);
+        pass(black);
+        expect(game.state.phase).toEqual('SCORING');
+        expect(game.state.ko).toBeUndefined();
+      });
+      it('moves on to the scoring phase once both players pass in a row', () => {
+        pass(black);
+        place(white, 4, 4);
+        pass(black);
+        expect(game.state.phase).toEqual('PLAY');
+        pass(white);
+        expect(game.state.phase).toEqual('SCORING');
+        expect(game.state.status).toEqual('IN_PROGRESS');
+        expect(game.state.moves).toHaveLength(4);
+        expect(() => place(black, 3, 3)).toThrowError(SCORING_IN_PROGRESS_MESSAGE);
+        expect(() => pass(black)).toThrowError(SCORING_IN_PROGRESS_MESSAGE);
+      });
+      it('throws an error if dead stones are marked or accepted before the scoring phase', () => {
+        place(black, 4, 4);
+        expect(() => move(white, { dead: { row: 4, col: 4 } })).toThrowError(NOT_SCORING_MESSAGE);
+        expect(() => move(white, { accept: true })).toThrowError(NOT_SCORING_MESSAGE);
+      });
+      it('takes back the last move, including the stones that it captured', () => {
+        playAll(KO);
+        game.undoLastMove();
+        expect(game.state.captures).toEqual({ black: 0, white: 0 });
+        expect(game.state.stones).toContainEqual({ row: 1, col: 2, color: 'White' });
+        expect(game.state.turn).toEqual('Black');
+        pass(black);
+        pass(white);
+        game.undoLastMove();
+        expect(game.state.phase).toEqual('PLAY');
+      });
+    });
+    describe('in the scoring phase', () => {
+      beforeEach(() => {
+        startGame();
+        place(black, 4, 4);
+        place(white, 0, 0);
+        pass(black);
+        pass(white);
+      });
+      it('marks the group on a point as dead, or as alive again, and resets acceptance', () => {
+        move(black, { accept: true });
+        expect(game.state.accepted).toEqual([black.id]);
+        move(white, { dead: { row: 0, col: 0 } });
+        expect(game.state.dead).toEqual([{ row: 0, col: 0 }]);
+        expect(game.state.accepted).toEqual([]);
+        move(black, { dead: { row: 0, col: 0 } });
+        expect(game.state.dead).toEqual([]);
+      });
+      it('throws an error if there is no stone on the marked point', () => {
+        expect(() => move(black, { dead: { row: 1, col: 1 } })).toThrowError(NO_STONE_MESSAGE);
+        expect(() => move(black, { dead: { row: 9, col: 1 } })).toThrowError(NO_STONE_MESSAGE);
+      });
+      it('lets either player mark and accept, in any order', () => {
+        move(white, { accept: true });
+        move(white, { accept: true });
+        expect(game.state.accepted).toEqual([white.id]);
+        expect(game.state.status).toEqual('IN_PROGRESS');
+      });
+      it('scores the game by area once both players accept, with komi for white', () => {
+        move(black, { accept: true });
+        move(white, { accept: true });
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.score).toEqual({ black: 1, white: 8.5 });
+        expect(game.state.winner).toEqual(white.id);
+        expect(() => move(black, { accept: true })).toThrowError(GAME_OVER_MESSAGE);
+      });
+      it('takes the stones marked as dead off the board before scoring', () => {
+        move(black, { dead: { row: 0, col: 0 } });
+        move(black, { accept: true });
+        move(white, { accept: true });
+        expect(game.state.score).toEqual({ black: 81, white: 7.5 });
+        expect(game.state.winner).toEqual(black.id);
+      });
+    });
+    it('counts territory that only one player’s stones border, and draws if the scores are equal', () => {
+      game = new GoGame(9, 0);
+      startGame();
+      playAll(WALLS);
+      pass(black);
+      pass(white);
+      move(black, { accept: true });
+      move(white, { accept: true });
+      expect(game.state.score).toEqual({ black: 36, white: 36 });
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toBeUndefined();
+    });
+  });
+
+  describe('isGoMove', () => {
+    it('accepts stones placed on a point, passes, dead stones and acceptance', () => {
+      expect(isGoMove({ gamePiece: 'Black', row: 0, col: 18 })).toBe(true);
+      expect(isGoMove({ gamePiece: 'White', pass: true })).toBe(true);
+      expect(isGoMove({ dead: { row: 3, col: 4 } })).toBe(true);
+      expect(isGoMove({ accept: true })).toBe(true);
+    });
+    it('rejects anything else', () => {
+      expect(isGoMove({ gamePiece: 'Red', row: 0, col: 0 })).toBe(false);
+      expect(isGoMove({ gamePiece: 'Black', row: 19, col: 0 })).toBe(false);
+      expect(isGoMove({ gamePiece: 'Black', row: 0.5, col: 0 })).toBe(false);
+      expect(isGoMove({ gamePiece: 'Black', pass: false })).toBe(false);
+      expect(isGoMove({ dead: { row: -1, col: 0 } })).toBe(false);
+      expect(isGoMove({ accept: false })).toBe(false);
+      expect(isGoMove(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,468 @@
+import InvalidParametersError, {
+  BOARD_POSITION_NOT_EMPTY_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  KO_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  NOT_SCORING_MESSAGE,
+  NO_STONE_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  POINT_OFF_BOARD_MESSAGE,
+  SCORING_IN_PROGRESS_MESSAGE,
+  SUICIDE_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  GameMove,
+  GoColor,
+  GoGameState,
+  GoMove,
+  GoPoint,
+  GoScore,
+  GoStone,
+  PlayerID,
+} from '../../types/CoveyTownSocket';
+import Game from './Game';
+
+/** The sizes of board that Go can be played on */
+export const GO_BOARD_SIZES = [9, 13, 19];
+
+export const DEFAULT_GO_BOARD_SIZE = 9;
+
+/** The points added to white's score, to make up for black moving first */
+export const DEFAULT_KOMI = 7.5;
+
+type GoBoard = Array<Array<GoColor | undefined>>;
+
+function isGoPoint(point: unknown): point is GoPoint {
+  if (typeof point !== 'object' || point === null) {
+    return false;
+  }
+  const { row, col } = point as Record<string, unknown>;
+  return [row, col].every(
+    position =>
+      typeof position === 'number' &&
+      Number.isInteger(position) &&
+      position >= 0 &&
+      position < Math.max(...GO_BOARD_SIZES),
+  );
+}
+
+/**
+ * Checks that a move received from a client has the shape of a GoMove. Whether a point is on the board
+ * depends on the size of the board, which the game checks.
+ * @param move the move to check
+ * @returns true if the move places a stone of a valid color on a point, passes, marks the stones on a
+ *  point as dead, or accepts the stones marked as dead
+ */
+export function isGoMove(move: unknown): move is GoMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { gamePiece, pass, dead, accept } = move as Record<string, unknown>;
+  if (accept !== undefined) {
+    return accept === true;
+  }
+  if (dead !== undefined) {
+    return isGoPoint(dead);
+  }
+  return (gamePiece === 'Black' || gamePiece === 'White') && (pass === true || isGoPoint(move));
+}
+
+function opponentOf(color: GoColor): GoColor {
+  return color === 'Black' ? 'White' : 'Black';
+}
+
+function emptyBoard(size: number): GoBoard {
+  return Array.from({ length: size }, () => Array(size).fill(undefined));
+}
+
+function pointKey({ row, col }: GoPoint): string {
+  return `${row},${col}`;
+}
+
+/**
+ * @returns the points on the board that are next to the given point, along the lines of the board
+ */
+function neighboursOf(board: GoBoard, { row, col }: GoPoint): GoPoint[] {
+  return [
+    { row: row - 1, col },
+    { row: row + 1, col },
+    { row, col: col - 1 },
+    { row, col: col + 1 },
+  ].filter(
+    point =>
+      point.row >= 0 && point.row < board.length && point.col >= 0 && point.col < board.length,
+  );
+}
+
+/**
+ * @returns the points that are connected to the given point through neighbouring points with the same
+ *  contents: a group of stones of one color, if there is a stone on the point, or a region of empty
+ *  points if there is not
+ */
+function groupAt(board: GoBoard, start: GoPoint): GoPoint[] {
+  const color = board[start.row][start.col];
+  const seen = new Set([pointKey(start)]);
+  const group = [start];
+  for (let i = 0; i < group.length; i++) {
+    neighboursOf(board, group[i]).forEach(point => {
+      if (board[point.row][point.col] === color && !seen.has(pointKey(point))) {
+        seen.add(pointKey(point));
+        group.push(point);
+      }
+    });
+  }
+  return group;
+}
+
+/**
+ * @returns the number of empty points next to a group of stones
+ */
+function libertiesOf(board: GoBoard, group: GoPoint[]): number {
+  const liberties = new Set(
+    group
+      .flatMap(point => neighboursOf(board, point))
+      .filter(point => board[point.row][point.col] === undefined)
+      .map(pointKey),
+  );
+  return liberties.size;
+}
+
+function stonesOn(board: GoBoard): GoStone[] {
+  return board.flatMap((cells, row) =>
+    cells.flatMap((color, col) => (color === undefined ? [] : [{ row, col, color }])),
+  );
+}
+
+/**
+ * Scores a board by area: once the dead stones are taken off, each player scores a point for each of
+ * their stones, and for each empty point in a region that only their stones border. White also scores
+ * the komi.
+ */
+function areaScore(board: GoBoard, dead: ReadonlyArray<GoPoint>, komi: number): GoScore {
+  const scored = board.map(cells => [...cells]);
+  dead.forEach(({ row, col }) => {
+    scored[row][col] = undefined;
+  });
+  const score = { black: 0, white: komi };
+  const counted = new Set<string>();
+  scored.forEach((cells, row) =>
+    cells.forEach((color, col) => {
+      if (color === 'Black') {
+        score.black += 1;
+      } else if (color === 'White') {
+        score.white += 1;
+      } else if (!counted.has(pointKey({ row, col }))) {
+        const region = groupAt(scored, { row, col });
+        region.forEach(point => counted.add(pointKey(point)));
+        const borders = new Set(
+          region
+            .flatMap(point => neighboursOf(scored, point))
+            .map(point => scored[point.row][point.col])
+            .filter(border => border !== undefined),
+        );
+        if (borders.size === 1 && borders.has('Black')) {
+          score.black += region.length;
+        } else if (borders.size === 1) {
+          score.white += region.length;
+        }
+      }
+    }),
+  );
+  return score;
+}
+
+/**
+ * A GoGame is a Game that implements the rules of Go, scored by area, on a square board of one of the
+ * GO_BOARD_SIZES.
+ * @see https://en.wikipedia.org/wiki/Rules_of_Go
+ */
+export default class GoGame extends Game<GoGameState, GoMove> {
+  /* The board, indexed by [row][col] */
+  private _board: GoBoard;
+
+  /**
+   * Creates a new GoGame
+   * @param size the number of lines across (and down) the board, one of GO_BOARD_SIZES
+   * @param komi the points added to white's score
+   */
+  public constructor(size = DEFAULT_GO_BOARD_SIZE, komi = DEFAULT_KOMI) {
+    super({
+      size,
+      komi,
+      phase: 'PLAY',
+      moves: [],
+      turn: 'Black',
+      stones: [],
+      captures: { black: 0, white: 0 },
+      dead: [],
+      accepted: [],
+      status: 'WAITING_TO_START',
+    });
+    this._board = emptyBoard(size);
+  }
+
+  /*
+   * Applies a player's move to the game.
+   * Uses the player's ID to determine which color they are playing (ignores move.gamePiece)
+   * Validates the move before applying it. If the move is invalid, throws an InvalidParametersError with
+   * the error message specified below.
+   * A move is invalid if:
+   *    - The game is over (GAME_OVER_MESSAGE) or not yet in progress (GAME_NOT_IN_PROGRESS_MESSAGE)
+   *    - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *    - It places a stone or passes:
+   *      - In the SCORING phase (SCORING_IN_PROGRESS_MESSAGE)
+   *      - When it is not the player's turn (MOVE_NOT_YOUR_TURN_MESSAGE). Black moves first.
+   *    - It places a stone:
+   *      - On a point that is not on the board (POINT_OFF_BOARD_MESSAGE)
+   *      - On a point that already has a stone on it (BOARD_POSITION_NOT_EMPTY_MESSAGE)
+   *      - On the point of a stone that was captured by the last move, by a single stone that could be
+   *        captured straight back (KO_MESSAGE)
+   *      - Where, once the opponent's stones that it captures are taken off the board, its own group of
+   *        stones would have no liberties (SUICIDE_MESSAGE)
+   *    - It marks dead stones or accepts them:
+   *      - In the PLAY phase (NOT_SCORING_MESSAGE)
+   *      - It marks a point that has no stone on it, or is not on the board (NO_STONE_MESSAGE)
+   *
+   * Placing a stone captures each group of the opponent's stones that it leaves without liberties.
+   * Once both players pass in a row, the game moves on to its SCORING phase (@see _applyScoringMove).
+   *
+   * @param move The move to apply to the game
+   * @throws InvalidParametersError if the move is invalid (with specific message noted above)
+   */
+  protected _applyMove(move: GameMove<GoMove>): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.status !== 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    const color = this._colorFor(move.playerID);
+    if (!color) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    const goMove = move.move;
+    if ('accept' in goMove || 'dead' in goMove) {
+      this._applyScoringMove(move.playerID, goMove);
+      return;
+    }
+    if (this.state.phase === 'SCORING') {
+      throw new InvalidParametersError(SCORING_IN_PROGRESS_MESSAGE);
+    }
+    if (move.playerID !== this._playerToMove()) {
+      throw new InvalidParametersError(MOVE_NOT_YOUR_TURN_MESSAGE);
+    }
+    if ('pass' in goMove) {
+      const moves = [...this.state.moves, { gamePiece: color, pass: true as const }];
+      const bothPassed = moves.length >= 2 && moves.slice(-2).every(eachMove => 'pass' in eachMove);
+      this._nextTurn();
+      this.state = {
+        ...this.state,
+        moves,
+        turn: opponentOf(color),
+        ko: undefined,
+        phase: bothPassed ? 'SCORING' : 'PLAY',
+      };
+      return;
+    }
+    this._placeStone(color, goMove);
+  }
+
+  private _placeStone(color: GoColor, point: GoPoint): void {
+    const { row, col } = point;
+    const { size, ko } = this.state;
+    if (row >= size || col >= size) {
+      throw new InvalidParametersError(POINT_OFF_BOARD_MESSAGE);
+    }
+    if (this._board[row][col] !== undefined) {
+      throw new InvalidParametersError(BOARD_POSITION_NOT_EMPTY_MESSAGE);
+    }
+    if (ko && ko.row === row && ko.col === col) {
+      throw new InvalidParametersError(KO_MESSAGE);
+    }
+    const board = this._board.map(cells => [...cells]);
+    board[row][col] = color;
+    const captured: GoPoint[] = [];
+    neighboursOf(board, point)
+      .filter(neighbour => board[neighbour.row][neighbour.col] === opponentOf(color))
+      .map(neighbour => groupAt(board, neighbour))
+      .filter(group => libertiesOf(board, group) === 0)
+      .forEach(group =>
+        group.forEach(stone => {
+          // two neighbours may be in the same group, which is only captured once
+          if (board[stone.row][stone.col] !== undefined) {
+            board[stone.row][stone.col] = undefined;
+            captured.push(stone);
+          }
+        }),
+      );
+    const group = groupAt(board, point);
+    if (libertiesOf(board, group) === 0) {
+      throw new InvalidParametersError(SUICIDE_MESSAGE);
+    }
+    // a single stone that captured a single stone, and has that point as its only liberty, could be
+    // captured straight back, repeating the position
+    const isKo = captured.length === 1 && group.length === 1 && libertiesOf(board, group) === 1;
+    this._board = board;
+    const { captures } = this.state;
+    this._nextTurn();
+    this.state = {
+      ...this.state,
+      moves: [...this.state.moves, { gamePiece: color, row, col }],
+      turn: opponentOf(color),
+      stones: stonesOn(board),
+      captures:
+        color === 'Black'
+          ? { ...captures, black: captures.black + captured.length }
+          : { ...captures, white: captures.white + captured.length },
+      ko: isKo ? captured[0] : undefined,
+    };
+  }
+
+  /**
+   * Applies a move of the SCORING phase, which either player can make at any time.
+   * Marking a stone as dead marks its whole group as dead, or marks the group as alive again if it is
+   * already marked as dead; either way, any player who had accepted the stones marked as dead before
+   * must accept them again. Once both players accept the same stones as dead, the game is scored
+   * (@see areaScore) and updates the game's state to set the status to OVER: the player with the higher
+   * score wins, and if both have the same score, winner is undefined.
+   */
+  private _applyScoringMove(playerID: PlayerID, move: GoMove): void {
+    if (this.state.phase !== 'SCORING') {
+      throw new InvalidParametersError(NOT_SCORING_MESSAGE);
+    }
+    if ('dead' in move) {
+      const { row, col } = move.dead;
+      if (this._board[row]?.[col] === undefined) {
+        throw new InvalidParametersError(NO_STONE_MESSAGE);
+      }
+      const group = groupAt(this._board, move.dead);
+      const groupKeys = new Set(group.map(pointKey));
+      const { dead } = this.state;
+      const isDead = dead.some(point => groupKeys.has(pointKey(point)));
+      this.state = {
+        ...this.state,
+        dead: isDead ? dead.filter(point => !groupKeys.has(pointKey(point))) : [...dead, ...group],
+        accepted: [],
+      };
+      return;
+    }
+    const accepted = this.state.accepted.includes(playerID)
+      ? this.state.accepted
+      : [...this.state.accepted, playerID];
+    this.state = { ...this.state, accepted };
+    if (accepted.length < 2) {
+      return;
+    }
+    const score = areaScore(this._board, this.state.dead, this.state.komi);
+    let winner: PlayerID | undefined;
+    if (score.black !== score.white) {
+      winner = score.black > score.white ? this.state.black : this.state.white;
+    }
+    this.state = { ...this.state, status: 'OVER', score, winner };
+  }
+
+  /**
+   * Clears the board, so that moves can be taken back (@see Game.undoLastMove)
+   */
+  protected _resetMoves(): void {
+    this._board = emptyBoard(this.state.size);
+    this._firstTurn();
+    this.state = {
+      ...this.state,
+      phase: 'PLAY',
+      moves: [],
+      turn: 'Black',
+      stones: [],
+      captures: { black: 0, white: 0 },
+      ko: undefined,
+      dead: [],
+      accepted: [],
+      score: undefined,
+      status: 'IN_PROGRESS',
+      winner: undefined,
+    };
+  }
+
+  /**
+   * Both players mark dead stones at the same time, so it is nobody's turn in the SCORING phase
+   */
+  protected _playerToMove(): PlayerID | undefined {
+    return this.state.phase === 'PLAY' ? super._playerToMove() : undefined;
+  }
+
+  protected _seatName(playerID: PlayerID): string {
+    return playerID === this.state.black ? 'Black' : 'White';
+  }
+
+  /**
+   * Adds a player to the game.
+   * The first player to join is black, the second is white.
+   * If the game is now full (has two players), updates the game's state to set the status to IN_PROGRESS.
+   *
+   * @param player The player to join the game
+   * @throws InvalidParametersError if the game is over (GAME_OVER_MESSAGE), the player is already
+   *  in the game (PLAYER_ALREADY_IN_GAME_MESSAGE) or the game is full (GAME_FULL_MESSAGE)
+   */
+  protected _join(player: Player): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.black === player.id || this.state.white === player.id) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    // black sits in the first seat, and so moves first
+    if (this._takeSeat(player) === 0) {
+      this.state = { ...this.state, black: player.id };
+    } else {
+      this.state = { ...this.state, white: player.id };
+    }
+    if (this.state.black && this.state.white) {
+      this.state = { ...this.state, status: 'IN_PROGRESS' };
+      this._firstTurn();
+    }
+  }
+
+  /**
+   * Removes a player from the game.
+   * If the game is in progress, in either phase, the player forfeits: updates the game's status to OVER
+   *   and sets the winner to the other player.
+   * If the game has not yet started, frees the player's seat and leaves the status as WAITING_TO_START.
+   * If the game is already over, the result is left unchanged.
+   *
+   * @param player The player to remove from the game
+   * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  protected _leave(player: Player): void {
+    const { black, white, status } = this.state;
+    if (black !== player.id && white !== player.id) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    this._leaveSeat(player);
+    if (status === 'IN_PROGRESS') {
+      this.state = {
+        ...this.state,
+        status: 'OVER',
+        winner: black === player.id ? white : black,
+      };
+    } else if (status === 'WAITING_TO_START') {
+      this.state = {
+        ...this.state,
+        black: black === player.id ? undefined : black,
+        white: white === player.id ? undefined : white,
+      };
+    }
+  }
+
+  private _colorFor(playerID: PlayerID): GoColor | undefined {
+    if (playerID === this.state.black) {
+      return 'Black';
+    }
+    if (playerID === this.state.white) {
+      return 'White';
+    }
+    return undefined;
+  }
+}
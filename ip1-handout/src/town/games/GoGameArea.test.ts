@@ -0,0 +1,127 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import { createPlayerForTesting } from '../../TestUtils';
+import { INVALID_MOVE_MESSAGE, POINT_OFF_BOARD_MESSAGE } from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { GameInstanceID, GoMove, TownEmitter } from '../../types/CoveyTownSocket';
+import GoGameArea from './GoGameArea';
+
+function createArea(properties: Record<string, unknown>) {
+  return new GoGameArea(nanoid(), { x: 0, y: 0, width: 100, height: 100 }, mock<TownEmitter>(), {
+    id: 1,
+    name: 'Game',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    type: 'GameArea',
+    visible: true,
+    properties: Object.entries(properties).map(([name, value]) => ({
+      name,
+      type: typeof value === 'number' ? 'float' : 'string',
+      value,
+    })),
+  } as ITiledMapObject);
+}
+
+describe('GoGameArea', () => {
+  let gameArea: GoGameArea;
+  let black: Player;
+  let white: Player;
+  let gameID: GameInstanceID;
+  let interactableUpdateSpy: jest.SpyInstance;
+  beforeEach(() => {
+    black = createPlayerForTesting();
+    white = createPlayerForTesting();
+    gameArea = createArea({ boardSize: 13, komi: 6.5 });
+    gameArea.add(black);
+    gameArea.add(white);
+    gameID = gameArea.handleCommand({ type: 'JoinGame' }, black).gameID;
+    gameArea.handleCommand({ type: 'JoinGame' }, white);
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Test requires access to protected method)
+    interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+  });
+
+  function move(player: Player, goMove: GoMove) {
+    gameArea.handleCommand({ type: 'GameMove', gameID, move: goMove }, player);
+  }
+
+  it('reports its type as GoArea', () => {
+    expect(gameArea.toModel().type).toEqual('GoArea');
+  });
+  it('plays on a board of the size given by the map object, with its komi', () => {
+    expect(gameArea.game?.state).toMatchObject({ size: 13, komi: 6.5 });
+    move(black, { gamePiece: 'Black', row: 12, col: 12 });
+    const area = createArea({});
+    area.handleCommand({ type: 'JoinGame' }, black);
+    expect(area.game?.state).toMatchObject({ size: 9, komi: 7.5 });
+  });
+  it('throws an error if boardSize or komi is invalid', () => {
+    expect(() => createArea({ boardSize: 10 })).toThrowError();
+    expect(() => createArea({ boardSize: '9' })).toThrowError();
+    expect(() => createArea({ komi: 'half' })).toThrowError();
+  });
+  it('throws an error when the move is not a GoMove, or not on the board', () => {
+    expect(() =>
+      gameArea.handleCommand({ type: 'GameMove', gameID, move: { pass: true } as never }, black),
+    ).toThrowError(INVALID_MOVE_MESSAGE);
+    expect(() => move(black, { gamePiece: 'Black', row: 13, col: 0 })).toThrowError(
+      POINT_OFF_BOARD_MESSAGE,
+    );
+    expect(interactableUpdateSpy).not.toHaveBeenCalled();
+  });
+  /**
+   * Plays a stone for each player, then both players pass, so that the game is being scored
+   */
+  function playToScoring() {
+    move(black, { gamePiece: 'Black', row: 6, col: 6 });
+    move(white, { gamePiece: 'White', row: 0, col: 0 });
+    move(black, { gamePiece: 'Black', pass: true });
+    move(white, { gamePiece: 'White', pass: true });
+  }
+
+  it('records the result in the history only once both players agree on the dead stones', () => {
+    playToScoring();
+    expect(gameArea.game?.state.status).toEqual('IN_PROGRESS');
+    move(black, { dead: { row: 0, col: 0 } });
+    move(black, { accept: true });
+    expect(gameArea.history).toEqual([]);
+    move(white, { accept: true });
+    expect(gameArea.game?.state.status).toEqual('OVER');
+    expect(gameArea.history).toEqual([
+      { gameID, scores: { [black.userName]: 1, [white.userName]: 0 } },
+    ]);
+  });
+  it('does not record the result if the dead stones change after one player accepts them', () => {
+    playToScoring();
+    move(black, { dead: { row: 0, col: 0 } });
+    move(black, { accept: true });
+    move(white, { dead: { row: 0, col: 0 } });
+    move(white, { accept: true });
+    expect(gameArea.game?.state.status).toEqual('IN_PROGRESS');
+    expect(gameArea.history).toEqual([]);
+    move(black, { accept: true });
+    expect(gameArea.history).toEqual([
+      { gameID, scores: { [black.userName]: 0, [white.userName]: 1 } },
+    ]);
+  });
+  it('starts a new game, on an empty board of the same size, when a player joins after the game is over', () => {
+    playToScoring();
+    move(black, { accept: true });
+    move(white, { accept: true });
+    const newGameID = gameArea.handleCommand({ type: 'JoinGame' }, white).gameID;
+    expect(newGameID).not.toEqual(gameID);
+    expect(gameArea.game?.state).toMatchObject({
+      status: 'WAITING_TO_START',
+      size: 13,
+      komi: 6.5,
+      moves: [],
+      dead: [],
+      accepted: [],
+    });
+    expect(gameArea.history.map(result => result.gameID)).toEqual([gameID]);
+  });
+});
@@ -0,0 +1,83 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import Clock, { systemClock } from '../../lib/Clock';
+import {
+  BoundingBox,
+  GoMove,
+  InteractableID,
+  InteractableType,
+  TownEmitter,
+} from '../../types/CoveyTownSocket';
+import GameArea from './GameArea';
+import { GameRegistration } from './GameRegistry';
+import GoGame, { DEFAULT_GO_BOARD_SIZE, DEFAULT_KOMI, GO_BOARD_SIZES, isGoMove } from './GoGame';
+
+/**
+ * A GoGameArea is a GameArea that hosts a GoGame, on a board of the size given by its map object.
+ * A game's result is only recorded in the history once both players have agreed on its dead stones.
+ * @see GoGame
+ * @see GameArea
+ */
+export default class GoGameArea extends GameArea<GoGame> {
+  private _boardSize: number;
+
+  private _komi: number;
+
+  /**
+   * Creates a new GoGameArea
+   *
+   * @param id unique ID for this area
+   * @param boundingBox the bounding box that defines this area
+   * @param townEmitter a broadcast emitter that can be used to emit updates to players
+   * @param mapObject the map object that this area was created from. It may have a `boardSize` property,
+   *  one of GO_BOARD_SIZES (by default, DEFAULT_GO_BOARD_SIZE), and a `komi` property (by default,
+   *  DEFAULT_KOMI).
+   * @param clock the clock that time controls are measured with (@see GameArea)
+   * @throws Error if `boardSize` is not one of GO_BOARD_SIZES, or `komi` is not a number
+   */
+  public constructor(
+    id: InteractableID,
+    boundingBox: BoundingBox,
+    townEmitter: TownEmitter,
+    mapObject?: ITiledMapObject,
+    clock: Clock = systemClock,
+  ) {
+    super(id, boundingBox, townEmitter, mapObject, clock);
+    const property = (name: string) =>
+      mapObject?.properties?.find(prop => prop.name === name)?.value;
+    const boardSize = property('boardSize') ?? DEFAULT_GO_BOARD_SIZE;
+    if (typeof boardSize !== 'number' || !GO_BOARD_SIZES.includes(boardSize)) {
+      throw new Error(
+        `Malformed game area ${id}: boardSize must be one of ${GO_BOARD_SIZES.join(', ')}`,
+      );
+    }
+    this._boardSize = boardSize;
+    const komi = property('komi') ?? DEFAULT_KOMI;
+    if (typeof komi !== 'number' || !Number.isFinite(komi)) {
+      throw new Error(`Malformed game area ${id}: komi must be a number`);
+    }
+    this._komi = komi;
+  }
+
+  protected getType(): InteractableType {
+    return 'GoArea';
+  }
+
+  protected _createGame(): GoGame {
+    return new GoGame(this._boardSize, this._komi);
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isGoMove(move);
+  }
+}
+
+/**
+ * Registers Go with the GameRegistry: map objects with `type: Go` host a GoGameArea
+ */
+export const goRegistration: GameRegistration<GoGame, GoMove> = {
+  gameType: 'Go',
+  interactableType: 'GoArea',
+  gameClass: GoGame,
+  areaClass: GoGameArea,
+  isValidMove: isGoMove,
+};
@@ -0,0 +1,174 @@
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  GAME_FULL_MESSAGE,
+  GAME_OVER_MESSAGE,
+  LETTER_ALREADY_GUESSED_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import HangmanGame, { HANGMAN_MAX_PLAYERS, isHangmanMove } from './HangmanGame';
+
+describe('HangmanGame', () => {
+  let game: HangmanGame;
+  let player1: Player;
+  let player2: Player;
+
+  beforeEach(() => {
+    game = new HangmanGame('Covey Town', 3);
+    player1 = createPlayerForTesting();
+    player2 = createPlayerForTesting();
+  });
+
+  function guess(player: Player, letter: string) {
+    game.applyMove({ gameID: game.id, playerID: player.id, move: { letter } });
+  }
+
+  it('masks every letter of the word, but shows its other characters', () => {
+    expect(game.state.masked).toEqual('_____ ____');
+    expect(new HangmanGame('ice-cream').state.masked).toEqual('___-_____');
+    expect(game.state.word).toBeUndefined();
+  });
+  it('allows six wrong guesses unless told otherwise', () => {
+    expect(new HangmanGame('town').state.maxWrongGuesses).toEqual(6);
+    expect(game.state.maxWrongGuesses).toEqual(3);
+  });
+  it('throws an error if the word has no letters or the number of wrong guesses is invalid', () => {
+    expect(() => new HangmanGame(' - ')).toThrowError();
+    expect(() => new HangmanGame('town', 0)).toThrowError();
+    expect(() => new HangmanGame('town', 1.5)).toThrowError();
+  });
+
+  describe('_join', () => {
+    it('starts the game as soon as the first guesser joins', () => {
+      game.join(player1);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      expect(game.toModel().players).toEqual([player1.id]);
+    });
+    it('lets guessers join while the game is in progress', () => {
+      game.join(player1);
+      guess(player1, 'o');
+      game.join(player2);
+      expect(game.toModel().players).toEqual([player1.id, player2.id]);
+    });
+    it('throws an error if the player is already in the game', () => {
+      game.join(player1);
+      expect(() => game.join(player1)).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    });
+    it('throws an error if every seat is taken', () => {
+      for (let i = 0; i < HANGMAN_MAX_PLAYERS; i++) {
+        game.join(createPlayerForTesting());
+      }
+      expect(() => game.join(player1)).toThrowError(GAME_FULL_MESSAGE);
+    });
+    it('throws an error if the game is over', () => {
+      game.join(player1);
+      game.leave(player1);
+      expect(() => game.join(player2)).toThrowError(GAME_OVER_MESSAGE);
+    });
+  });
+
+  describe('_leave', () => {
+    beforeEach(() => {
+      game.join(player1);
+      game.join(player2);
+    });
+    it('throws an error if the player is not in the game', () => {
+      expect(() => game.leave(createPlayerForTesting())).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('passes the turn on if it was the leaving guesser’s turn', () => {
+      game.leave(player1);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      guess(player2, 'c');
+      expect(game.state.masked).toEqual('c____ ____');
+    });
+    it('ends the game without a winner, revealing the word, once every guesser has left', () => {
+      game.leave(player1);
+      game.leave(player2);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toBeUndefined();
+      expect(game.state.word).toEqual('covey town');
+    });
+  });
+
+  describe('applyMove', () => {
+    beforeEach(() => {
+      game.join(player1);
+      game.join(player2);
+    });
+    it('reveals every place that a correct letter appears in the word, in either case', () => {
+      guess(player1, 'O');
+      expect(game.state.masked).toEqual('_o___ _o__');
+      expect(game.state.guesses).toEqual([{ player: player1.id, letter: 'o', correct: true }]);
+      expect(game.state.wrongGuesses).toEqual(0);
+    });
+    it('counts wrong guesses', () => {
+      guess(player1, 'z');
+      expect(game.state.guesses).toEqual([{ player: player1.id, letter: 'z', correct: false }]);
+      expect(game.state.wrongGuesses).toEqual(1);
+      expect(game.state.masked).toEqual('_____ ____');
+    });
+    it('makes the guessers take turns in the order they joined', () => {
+      expect(() => guess(player2, 'o')).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      guess(player1, 'o');
+      expect(() => guess(player1, 'c')).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      guess(player2, 'c');
+      guess(player1, 't');
+    });
+    it('throws an error if the player is not in the game', () => {
+      expect(() => guess(createPlayerForTesting(), 'o')).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the letter has already been guessed, by any guesser', () => {
+      guess(player1, 'o');
+      expect(() => guess(player2, 'O')).toThrowError(LETTER_ALREADY_GUESSED_MESSAGE);
+      guess(player2, 'z');
+      expect(() => guess(player1, 'z')).toThrowError(LETTER_ALREADY_GUESSED_MESSAGE);
+    });
+    it('ends the game with the guesser who completes the word as the winner', () => {
+      ['c', 'o', 'v', 'e', 'y', 't', 'w'].forEach((letter, index) =>
+        guess(index % 2 === 0 ? player1 : player2, letter),
+      );
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      guess(player2, 'n');
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(player2.id);
+      expect(game.state.masked).toEqual('covey town');
+      expect(game.state.word).toEqual('covey town');
+    });
+    it('ends the game without a winner once the wrong guesses run out', () => {
+      guess(player1, 'a');
+      guess(player2, 'b');
+      guess(player1, 'o');
+      guess(player2, 'd');
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toBeUndefined();
+      expect(game.state.word).toEqual('covey town');
+      expect(() => guess(player1, 'c')).toThrowError(GAME_OVER_MESSAGE);
+    });
+  });
+
+  describe('toModel', () => {
+    it('never includes the word while the game is in progress', () => {
+      game.join(player1);
+      guess(player1, 'o');
+      expect(JSON.stringify(game.toModel(player1.id))).not.toContain('covey');
+      expect(JSON.stringify(game.toModel())).not.toContain('town');
+    });
+  });
+
+  describe('isHangmanMove', () => {
+    it('accepts guesses of a single letter, in either case', () => {
+      expect(isHangmanMove({ letter: 'a' })).toBe(true);
+      expect(isHangmanMove({ letter: 'Z' })).toBe(true);
+    });
+    it('rejects anything else', () => {
+      expect(isHangmanMove({ letter: 'ab' })).toBe(false);
+      expect(isHangmanMove({ letter: '1' })).toBe(false);
+      expect(isHangmanMove({ letter: '' })).toBe(false);
+      expect(isHangmanMove({})).toBe(false);
+      expect(isHangmanMove('a')).toBe(false);
+      expect(isHangmanMove(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import InvalidParametersError, {
+  GAME_OVER_MESSAGE,
+  LETTER_ALREADY_GUESSED_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { GameMove, HangmanGameState, HangmanMove } from '../../types/CoveyTownSocket';
+import Game from './Game';
+
+/** The number of guessers needed to play a game of Hangman: one can play alone */
+export const HANGMAN_MIN_PLAYERS = 1;
+
+/** The number of guessers who can play a game of Hangman together */
+export const HANGMAN_MAX_PLAYERS = 8;
+
+/** The number of wrong guesses that end a game, unless the game says otherwise */
+export const DEFAULT_MAX_WRONG_GUESSES = 6;
+
+/**
+ * Checks that a move received from a client has the shape of a HangmanMove
+ * @param move the move to check
+ * @returns true if the move is a guess of a single letter from a to z (in either case)
+ */
+export function isHangmanMove(move: unknown): move is HangmanMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { letter } = move as Record<string, unknown>;
+  return typeof letter === 'string' && /^[a-z]$/i.test(letter);
+}
+
+/**
+ * @returns the word with every letter that is not one of the guessed letters replaced by an underscore
+ */
+function mask(word: string, guessed: string[]): string {
+  return word.replace(/[a-z]/g, letter => (guessed.includes(letter) ? letter : '_'));
+}
+
+/**
+ * A HangmanGame is a Game in which any number of guessers take turns to guess the letters of a word.
+ * Guessers can join while the game is in progress, taking the next turn after the last guesser.
+ * @see https://en.wikipedia.org/wiki/Hangman_(game)
+ */
+export default class HangmanGame extends Game<HangmanGameState, HangmanMove> {
+  /* The word to guess, in lower case. It is kept out of the state until the game is over. */
+  private readonly _word: string;
+
+  /**
+   * Creates a new HangmanGame
+   *
+   * @param word the word to guess. Letters are guessed without regard to case; any other characters
+   *  (such as spaces or hyphens) are shown from the start.
+   * @param maxWrongGuesses the number of wrong guesses that end the game
+   * @throws Error if the word has no letters, or maxWrongGuesses is not a positive integer
+   */
+  public constructor(word: string, maxWrongGuesses = DEFAULT_MAX_WRONG_GUESSES) {
+    const lowerCaseWord = word.toLowerCase();
+    if (!/[a-z]/.test(lowerCaseWord)) {
+      throw new Error('A word to guess must have at least one letter');
+    }
+    if (!Number.isInteger(maxWrongGuesses) || maxWrongGuesses < 1) {
+      throw new Error(`Invalid number of wrong guesses: ${maxWrongGuesses}`);
+    }
+    super(
+      {
+        masked: mask(lowerCaseWord, []),
+        guesses: [],
+        wrongGuesses: 0,
+        maxWrongGuesses,
+        status: 'WAITING_TO_START',
+      },
+      HANGMAN_MIN_PLAYERS,
+      HANGMAN_MAX_PLAYERS,
+    );
+    this._word = lowerCaseWord;
+  }
+
+  /*
+   * Applies a player's guess to the game.
+   * Validates the move before applying it. If the move is invalid, throws an InvalidParametersError with
+   * the error message specified below.
+   * A move is invalid if:
+   *    - The game is over (GAME_OVER_MESSAGE)
+   *    - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *    - It is not the player's turn (MOVE_NOT_YOUR_TURN_MESSAGE)
+   *    - The letter has already been guessed, by any player (LETTER_ALREADY_GUESSED_MESSAGE)
+   *
+   * If the guess reveals the last letter of the word, updates the game's state to set the status to OVER
+   * and sets the winner to the player who guessed it. If the guess is wrong and there have now been
+   * maxWrongGuesses wrong guesses, updates the game's state to set the status to OVER without a winner.
+   * Either way, the word is added to the state once the game is over. Otherwise, the turn passes to the
+   * next guesser.
+   *
+   * @param move The move to apply to the game
+   * @throws InvalidParametersError if the move is invalid (with specific message noted above)
+   */
+  protected _applyMove(move: GameMove<HangmanMove>): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (!this.seats.includes(move.playerID)) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (move.playerID !== this._playerToMove()) {
+      throw new InvalidParametersError(MOVE_NOT_YOUR_TURN_MESSAGE);
+    }
+    const letter = move.move.letter.toLowerCase();
+    if (this.state.guesses.some(guess => guess.letter === letter)) {
+      throw new InvalidParametersError(LETTER_ALREADY_GUESSED_MESSAGE);
+    }
+    const correct = this._word.includes(letter);
+    const guesses = [...this.state.guesses, { player: move.playerID, letter, correct }];
+    const masked = mask(
+      this._word,
+      guesses.map(guess => guess.letter),
+    );
+    const wrongGuesses = this.state.wrongGuesses + (correct ? 0 : 1);
+    this.state = { ...this.state, guesses, masked, wrongGuesses };
+    if (masked === this._word) {
+      this.state = { ...this.state, status: 'OVER', winner: move.playerID, word: this._word };
+    } else if (wrongGuesses >= this.state.maxWrongGuesses) {
+      this.state = { ...this.state, status: 'OVER', winner: undefined, word: this._word };
+    } else {
+      this._nextTurn();
+    }
+  }
+
+  /**
+   * Adds a guesser to the game, in the next seat.
+   * The game starts as soon as its first guesser joins, and guessers can join it while it is in progress.
+   *
+   * @param player The player to join the game
+   * @throws InvalidParametersError if the game is over (GAME_OVER_MESSAGE), the player is already
+   *  in the game (PLAYER_ALREADY_IN_GAME_MESSAGE) or every seat is taken (GAME_FULL_MESSAGE)
+   */
+  protected _join(player: Player): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.seats.includes(player.id)) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    this._takeSeat(player);
+    if (this.state.status === 'WAITING_TO_START') {
+      this.state = { ...this.state, status: 'IN_PROGRESS' };
+      this._firstTurn();
+    }
+  }
+
+  /**
+   * Removes a guesser from the game. If it was their turn, the turn passes to the next guesser.
+   * If the game is in progress and no guessers are left, updates the game's state to set the status
+   * to OVER without a winner, adding the word to the state.
+   *
+   * @param player The player to remove from the game
+   * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  protected _leave(player: Player): void {
+    if (!this.seats.includes(player.id)) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    this._leaveSeat(player);
+    if (this.state.status === 'IN_PROGRESS' && this._seatedCount === 0) {
+      this.state = { ...this.state, status: 'OVER', winner: undefined, word: this._word };
+    }
+  }
+}
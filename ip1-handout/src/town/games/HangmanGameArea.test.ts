@@ -0,0 +1,148 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import { createPlayerForTesting } from '../../TestUtils';
+import { INVALID_MOVE_MESSAGE } from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { TownEmitter } from '../../types/CoveyTownSocket';
+import HangmanGameArea from './HangmanGameArea';
+
+const TEXT_WORD_LIST = 'testData/hangmanWords.txt';
+const JSON_WORD_LIST = 'testData/hangmanWords.json';
+
+function createArea(properties: Record<string, unknown>) {
+  return new HangmanGameArea(
+    nanoid(),
+    { x: 0, y: 0, width: 100, height: 100 },
+    mock<TownEmitter>(),
+    {
+      id: 1,
+      name: 'Game',
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      rotation: 0,
+      type: 'GameArea',
+      visible: true,
+      properties: Object.entries(properties).map(([name, value]) => ({
+        name,
+        type: typeof value === 'number' ? 'int' : 'string',
+        value,
+      })),
+    } as ITiledMapObject,
+  );
+}
+
+/**
+ * @returns the words guessed in the next `count` games played in the area, as revealed when each game ends
+ */
+function playGames(area: HangmanGameArea, count: number): string[] {
+  const player = createPlayerForTesting();
+  area.add(player);
+  return Array.from({ length: count }, () => {
+    const gameID = area.startGame([player]);
+    area.handleCommand({ type: 'LeaveGame', gameID }, player);
+    return area.game?.state.word as string;
+  });
+}
+
+describe('HangmanGameArea', () => {
+  let gameArea: HangmanGameArea;
+  let player: Player;
+  beforeEach(() => {
+    gameArea = createArea({ wordList: TEXT_WORD_LIST, seed: 42 });
+    player = createPlayerForTesting();
+    gameArea.add(player);
+  });
+
+  it('reports its type as HangmanArea', () => {
+    expect(gameArea.toModel().type).toEqual('HangmanArea');
+  });
+  it('picks each word from the lines of a text word list', () => {
+    expect(['covey', 'town', 'ice cream']).toEqual(expect.arrayContaining(playGames(gameArea, 10)));
+  });
+  it('picks each word from a JSON word list', () => {
+    const area = createArea({ wordList: JSON_WORD_LIST });
+    expect(['tic-tac-toe', 'battleship', 'chess']).toEqual(
+      expect.arrayContaining(playGames(area, 10)),
+    );
+  });
+  it('picks the same words for the same seed', () => {
+    const words = playGames(gameArea, 10);
+    expect(playGames(createArea({ wordList: TEXT_WORD_LIST, seed: 42 }), 10)).toEqual(words);
+    expect(new Set(words).size).toBeGreaterThan(1);
+  });
+  it('can be matched with a single player without picking a word', () => {
+    const words = playGames(gameArea, 10);
+    const area = createArea({ wordList: TEXT_WORD_LIST, seed: 42 });
+    expect(area.minPlayers).toEqual(1);
+    expect(area.game).toBeUndefined();
+    expect(playGames(area, 10)).toEqual(words);
+  });
+  it('sets the number of wrong guesses from the map object', () => {
+    const area = createArea({ wordList: TEXT_WORD_LIST, maxWrongGuesses: 10 });
+    area.handleCommand({ type: 'JoinGame' }, player);
+    expect(area.game?.state.maxWrongGuesses).toEqual(10);
+  });
+  it('throws an error if the map object does not describe a word list', () => {
+    expect(() => createArea({})).toThrowError();
+    expect(() => createArea({ wordList: 'testData/noSuchFile.txt' })).toThrowError();
+    expect(() => createArea({ wordList: 'testData/indoors.json' })).toThrowError();
+  });
+  it('throws an error if maxWrongGuesses or seed is invalid', () => {
+    expect(() => createArea({ wordList: TEXT_WORD_LIST, maxWrongGuesses: 0 })).toThrowError();
+    expect(() => createArea({ wordList: TEXT_WORD_LIST, seed: 'random' })).toThrowError();
+  });
+  it('throws an error when the move is not a HangmanMove', () => {
+    const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, player);
+    expect(() =>
+      gameArea.handleCommand({ type: 'GameMove', gameID, move: { letter: 'ab' } }, player),
+    ).toThrowError(INVALID_MOVE_MESSAGE);
+  });
+  it('keeps the word out of its model until the game is over', () => {
+    const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, player);
+    gameArea.handleCommand({ type: 'GameMove', gameID, move: { letter: 'o' } }, player);
+    expect(gameArea.toModel(player.id).game?.state.word).toBeUndefined();
+    gameArea.handleCommand({ type: 'LeaveGame', gameID }, player);
+    expect(gameArea.toModel(player.id).game?.state.word).toEqual(expect.any(String));
+  });
+  describe('when a game ends', () => {
+    /**
+     * Guesses every letter in turn, each by the next of the players, until the game is over
+     */
+    function guessUntilOver(area: HangmanGameArea, gameID: string, players: Player[]) {
+      'abcdefghijklmnopqrstuvwxyz'.split('').forEach((letter, index) => {
+        if (area.game?.state.status === 'IN_PROGRESS') {
+          area.handleCommand(
+            { type: 'GameMove', gameID, move: { letter } },
+            players[index % players.length],
+          );
+        }
+      });
+    }
+    it('records a game that only one player guessed in, along with its replay', () => {
+      const area = createArea({ wordList: TEXT_WORD_LIST, maxWrongGuesses: 26 });
+      area.add(player);
+      const { gameID } = area.handleCommand({ type: 'JoinGame' }, player);
+      guessUntilOver(area, gameID, [player]);
+      expect(area.game?.state.winner).toEqual(player.id);
+      expect(area.history).toEqual([{ gameID, scores: { [player.userName]: 1 } }]);
+      expect(area.getReplay(gameID)).toBeDefined();
+    });
+    it('scores 1 for the guesser who completes the word, and 0 for the others', () => {
+      const area = createArea({ wordList: TEXT_WORD_LIST, maxWrongGuesses: 26 });
+      const other = createPlayerForTesting();
+      area.add(player);
+      area.add(other);
+      const { gameID } = area.handleCommand({ type: 'JoinGame' }, player);
+      area.handleCommand({ type: 'JoinGame' }, other);
+      guessUntilOver(area, gameID, [player, other]);
+      const winner = area.game?.state.winner === player.id ? player : other;
+      const loser = winner === player ? other : player;
+      expect(area.history).toEqual([
+        { gameID, scores: { [winner.userName]: 1, [loser.userName]: 0 } },
+      ]);
+    });
+  });
+});
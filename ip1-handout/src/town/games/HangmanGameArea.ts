@@ -0,0 +1,148 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import * as fs from 'fs';
+import Clock, { systemClock } from '../../lib/Clock';
+import Player from '../../lib/Player';
+import Random, { seededRandom } from '../../lib/Random';
+import {
+  BoundingBox,
+  GameResult,
+  HangmanMove,
+  InteractableID,
+  InteractableType,
+  TownEmitter,
+} from '../../types/CoveyTownSocket';
+import GameArea from './GameArea';
+import { GameRegistration } from './GameRegistry';
+import HangmanGame, {
+  DEFAULT_MAX_WRONG_GUESSES,
+  HANGMAN_MIN_PLAYERS,
+  isHangmanMove,
+} from './HangmanGame';
+
+/**
+ * Reads a list of words to guess from a file: a JSON array of strings if the file name ends in
+ * `.json`, otherwise plain text with one word (or phrase) per line. Blank lines are skipped.
+ *
+ * @throws Error if the file can not be read, or does not contain a list of words that each have a letter
+ */
+function readWordList(fileName: string): string[] {
+  const contents = fs.readFileSync(fileName, 'utf-8');
+  const words: unknown = fileName.toLowerCase().endsWith('.json')
+    ? JSON.parse(contents)
+    : contents.split(/\r?\n/);
+  if (!Array.isArray(words) || !words.every(word => typeof word === 'string')) {
+    throw new Error(`${fileName} is not a list of words`);
+  }
+  const trimmed = words.map(word => word.trim()).filter(word => word.length > 0);
+  if (trimmed.length === 0 || !trimmed.every(word => /[a-z]/i.test(word))) {
+    throw new Error(`${fileName} must list at least one word, and every word must have a letter`);
+  }
+  return trimmed;
+}
+
+/**
+ * A HangmanGameArea is a GameArea that hosts a HangmanGame, with a word picked at random from a word list
+ * for each game.
+ * @see HangmanGame
+ * @see GameArea
+ */
+export default class HangmanGameArea extends GameArea<HangmanGame> {
+  private _words: string[];
+
+  private _maxWrongGuesses: number;
+
+  private _random: Random;
+
+  /**
+   * Creates a new HangmanGameArea
+   *
+   * @param id unique ID for this area
+   * @param boundingBox the bounding box that defines this area
+   * @param townEmitter a broadcast emitter that can be used to emit updates to players
+   * @param mapObject the map object that this area was created from. It must have a `wordList` property
+   *  naming the file to read the words from (@see readWordList), relative to the directory the service
+   *  runs in, as the map file is. It may also have a `maxWrongGuesses` property (by default,
+   *  DEFAULT_MAX_WRONG_GUESSES) and a numeric `seed` property, which makes the words picked repeatable.
+   * @param clock the clock that time controls are measured with (@see GameArea)
+   * @throws Error if the `wordList` property is missing or its file can not be read, if `maxWrongGuesses`
+   *  is not a positive integer, or if `seed` is not a number
+   */
+  public constructor(
+    id: InteractableID,
+    boundingBox: BoundingBox,
+    townEmitter: TownEmitter,
+    mapObject?: ITiledMapObject,
+    clock: Clock = systemClock,
+  ) {
+    super(id, boundingBox, townEmitter, mapObject, clock);
+    const property = (name: string) =>
+      mapObject?.properties?.find(prop => prop.name === name)?.value;
+    const wordList = property('wordList');
+    if (typeof wordList !== 'string') {
+      throw new Error(`Malformed game area ${id}: wordList must name a file of words`);
+    }
+    try {
+      this._words = readWordList(wordList);
+    } catch (e) {
+      throw new Error(`Malformed game area ${id}: ${(e as Error).message}`);
+    }
+    const maxWrongGuesses = property('maxWrongGuesses') ?? DEFAULT_MAX_WRONG_GUESSES;
+    if (
+      typeof maxWrongGuesses !== 'number' ||
+      !Number.isInteger(maxWrongGuesses) ||
+      maxWrongGuesses < 1
+    ) {
+      throw new Error(`Malformed game area ${id}: maxWrongGuesses must be a positive integer`);
+    }
+    this._maxWrongGuesses = maxWrongGuesses;
+    const seed = property('seed');
+    if (seed !== undefined && typeof seed !== 'number') {
+      throw new Error(`Malformed game area ${id}: seed must be a number`);
+    }
+    this._random = seed === undefined ? Math.random : seededRandom(seed);
+  }
+
+  public get minPlayers(): number {
+    return HANGMAN_MIN_PLAYERS;
+  }
+
+  protected getType(): InteractableType {
+    return 'HangmanArea';
+  }
+
+  protected _createGame(): HangmanGame {
+    const word = this._words[Math.floor(this._random() * this._words.length)];
+    return new HangmanGame(word, this._maxWrongGuesses);
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isHangmanMove(move);
+  }
+
+  /**
+   * The guesser who completes the word scores 1, and every other guesser scores 0. Games are recorded
+   * even if only one player guessed.
+   */
+  protected _gameResult(game: HangmanGame, participants: Player[]): GameResult {
+    const { winner } = game.state;
+    return {
+      gameID: game.id,
+      scores: Object.fromEntries(
+        participants.map(eachPlayer => [eachPlayer.userName, eachPlayer.id === winner ? 1 : 0]),
+      ),
+    };
+  }
+}
+
+/**
+ * Registers Hangman with the GameRegistry: map objects with `type: Hangman` host a HangmanGameArea.
+ * The guessers play together against the word rather than against each other, so games are not rated.
+ */
+export const hangmanRegistration: GameRegistration<HangmanGame, HangmanMove> = {
+  gameType: 'Hangman',
+  interactableType: 'HangmanArea',
+  gameClass: HangmanGame,
+  areaClass: HangmanGameArea,
+  isValidMove: isHangmanMove,
+  rated: false,
+};
@@ -0,0 +1,195 @@
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  NO_SUCH_PIT_MESSAGE,
+  PIT_EMPTY_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import MancalaGame, { isMancalaMove } from './MancalaGame';
+
+/** Pits sown, each by whichever player's turn it is, after which north's last seed captures */
+const NORTH_CAPTURES_LAST = [2, 3, 1, 4, 5, 1, 2, 4, 0, 3, 2, 5, 2, 4];
+
+/** Pits sown after which south's next move (pit 0) captures the seeds in north's pit 4 */
+const SOUTH_CAN_CAPTURE = [0, 2, 3, 1, 1];
+
+/** Pits sown after which south's next move (pit 4) has enough seeds to pass north's store */
+const SOUTH_CAN_GO_ROUND = [2, 1, 3, 0, 0, 5, 0, 3, 4];
+
+/** A game that ends with 24 seeds in each store */
+const DRAWN_GAME = [
+  3, 2, 5, 3, 3, 4, 3, 0, 2, 1, 1, 0, 2, 4, 3, 1, 4, 0, 2, 1, 5, 2, 0, 3, 0, 4, 2, 5, 0, 0,
+];
+
+describe('MancalaGame', () => {
+  let game: MancalaGame;
+  let south: Player;
+  let north: Player;
+
+  beforeEach(() => {
+    game = new MancalaGame();
+    south = createPlayerForTesting();
+    north = createPlayerForTesting();
+  });
+
+  function sow(player: Player, pit: number) {
+    game.applyMove({
+      gameID: game.id,
+      playerID: player.id,
+      move: { gamePiece: player === south ? 'South' : 'North', pit },
+    });
+  }
+
+  /**
+   * Sows each of the pits, each for whichever player's turn it is
+   */
+  function playAll(pits: number[]) {
+    pits.forEach(pit => sow(game.state.turn === 'South' ? south : north, pit));
+  }
+
+  it('starts with four seeds in every pit, empty stores, and south to move', () => {
+    expect(game.state.pits).toEqual({ south: [4, 4, 4, 4, 4, 4], north: [4, 4, 4, 4, 4, 4] });
+    expect(game.state.stores).toEqual({ south: 0, north: 0 });
+    expect(game.state.turn).toEqual('South');
+  });
+
+  describe('_join', () => {
+    it('makes the first player south and the second north, and starts the game', () => {
+      game.join(south);
+      expect(game.state.status).toEqual('WAITING_TO_START');
+      game.join(north);
+      expect(game.state.south).toEqual(south.id);
+      expect(game.state.north).toEqual(north.id);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+    });
+    it('throws an error if the player is already in the game', () => {
+      game.join(south);
+      expect(() => game.join(south)).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the game is full', () => {
+      game.join(south);
+      game.join(north);
+      expect(() => game.join(createPlayerForTesting())).toThrowError(GAME_FULL_MESSAGE);
+    });
+  });
+
+  describe('_leave', () => {
+    it('throws an error if the player is not in the game', () => {
+      game.join(south);
+      expect(() => game.leave(north)).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('frees the seat if the game has not started', () => {
+      game.join(south);
+      game.leave(south);
+      game.join(north);
+      expect(game.state.south).toEqual(north.id);
+    });
+    it('ends the game with the other player as the winner if the game is in progress', () => {
+      game.join(south);
+      game.join(north);
+      game.leave(north);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(south.id);
+    });
+  });
+
+  describe('applyMove', () => {
+    it('throws an error if the game has not started', () => {
+      game.join(south);
+      expect(() => sow(south, 0)).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    describe('when the game is in progress', () => {
+      beforeEach(() => {
+        game.join(south);
+        game.join(north);
+      });
+      it('sows the seeds one at a time into the following pits, and passes the turn', () => {
+        sow(south, 0);
+        expect(game.state.moves).toEqual([{ gamePiece: 'South', pit: 0 }]);
+        expect(game.state.pits.south).toEqual([0, 5, 5, 5, 5, 4]);
+        expect(game.state.turn).toEqual('North');
+      });
+      it('gives a player whose last seed lands in their own store another turn', () => {
+        sow(south, 2);
+        expect(game.state.pits.south).toEqual([4, 4, 0, 5, 5, 5]);
+        expect(game.state.stores.south).toEqual(1);
+        expect(game.state.turn).toEqual('South');
+        sow(south, 0);
+        expect(game.state.turn).toEqual('North');
+      });
+      it('sows into the opponent’s pits, but not their store', () => {
+        playAll(SOUTH_CAN_GO_ROUND);
+        expect(game.state.pits.south[4]).toEqual(9);
+        sow(south, 4);
+        expect(game.state.pits).toEqual({ south: [2, 2, 3, 1, 0, 2], north: [2, 9, 8, 4, 1, 8] });
+        expect(game.state.stores).toEqual({ south: 4, north: 2 });
+      });
+      it('captures the seeds opposite an empty pit of the player’s own that the last seed lands in', () => {
+        playAll(SOUTH_CAN_CAPTURE);
+        expect(game.state.pits.north[4]).toEqual(7);
+        sow(south, 0);
+        expect(game.state.pits).toEqual({ south: [0, 0, 6, 6, 6, 5], north: [5, 0, 1, 1, 0, 7] });
+        expect(game.state.stores).toEqual({ south: 9, north: 2 });
+        expect(game.state.turn).toEqual('North');
+      });
+      it('throws an error if it is not the player’s turn', () => {
+        expect(() => sow(north, 0)).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      });
+      it('throws an error if the player is not in the game', () => {
+        expect(() => sow(createPlayerForTesting(), 0)).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+      });
+      it('throws an error if the player has no such pit', () => {
+        expect(() => sow(south, 6)).toThrowError(NO_SUCH_PIT_MESSAGE);
+        expect(() => sow(south, -1)).toThrowError(NO_SUCH_PIT_MESSAGE);
+      });
+      it('throws an error if the pit is empty', () => {
+        sow(south, 2);
+        expect(() => sow(south, 2)).toThrowError(PIT_EMPTY_MESSAGE);
+        expect(game.state.moves).toHaveLength(1);
+      });
+      it('ends the game once a player’s pits are empty, sweeping the seeds left into their stores', () => {
+        playAll(NORTH_CAPTURES_LAST);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.pits).toEqual({ south: [0, 0, 0, 0, 0, 0], north: [0, 0, 0, 0, 0, 0] });
+        expect(game.state.stores).toEqual({ south: 39, north: 9 });
+        expect(game.state.winner).toEqual(south.id);
+        expect(() => sow(south, 0)).toThrowError(GAME_OVER_MESSAGE);
+      });
+      it('ends the game in a draw if both stores have the same number of seeds', () => {
+        playAll(DRAWN_GAME);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.stores).toEqual({ south: 24, north: 24 });
+        expect(game.state.winner).toBeUndefined();
+      });
+      it('takes back the last move, including any extra turn that it earned', () => {
+        sow(south, 2);
+        game.undoLastMove();
+        expect(game.state.pits.south).toEqual([4, 4, 4, 4, 4, 4]);
+        expect(game.state.stores.south).toEqual(0);
+        expect(game.state.turn).toEqual('South');
+        sow(south, 0);
+        game.undoLastMove();
+        expect(game.state.moves).toEqual([]);
+      });
+    });
+  });
+
+  describe('isMancalaMove', () => {
+    it('accepts moves with a side and the number of a pit', () => {
+      expect(isMancalaMove({ gamePiece: 'South', pit: 0 })).toBe(true);
+      expect(isMancalaMove({ gamePiece: 'North', pit: 5 })).toBe(true);
+    });
+    it('rejects anything else', () => {
+      expect(isMancalaMove({ gamePiece: 'East', pit: 0 })).toBe(false);
+      expect(isMancalaMove({ gamePiece: 'South', pit: 1.5 })).toBe(false);
+      expect(isMancalaMove({ gamePiece: 'South', pit: '1' })).toBe(false);
+      expect(isMancalaMove({ gamePiece: 'South' })).toBe(false);
+      expect(isMancalaMove(null)).toBe(false);
+    });
+  });
+});
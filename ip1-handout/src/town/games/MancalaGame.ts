@@ -0,0 +1,292 @@
+import InvalidParametersError, {
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  NO_SUCH_PIT_MESSAGE,
+  PIT_EMPTY_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  GameMove,
+  MancalaGameState,
+  MancalaMove,
+  MancalaSide,
+  PlayerID,
+} from '../../types/CoveyTownSocket';
+import Game from './Game';
+
+export const MANCALA_PITS_PER_SIDE = 6;
+
+export const MANCALA_SEEDS_PER_PIT = 4;
+
+/*
+ * The board is kept as one ring of counts, in the order that seeds are sown: south's pits, south's
+ * store, north's pits, then north's store.
+ */
+const SOUTH_STORE = MANCALA_PITS_PER_SIDE;
+
+const NORTH_STORE = 2 * MANCALA_PITS_PER_SIDE + 1;
+
+const RING_SIZE = NORTH_STORE + 1;
+
+/**
+ * Checks that a move received from a client has the shape of a MancalaMove. Whether the pit exists is
+ * checked by the game, so that it can say why it does not.
+ * @param move the move to check
+ * @returns true if the move has a valid game piece and a whole number of a pit
+ */
+export function isMancalaMove(move: unknown): move is MancalaMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { gamePiece, pit } = move as Record<string, unknown>;
+  return (
+    (gamePiece === 'South' || gamePiece === 'North') &&
+    typeof pit === 'number' &&
+    Number.isInteger(pit)
+  );
+}
+
+function opponentOf(side: MancalaSide): MancalaSide {
+  return side === 'South' ? 'North' : 'South';
+}
+
+function storeOf(side: MancalaSide): number {
+  return side === 'South' ? SOUTH_STORE : NORTH_STORE;
+}
+
+/**
+ * @returns the index in the ring of the first of a player's pits
+ */
+function firstPitOf(side: MancalaSide): number {
+  return side === 'South' ? 0 : SOUTH_STORE + 1;
+}
+
+function startingRing(): number[] {
+  return Array.from({ length: RING_SIZE }, (_, index) =>
+    index === SOUTH_STORE || index === NORTH_STORE ? 0 : MANCALA_SEEDS_PER_PIT,
+  );
+}
+
+/**
+ * A MancalaGame is a Game that implements the rules of Kalah, the most widely played form of Mancala in
+ * the West: six pits a side, with four seeds in each to start.
+ * @see https://en.wikipedia.org/wiki/Kalah
+ */
+export default class MancalaGame extends Game<MancalaGameState, MancalaMove> {
+  /* The seeds in each pit and store, in sowing order (@see startingRing) */
+  private _ring: number[] = startingRing();
+
+  public constructor() {
+    super({
+      moves: [],
+      pits: { south: [], north: [] },
+      stores: { south: 0, north: 0 },
+      turn: 'South',
+      status: 'WAITING_TO_START',
+    });
+    this._updateBoard();
+  }
+
+  /*
+   * Applies a player's move to the game.
+   * Uses the player's ID to determine which side they are playing (ignores move.gamePiece)
+   * Validates the move before applying it. If the move is invalid, throws an InvalidParametersError with
+   * the error message specified below.
+   * A move is invalid if:
+   *    - The game is over (GAME_OVER_MESSAGE) or not yet in progress (GAME_NOT_IN_PROGRESS_MESSAGE)
+   *    - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *    - It is not the player's turn (MOVE_NOT_YOUR_TURN_MESSAGE). South moves first.
+   *    - The player has no such pit (NO_SUCH_PIT_MESSAGE)
+   *    - The pit is empty (PIT_EMPTY_MESSAGE)
+   *
+   * Takes every seed out of the pit and sows them one at a time into the pits and stores that follow
+   * it, counter-clockwise, skipping the opponent's store. Then:
+   *    - If the last seed landed in the player's own store, the player moves again.
+   *    - If the last seed landed in an empty pit of the player's own, and the opponent's pit opposite it
+   *      has seeds in it, the player captures both the last seed and those seeds into their store.
+   *    - If either player's pits are now all empty, the game ends: each player sweeps the seeds left in
+   *      their pits into their store, and updates the game's state to set the status to OVER. The player
+   *      with more seeds in their store wins, and if both have the same number, winner is undefined.
+   *
+   * @param move The move to apply to the game
+   * @throws InvalidParametersError if the move is invalid (with specific message noted above)
+   */
+  protected _applyMove(move: GameMove<MancalaMove>): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.status !== 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    const side = this._sideFor(move.playerID);
+    if (!side) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (move.playerID !== this._playerToMove()) {
+      throw new InvalidParametersError(MOVE_NOT_YOUR_TURN_MESSAGE);
+    }
+    const { pit } = move.move;
+    if (pit < 0 || pit >= MANCALA_PITS_PER_SIDE) {
+      throw new InvalidParametersError(NO_SUCH_PIT_MESSAGE);
+    }
+    const start = firstPitOf(side) + pit;
+    if (this._ring[start] === 0) {
+      throw new InvalidParametersError(PIT_EMPTY_MESSAGE);
+    }
+
+    const ring = this._ring;
+    const store = storeOf(side);
+    let seeds = ring[start];
+    let index = start;
+    ring[start] = 0;
+    while (seeds > 0) {
+      index = (index + 1) % RING_SIZE;
+      if (index !== storeOf(opponentOf(side))) {
+        ring[index] += 1;
+        seeds -= 1;
+      }
+    }
+    // pits face each other across the board, so a pit and the one opposite it add up to NORTH_STORE - 1
+    const opposite = NORTH_STORE - 1 - index;
+    const ownPit = index >= firstPitOf(side) && index < store;
+    if (ownPit && ring[index] === 1 && ring[opposite] > 0) {
+      ring[store] += ring[index] + ring[opposite];
+      ring[index] = 0;
+      ring[opposite] = 0;
+    }
+    this.state = {
+      ...this.state,
+      moves: [...this.state.moves, { gamePiece: side, pit }],
+    };
+
+    const pitsOf = (eachSide: MancalaSide) => ring.slice(firstPitOf(eachSide), storeOf(eachSide));
+    if ([pitsOf('South'), pitsOf('North')].some(pits => pits.every(count => count === 0))) {
+      (['South', 'North'] as MancalaSide[]).forEach(eachSide => {
+        for (let i = firstPitOf(eachSide); i < storeOf(eachSide); i++) {
+          ring[storeOf(eachSide)] += ring[i];
+          ring[i] = 0;
+        }
+      });
+      let winner: PlayerID | undefined;
+      if (ring[SOUTH_STORE] !== ring[NORTH_STORE]) {
+        winner = ring[SOUTH_STORE] > ring[NORTH_STORE] ? this.state.south : this.state.north;
+      }
+      this._updateBoard();
+      this.state = { ...this.state, status: 'OVER', winner };
+      return;
+    }
+    // a player whose last seed lands in their own store moves again
+    if (index !== store) {
+      this._nextTurn();
+      this.state = { ...this.state, turn: opponentOf(side) };
+    }
+    this._updateBoard();
+  }
+
+  /**
+   * Puts four seeds back in every pit, so that moves can be taken back (@see Game.undoLastMove)
+   */
+  protected _resetMoves(): void {
+    this._ring = startingRing();
+    this._firstTurn();
+    this.state = {
+      ...this.state,
+      moves: [],
+      turn: 'South',
+      status: 'IN_PROGRESS',
+      winner: undefined,
+    };
+    this._updateBoard();
+  }
+
+  protected _seatName(playerID: PlayerID): string {
+    return playerID === this.state.south ? 'South' : 'North';
+  }
+
+  /**
+   * Adds a player to the game.
+   * The first player to join sits on the south side, the second on the north side.
+   * If the game is now full (has two players), updates the game's state to set the status to IN_PROGRESS.
+   *
+   * @param player The player to join the game
+   * @throws InvalidParametersError if the game is over (GAME_OVER_MESSAGE), the player is already
+   *  in the game (PLAYER_ALREADY_IN_GAME_MESSAGE) or the game is full (GAME_FULL_MESSAGE)
+   */
+  protected _join(player: Player): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.south === player.id || this.state.north === player.id) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    // south sits in the first seat, and so moves first
+    if (this._takeSeat(player) === 0) {
+      this.state = { ...this.state, south: player.id };
+    } else {
+      this.state = { ...this.state, north: player.id };
+    }
+    if (this.state.south && this.state.north) {
+      this.state = { ...this.state, status: 'IN_PROGRESS' };
+      this._firstTurn();
+    }
+  }
+
+  /**
+   * Removes a player from the game.
+   * If the game is in progress, the player forfeits: updates the game's status to OVER and sets
+   *   the winner to the other player.
+   * If the game has not yet started, frees the player's seat and leaves the status as WAITING_TO_START.
+   * If the game is already over, the result is left unchanged.
+   *
+   * @param player The player to remove from the game
+   * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  protected _leave(player: Player): void {
+    const { south, north, status } = this.state;
+    if (south !== player.id && north !== player.id) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    this._leaveSeat(player);
+    if (status === 'IN_PROGRESS') {
+      this.state = {
+        ...this.state,
+        status: 'OVER',
+        winner: south === player.id ? north : south,
+      };
+    } else if (status === 'WAITING_TO_START') {
+      this.state = {
+        ...this.state,
+        south: south === player.id ? undefined : south,
+        north: north === player.id ? undefined : north,
+      };
+    }
+  }
+
+  /**
+   * Copies the seeds in the ring into the pits and stores of the game's state
+   */
+  private _updateBoard(): void {
+    const ring = this._ring;
+    this.state = {
+      ...this.state,
+      pits: {
+        south: ring.slice(firstPitOf('South'), SOUTH_STORE),
+        north: ring.slice(firstPitOf('North'), NORTH_STORE),
+      },
+      stores: { south: ring[SOUTH_STORE], north: ring[NORTH_STORE] },
+    };
+  }
+
+  private _sideFor(playerID: PlayerID): MancalaSide | undefined {
+    if (playerID === this.state.south) {
+      return 'South';
+    }
+    if (playerID === this.state.north) {
+      return 'North';
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,94 @@
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import { createPlayerForTesting } from '../../TestUtils';
+import { INVALID_MOVE_MESSAGE, NO_SUCH_PIT_MESSAGE } from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { GameInstanceID, TownEmitter } from '../../types/CoveyTownSocket';
+import MancalaGameArea from './MancalaGameArea';
+
+describe('MancalaGameArea', () => {
+  let gameArea: MancalaGameArea;
+  let south: Player;
+  let north: Player;
+  let gameID: GameInstanceID;
+  let interactableUpdateSpy: jest.SpyInstance;
+  beforeEach(() => {
+    south = createPlayerForTesting();
+    north = createPlayerForTesting();
+    gameArea = new MancalaGameArea(
+      nanoid(),
+      { x: 0, y: 0, width: 100, height: 100 },
+      mock<TownEmitter>(),
+    );
+    gameArea.add(south);
+    gameArea.add(north);
+    gameID = gameArea.handleCommand({ type: 'JoinGame' }, south).gameID;
+    gameArea.handleCommand({ type: 'JoinGame' }, north);
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Test requires access to protected method)
+    interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+  });
+
+  function sow(player: Player, pit: number) {
+    gameArea.handleCommand(
+      {
+        type: 'GameMove',
+        gameID,
+        move: { gamePiece: player === south ? 'South' : 'North', pit },
+      },
+      player,
+    );
+  }
+
+  it('reports its type as MancalaArea', () => {
+    expect(gameArea.toModel().type).toEqual('MancalaArea');
+  });
+  it('takes back a move once the opponent accepts, putting the seeds back in their pits', () => {
+    sow(south, 2);
+    sow(south, 0);
+    gameArea.handleCommand({ type: 'RequestUndo', gameID }, south);
+    gameArea.handleCommand({ type: 'RespondUndo', gameID, accept: true }, north);
+    expect(gameArea.toModel().undoRequest?.status).toEqual('ACCEPTED');
+    expect(gameArea.game?.state).toMatchObject({
+      pits: { south: [4, 4, 0, 5, 5, 5], north: [4, 4, 4, 4, 4, 4] },
+      stores: { south: 1, north: 0 },
+      turn: 'South',
+    });
+    expect(interactableUpdateSpy).toHaveBeenCalledTimes(4);
+  });
+  it('throws an error when the move is not a MancalaMove, or the pit does not exist', () => {
+    expect(() =>
+      gameArea.handleCommand(
+        { type: 'GameMove', gameID, move: { gamePiece: 'South', pit: 'first' } as never },
+        south,
+      ),
+    ).toThrowError(INVALID_MOVE_MESSAGE);
+    expect(() => sow(south, 6)).toThrowError(NO_SUCH_PIT_MESSAGE);
+    expect(interactableUpdateSpy).not.toHaveBeenCalled();
+  });
+  function playToEnd() {
+    [2, 3, 1, 4, 5, 1, 2, 4, 0, 3, 2, 5, 2, 4].forEach(pit =>
+      sow(gameArea.game?.state.turn === 'South' ? south : north, pit),
+    );
+  }
+
+  it('records the winner in the history when the game ends', () => {
+    playToEnd();
+    expect(gameArea.game?.state.status).toEqual('OVER');
+    expect(gameArea.history).toEqual([
+      { gameID, scores: { [south.userName]: 1, [north.userName]: 0 } },
+    ]);
+  });
+  it('starts a new game, with four seeds in every pit, when a player joins after the game is over', () => {
+    playToEnd();
+    const newGameID = gameArea.handleCommand({ type: 'JoinGame' }, north).gameID;
+    expect(newGameID).not.toEqual(gameID);
+    expect(gameArea.game?.state).toMatchObject({
+      status: 'WAITING_TO_START',
+      south: north.id,
+      pits: { south: [4, 4, 4, 4, 4, 4], north: [4, 4, 4, 4, 4, 4] },
+      stores: { south: 0, north: 0 },
+    });
+    expect(gameArea.history.map(result => result.gameID)).toEqual([gameID]);
+  });
+});
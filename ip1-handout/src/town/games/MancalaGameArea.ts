@@ -0,0 +1,34 @@
+import { InteractableType, MancalaMove } from '../../types/CoveyTownSocket';
+import GameArea from './GameArea';
+import { GameRegistration } from './GameRegistry';
+import MancalaGame, { isMancalaMove } from './MancalaGame';
+
+/**
+ * A MancalaGameArea is a GameArea that hosts a MancalaGame.
+ * @see MancalaGame
+ * @see GameArea
+ */
+export default class MancalaGameArea extends GameArea<MancalaGame> {
+  protected getType(): InteractableType {
+    return 'MancalaArea';
+  }
+
+  protected _createGame(): MancalaGame {
+    return new MancalaGame();
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isMancalaMove(move);
+  }
+}
+
+/**
+ * Registers Mancala with the GameRegistry: map objects with `type: Mancala` host a MancalaGameArea
+ */
+export const mancalaRegistration: GameRegistration<MancalaGame, MancalaMove> = {
+  gameType: 'Mancala',
+  interactableType: 'MancalaArea',
+  gameClass: MancalaGame,
+  areaClass: MancalaGameArea,
+  isValidMove: isMancalaMove,
+};
@@ -0,0 +1,195 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { mock } from 'jest-mock-extended';
+import { createPlayerForTesting } from '../../TestUtils';
+import InvalidParametersError, {
+  GAME_FULL_MESSAGE,
+  PLAYER_ALREADY_QUEUED_MESSAGE,
+  PLAYER_NOT_QUEUED_MESSAGE,
+  UNKNOWN_GAME_TYPE_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { TownEmitter } from '../../types/CoveyTownSocket';
+import InteractableArea from '../InteractableArea';
+import ConnectFourGameArea from './ConnectFourGameArea';
+import GameRegistry from './GameRegistry';
+import HangmanGameArea from './HangmanGameArea';
+import MatchmakingService from './MatchmakingService';
+import REGISTERED_GAMES from './RegisteredGames';
+import TicTacToeGameArea from './TicTacToeGameArea';
+
+describe('MatchmakingService', () => {
+  let areas: InteractableArea[];
+  let ticTacToe1: TicTacToeGameArea;
+  let ticTacToe2: TicTacToeGameArea;
+  let connectFour: ConnectFourGameArea;
+  let onMatch: jest.Mock;
+  let onMatchFailed: jest.Mock;
+  let matchmaking: MatchmakingService;
+  let players: Player[];
+
+  beforeEach(() => {
+    GameRegistry.initializeGameRegistry(REGISTERED_GAMES);
+    const box = { x: 0, y: 0, width: 10, height: 10 };
+    ticTacToe1 = new TicTacToeGameArea('TicTacToe 1', box, mock<TownEmitter>());
+    ticTacToe2 = new TicTacToeGameArea('TicTacToe 2', box, mock<TownEmitter>());
+    connectFour = new ConnectFourGameArea('Connect Four', box, mock<TownEmitter>());
+    areas = [connectFour, ticTacToe1, ticTacToe2];
+    onMatch = jest.fn();
+    onMatchFailed = jest.fn();
+    matchmaking = new MatchmakingService(() => areas, onMatch, onMatchFailed);
+    players = [1, 2, 3, 4, 5].map(() => createPlayerForTesting());
+  });
+
+  describe('enqueue', () => {
+    it('keeps a player waiting until there is someone to play with', () => {
+      matchmaking.enqueue(players[0], 'TicTacToe');
+      expect(matchmaking.queue('TicTacToe')).toEqual([players[0]]);
+      expect(onMatch).not.toHaveBeenCalled();
+      expect(ticTacToe1.game).toBeUndefined();
+    });
+    it('seats two waiting players in a new game at a free area of the right kind, and tells them both', () => {
+      matchmaking.enqueue(players[0], 'TicTacToe');
+      matchmaking.enqueue(players[1], 'TicTacToe');
+      const { game } = ticTacToe1;
+      expect(game?.players).toEqual([players[0], players[1]]);
+      expect(game?.state.status).toEqual('IN_PROGRESS');
+      const match = {
+        gameType: 'TicTacToe',
+        interactableID: 'TicTacToe 1',
+        gameID: game?.id,
+        players: [players[0].id, players[1].id],
+      };
+      expect(onMatch).toHaveBeenCalledTimes(2);
+      expect(onMatch).toHaveBeenCalledWith(players[0], match);
+      expect(onMatch).toHaveBeenCalledWith(players[1], match);
+      expect(matchmaking.queue('TicTacToe')).toEqual([]);
+      expect(connectFour.game).toBeUndefined();
+    });
+    it('pairs players in the order in which they joined the queue, using a different area for each pair', () => {
+      players.slice(0, 5).forEach(player => matchmaking.enqueue(player, 'TicTacToe'));
+      expect(ticTacToe1.game?.players).toEqual([players[0], players[1]]);
+      expect(ticTacToe2.game?.players).toEqual([players[2], players[3]]);
+      expect(matchmaking.queue('TicTacToe')).toEqual([players[4]]);
+    });
+    it('keeps separate queues for each kind of game', () => {
+      matchmaking.enqueue(players[0], 'TicTacToe');
+      matchmaking.enqueue(players[1], 'ConnectFour');
+      expect(onMatch).not.toHaveBeenCalled();
+      matchmaking.enqueue(players[2], 'ConnectFour');
+      expect(connectFour.game?.players).toEqual([players[1], players[2]]);
+    });
+    it('throws an error for a kind of game that is not registered', () => {
+      expect(() => matchmaking.enqueue(players[0], 'Tiddlywinks')).toThrowError(
+        UNKNOWN_GAME_TYPE_MESSAGE,
+      );
+    });
+    it('throws an error if the player is already waiting for a game', () => {
+      matchmaking.enqueue(players[0], 'TicTacToe');
+      expect(() => matchmaking.enqueue(players[0], 'ConnectFour')).toThrowError(
+        PLAYER_ALREADY_QUEUED_MESSAGE,
+      );
+    });
+  });
+
+  describe('when every area is busy', () => {
+    beforeEach(() => {
+      matchmaking.enqueue(players[0], 'ConnectFour');
+      matchmaking.enqueue(players[1], 'ConnectFour');
+      onMatch.mockClear();
+    });
+    it('keeps players waiting', () => {
+      matchmaking.enqueue(players[2], 'ConnectFour');
+      matchmaking.enqueue(players[3], 'ConnectFour');
+      expect(onMatch).not.toHaveBeenCalled();
+      expect(matchmaking.queue('ConnectFour')).toEqual([players[2], players[3]]);
+    });
+    it('does not use an area where players are waiting for a game to start', () => {
+      ticTacToe1.handleCommand({ type: 'JoinGame' }, players[4]);
+      ticTacToe2.handleCommand({ type: 'JoinGame' }, createPlayerForTesting());
+      matchmaking.enqueue(players[2], 'TicTacToe');
+      matchmaking.enqueue(players[3], 'TicTacToe');
+      expect(onMatch).not.toHaveBeenCalled();
+    });
+    it('pairs waiting players once an area frees up', () => {
+      matchmaking.enqueue(players[2], 'ConnectFour');
+      matchmaking.enqueue(players[3], 'ConnectFour');
+      const firstGameID = connectFour.game?.id as string;
+      connectFour.handleCommand({ type: 'LeaveGame', gameID: firstGameID }, players[0]);
+      const matches = matchmaking.matchPlayers();
+      expect(matches).toHaveLength(1);
+      expect(connectFour.game?.id).not.toEqual(firstGameID);
+      expect(connectFour.game?.players).toEqual([players[2], players[3]]);
+      expect(connectFour.history).toHaveLength(1);
+      expect(onMatch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('when a game can not be started', () => {
+    let startGameSpy: jest.SpyInstance;
+    beforeEach(() => {
+      startGameSpy = jest.spyOn(ticTacToe1, 'startGame').mockImplementationOnce(() => {
+        throw new InvalidParametersError(GAME_FULL_MESSAGE);
+      });
+      matchmaking.enqueue(players[0], 'TicTacToe');
+      matchmaking.enqueue(players[1], 'TicTacToe');
+    });
+    it('puts the players back at the front of the queue, and tells them why', () => {
+      expect(startGameSpy).toHaveBeenCalledWith([players[0], players[1]]);
+      expect(matchmaking.queue('TicTacToe')).toEqual([players[0], players[1]]);
+      expect(onMatch).not.toHaveBeenCalled();
+      expect(onMatchFailed).toHaveBeenCalledTimes(2);
+      expect(onMatchFailed).toHaveBeenCalledWith(players[0], expect.any(InvalidParametersError));
+      expect(onMatchFailed).toHaveBeenCalledWith(players[1], expect.any(InvalidParametersError));
+      expect(ticTacToe2.game).toBeUndefined();
+    });
+    it('matches the players again the next time players are matched', () => {
+      matchmaking.enqueue(players[2], 'TicTacToe');
+      expect(ticTacToe1.game?.players).toEqual([players[0], players[1]]);
+      expect(matchmaking.queue('TicTacToe')).toEqual([players[2]]);
+      expect(onMatch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('for games that can be played with other numbers of players', () => {
+    it('matches as many players as the game needs at the least', () => {
+      const hangman = new HangmanGameArea(
+        'Hangman',
+        { x: 0, y: 0, width: 10, height: 10 },
+        mock<TownEmitter>(),
+        {
+          id: 1,
+          name: 'Hangman',
+          x: 0,
+          y: 0,
+          width: 10,
+          height: 10,
+          rotation: 0,
+          type: 'GameArea',
+          visible: true,
+          properties: [{ name: 'wordList', type: 'string', value: 'testData/hangmanWords.txt' }],
+        } as ITiledMapObject,
+      );
+      areas.push(hangman);
+      matchmaking.enqueue(players[0], 'Hangman');
+      expect(hangman.game?.players).toEqual([players[0]]);
+      expect(matchmaking.queue('Hangman')).toEqual([]);
+    });
+  });
+
+  describe('dequeue and remove', () => {
+    it('take a player out of the queue', () => {
+      matchmaking.enqueue(players[0], 'TicTacToe');
+      matchmaking.dequeue(players[0]);
+      matchmaking.enqueue(players[1], 'TicTacToe');
+      expect(matchmaking.queue('TicTacToe')).toEqual([players[1]]);
+      matchmaking.remove(players[1]);
+      expect(matchmaking.queue('TicTacToe')).toEqual([]);
+    });
+    it('dequeue throws an error if the player is not waiting for a game', () => {
+      expect(() => matchmaking.dequeue(players[0])).toThrowError(PLAYER_NOT_QUEUED_MESSAGE);
+    });
+    it('remove ignores players who are not waiting for a game', () => {
+      expect(() => matchmaking.remove(players[0])).not.toThrowError();
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import InvalidParametersError, {
+  PLAYER_ALREADY_QUEUED_MESSAGE,
+  PLAYER_NOT_QUEUED_MESSAGE,
+  UNKNOWN_GAME_TYPE_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { GameInstanceID, GameState, MatchAssignment } from '../../types/CoveyTownSocket';
+import InteractableArea from '../InteractableArea';
+import Game from './Game';
+import GameArea from './GameArea';
+import GameRegistry from './GameRegistry';
+
+/**
+ * A MatchmakingService keeps a queue of the players in a town who are waiting for each kind of game.
+ * Players are matched in the order in which they joined the queue, as soon as enough of them are
+ * waiting to play the game (@see GameArea.minPlayers), and each match is seated in a new game at a
+ * free game area of that kind (@see GameArea.isAvailable). If every area of that kind is busy, the
+ * players keep waiting until matchPlayers is called again after an area frees up.
+ */
+export default class MatchmakingService {
+  private _queues: Map<string, Player[]> = new Map();
+
+  private _areas: () => InteractableArea[];
+
+  private _onMatch: (player: Player, match: MatchAssignment) => void;
+
+  private _onMatchFailed: (player: Player, error: unknown) => void;
+
+  /**
+   * Creates a new MatchmakingService
+   *
+   * @param areas returns the interactables of the town, among which to look for free game areas
+   * @param onMatch called for each player in a match once their game has been created
+   * @param onMatchFailed called for each player in a match whose game could not be started, with the
+   *  error that starting it threw
+   */
+  public constructor(
+    areas: () => InteractableArea[],
+    onMatch: (player: Player, match: MatchAssignment) => void,
+    onMatchFailed: (player: Player, error: unknown) => void,
+  ) {
+    this._areas = areas;
+    this._onMatch = onMatch;
+    this._onMatchFailed = onMatchFailed;
+  }
+
+  /**
+   * @returns the players waiting for a kind of game, in the order in which they joined the queue
+   */
+  public queue(gameType: string): Player[] {
+    return [...(this._queues.get(gameType) || [])];
+  }
+
+  /**
+   * Adds a player to the queue for a kind of game, and pairs them up if anyone else is waiting
+   *
+   * @param player the player who wants to play
+   * @param gameType the kind of game to play, e.g. 'TicTacToe'
+   * @throws InvalidParametersError if the kind of game is not registered (UNKNOWN_GAME_TYPE_MESSAGE), or
+   *  the player is already waiting for a game (PLAYER_ALREADY_QUEUED_MESSAGE)
+   */
+  public enqueue(player: Player, gameType: string): void {
+    if (!GameRegistry.getInstance().getRegistration(gameType)) {
+      throw new InvalidParametersError(UNKNOWN_GAME_TYPE_MESSAGE);
+    }
+    if (this._queueOf(player)) {
+      throw new InvalidParametersError(PLAYER_ALREADY_QUEUED_MESSAGE);
+    }
+    this._queues.set(gameType, [...this.queue(gameType), player]);
+    this.matchPlayers();
+  }
+
+  /**
+   * Removes a player from the queue that they are waiting in
+   *
+   * @param player the player who no longer wants to play
+   * @throws InvalidParametersError if the player is not waiting for a game (PLAYER_NOT_QUEUED_MESSAGE)
+   */
+  public dequeue(player: Player): void {
+    const gameType = this._queueOf(player);
+    if (gameType === undefined) {
+      throw new InvalidParametersError(PLAYER_NOT_QUEUED_MESSAGE);
+    }
+    this._queues.set(
+      gameType,
+      this.queue(gameType).filter(eachPlayer => eachPlayer.id !== player.id),
+    );
+  }
+
+  /**
+   * Removes a player from the queue if they are waiting in one, e.g. when they leave the town
+   */
+  public remove(player: Player): void {
+    if (this._queueOf(player) !== undefined) {
+      this.dequeue(player);
+    }
+  }
+
+  /**
+   * Seats as many matches of waiting players as there are free game areas for, starting a new game for
+   * each match and calling the onMatch listener for each player. If a game can not be started, its
+   * players go back to the front of the queue, the onMatchFailed listener is called for each of them,
+   * and no more matches are made for that kind of game until matchPlayers is called again.
+   *
+   * @returns the matches that were made
+   */
+  public matchPlayers(): MatchAssignment[] {
+    const matches: MatchAssignment[] = [];
+    this._queues.forEach((queue, gameType) => {
+      const interactableType =
+        GameRegistry.getInstance().getRegistration(gameType)?.interactableType;
+      const freeAreas = this._areas().filter(
+        (area): area is GameArea<Game<GameState, unknown>> =>
+          area instanceof GameArea && area.toModel().type === interactableType && area.isAvailable,
+      );
+      while (freeAreas.length > 0 && queue.length >= freeAreas[0].minPlayers) {
+        const area = freeAreas.shift() as GameArea<Game<GameState, unknown>>;
+        const players = queue.splice(0, area.minPlayers);
+        let gameID: GameInstanceID;
+        try {
+          gameID = area.startGame(players);
+        } catch (err) {
+          queue.unshift(...players);
+          players.forEach(eachPlayer => this._onMatchFailed(eachPlayer, err));
+          break;
+        }
+        const match = {
+          gameType,
+          interactableID: area.id,
+          gameID,
+          players: players.map(eachPlayer => eachPlayer.id),
+        };
+        players.forEach(eachPlayer => this._onMatch(eachPlayer, match));
+        matches.push(match);
+      }
+    });
+    return matches;
+  }
+
+  private _queueOf(player: Player): string | undefined {
+    return [...this._queues.entries()].find(([, queue]) =>
+      queue.some(eachPlayer => eachPlayer.id === player.id),
+    )?.[0];
+  }
+}
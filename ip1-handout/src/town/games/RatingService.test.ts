@@ -0,0 +1,122 @@
+import { mock } from 'jest-mock-extended';
+import { createPlayerForTesting } from '../../TestUtils';
+import Player from '../../lib/Player';
+import { TownEmitter } from '../../types/CoveyTownSocket';
+import RatingService, { INITIAL_RATING, K_FACTOR } from './RatingService';
+
+describe('RatingService', () => {
+  let ratingService: RatingService;
+  let alice: Player;
+  let bob: Player;
+  let carol: Player;
+  beforeEach(() => {
+    ratingService = new RatingService();
+    alice = createPlayerForTesting();
+    bob = createPlayerForTesting();
+    carol = createPlayerForTesting();
+  });
+
+  function ratingOf(player: Player, gameType = 'TicTacToe') {
+    return ratingService.getLeaderboard(gameType).find(entry => entry.playerID === player.id)
+      ?.rating;
+  }
+
+  describe('recordGame', () => {
+    it('moves half of K_FACTOR from the loser to the winner between new players', () => {
+      ratingService.recordGame('TicTacToe', [alice, bob], alice.id);
+      expect(ratingOf(alice)).toEqual(INITIAL_RATING + K_FACTOR / 2);
+      expect(ratingOf(bob)).toEqual(INITIAL_RATING - K_FACTOR / 2);
+    });
+    it('does not change the ratings of equally rated players who draw', () => {
+      ratingService.recordGame('TicTacToe', [alice, bob]);
+      expect(ratingOf(alice)).toEqual(INITIAL_RATING);
+      expect(ratingOf(bob)).toEqual(INITIAL_RATING);
+    });
+    it('rewards an upset more than an expected win', () => {
+      ratingService.recordGame('TicTacToe', [alice, bob], alice.id);
+      ratingService.recordGame('TicTacToe', [alice, carol], alice.id);
+      const bobBefore = ratingOf(bob) as number;
+      ratingService.recordGame('TicTacToe', [alice, bob], bob.id);
+      const upsetGain = (ratingOf(bob) as number) - bobBefore;
+      expect(upsetGain).toBeGreaterThan(K_FACTOR / 2);
+    });
+    it('keeps separate ratings for each kind of game', () => {
+      ratingService.recordGame('TicTacToe', [alice, bob], alice.id);
+      ratingService.recordGame('ConnectFour', [alice, bob], bob.id);
+      expect(ratingOf(alice, 'TicTacToe')).toBeGreaterThan(INITIAL_RATING);
+      expect(ratingOf(alice, 'ConnectFour')).toBeLessThan(INITIAL_RATING);
+    });
+    it('rates a game with more than two players as a set of pairings', () => {
+      ratingService.recordGame('TicTacToe', [alice, bob, carol], alice.id);
+      expect(ratingOf(alice)).toEqual(INITIAL_RATING + K_FACTOR / 2);
+      expect(ratingOf(bob)).toEqual(INITIAL_RATING - K_FACTOR / 4);
+      expect(ratingOf(carol)).toEqual(INITIAL_RATING - K_FACTOR / 4);
+    });
+    it('does not rate games with fewer than two players', () => {
+      ratingService.recordGame('TicTacToe', [alice], alice.id);
+      expect(ratingService.getLeaderboard('TicTacToe')).toEqual([]);
+    });
+    it('does not rate games in which two players have the same name', () => {
+      const otherAlice = new Player(alice.userName, mock<TownEmitter>());
+      ratingService.recordGame('TicTacToe', [alice, otherAlice], alice.id);
+      expect(ratingService.getLeaderboard('TicTacToe')).toEqual([]);
+    });
+    it('keeps a player’s rating when they reconnect with a new ID', () => {
+      ratingService.recordGame('TicTacToe', [alice, bob], alice.id);
+      const reconnectedAlice = new Player(alice.userName, mock<TownEmitter>());
+      ratingService.recordGame('TicTacToe', [reconnectedAlice, carol], reconnectedAlice.id);
+      const leaderboard = ratingService.getLeaderboard('TicTacToe');
+      expect(leaderboard).toHaveLength(3);
+      expect(leaderboard[0]).toMatchObject({
+        playerID: reconnectedAlice.id,
+        userName: alice.userName,
+        wins: 2,
+      });
+      expect(ratingOf(reconnectedAlice)).toBeGreaterThan(INITIAL_RATING + K_FACTOR / 2);
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    it('is empty for a kind of game that has not been played', () => {
+      expect(ratingService.getLeaderboard('TicTacToe')).toEqual([]);
+    });
+    it('ranks players from the highest rating to the lowest, with their records', () => {
+      ratingService.recordGame('TicTacToe', [alice, bob], bob.id);
+      ratingService.recordGame('TicTacToe', [bob, carol], bob.id);
+      ratingService.recordGame('TicTacToe', [alice, carol], carol.id);
+      const leaderboard = ratingService.getLeaderboard('TicTacToe');
+      expect(leaderboard.map(entry => [entry.rank, entry.playerID])).toEqual([
+        [1, bob.id],
+        [2, carol.id],
+        [3, alice.id],
+      ]);
+      expect(leaderboard[0]).toEqual({
+        rank: 1,
+        playerID: bob.id,
+        userName: bob.userName,
+        rating: Math.round(ratingOf(bob) as number),
+        wins: 2,
+        losses: 0,
+        draws: 0,
+      });
+      expect(leaderboard[2]).toMatchObject({ wins: 0, losses: 2, draws: 0 });
+    });
+    it('reports ratings rounded to the nearest whole number', () => {
+      ratingService.recordGame('TicTacToe', [alice, bob], alice.id);
+      ratingService.recordGame('TicTacToe', [alice, carol], alice.id);
+      ratingService.getLeaderboard('TicTacToe').forEach(entry => {
+        expect(Number.isInteger(entry.rating)).toBe(true);
+      });
+    });
+    it('ranks players with equal ratings and records by name', () => {
+      ratingService.recordGame('TicTacToe', [carol, alice]);
+      ratingService.recordGame('TicTacToe', [bob, carol]);
+      const names = ratingService.getLeaderboard('TicTacToe').map(entry => entry.userName);
+      expect(names).toEqual(
+        [alice.userName, bob.userName, carol.userName].sort((name1, name2) =>
+          name1.localeCompare(name2),
+        ),
+      );
+    });
+  });
+});
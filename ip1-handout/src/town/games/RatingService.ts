@@ -0,0 +1,127 @@
+import { LeaderboardEntry } from '../../api/Model';
+import Player from '../../lib/Player';
+import { PlayerID } from '../../types/CoveyTownSocket';
+
+/** The rating of a player who has not played a rated game yet */
+export const INITIAL_RATING = 1200;
+
+/** The largest change in rating that a single game between two players can cause */
+export const K_FACTOR = 32;
+
+type PlayerRecord = {
+  playerID: PlayerID;
+  rating: number;
+  wins: number;
+  losses: number;
+  draws: number;
+};
+
+/**
+ * The expected score (between 0 and 1) of a player with rating `rating` against a player with
+ * rating `opponentRating`, according to the Elo rating system
+ */
+function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+/**
+ * A RatingService keeps an Elo rating for each player and kind of game in a town, along with the
+ * number of games that they have won, lost and drawn, and ranks the players on a leaderboard.
+ *
+ * Games with more than two players are rated as if every pair of players had played each other:
+ * the winner beats every other player, and the other players draw with each other. Each pairing
+ * uses a share of K_FACTOR, so that a single game can never change a rating by more than K_FACTOR.
+ *
+ * Players are known by their user names rather than their IDs, which change every time that they
+ * join a town, so that their ratings carry over when they reconnect. User names are not
+ * authenticated, though: anyone who joins the town under a player's name plays under their rating.
+ *
+ * Games with fewer than two players are not rated, and neither are games in which two players have
+ * the same name. Areas decide which other games are rated, e.g. games against bots are not
+ * (@see GameArea._isRated).
+ */
+export default class RatingService {
+  private _records: Map<string, Map<string, PlayerRecord>> = new Map();
+
+  /**
+   * Updates the ratings of the players of a game that has just ended
+   *
+   * @param gameType the kind of game that was played, e.g. 'TicTacToe'
+   * @param players every player who took part in the game
+   * @param winner the ID of the player who won, or undefined if the game ended without a winner
+   */
+  public recordGame(gameType: string, players: Player[], winner?: PlayerID): void {
+    if (
+      players.length < 2 ||
+      new Set(players.map(eachPlayer => eachPlayer.userName)).size < players.length
+    ) {
+      return;
+    }
+    let records = this._records.get(gameType);
+    if (!records) {
+      records = new Map();
+      this._records.set(gameType, records);
+    }
+    const gameRecords = players.map(eachPlayer => {
+      const record = records?.get(eachPlayer.userName) || {
+        playerID: eachPlayer.id,
+        rating: INITIAL_RATING,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+      };
+      record.playerID = eachPlayer.id;
+      records?.set(eachPlayer.userName, record);
+      return record;
+    });
+    const score = (index: number) => {
+      if (winner === undefined) {
+        return 0.5;
+      }
+      return players[index].id === winner ? 1 : 0;
+    };
+    const pairingK = K_FACTOR / (players.length - 1);
+    const ratingChanges = gameRecords.map((record, index) =>
+      gameRecords.reduce((change, opponent, opponentIndex) => {
+        if (opponentIndex === index) {
+          return change;
+        }
+        const actual = score(index) === score(opponentIndex) ? 0.5 : score(index);
+        return change + pairingK * (actual - expectedScore(record.rating, opponent.rating));
+      }, 0),
+    );
+    gameRecords.forEach((record, index) => {
+      record.rating += ratingChanges[index];
+      if (winner === undefined) {
+        record.draws += 1;
+      } else if (players[index].id === winner) {
+        record.wins += 1;
+      } else {
+        record.losses += 1;
+      }
+    });
+  }
+
+  /**
+   * Ranks every player who has played a rated game of the given kind, from the highest rating to
+   * the lowest. Players with equal ratings are ranked by number of wins, then by name.
+   *
+   * @param gameType the kind of game to rank players in, e.g. 'TicTacToe'
+   * @returns the leaderboard, which is empty if no rated game of this kind has been played
+   */
+  public getLeaderboard(gameType: string): LeaderboardEntry[] {
+    const records = this._records.get(gameType);
+    if (!records) {
+      return [];
+    }
+    return Array.from(records.entries())
+      .map(([userName, record]) => ({ userName, ...record, rating: Math.round(record.rating) }))
+      .sort(
+        (entry1, entry2) =>
+          entry2.rating - entry1.rating ||
+          entry2.wins - entry1.wins ||
+          entry1.userName.localeCompare(entry2.userName),
+      )
+      .map((entry, index) => ({ rank: index + 1, ...entry }));
+  }
+}
@@ -0,0 +1,34 @@
+import { battleshipRegistration } from './BattleshipGameArea';
+import { checkersRegistration } from './CheckersGameArea';
+import { chessRegistration } from './ChessGameArea';
+import { connectFourRegistration } from './ConnectFourGameArea';
+import { dotsAndBoxesRegistration } from './DotsAndBoxesGameArea';
+import { GameRegistration } from './GameRegistry';
+import { goRegistration } from './GoGameArea';
+import { hangmanRegistration } from './HangmanGameArea';
+import { mancalaRegistration } from './MancalaGameArea';
+import { reversiRegistration } from './ReversiGameArea';
+import { rockPaperScissorsRegistration } from './RockPaperScissorsGameArea';
+import { ticTacToeRegistration } from './TicTacToeGameArea';
+import { triviaRegistration } from './TriviaGameArea';
+
+/**
+ * Every game that can be placed on a town map. To add a new game, export a GameRegistration
+ * from the module that implements its GameArea, and add it to this list.
+ */
+const REGISTERED_GAMES: GameRegistration[] = [
+  ticTacToeRegistration,
+  connectFourRegistration,
+  checkersRegistration,
+  chessRegistration,
+  rockPaperScissorsRegistration,
+  battleshipRegistration,
+  hangmanRegistration,
+  triviaRegistration,
+  reversiRegistration,
+  goRegistration,
+  dotsAndBoxesRegistration,
+  mancalaRegistration,
+];
+
+export default REGISTERED_GAMES;
@@ -0,0 +1,217 @@
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  BOARD_POSITION_NOT_EMPTY_MESSAGE,
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  NO_DISCS_FLIPPED_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { ReversiGridPosition, ReversiSquare } from '../../types/CoveyTownSocket';
+import ReversiGame, { isReversiMove } from './ReversiGame';
+
+/** A game in which black takes every one of white's discs after nine moves */
+const WIPEOUT = 'd3 c3 b3 d2 e1 d6 d7 e3 f4';
+
+/** Moves after which black has no legal move, and must pass */
+const BLACK_PASSES = 'd3 c3 b3 b2 f5 a3 a1 c1';
+
+/** A game that fills the board, ending with 32 discs each */
+const DRAWN_GAME =
+  'd3 c3 e6 f6 g6 e3 f5 d6 c5 b4 d7 g5 c4 c7 e2 h6 h5 e1 b5 c8 f7 b6 a6 d2 d8 f4 a3 h7 g3 e7 ' +
+  'h4 g7 f2 c6 c1 g2 h2 f3 b8 b3 f8 d1 h8 h3 c2 g1 a4 h1 g4 a5 b2 b1 a7 b7 a1 a2 f1 a8 g8 e8';
+
+/**
+ * @returns the square with the given name: a column letter from a (col 0) to h (col 7), then a row
+ *  number from 1 (row 0) to 8 (row 7)
+ */
+function square(name: string): ReversiSquare {
+  return {
+    row: (Number(name[1]) - 1) as ReversiGridPosition,
+    col: 'abcdefgh'.indexOf(name[0]) as ReversiGridPosition,
+  };
+}
+
+describe('ReversiGame', () => {
+  let game: ReversiGame;
+  let black: Player;
+  let white: Player;
+
+  beforeEach(() => {
+    game = new ReversiGame();
+    black = createPlayerForTesting();
+    white = createPlayerForTesting();
+  });
+
+  function place(player: Player, name: string) {
+    game.applyMove({
+      gameID: game.id,
+      playerID: player.id,
+      move: { gamePiece: player === black ? 'Black' : 'White', ...square(name) },
+    });
+  }
+
+  /**
+   * Places discs on each of the named squares, each for whichever player's turn it is
+   */
+  function playAll(names: string) {
+    names.split(' ').forEach(name => place(game.state.turn === 'Black' ? black : white, name));
+  }
+
+  function discCount(color: 'Black' | 'White') {
+    return game.state.discs.filter(disc => disc.color === color).length;
+  }
+
+  it('starts with two discs of each color in the centre, and black to move', () => {
+    expect(game.state.discs).toEqual([
+      { row: 3, col: 3, color: 'White' },
+      { row: 3, col: 4, color: 'Black' },
+      { row: 4, col: 3, color: 'Black' },
+      { row: 4, col: 4, color: 'White' },
+    ]);
+    expect(game.state.turn).toEqual('Black');
+    expect(game.state.legalMoves).toEqual(['d3', 'c4', 'f5', 'e6'].map(square));
+  });
+
+  describe('_join', () => {
+    it('makes the first player black and the second white, and starts the game', () => {
+      game.join(black);
+      expect(game.state.status).toEqual('WAITING_TO_START');
+      game.join(white);
+      expect(game.state.black).toEqual(black.id);
+      expect(game.state.white).toEqual(white.id);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+    });
+    it('throws an error if the player is already in the game', () => {
+      game.join(black);
+      expect(() => game.join(black)).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the game is full', () => {
+      game.join(black);
+      game.join(white);
+      expect(() => game.join(createPlayerForTesting())).toThrowError(GAME_FULL_MESSAGE);
+    });
+  });
+
+  describe('_leave', () => {
+    it('throws an error if the player is not in the game', () => {
+      game.join(black);
+      expect(() => game.leave(white)).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('frees the seat if the game has not started', () => {
+      game.join(black);
+      game.leave(black);
+      game.join(white);
+      expect(game.state.black).toEqual(white.id);
+    });
+    it('ends the game with the other player as the winner if the game is in progress', () => {
+      game.join(black);
+      game.join(white);
+      game.leave(black);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(white.id);
+      expect(game.state.legalMoves).toEqual([]);
+    });
+  });
+
+  describe('applyMove', () => {
+    it('throws an error if the game has not started', () => {
+      game.join(black);
+      expect(() => place(black, 'd3')).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    describe('when the game is in progress', () => {
+      beforeEach(() => {
+        game.join(black);
+        game.join(white);
+      });
+      it('places the disc, flips the discs that it outflanks, and passes the turn', () => {
+        place(black, 'd3');
+        expect(game.state.moves).toEqual([{ gamePiece: 'Black', ...square('d3') }]);
+        expect(game.state.discs).toContainEqual({ ...square('d4'), color: 'Black' });
+        expect(discCount('Black')).toEqual(4);
+        expect(discCount('White')).toEqual(1);
+        expect(game.state.turn).toEqual('White');
+        expect(game.state.legalMoves).toEqual(['c3', 'e3', 'c5'].map(square));
+      });
+      it('flips the discs that it outflanks in every direction at once', () => {
+        playAll('d3 c3 b3 d2 e1 d6 d7 e3');
+        place(black, 'f4');
+        expect(game.state.discs).toEqual(
+          expect.arrayContaining(
+            ['e3', 'e4', 'e5', 'f4'].map(name => ({ ...square(name), color: 'Black' })),
+          ),
+        );
+      });
+      it('throws an error if it is not the player’s turn', () => {
+        expect(() => place(white, 'c5')).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+        place(black, 'd3');
+        expect(() => place(black, 'c5')).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      });
+      it('throws an error if the square is not empty', () => {
+        expect(() => place(black, 'd4')).toThrowError(BOARD_POSITION_NOT_EMPTY_MESSAGE);
+      });
+      it('throws an error if the disc would not flip any of the opponent’s discs', () => {
+        expect(() => place(black, 'a1')).toThrowError(NO_DISCS_FLIPPED_MESSAGE);
+        expect(() => place(black, 'e3')).toThrowError(NO_DISCS_FLIPPED_MESSAGE);
+        expect(game.state.moves).toEqual([]);
+      });
+      it('throws an error if the player is not in the game', () => {
+        expect(() => place(createPlayerForTesting(), 'd3')).toThrowError(
+          PLAYER_NOT_IN_GAME_MESSAGE,
+        );
+      });
+      it('makes a player who has no legal move pass', () => {
+        playAll(BLACK_PASSES);
+        expect(game.state.turn).toEqual('White');
+        expect(game.state.passed).toEqual('Black');
+        expect(game.state.legalMoves.length).toBeGreaterThan(0);
+        expect(() => place(black, 'e6')).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+        const [next] = game.state.legalMoves;
+        game.applyMove({
+          gameID: game.id,
+          playerID: white.id,
+          move: { gamePiece: 'White', ...next },
+        });
+        expect(game.state.moves).toHaveLength(9);
+      });
+      it('ends the game once neither player has a legal move, and the player with more discs wins', () => {
+        playAll(WIPEOUT);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toEqual(black.id);
+        expect(discCount('White')).toEqual(0);
+        expect(game.state.legalMoves).toEqual([]);
+        expect(() => place(white, 'a1')).toThrowError(GAME_OVER_MESSAGE);
+      });
+      it('ends the game in a draw if both players have the same number of discs', () => {
+        playAll(DRAWN_GAME);
+        expect(game.state.status).toEqual('OVER');
+        expect(discCount('Black')).toEqual(32);
+        expect(game.state.winner).toBeUndefined();
+      });
+      it('takes back the last move, including the discs that it flipped', () => {
+        playAll('d3 c3');
+        game.undoLastMove();
+        expect(discCount('Black')).toEqual(4);
+        expect(discCount('White')).toEqual(1);
+        expect(game.state.turn).toEqual('White');
+        place(white, 'c3');
+      });
+    });
+  });
+
+  describe('isReversiMove', () => {
+    it('accepts moves with a color and a square on the board', () => {
+      expect(isReversiMove({ gamePiece: 'Black', row: 0, col: 7 })).toBe(true);
+      expect(isReversiMove({ gamePiece: 'White', row: 7, col: 0 })).toBe(true);
+    });
+    it('rejects anything else', () => {
+      expect(isReversiMove({ gamePiece: 'Red', row: 0, col: 0 })).toBe(false);
+      expect(isReversiMove({ gamePiece: 'Black', row: 8, col: 0 })).toBe(false);
+      expect(isReversiMove({ gamePiece: 'Black', row: 0 })).toBe(false);
+      expect(isReversiMove(null)).toBe(false);
+    });
+  });
+});
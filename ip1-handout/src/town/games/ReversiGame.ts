@@ -0,0 +1,310 @@
+import InvalidParametersError, {
+  BOARD_POSITION_NOT_EMPTY_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  MOVE_NOT_YOUR_TURN_MESSAGE,
+  NO_DISCS_FLIPPED_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  GameMove,
+  PlayerID,
+  ReversiColor,
+  ReversiDisc,
+  ReversiGameState,
+  ReversiGridPosition,
+  ReversiMove,
+  ReversiSquare,
+} from '../../types/CoveyTownSocket';
+import Game from './Game';
+
+export const REVERSI_BOARD_SIZE = 8;
+
+/** The eight directions that discs can be flipped in, as [rowStep, colStep] */
+const DIRECTIONS: Array<[number, number]> = [
+  [-1, -1],
+  [-1, 0],
+  [-1, 1],
+  [0, -1],
+  [0, 1],
+  [1, -1],
+  [1, 0],
+  [1, 1],
+];
+
+type ReversiBoard = Array<Array<ReversiColor | undefined>>;
+
+/**
+ * Checks that a move received from a client has the shape of a ReversiMove
+ * @param move the move to check
+ * @returns true if the move has a valid game piece and a square on the board
+ */
+export function isReversiMove(move: unknown): move is ReversiMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { gamePiece, row, col } = move as Record<string, unknown>;
+  return (
+    (gamePiece === 'Black' || gamePiece === 'White') &&
+    [row, col].every(
+      position =>
+        typeof position === 'number' &&
+        Number.isInteger(position) &&
+        position >= 0 &&
+        position < REVERSI_BOARD_SIZE,
+    )
+  );
+}
+
+function opponentOf(color: ReversiColor): ReversiColor {
+  return color === 'Black' ? 'White' : 'Black';
+}
+
+/**
+ * @returns the board at the start of a game: two discs of each color, crossed in the centre
+ */
+function startingBoard(): ReversiBoard {
+  const board: ReversiBoard = Array.from({ length: REVERSI_BOARD_SIZE }, () =>
+    Array(REVERSI_BOARD_SIZE).fill(undefined),
+  );
+  const low = REVERSI_BOARD_SIZE / 2 - 1;
+  const high = REVERSI_BOARD_SIZE / 2;
+  board[low][low] = 'White';
+  board[high][high] = 'White';
+  board[low][high] = 'Black';
+  board[high][low] = 'Black';
+  return board;
+}
+
+/**
+ * @returns the squares of the discs that a disc of the given color placed on (row, col) would flip: in
+ *  each of the eight directions, every disc of the opponent's color between it and the nearest disc of
+ *  its own color, if there are no empty squares in between
+ */
+function flippedBy(board: ReversiBoard, row: number, col: number, color: ReversiColor) {
+  return DIRECTIONS.flatMap(([rowStep, colStep]) => {
+    const line: Array<[number, number]> = [];
+    let r = row + rowStep;
+    let c = col + colStep;
+    while (board[r]?.[c] === opponentOf(color)) {
+      line.push([r, c]);
+      r += rowStep;
+      c += colStep;
+    }
+    return board[r]?.[c] === color ? line : [];
+  });
+}
+
+/**
+ * @returns every empty square that a disc of the given color can be placed on, because it would flip
+ *  at least one of the opponent's discs, in order from the top left of the board
+ */
+function legalMovesFor(board: ReversiBoard, color: ReversiColor): ReversiSquare[] {
+  const squares: ReversiSquare[] = [];
+  board.forEach((cells, row) =>
+    cells.forEach((cell, col) => {
+      if (cell === undefined && flippedBy(board, row, col, color).length > 0) {
+        squares.push({ row: row as ReversiGridPosition, col: col as ReversiGridPosition });
+      }
+    }),
+  );
+  return squares;
+}
+
+function discsOn(board: ReversiBoard): ReversiDisc[] {
+  return board.flatMap((cells, row) =>
+    cells.flatMap((color, col) =>
+      color === undefined
+        ? []
+        : [{ row: row as ReversiGridPosition, col: col as ReversiGridPosition, color }],
+    ),
+  );
+}
+
+/**
+ * A ReversiGame is a Game that implements the rules of Reversi (also known as Othello), on an 8x8 board.
+ * @see https://en.wikipedia.org/wiki/Reversi
+ */
+export default class ReversiGame extends Game<ReversiGameState, ReversiMove> {
+  /* The board, indexed by [row][col] */
+  private _board: ReversiBoard = startingBoard();
+
+  public constructor() {
+    const board = startingBoard();
+    super({
+      moves: [],
+      discs: discsOn(board),
+      turn: 'Black',
+      legalMoves: legalMovesFor(board, 'Black'),
+      status: 'WAITING_TO_START',
+    });
+  }
+
+  /*
+   * Applies a player's move to the game.
+   * Uses the player's ID to determine which color they are playing (ignores move.gamePiece)
+   * Validates the move before applying it. If the move is invalid, throws an InvalidParametersError with
+   * the error message specified below.
+   * A move is invalid if:
+   *    - The game is over (GAME_OVER_MESSAGE) or not yet in progress (GAME_NOT_IN_PROGRESS_MESSAGE)
+   *    - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *    - It is not the player's turn (MOVE_NOT_YOUR_TURN_MESSAGE). Black moves first.
+   *    - The square already has a disc on it (BOARD_POSITION_NOT_EMPTY_MESSAGE)
+   *    - The disc would not flip any of the opponent's discs (NO_DISCS_FLIPPED_MESSAGE)
+   *
+   * Places the disc and flips every disc of the opponent's that it outflanks, in all eight directions.
+   * The opponent moves next if they have a legal move; if they do not, they pass, and the same player
+   * moves again. If neither player has a legal move, updates the game's state to set the status to OVER:
+   * the player with more discs on the board wins, and if both have the same number, winner is undefined.
+   *
+   * @param move The move to apply to the game
+   * @throws InvalidParametersError if the move is invalid (with specific message noted above)
+   */
+  protected _applyMove(move: GameMove<ReversiMove>): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.status !== 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    const color = this._colorFor(move.playerID);
+    if (!color) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (move.playerID !== this._playerToMove()) {
+      throw new InvalidParametersError(MOVE_NOT_YOUR_TURN_MESSAGE);
+    }
+    const { row, col } = move.move;
+    if (this._board[row][col] !== undefined) {
+      throw new InvalidParametersError(BOARD_POSITION_NOT_EMPTY_MESSAGE);
+    }
+    const flipped = flippedBy(this._board, row, col, color);
+    if (flipped.length === 0) {
+      throw new InvalidParametersError(NO_DISCS_FLIPPED_MESSAGE);
+    }
+    this._board[row][col] = color;
+    flipped.forEach(([r, c]) => {
+      this._board[r][c] = color;
+    });
+    this.state = {
+      ...this.state,
+      moves: [...this.state.moves, { gamePiece: color, row, col }],
+      discs: discsOn(this._board),
+    };
+
+    const opponent = opponentOf(color);
+    const opponentMoves = legalMovesFor(this._board, opponent);
+    if (opponentMoves.length > 0) {
+      this._nextTurn();
+      this.state = { ...this.state, turn: opponent, legalMoves: opponentMoves, passed: undefined };
+      return;
+    }
+    const ownMoves = legalMovesFor(this._board, color);
+    if (ownMoves.length > 0) {
+      this.state = { ...this.state, legalMoves: ownMoves, passed: opponent };
+      return;
+    }
+    const count = (discColor: ReversiColor) =>
+      this.state.discs.filter(disc => disc.color === discColor).length;
+    let winner: PlayerID | undefined;
+    if (count(color) !== count(opponent)) {
+      const winningColor = count(color) > count(opponent) ? color : opponent;
+      winner = winningColor === 'Black' ? this.state.black : this.state.white;
+    }
+    this.state = { ...this.state, status: 'OVER', winner, legalMoves: [], passed: undefined };
+  }
+
+  /**
+   * Puts the starting discs back on the board, so that moves can be taken back (@see Game.undoLastMove)
+   */
+  protected _resetMoves(): void {
+    this._board = startingBoard();
+    this._firstTurn();
+    this.state = {
+      ...this.state,
+      moves: [],
+      discs: discsOn(this._board),
+      turn: 'Black',
+      legalMoves: legalMovesFor(this._board, 'Black'),
+      passed: undefined,
+      status: 'IN_PROGRESS',
+      winner: undefined,
+    };
+  }
+
+  protected _seatName(playerID: PlayerID): string {
+    return playerID === this.state.black ? 'Black' : 'White';
+  }
+
+  /**
+   * Adds a player to the game.
+   * The first player to join is black, the second is white.
+   * If the game is now full (has two players), updates the game's state to set the status to IN_PROGRESS.
+   *
+   * @param player The player to join the game
+   * @throws InvalidParametersError if the game is over (GAME_OVER_MESSAGE), the player is already
+   *  in the game (PLAYER_ALREADY_IN_GAME_MESSAGE) or the game is full (GAME_FULL_MESSAGE)
+   */
+  protected _join(player: Player): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.black === player.id || this.state.white === player.id) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    // black sits in the first seat, and so moves first
+    if (this._takeSeat(player) === 0) {
+      this.state = { ...this.state, black: player.id };
+    } else {
+      this.state = { ...this.state, white: player.id };
+    }
+    if (this.state.black && this.state.white) {
+      this.state = { ...this.state, status: 'IN_PROGRESS' };
+      this._firstTurn();
+    }
+  }
+
+  /**
+   * Removes a player from the game.
+   * If the game is in progress, the player forfeits: updates the game's status to OVER and sets
+   *   the winner to the other player.
+   * If the game has not yet started, frees the player's seat and leaves the status as WAITING_TO_START.
+   * If the game is already over, the result is left unchanged.
+   *
+   * @param player The player to remove from the game
+   * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  protected _leave(player: Player): void {
+    const { black, white, status } = this.state;
+    if (black !== player.id && white !== player.id) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    this._leaveSeat(player);
+    if (status === 'IN_PROGRESS') {
+      this.state = {
+        ...this.state,
+        status: 'OVER',
+        winner: black === player.id ? white : black,
+        legalMoves: [],
+      };
+    } else if (status === 'WAITING_TO_START') {
+      this.state = {
+        ...this.state,
+        black: black === player.id ? undefined : black,
+        white: white === player.id ? undefined : white,
+      };
+    }
+  }
+
+  private _colorFor(playerID: PlayerID): ReversiColor | undefined {
+    if (playerID === this.state.black) {
+      return 'Black';
+    }
+    if (playerID === this.state.white) {
+      return 'White';
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,109 @@
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import { createPlayerForTesting } from '../../TestUtils';
+import { INVALID_MOVE_MESSAGE, NO_DISCS_FLIPPED_MESSAGE } from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  GameInstanceID,
+  ReversiColor,
+  ReversiGridPosition,
+  TownEmitter,
+} from '../../types/CoveyTownSocket';
+import ReversiGameArea from './ReversiGameArea';
+
+describe('ReversiGameArea', () => {
+  let gameArea: ReversiGameArea;
+  let black: Player;
+  let white: Player;
+  let gameID: GameInstanceID;
+  let interactableUpdateSpy: jest.SpyInstance;
+  beforeEach(() => {
+    black = createPlayerForTesting();
+    white = createPlayerForTesting();
+    gameArea = new ReversiGameArea(
+      nanoid(),
+      { x: 0, y: 0, width: 100, height: 100 },
+      mock<TownEmitter>(),
+    );
+    gameArea.add(black);
+    gameArea.add(white);
+    gameID = gameArea.handleCommand({ type: 'JoinGame' }, black).gameID;
+    gameArea.handleCommand({ type: 'JoinGame' }, white);
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Test requires access to protected method)
+    interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+  });
+
+  function place(player: Player, gamePiece: ReversiColor, row: number, col: number) {
+    gameArea.handleCommand(
+      {
+        type: 'GameMove',
+        gameID,
+        move: { gamePiece, row: row as ReversiGridPosition, col: col as ReversiGridPosition },
+      },
+      player,
+    );
+  }
+
+  it('reports its type as ReversiArea', () => {
+    expect(gameArea.toModel().type).toEqual('ReversiArea');
+  });
+  it('takes back a move once the opponent accepts, putting the flipped discs back', () => {
+    const startingDiscs = gameArea.game?.state.discs;
+    place(black, 'Black', 2, 3);
+    gameArea.handleCommand({ type: 'RequestUndo', gameID }, black);
+    gameArea.handleCommand({ type: 'RespondUndo', gameID, accept: true }, white);
+    expect(gameArea.toModel().undoRequest?.status).toEqual('ACCEPTED');
+    expect(gameArea.game?.state).toMatchObject({ moves: [], discs: startingDiscs, turn: 'Black' });
+    expect(interactableUpdateSpy).toHaveBeenCalledTimes(3);
+  });
+  it('throws an error when the move is not a ReversiMove', () => {
+    expect(() =>
+      gameArea.handleCommand(
+        { type: 'GameMove', gameID, move: { gamePiece: 'Black', row: 8, col: 0 } as never },
+        black,
+      ),
+    ).toThrowError(INVALID_MOVE_MESSAGE);
+    expect(() => place(black, 'Black', 0, 0)).toThrowError(NO_DISCS_FLIPPED_MESSAGE);
+    expect(interactableUpdateSpy).not.toHaveBeenCalled();
+  });
+  /**
+   * Plays a short game, in which black takes every disc of white's
+   */
+  function playToEnd() {
+    [
+      [2, 3],
+      [2, 2],
+      [2, 1],
+      [1, 3],
+      [0, 4],
+      [5, 3],
+      [6, 3],
+      [2, 4],
+      [3, 5],
+    ].forEach(([row, col], index) =>
+      index % 2 === 0 ? place(black, 'Black', row, col) : place(white, 'White', row, col),
+    );
+  }
+
+  it('records the winner in the history when the game ends', () => {
+    playToEnd();
+    expect(gameArea.game?.state.status).toEqual('OVER');
+    expect(gameArea.history).toEqual([
+      { gameID, scores: { [black.userName]: 1, [white.userName]: 0 } },
+    ]);
+  });
+  it('starts a new game, on a new board, when a player joins after the game is over', () => {
+    playToEnd();
+    const newGameID = gameArea.handleCommand({ type: 'JoinGame' }, white).gameID;
+    expect(newGameID).not.toEqual(gameID);
+    expect(gameArea.game?.state).toMatchObject({
+      status: 'WAITING_TO_START',
+      moves: [],
+    });
+    expect(gameArea.game?.state.black).toEqual(white.id);
+    expect(gameArea.game?.state.white).toBeUndefined();
+    expect(gameArea.game?.state.discs).toHaveLength(4);
+    expect(gameArea.history.map(result => result.gameID)).toEqual([gameID]);
+  });
+});
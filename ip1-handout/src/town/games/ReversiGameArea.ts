@@ -0,0 +1,34 @@
+import { InteractableType, ReversiMove } from '../../types/CoveyTownSocket';
+import GameArea from './GameArea';
+import { GameRegistration } from './GameRegistry';
+import ReversiGame, { isReversiMove } from './ReversiGame';
+
+/**
+ * A ReversiGameArea is a GameArea that hosts a ReversiGame.
+ * @see ReversiGame
+ * @see GameArea
+ */
+export default class ReversiGameArea extends GameArea<ReversiGame> {
+  protected getType(): InteractableType {
+    return 'ReversiArea';
+  }
+
+  protected _createGame(): ReversiGame {
+    return new ReversiGame();
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isReversiMove(move);
+  }
+}
+
+/**
+ * Registers Reversi with the GameRegistry: map objects with `type: Reversi` host a ReversiGameArea
+ */
+export const reversiRegistration: GameRegistration<ReversiGame, ReversiMove> = {
+  gameType: 'Reversi',
+  interactableType: 'ReversiArea',
+  gameClass: ReversiGame,
+  areaClass: ReversiGameArea,
+  isValidMove: isReversiMove,
+};
@@ -0,0 +1,220 @@
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  ALREADY_CHOSEN_MESSAGE,
+  GAME_FULL_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { RockPaperScissorsChoice } from '../../types/CoveyTownSocket';
+import RockPaperScissorsGame, { isRockPaperScissorsMove } from './RockPaperScissorsGame';
+
+describe('RockPaperScissorsGame', () => {
+  let game: RockPaperScissorsGame;
+  let player1: Player;
+  let player2: Player;
+
+  beforeEach(() => {
+    game = new RockPaperScissorsGame();
+    player1 = createPlayerForTesting();
+    player2 = createPlayerForTesting();
+  });
+
+  function choose(player: Player, choice: RockPaperScissorsChoice) {
+    game.applyMove({ gameID: game.id, playerID: player.id, move: { choice } });
+  }
+
+  /**
+   * Plays a round with the given choices for player1 and player2
+   */
+  function playRound(choice1: RockPaperScissorsChoice, choice2: RockPaperScissorsChoice) {
+    choose(player1, choice1);
+    choose(player2, choice2);
+  }
+
+  it('is played over three rounds unless told otherwise', () => {
+    expect(game.state.bestOf).toEqual(3);
+    expect(new RockPaperScissorsGame(5).state.bestOf).toEqual(5);
+  });
+  it('throws an error if the number of rounds is not a positive odd integer', () => {
+    expect(() => new RockPaperScissorsGame(0)).toThrowError();
+    expect(() => new RockPaperScissorsGame(4)).toThrowError();
+    expect(() => new RockPaperScissorsGame(2.5)).toThrowError();
+  });
+
+  describe('_join', () => {
+    it('makes the first player player1 and leaves the game waiting to start', () => {
+      game.join(player1);
+      expect(game.state.player1).toEqual(player1.id);
+      expect(game.state.player2).toBeUndefined();
+      expect(game.state.status).toEqual('WAITING_TO_START');
+    });
+    it('makes the second player player2 and starts the game', () => {
+      game.join(player1);
+      game.join(player2);
+      expect(game.state.player2).toEqual(player2.id);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+    });
+    it('throws an error if the player is already in the game', () => {
+      game.join(player1);
+      expect(() => game.join(player1)).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the game is full', () => {
+      game.join(player1);
+      game.join(player2);
+      expect(() => game.join(createPlayerForTesting())).toThrowError(GAME_FULL_MESSAGE);
+    });
+    it('throws an error if the game is over', () => {
+      game.join(player1);
+      game.join(player2);
+      game.leave(player1);
+      expect(() => game.join(createPlayerForTesting())).toThrowError(GAME_OVER_MESSAGE);
+    });
+  });
+
+  describe('_leave', () => {
+    it('throws an error if the player is not in the game', () => {
+      game.join(player1);
+      expect(() => game.leave(player2)).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('frees the seat if the game has not started', () => {
+      game.join(player1);
+      game.leave(player1);
+      expect(game.state.player1).toBeUndefined();
+      expect(game.state.status).toEqual('WAITING_TO_START');
+      game.join(player2);
+      expect(game.state.player1).toEqual(player2.id);
+    });
+    it('ends the game with the other player as the winner if the game is in progress', () => {
+      game.join(player1);
+      game.join(player2);
+      choose(player1, 'Rock');
+      game.leave(player2);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toEqual(player1.id);
+    });
+  });
+
+  describe('applyMove', () => {
+    it('throws an error if the game has not started', () => {
+      game.join(player1);
+      expect(() => choose(player1, 'Rock')).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    describe('when the game is in progress', () => {
+      beforeEach(() => {
+        game.join(player1);
+        game.join(player2);
+      });
+      it('lets either player choose first, recording who has chosen', () => {
+        choose(player2, 'Paper');
+        expect(game.state.chosen).toEqual([player2.id]);
+        expect(game.state.choices).toEqual({ [player2.id]: 'Paper' });
+        expect(game.state.rounds).toEqual([]);
+      });
+      it('throws an error if the player has already chosen in this round', () => {
+        choose(player1, 'Rock');
+        expect(() => choose(player1, 'Paper')).toThrowError(ALREADY_CHOSEN_MESSAGE);
+        expect(game.state.choices).toEqual({ [player1.id]: 'Rock' });
+      });
+      it('throws an error if the player is not in the game', () => {
+        expect(() =>
+          game.applyMove({
+            gameID: game.id,
+            playerID: createPlayerForTesting().id,
+            move: { choice: 'Rock' },
+          }),
+        ).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+      });
+      it('reveals both choices once both players have chosen, and starts the next round', () => {
+        playRound('Rock', 'Scissors');
+        expect(game.state.rounds).toEqual([
+          { choices: { [player1.id]: 'Rock', [player2.id]: 'Scissors' }, winner: player1.id },
+        ]);
+        expect(game.state.chosen).toEqual([]);
+        expect(game.state.choices).toEqual({});
+        expect(game.state.status).toEqual('IN_PROGRESS');
+      });
+      it('awards each round to the player whose choice beats the other’s', () => {
+        playRound('Scissors', 'Paper');
+        playRound('Scissors', 'Rock');
+        playRound('Rock', 'Paper');
+        expect(game.state.rounds.map(round => round.winner)).toEqual([
+          player1.id,
+          player2.id,
+          player2.id,
+        ]);
+      });
+      it('records ties without a winner, and does not count them', () => {
+        playRound('Rock', 'Rock');
+        playRound('Paper', 'Rock');
+        playRound('Paper', 'Paper');
+        expect(game.state.rounds).toHaveLength(3);
+        expect(game.state.rounds[0].winner).toBeUndefined();
+        expect(game.state.status).toEqual('IN_PROGRESS');
+      });
+      it('ends the game once a player has won a majority of the rounds', () => {
+        playRound('Paper', 'Rock');
+        playRound('Paper', 'Scissors');
+        expect(game.state.status).toEqual('IN_PROGRESS');
+        playRound('Rock', 'Scissors');
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toEqual(player1.id);
+      });
+      it('ends a best-of-one game after the first round that is won', () => {
+        game = new RockPaperScissorsGame(1);
+        game.join(player1);
+        game.join(player2);
+        playRound('Rock', 'Rock');
+        playRound('Rock', 'Paper');
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toEqual(player2.id);
+      });
+      it('throws an error if the game is over', () => {
+        playRound('Paper', 'Rock');
+        playRound('Paper', 'Rock');
+        expect(() => choose(player1, 'Rock')).toThrowError(GAME_OVER_MESSAGE);
+      });
+    });
+  });
+
+  describe('toModel', () => {
+    let spectator: Player;
+    beforeEach(() => {
+      spectator = createPlayerForTesting();
+      game.join(player1);
+      game.join(player2);
+      game.spectate(spectator);
+    });
+    it('shows each player only their own choice until both players have chosen', () => {
+      choose(player1, 'Scissors');
+      expect(game.toModel(player1.id).state.choices).toEqual({ [player1.id]: 'Scissors' });
+      expect(game.toModel(player2.id).state.choices).toEqual({});
+      expect(game.toModel(spectator.id).state.choices).toEqual({});
+      expect(game.toModel().state.choices).toEqual({});
+      expect(game.toModel(player2.id).state.chosen).toEqual([player1.id]);
+    });
+    it('shows everyone both choices once they are revealed', () => {
+      playRound('Scissors', 'Paper');
+      choose(player2, 'Rock');
+      const { rounds, choices } = game.toModel(spectator.id).state;
+      expect(rounds[0].choices).toEqual({ [player1.id]: 'Scissors', [player2.id]: 'Paper' });
+      expect(choices).toEqual({});
+    });
+  });
+
+  describe('isRockPaperScissorsMove', () => {
+    it('accepts moves with a choice of rock, paper or scissors', () => {
+      expect(isRockPaperScissorsMove({ choice: 'Rock' })).toBe(true);
+      expect(isRockPaperScissorsMove({ choice: 'Paper' })).toBe(true);
+      expect(isRockPaperScissorsMove({ choice: 'Scissors' })).toBe(true);
+    });
+    it('rejects anything else', () => {
+      expect(isRockPaperScissorsMove({ choice: 'Lizard' })).toBe(false);
+      expect(isRockPaperScissorsMove({})).toBe(false);
+      expect(isRockPaperScissorsMove('Rock')).toBe(false);
+      expect(isRockPaperScissorsMove(null)).toBe(false);
+    });
+  });
+});
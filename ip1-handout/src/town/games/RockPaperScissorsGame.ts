@@ -0,0 +1,199 @@
+import InvalidParametersError, {
+  ALREADY_CHOSEN_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  GameMove,
+  PlayerID,
+  RockPaperScissorsChoice,
+  RockPaperScissorsGameState,
+  RockPaperScissorsMove,
+} from '../../types/CoveyTownSocket';
+import Game from './Game';
+
+export const ROCK_PAPER_SCISSORS_CHOICES: RockPaperScissorsChoice[] = ['Rock', 'Paper', 'Scissors'];
+
+/** The choice that each choice beats */
+const beats: Record<RockPaperScissorsChoice, RockPaperScissorsChoice> = {
+  Rock: 'Scissors',
+  Paper: 'Rock',
+  Scissors: 'Paper',
+};
+
+/**
+ * Checks that a move received from a client has the shape of a RockPaperScissorsMove
+ * @param move the move to check
+ * @returns true if the move has a valid choice
+ */
+export function isRockPaperScissorsMove(move: unknown): move is RockPaperScissorsMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { choice } = move as Record<string, unknown>;
+  return ROCK_PAPER_SCISSORS_CHOICES.includes(choice as RockPaperScissorsChoice);
+}
+
+/**
+ * A RockPaperScissorsGame is a Game that implements the rules of Rock-Paper-Scissors, played over
+ * a number of rounds. Rock beats scissors, scissors beats paper, and paper beats rock.
+ *
+ * Both players choose at the same time, so it is never one player's turn (and the game can not be played
+ * with time controls). A player's choice is kept from everyone else until both players have chosen
+ * (@see _stateFor), and then both are revealed together.
+ * @see https://en.wikipedia.org/wiki/Rock_paper_scissors
+ */
+export default class RockPaperScissorsGame extends Game<
+  RockPaperScissorsGameState,
+  RockPaperScissorsMove
+> {
+  /**
+   * Creates a new RockPaperScissorsGame
+   *
+   * @param bestOf the number of rounds that the game is played over: the first player to win a majority
+   *  of them wins the game
+   * @throws Error if bestOf is not a positive odd integer
+   */
+  public constructor(bestOf = 3) {
+    if (!Number.isInteger(bestOf) || bestOf < 1 || bestOf % 2 === 0) {
+      throw new Error(`Invalid number of rounds: ${bestOf}`);
+    }
+    super({
+      bestOf,
+      rounds: [],
+      chosen: [],
+      choices: {},
+      status: 'WAITING_TO_START',
+    });
+  }
+
+  /*
+   * Applies a player's choice for the round being played.
+   * Validates the move before applying it. If the move is invalid, throws an InvalidParametersError with
+   * the error message specified below.
+   * A move is invalid if:
+   *    - The game is over (GAME_OVER_MESSAGE) or not yet in progress (GAME_NOT_IN_PROGRESS_MESSAGE)
+   *    - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *    - The player has already chosen in this round (ALREADY_CHOSEN_MESSAGE)
+   *
+   * Once both players have chosen, the round is added to the rounds played, with the player whose choice
+   * beats the other's as its winner (or no winner if both made the same choice), and the next round begins.
+   * If the winner of the round has now won a majority of the game's rounds, updates the game's state to set
+   * the status to OVER and sets the winner to that player.
+   *
+   * @param move The move to apply to the game
+   * @throws InvalidParametersError if the move is invalid (with specific message noted above)
+   */
+  protected _applyMove(move: GameMove<RockPaperScissorsMove>): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.status !== 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    const { player1, player2, chosen, bestOf } = this.state;
+    if (move.playerID !== player1 && move.playerID !== player2) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (chosen.includes(move.playerID)) {
+      throw new InvalidParametersError(ALREADY_CHOSEN_MESSAGE);
+    }
+    const choices = { ...this.state.choices, [move.playerID]: move.move.choice };
+    if (chosen.length === 0) {
+      this.state = { ...this.state, chosen: [move.playerID], choices };
+      return;
+    }
+
+    const choice1 = choices[player1 as PlayerID];
+    const choice2 = choices[player2 as PlayerID];
+    let winner: PlayerID | undefined;
+    if (beats[choice1] === choice2) {
+      winner = player1;
+    } else if (beats[choice2] === choice1) {
+      winner = player2;
+    }
+    const rounds = [...this.state.rounds, { choices, winner }];
+    this.state = { ...this.state, rounds, chosen: [], choices: {} };
+    if (winner && rounds.filter(round => round.winner === winner).length > bestOf / 2) {
+      this.state = { ...this.state, status: 'OVER', winner };
+    }
+  }
+
+  /**
+   * Both players choose at the same time, so it is never one player's turn
+   */
+  protected _playerToMove(): PlayerID | undefined {
+    return undefined;
+  }
+
+  /**
+   * Keeps the choices made in the round being played from everyone but the players who made them
+   */
+  protected _stateFor(viewer?: PlayerID): RockPaperScissorsGameState {
+    const { choices } = this.state;
+    return {
+      ...this.state,
+      choices: viewer !== undefined && choices[viewer] ? { [viewer]: choices[viewer] } : {},
+    };
+  }
+
+  /**
+   * Adds a player to the game.
+   * The first player to join is player1, the second is player2.
+   * If the game is now full (has two players), updates the game's state to set the status to IN_PROGRESS.
+   *
+   * @param player The player to join the game
+   * @throws InvalidParametersError if the game is over (GAME_OVER_MESSAGE), the player is already
+   *  in the game (PLAYER_ALREADY_IN_GAME_MESSAGE) or the game is full (GAME_FULL_MESSAGE)
+   */
+  protected _join(player: Player): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.player1 === player.id || this.state.player2 === player.id) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    if (this._takeSeat(player) === 0) {
+      this.state = { ...this.state, player1: player.id };
+    } else {
+      this.state = { ...this.state, player2: player.id };
+    }
+    if (this.state.player1 && this.state.player2) {
+      this.state = { ...this.state, status: 'IN_PROGRESS' };
+    }
+  }
+
+  /**
+   * Removes a player from the game.
+   * If the game is in progress, the player forfeits: updates the game's status to OVER and sets
+   *   the winner to the other player.
+   * If the game has not yet started, frees the player's seat and leaves the status as WAITING_TO_START.
+   * If the game is already over, the result is left unchanged.
+   *
+   * @param player The player to remove from the game
+   * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  protected _leave(player: Player): void {
+    const { player1, player2, status } = this.state;
+    if (player1 !== player.id && player2 !== player.id) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    this._leaveSeat(player);
+    if (status === 'IN_PROGRESS') {
+      this.state = {
+        ...this.state,
+        status: 'OVER',
+        winner: player1 === player.id ? player2 : player1,
+      };
+    } else if (status === 'WAITING_TO_START') {
+      this.state = {
+        ...this.state,
+        player1: player1 === player.id ? undefined : player1,
+        player2: player2 === player.id ? undefined : player2,
+      };
+    }
+  }
+}
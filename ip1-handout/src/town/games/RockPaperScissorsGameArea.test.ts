@@ -0,0 +1,129 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import { createPlayerForTesting } from '../../TestUtils';
+import { INVALID_MOVE_MESSAGE } from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { GameInstanceID, RockPaperScissorsChoice, TownEmitter } from '../../types/CoveyTownSocket';
+import RockPaperScissorsGameArea, { DEFAULT_BEST_OF } from './RockPaperScissorsGameArea';
+
+function createArea(bestOf?: unknown) {
+  return new RockPaperScissorsGameArea(
+    nanoid(),
+    { x: 0, y: 0, width: 100, height: 100 },
+    mock<TownEmitter>(),
+    bestOf === undefined
+      ? undefined
+      : ({
+          id: 1,
+          name: 'Game',
+          x: 0,
+          y: 0,
+          width: 100,
+          height: 100,
+          rotation: 0,
+          type: 'GameArea',
+          visible: true,
+          properties: [{ name: 'bestOf', type: 'int', value: bestOf }],
+        } as ITiledMapObject),
+  );
+}
+
+describe('RockPaperScissorsGameArea', () => {
+  let gameArea: RockPaperScissorsGameArea;
+  let player1: Player;
+  let player2: Player;
+  let gameID: GameInstanceID;
+  let interactableUpdateSpy: jest.SpyInstance;
+  beforeEach(() => {
+    player1 = createPlayerForTesting();
+    player2 = createPlayerForTesting();
+    gameArea = createArea();
+    gameArea.add(player1);
+    gameArea.add(player2);
+    gameID = gameArea.handleCommand({ type: 'JoinGame' }, player1).gameID;
+    gameArea.handleCommand({ type: 'JoinGame' }, player2);
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Test requires access to protected method)
+    interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+  });
+
+  function choose(player: Player, choice: RockPaperScissorsChoice) {
+    gameArea.handleCommand({ type: 'GameMove', gameID, move: { choice } }, player);
+  }
+
+  it('reports its type as RockPaperScissorsArea', () => {
+    expect(gameArea.toModel().type).toEqual('RockPaperScissorsArea');
+  });
+  it('plays games over the number of rounds set by the map object', () => {
+    expect(gameArea.game?.state.bestOf).toEqual(DEFAULT_BEST_OF);
+    const area = createArea(5);
+    area.handleCommand({ type: 'JoinGame' }, player1);
+    expect(area.game?.state.bestOf).toEqual(5);
+  });
+  it('throws an error if bestOf is not a positive odd integer', () => {
+    expect(() => createArea(2)).toThrowError();
+    expect(() => createArea(-1)).toThrowError();
+    expect(() => createArea('three')).toThrowError();
+  });
+  it('throws an error when the move is not a RockPaperScissorsMove', () => {
+    expect(() =>
+      gameArea.handleCommand(
+        { type: 'GameMove', gameID, move: { choice: 'Lizard' } as never },
+        player1,
+      ),
+    ).toThrowError(INVALID_MOVE_MESSAGE);
+    expect(interactableUpdateSpy).not.toHaveBeenCalled();
+  });
+  it('keeps a choice out of the models of everyone but the player who made it', () => {
+    choose(player1, 'Rock');
+    const choicesFor = (viewer?: Player) => gameArea.toModel(viewer?.id).game?.state.choices;
+    expect(choicesFor(player1)).toEqual({ [player1.id]: 'Rock' });
+    expect(choicesFor(player2)).toEqual({});
+    expect(choicesFor()).toEqual({});
+    expect(gameArea.toModel(player2.id).game?.state.chosen).toEqual([player1.id]);
+  });
+  it('shows both choices to everyone once the round has been played', () => {
+    choose(player1, 'Rock');
+    choose(player2, 'Scissors');
+    const round = {
+      choices: { [player1.id]: 'Rock', [player2.id]: 'Scissors' },
+      winner: player1.id,
+    };
+    expect(gameArea.toModel(player2.id).game?.state.rounds).toEqual([round]);
+    expect(gameArea.toModel().game?.state.rounds).toEqual([round]);
+    expect(gameArea.toModel().game?.state.choices).toEqual({});
+  });
+  /**
+   * Plays a game that player2 wins by two rounds to one
+   */
+  function playToEnd() {
+    choose(player1, 'Rock');
+    choose(player2, 'Paper');
+    choose(player2, 'Scissors');
+    choose(player1, 'Rock');
+    expect(gameArea.history).toEqual([]);
+    choose(player1, 'Rock');
+    choose(player2, 'Paper');
+  }
+
+  it('records the winner in the history when the game ends', () => {
+    playToEnd();
+    expect(gameArea.game?.state.status).toEqual('OVER');
+    expect(gameArea.history).toEqual([
+      { gameID, scores: { [player1.userName]: 0, [player2.userName]: 1 } },
+    ]);
+  });
+  it('starts a new game, over as many rounds, when a player joins after the game is over', () => {
+    playToEnd();
+    const newGameID = gameArea.handleCommand({ type: 'JoinGame' }, player2).gameID;
+    expect(newGameID).not.toEqual(gameID);
+    expect(gameArea.game?.state).toMatchObject({
+      status: 'WAITING_TO_START',
+      bestOf: DEFAULT_BEST_OF,
+      player1: player2.id,
+      rounds: [],
+    });
+    expect(gameArea.history.map(result => result.gameID)).toEqual([gameID]);
+  });
+});
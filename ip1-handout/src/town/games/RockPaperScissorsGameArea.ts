@@ -0,0 +1,78 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import Clock, { systemClock } from '../../lib/Clock';
+import {
+  BoundingBox,
+  InteractableID,
+  InteractableType,
+  RockPaperScissorsMove,
+  TownEmitter,
+} from '../../types/CoveyTownSocket';
+import GameArea from './GameArea';
+import { GameRegistration } from './GameRegistry';
+import RockPaperScissorsGame, { isRockPaperScissorsMove } from './RockPaperScissorsGame';
+
+/** The number of rounds that games are played over, unless the map object says otherwise */
+export const DEFAULT_BEST_OF = 3;
+
+/**
+ * A RockPaperScissorsGameArea is a GameArea that hosts a RockPaperScissorsGame.
+ * @see RockPaperScissorsGame
+ * @see GameArea
+ */
+export default class RockPaperScissorsGameArea extends GameArea<RockPaperScissorsGame> {
+  private _bestOf: number;
+
+  /**
+   * Creates a new RockPaperScissorsGameArea
+   *
+   * @param id unique ID for this area
+   * @param boundingBox the bounding box that defines this area
+   * @param townEmitter a broadcast emitter that can be used to emit updates to players
+   * @param mapObject the map object that this area was created from. If it has a `bestOf` property,
+   *  the games played in this area are played over that many rounds (by default, DEFAULT_BEST_OF)
+   * @param clock the clock that time controls are measured with (@see GameArea)
+   * @throws Error if the `bestOf` property is not a positive odd integer
+   */
+  public constructor(
+    id: InteractableID,
+    boundingBox: BoundingBox,
+    townEmitter: TownEmitter,
+    mapObject?: ITiledMapObject,
+    clock: Clock = systemClock,
+  ) {
+    super(id, boundingBox, townEmitter, mapObject, clock);
+    const bestOf =
+      mapObject?.properties?.find(prop => prop.name === 'bestOf')?.value ?? DEFAULT_BEST_OF;
+    if (typeof bestOf !== 'number' || !Number.isInteger(bestOf) || bestOf < 1 || bestOf % 2 === 0) {
+      throw new Error(`Malformed game area ${id}: bestOf must be a positive odd integer`);
+    }
+    this._bestOf = bestOf;
+  }
+
+  protected getType(): InteractableType {
+    return 'RockPaperScissorsArea';
+  }
+
+  protected _createGame(): RockPaperScissorsGame {
+    return new RockPaperScissorsGame(this._bestOf);
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isRockPaperScissorsMove(move);
+  }
+}
+
+/**
+ * Registers Rock-Paper-Scissors with the GameRegistry: map objects with `type: RockPaperScissors` host
+ * a RockPaperScissorsGameArea
+ */
+export const rockPaperScissorsRegistration: GameRegistration<
+  RockPaperScissorsGame,
+  RockPaperScissorsMove
+> = {
+  gameType: 'RockPaperScissors',
+  interactableType: 'RockPaperScissorsArea',
+  gameClass: RockPaperScissorsGame,
+  areaClass: RockPaperScissorsGameArea,
+  isValidMove: isRockPaperScissorsMove,
+};
@@ -0,0 +1,174 @@
+import { mock } from 'jest-mock-extended';
+import { createPlayerForTesting } from '../../TestUtils';
+import {
+  BotDifficulty,
+  TicTacToeGameState,
+  TicTacToeGridPosition,
+  TicTacToeMove,
+  TownEmitter,
+} from '../../types/CoveyTownSocket';
+import TicTacToeBot, { isBot } from './TicTacToeBot';
+import TicTacToeGame from './TicTacToeGame';
+
+/**
+ * Creates a game state from a list of [row, col] squares, played alternately by X and O (starting with X)
+ */
+function stateWithMoves(squares: Array<[number, number]>): TicTacToeGameState {
+  const moves: TicTacToeMove[] = squares.map(([row, col], index) => ({
+    gamePiece: index % 2 === 0 ? 'X' : 'O',
+    row: row as TicTacToeGridPosition,
+    col: col as TicTacToeGridPosition,
+  }));
+  return { moves, status: 'IN_PROGRESS' };
+}
+
+describe('TicTacToeBot', () => {
+  function createBot(difficulty: BotDifficulty, random: () => number = () => 0) {
+    return new TicTacToeBot(difficulty, mock<TownEmitter>(), random);
+  }
+
+  describe('identity', () => {
+    it('has a player ID that is recognizable as a bot', () => {
+      const bot = createBot('easy');
+      expect(isBot(bot.id)).toBe(true);
+      expect(bot.userName).toContain('Bot');
+      expect(isBot(createPlayerForTesting().id)).toBe(false);
+    });
+    it('has a different player ID from every other bot', () => {
+      expect(createBot('hard').id).not.toEqual(createBot('hard').id);
+    });
+  });
+
+  describe('chooseMove', () => {
+    it('plays the game piece whose turn it is', () => {
+      expect(createBot('easy').chooseMove(stateWithMoves([])).gamePiece).toEqual('X');
+      expect(createBot('easy').chooseMove(stateWithMoves([[1, 1]])).gamePiece).toEqual('O');
+    });
+    it('only chooses empty squares', () => {
+      const state = stateWithMoves([
+        [0, 0],
+        [0, 1],
+        [0, 2],
+        [1, 0],
+      ]);
+      [0, 0.2, 0.4, 0.6, 0.8, 0.99].forEach(randomValue => {
+        const move = createBot('easy', () => randomValue).chooseMove(state);
+        expect(state.moves.some(m => m.row === move.row && m.col === move.col)).toBe(false);
+      });
+    });
+    it('throws an error if the board is full', () => {
+      const state = stateWithMoves([
+        [0, 0],
+        [0, 1],
+        [0, 2],
+        [1, 1],
+        [1, 0],
+        [1, 2],
+        [2, 1],
+        [2, 0],
+        [2, 2],
+      ]);
+      expect(() => createBot('hard').chooseMove(state)).toThrowError();
+    });
+    describe('at medium difficulty', () => {
+      it('completes a line of three when it can', () => {
+        // X at (0,0) and (0,1), O at (1,0) and (1,1): X to move wins at (0,2)
+        const move = createBot('medium').chooseMove(
+          stateWithMoves([
+            [0, 0],
+            [1, 0],
+            [0, 1],
+            [1, 1],
+          ]),
+        );
+        expect([move.row, move.col]).toEqual([0, 2]);
+      });
+      it('blocks the opponent from completing a line of three', () => {
+        // X at (0,0) and (0,1), O at (1,1): O to move must block at (0,2)
+        const move = createBot('medium').chooseMove(
+          stateWithMoves([
+            [0, 0],
+            [1, 1],
+            [0, 1],
+          ]),
+        );
+        expect([move.row, move.col]).toEqual([0, 2]);
+      });
+      it('takes the center when nothing else is urgent', () => {
+        const move = createBot('medium').chooseMove(stateWithMoves([[0, 0]]));
+        expect([move.row, move.col]).toEqual([1, 1]);
+      });
+      it('takes a corner when the center is taken', () => {
+        const move = createBot('medium', () => 0.99).chooseMove(stateWithMoves([[1, 1]]));
+        expect(move.row).not.toEqual(1);
+        expect(move.col).not.toEqual(1);
+      });
+    });
+    describe('at hard difficulty', () => {
+      it('prefers winning to blocking', () => {
+        // X: (0,0),(0,1); O: (1,0),(1,1); X to move. O threatens (1,2), but X wins at (0,2)
+        const move = createBot('hard').chooseMove(
+          stateWithMoves([
+            [0, 0],
+            [1, 0],
+            [0, 1],
+            [1, 1],
+          ]),
+        );
+        expect([move.row, move.col]).toEqual([0, 2]);
+      });
+      it('blocks a fork by playing an edge against opposite corners', () => {
+        // X in opposite corners and O in the center: O must play an edge, or X can fork
+        const move = createBot('hard').chooseMove(
+          stateWithMoves([
+            [0, 0],
+            [1, 1],
+            [2, 2],
+          ]),
+        );
+        expect((move.row + move.col) % 2).toEqual(1);
+      });
+      it('never loses against every possible opponent', () => {
+        // Explore every sequence of opponent moves, with the bot playing O
+        const explore = (state: TicTacToeGameState) => {
+          const game = new TicTacToeGame();
+          const x = createPlayerForTesting();
+          const o = createPlayerForTesting();
+          game.join(x);
+          game.join(o);
+          game.setReady(x);
+          game.setReady(o);
+          state.moves.forEach((move, index) =>
+            game.applyMove({
+              gameID: game.id,
+              playerID: index % 2 === 0 ? x.id : o.id,
+              move,
+            }),
+          );
+          if (game.state.status === 'OVER') {
+            expect(game.state.winner).not.toEqual(x.id);
+            return;
+          }
+          if (state.moves.length % 2 === 1) {
+            const botMove = createBot('hard').chooseMove(state);
+            explore({ ...state, moves: [...state.moves, botMove] });
+            return;
+          }
+          for (let row = 0; row < 3; row++) {
+            for (let col = 0; col < 3; col++) {
+              if (!state.moves.some(m => m.row === row && m.col === col)) {
+                const move: TicTacToeMove = {
+                  gamePiece: 'X',
+                  row: row as TicTacToeGridPosition,
+                  col: col as TicTacToeGridPosition,
+                };
+                explore({ ...state, moves: [...state.moves, move] });
+              }
+            }
+          }
+        };
+        explore(stateWithMoves([]));
+      });
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { nanoid } from 'nanoid';
+import Player from '../../lib/Player';
+import {
+  BotDifficulty,
+  PlayerID,
+  TicTacToeGameState,
+  TicTacToeGridPosition,
+  TicTacToeMove,
+  TownEmitter,
+} from '../../types/CoveyTownSocket';
+
+export const BOT_ID_PREFIX = 'bot-';
+
+type GamePiece = 'X' | 'O';
+type Board = Array<Array<'' | GamePiece>>;
+
+const LINES: Array<Array<[number, number]>> = [
+  [
+    [0, 0],
+    [0, 1],
+    [0, 2],
+  ],
+  [
+    [1, 0],
+    [1, 1],
+    [1, 2],
+  ],
+  [
+    [2, 0],
+    [2, 1],
+    [2, 2],
+  ],
+  [
+    [0, 0],
+    [1, 0],
+    [2, 0],
+  ],
+  [
+    [0, 1],
+    [1, 1],
+    [2, 1],
+  ],
+  [
+    [0, 2],
+    [1, 2],
+    [2, 2],
+  ],
+  [
+    [0, 0],
+    [1, 1],
+    [2, 2],
+  ],
+  [
+    [0, 2],
+    [1, 1],
+    [2, 0],
+  ],
+];
+
+/**
+ * Checks whether a player ID belongs to a bot
+ * @param playerID the player ID to check
+ */
+export function isBot(playerID: PlayerID): boolean {
+  return playerID.startsWith(BOT_ID_PREFIX);
+}
+
+function boardFromMoves(moves: ReadonlyArray<TicTacToeMove>): Board {
+  const board: Board = [
+    ['', '', ''],
+    ['', '', ''],
+    ['', '', ''],
+  ];
+  // X always moves first, so the game piece of each move is determined by its position in the list
+  moves.forEach((move, index) => {
+    board[move.row][move.col] = index % 2 === 0 ? 'X' : 'O';
+  });
+  return board;
+}
+
+function emptySquares(board: Board): Array<[number, number]> {
+  const squares: Array<[number, number]> = [];
+  board.forEach((row, rowIndex) =>
+    row.forEach((square, colIndex) => {
+      if (square === '') {
+        squares.push([rowIndex, colIndex]);
+      }
+    }),
+  );
+  return squares;
+}
+
+function winnerOf(board: Board): GamePiece | undefined {
+  const winningLine = LINES.find(line => {
+    const [first, ...rest] = line.map(([row, col]) => board[row][col]);
+    return first !== '' && rest.every(square => square === first);
+  });
+  if (!winningLine) {
+    return undefined;
+  }
+  const [row, col] = winningLine[0];
+  return board[row][col] as GamePiece;
+}
+
+function opponentOf(gamePiece: GamePiece): GamePiece {
+  return gamePiece === 'X' ? 'O' : 'X';
+}
+
+/**
+ * Finds a square that would complete a line of three for the given game piece
+ */
+function winningSquare(board: Board, gamePiece: GamePiece): [number, number] | undefined {
+  return emptySquares(board).find(([row, col]) => {
+    board[row][col] = gamePiece;
+    const wins = winnerOf(board) === gamePiece;
+    board[row][col] = '';
+    return wins;
+  });
+}
+
+/**
+ * Scores the board from the point of view of `gamePiece`, assuming that both players play perfectly
+ * from here on: positive if `gamePiece` wins (sooner wins score higher), negative if it loses, 0 for a draw
+ */
+function minimax(board: Board, gamePiece: GamePiece, toMove: GamePiece, depth: number): number {
+  const winner = winnerOf(board);
+  if (winner) {
+    return winner === gamePiece ? 10 - depth : depth - 10;
+  }
+  const squares = emptySquares(board);
+  if (squares.length === 0) {
+    return 0;
+  }
+  const scores = squares.map(([row, col]) => {
+    board[row][col] = toMove;
+    const score = minimax(board, gamePiece, opponentOf(toMove), depth + 1);
+    board[row][col] = '';
+    return score;
+  });
+  return toMove === gamePiece ? Math.max(...scores) : Math.min(...scores);
+}
+
+/**
+ * A TicTacToeBot is a computer player that can be seated in a TicTacToeGame.
+ * Its player ID starts with BOT_ID_PREFIX, so that clients can recognize it in GameInstance.players.
+ *
+ * Bots choose their moves according to their difficulty:
+ * - easy: a random empty square
+ * - medium: wins if it can, blocks the opponent if it must, and otherwise prefers the center, then corners
+ * - hard: a perfect move found by minimax search
+ */
+export default class TicTacToeBot extends Player {
+  public readonly difficulty: BotDifficulty;
+
+  private _random: () => number;
+
+  /**
+   * Creates a new bot
+   * @param difficulty how well the bot plays
+   * @param townEmitter an emitter for the town that the bot is playing in
+   * @param random a source of random numbers in [0, 1), used to break ties between equally good moves
+   */
+  public constructor(
+    difficulty: BotDifficulty,
+    townEmitter: TownEmitter,
+    random: () => number = Math.random,
+  ) {
+    super(`TicTacToe Bot (${difficulty})`, townEmitter, `${BOT_ID_PREFIX}${nanoid()}`);
+    this.difficulty = difficulty;
+    this._random = random;
+  }
+
+  /**
+   * Chooses the bot's next move
+   * @param state the state of the game, in which it must be the bot's turn
+   * @returns the move to make
+   * @throws Error if there is no empty square left on the board
+   */
+  public chooseMove(state: TicTacToeGameState): TicTacToeMove {
+    const board = boardFromMoves(state.moves);
+    const gamePiece: GamePiece = state.moves.length % 2 === 0 ? 'X' : 'O';
+    const squares = emptySquares(board);
+    if (squares.length === 0) {
+      throw new Error('No moves left on the board');
+    }
+    let chosen: [number, number];
+    if (this.difficulty === 'easy') {
+      chosen = this._pickRandom(squares);
+    } else if (this.difficulty === 'medium') {
+      chosen =
+        winningSquare(board, gamePiece) ||
+        winningSquare(board, opponentOf(gamePiece)) ||
+        this._preferredSquare(squares);
+    } else {
+      const scores = squares.map(([row, col]) => {
+        board[row][col] = gamePiece;
+        const score = minimax(board, gamePiece, opponentOf(gamePiece), 1);
+        board[row][col] = '';
+        return score;
+      });
+      const bestScore = Math.max(...scores);
+      chosen = this._pickRandom(squares.filter((_, index) => scores[index] === bestScore));
+    }
+    const [row, col] = chosen;
+    return {
+      gamePiece,
+      row: row as TicTacToeGridPosition,
+      col: col as TicTacToeGridPosition,
+    };
+  }
+
+  private _preferredSquare(squares: Array<[number, number]>): [number, number] {
+    const center = squares.find(([row, col]) => row === 1 && col === 1);
+    if (center) {
+      return center;
+    }
+    const corners = squares.filter(([row, col]) => row !== 1 && col !== 1);
+    return this._pickRandom(corners.length > 0 ? corners : squares);
+  }
+
+  private _pickRandom<T>(choices: T[]): T {
+    return choices[Math.floor(this._random() * choices.length)];
+  }
+}
@@ -3,14 +3,16 @@ import {
   BOARD_POSITION_NOT_EMPTY_MESSAGE,
   GAME_FULL_MESSAGE,
   GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_NOT_WAITING_FOR_READY_MESSAGE,
   GAME_OVER_MESSAGE,
   MOVE_NOT_YOUR_TURN_MESSAGE,
+  NO_MOVE_TO_UNDO_MESSAGE,
   PLAYER_ALREADY_IN_GAME_MESSAGE,
   PLAYER_NOT_IN_GAME_MESSAGE,
 } from '../../lib/InvalidParametersError';
 import Player from '../../lib/Player';
 import { TicTacToeMove } from '../../types/CoveyTownSocket';
-import TicTacToeGame from './TicTacToeGame';
+import TicTacToeGame, { isTicTacToeMove } from './TicTacToeGame';
 
 describe('TicTacToeGame', () => {
   let game: TicTacToeGame;
@@ -43,7 +45,7 @@ describe('TicTacToeGame', () => {
         expect(game.state.winner).toBeUndefined();
       });
 
-      it('adds the second player as O and updates the status to IN_PROGRESS', () => {
+      it('adds the second player as O and updates the status to WAITING_FOR_READY', () => {
         const player1 = createPlayerForTesting();
         const player2 = createPlayerForTesting();
 
@@ -52,7 +54,8 @@ describe('TicTacToeGame', () => {
 
         expect(game.state.x).toEqual(player1.id);
         expect(game.state.o).toEqual(player2.id);
-        expect(game.state.status).toEqual('IN_PROGRESS');
+        expect(game.state.status).toEqual('WAITING_FOR_READY');
+        expect(game.state.ready).toEqual([]);
       });
 
       it('throws an error if the game is already full', () => {
@@ -62,6 +65,8 @@ describe('TicTacToeGame', () => {
 
         game.join(player1);
         game.join(player2);
+        game.setReady(player1);
+        game.setReady(player2);
 
         expect(() => game.join(player3)).toThrowError(GAME_FULL_MESSAGE);
       });
@@ -73,6 +78,8 @@ describe('TicTacToeGame', () => {
 
         game.join(player1);
         game.join(player2);
+        game.setReady(player1);
+        game.setReady(player2);
         game.leave(player2);
 
         expect(() => game.join(player3)).toThrowError(GAME_OVER_MESSAGE);
@@ -95,6 +102,8 @@ describe('TicTacToeGame', () => {
             const player2 = createPlayerForTesting();
             game.join(player1);
             game.join(player2);
+            game.setReady(player1);
+            game.setReady(player2);
             expect(game.state.x).toEqual(player1.id);
             expect(game.state.o).toEqual(player2.id);
 
@@ -113,6 +122,8 @@ describe('TicTacToeGame', () => {
             const player2 = createPlayerForTesting();
             game.join(player1);
             game.join(player2);
+            game.setReady(player1);
+            game.setReady(player2);
             expect(game.state.x).toEqual(player1.id);
             expect(game.state.o).toEqual(player2.id);
 
@@ -144,6 +155,8 @@ describe('TicTacToeGame', () => {
 
             game.join(player1);
             game.join(player2);
+            game.setReady(player1);
+            game.setReady(player2);
 
             game.leave(player2);
 
@@ -158,6 +171,8 @@ describe('TicTacToeGame', () => {
 
             game.join(player1);
             game.join(player2);
+            game.setReady(player1);
+            game.setReady(player2);
 
             game.leave(player1);
 
@@ -172,6 +187,8 @@ describe('TicTacToeGame', () => {
 
             game.join(player1);
             game.join(player2);
+            game.setReady(player1);
+            game.setReady(player2);
 
             expect(() => game.leave(player3)).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
           });
@@ -207,16 +224,21 @@ describe('TicTacToeGame', () => {
         ).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
       });
 
-      it('allows two players to join and start a new game', () => {
+      it('allows two players to join and start a new game once both are ready', () => {
         const player1 = createPlayerForTesting();
         const player2 = createPlayerForTesting();
 
         game.join(player1);
         game.join(player2);
+        game.setReady(player1);
+        expect(game.state.status).toEqual('WAITING_FOR_READY');
+        expect(game.state.ready).toEqual([player1.id]);
+        game.setReady(player2);
 
         expect(game.state.x).toEqual(player1.id);
         expect(game.state.o).toEqual(player2.id);
         expect(game.state.status).toEqual('IN_PROGRESS');
+        expect(game.state.ready).toBeUndefined();
       });
 
       it('throws an error if a third player attempts to join', () => {
@@ -226,6 +248,8 @@ describe('TicTacToeGame', () => {
 
         game.join(player1);
         game.join(player2);
+        game.setReady(player1);
+        game.setReady(player2);
 
         expect(() => {
           game.join(player3);
@@ -239,6 +263,8 @@ describe('TicTacToeGame', () => {
 
         game.join(player1);
         game.join(player2);
+        game.setReady(player1);
+        game.setReady(player2);
         // game.leave(player1);
         game.state.status = 'OVER';
         game.state.winner = player1.id;
@@ -261,6 +287,8 @@ describe('TicTacToeGame', () => {
 
         game.join(player1);
         game.join(player2);
+        game.setReady(player1);
+        game.setReady(player2);
 
         game.leave(player1);
 
@@ -275,6 +303,8 @@ describe('TicTacToeGame', () => {
 
         game.join(player1);
         game.join(player2);
+        game.setReady(player1);
+        game.setReady(player2);
 
         game.leave(player2);
 
@@ -283,6 +313,83 @@ describe('TicTacToeGame', () => {
       });
     });
 
+    describe('lobby', () => {
+      let player1: Player;
+      let player2: Player;
+      beforeEach(() => {
+        player1 = createPlayerForTesting();
+        player2 = createPlayerForTesting();
+        game.join(player1);
+        game.join(player2);
+      });
+      it('does not accept moves until both players are ready', () => {
+        game.setReady(player1);
+        expect(() =>
+          game.applyMove({
+            gameID: game.id,
+            playerID: player1.id,
+            move: { row: 0, col: 0, gamePiece: 'X' },
+          }),
+        ).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+      });
+      it('counts a player who confirms twice only once', () => {
+        game.setReady(player1);
+        game.setReady(player1);
+        expect(game.state.ready).toEqual([player1.id]);
+        expect(game.state.status).toEqual('WAITING_FOR_READY');
+      });
+      it('throws an error if the player is not in the game', () => {
+        expect(() => game.setReady(createPlayerForTesting())).toThrowError(
+          PLAYER_NOT_IN_GAME_MESSAGE,
+        );
+      });
+      it('throws an error if the game is not waiting for its players to be ready', () => {
+        game.setReady(player1);
+        game.setReady(player2);
+        expect(() => game.setReady(player1)).toThrowError(GAME_NOT_WAITING_FOR_READY_MESSAGE);
+      });
+      it('lets X leave without forfeiting, freeing the seat for another player', () => {
+        game.setReady(player2);
+        game.leave(player1);
+        expect(game.state.status).toEqual('WAITING_TO_START');
+        expect(game.state.winner).toBeUndefined();
+        expect(game.state.x).toBeUndefined();
+        expect(game.state.o).toEqual(player2.id);
+        expect(game.state.ready).toBeUndefined();
+
+        const player3 = createPlayerForTesting();
+        game.join(player3);
+        expect(game.state.x).toEqual(player3.id);
+        expect(game.state.status).toEqual('WAITING_FOR_READY');
+        expect(game.state.ready).toEqual([]);
+      });
+      it('gives the first move to the player who takes the X seat after X leaves', () => {
+        game.leave(player1);
+        const player3 = createPlayerForTesting();
+        game.join(player3);
+        game.setReady(player3);
+        game.setReady(player2);
+        game.applyMove({
+          gameID: game.id,
+          playerID: player3.id,
+          move: { row: 0, col: 0, gamePiece: 'X' },
+        });
+        game.applyMove({
+          gameID: game.id,
+          playerID: player2.id,
+          move: { row: 1, col: 1, gamePiece: 'O' },
+        });
+        expect(game.state.moves).toHaveLength(2);
+      });
+      it('lets O leave without forfeiting', () => {
+        game.leave(player2);
+        expect(game.state.status).toEqual('WAITING_TO_START');
+        expect(game.state.x).toEqual(player1.id);
+        expect(game.state.o).toBeUndefined();
+        expect(game.toReplay()).toBeUndefined();
+      });
+    });
+
     describe('applyMove', () => {
       describe('when given a valid move', () => {
         let player1: Player;
@@ -292,6 +399,8 @@ describe('TicTacToeGame', () => {
           player2 = createPlayerForTesting();
           game.join(player1);
           game.join(player2);
+          game.setReady(player1);
+          game.setReady(player2);
         });
         it('[T2.1] should add the move to the game state', () => {
           const move: TicTacToeMove = { row: 1, col: 2, gamePiece: 'X' };
@@ -651,6 +760,8 @@ describe('TicTacToeGame', () => {
           player2 = createPlayerForTesting();
           game.join(player1);
           game.join(player2);
+          game.setReady(player1);
+          game.setReady(player2);
         });
 
         it("should throw an error if it's not the player's turn", () => {
@@ -686,4 +797,65 @@ describe('TicTacToeGame', () => {
       });
     });
   });
+  describe('undoLastMove', () => {
+    let player1: Player;
+    let player2: Player;
+    beforeEach(() => {
+      player1 = createPlayerForTesting();
+      player2 = createPlayerForTesting();
+      game.join(player1);
+      game.join(player2);
+      game.setReady(player1);
+      game.setReady(player2);
+    });
+    function play(player: Player, row: 0 | 1 | 2, col: 0 | 1 | 2) {
+      game.applyMove({
+        gameID: game.id,
+        playerID: player.id,
+        move: { row, col, gamePiece: player === player1 ? 'X' : 'O' },
+      });
+    }
+    it('takes back the last move, freeing its square and giving the turn back', () => {
+      play(player1, 0, 0);
+      play(player2, 1, 1);
+      game.undoLastMove();
+      expect(game.state.moves).toEqual([{ row: 0, col: 0, gamePiece: 'X' }]);
+      expect(() => play(player1, 2, 2)).toThrowError(MOVE_NOT_YOUR_TURN_MESSAGE);
+      play(player2, 1, 1);
+      expect(game.state.moves).toHaveLength(2);
+    });
+    it('can take back every move of the game', () => {
+      play(player1, 0, 0);
+      game.undoLastMove();
+      expect(game.state.moves).toEqual([]);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      play(player1, 0, 0);
+      expect(game.state.moves).toEqual([{ row: 0, col: 0, gamePiece: 'X' }]);
+    });
+    it('throws an error if no move has been made', () => {
+      expect(() => game.undoLastMove()).toThrowError(NO_MOVE_TO_UNDO_MESSAGE);
+    });
+    it('throws an error if the game is over', () => {
+      play(player1, 0, 0);
+      play(player2, 1, 0);
+      play(player1, 0, 1);
+      play(player2, 1, 1);
+      play(player1, 0, 2);
+      expect(() => game.undoLastMove()).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+  });
+  describe('isTicTacToeMove', () => {
+    it('accepts moves with a game piece and a row and column on the board', () => {
+      expect(isTicTacToeMove({ row: 0, col: 2, gamePiece: 'X' })).toBe(true);
+      expect(isTicTacToeMove({ row: 2, col: 1, gamePiece: '' })).toBe(true);
+    });
+    it('rejects moves that are off the board or missing fields', () => {
+      expect(isTicTacToeMove({ row: 3, col: 0, gamePiece: 'X' })).toBe(false);
+      expect(isTicTacToeMove({ row: 0, col: -1, gamePiece: 'O' })).toBe(false);
+      expect(isTicTacToeMove({ row: '0', col: 0, gamePiece: 'O' })).toBe(false);
+      expect(isTicTacToeMove({ row: 0, col: 0, gamePiece: 'Z' })).toBe(false);
+      expect(isTicTacToeMove({ row: 0, col: 0 })).toBe(false);
+      expect(isTicTacToeMove(undefined)).toBe(false);
+    });
+  });
 });
@@ -9,9 +9,28 @@ import InvalidParametersError, {
   PLAYER_NOT_IN_GAME_MESSAGE,
 } from '../../lib/InvalidParametersError';
 import Player from '../../lib/Player';
-import { GameMove, TicTacToeGameState, TicTacToeMove } from '../../types/CoveyTownSocket';
+import { GameMove, PlayerID, TicTacToeGameState, TicTacToeMove } from '../../types/CoveyTownSocket';
 import Game from './Game';
 
+/**
+ * Checks that a move received from a client has the shape of a TicTacToeMove
+ * @param move the move to check
+ * @returns true if the move has a valid game piece, row and column
+ */
+export function isTicTacToeMove(move: unknown): move is TicTacToeMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { gamePiece, row, col } = move as Record<string, unknown>;
+  const isGridPosition = (position: unknown) =>
+    typeof position === 'number' && [0, 1, 2].includes(position);
+  return (
+    (gamePiece === '' || gamePiece === 'X' || gamePiece === 'O') &&
+    isGridPosition(row) &&
+    isGridPosition(col)
+  );
+}
+
 /**
  * A TicTacToeGame is a Game that implements the rules of Tic Tac Toe.
  * @see https://en.wikipedia.org/wiki/Tic-tac-toe
@@ -30,8 +49,6 @@ export default class TicTacToeGame extends Game<TicTacToeGameState, TicTacToeMov
     ['', '', ''],
   ];
 
-  private _previouslyPlayedPlayer = '';
-
   /*
    * Applies a player's move to the game.
    * Uses the player's ID to determine which game piece they are using (ignores move.gamePiece)
@@ -52,7 +69,7 @@ export default class TicTacToeGame extends Game<TicTacToeGameState, TicTacToeMov
    * @param move The move to apply to the game
    * @throws InvalidParametersError if the move is invalid (with specific message noted above)
    */
-  public applyMove(move: GameMove<TicTacToeMove>): void {
+  protected _applyMove(move: GameMove<TicTacToeMove>): void {
     const { status, moves, x } = this.state;
 
     // validate if game is over
@@ -61,7 +78,7 @@ export default class TicTacToeGame extends Game<TicTacToeGameState, TicTacToeMov
     }
 
     // Validate if the game is in progress
-    if (status === 'WAITING_TO_START') {
+    if (status !== 'IN_PROGRESS') {
       throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
     }
 
@@ -75,12 +92,8 @@ export default class TicTacToeGame extends Game<TicTacToeGameState, TicTacToeMov
       throw new InvalidParametersError(INVALID_MOVE_MESSAGE);
     }
 
-    if (this._previouslyPlayedPlayer === '') {
-      this._previouslyPlayedPlayer = move.playerID;
-    } else if (move.playerID === this._previouslyPlayedPlayer) {
+    if (move.playerID !== this._playerToMove()) {
       throw new InvalidParametersError(MOVE_NOT_YOUR_TURN_MESSAGE);
-    } else {
-      this._previouslyPlayedPlayer = move.playerID;
     }
 
     // Validate if it's the player's turn
@@ -106,6 +119,7 @@ export default class TicTacToeGame extends Game<TicTacToeGameState, TicTacToeMov
       ...this.state,
       moves: [...this.state.moves, move.move],
     };
+    this._nextTurn();
 
     // Check if the move resulted in a win
     if (this._checkForWin(move.move.row, move.move.col, gamePiece)) {
@@ -120,10 +134,28 @@ export default class TicTacToeGame extends Game<TicTacToeGameState, TicTacToeMov
     }
   }
 
+  /**
+   * Clears the board and gives the turn back to X, so that moves can be taken back (@see Game.undoLastMove)
+   */
+  protected _resetMoves(): void {
+    this._board = [
+      ['', '', ''],
+      ['', '', ''],
+      ['', '', ''],
+    ];
+    this._firstTurn();
+    this.state = { ...this.state, moves: [], status: 'IN_PROGRESS', winner: undefined };
+  }
+
+  protected _seatName(playerID: PlayerID): string {
+    return playerID === this.state.x ? 'X' : 'O';
+  }
+
   /**
    * Adds a player to the game.
    * Updates the game's state to reflect the new player.
-   * If the game is now full (has two players), updates the game's state to set the status to IN_PROGRESS.
+   * If the game is now full (has two players), updates the game's state to set the status to
+   * WAITING_FOR_READY: the game starts once both players are ready (@see Game.setReady).
    *
    * @param player The player to join the game
    * @throws InvalidParametersError if the player is already in the game (PLAYER_ALREADY_IN_GAME_MESSAGE)
@@ -141,11 +173,15 @@ export default class TicTacToeGame extends Game<TicTacToeGameState, TicTacToeMov
       throw new InvalidParametersError(GAME_FULL_MESSAGE);
     }
 
-    if (!this.state.x) {
+    // X sits in the first seat, and so moves first
+    if (this._takeSeat(player) === 0) {
       this.state.x = player.id;
     } else {
       this.state.o = player.id;
-      this.state.status = 'IN_PROGRESS';
+    }
+    if (this.state.x && this.state.o) {
+      this.state.status = 'WAITING_FOR_READY';
+      this.state.ready = [];
     }
     // if (this._players.length === 0 && this.state.status === 'WAITING_TO_START') {
     //   // first player joins
@@ -167,6 +203,8 @@ export default class TicTacToeGame extends Game<TicTacToeGameState, TicTacToeMov
    *   updates the game's status to OVER and sets the winner to the other player.
    * If the game does not yet have two players in it at the time of call to this method,
    *   updates the game's status to WAITING_TO_START.
+   * If the game has two players who have not both confirmed that they are ready, frees the player's seat
+   *   without forfeiting, and updates the game's status to WAITING_TO_START.
    *
    * @param player The player to remove from the game
    * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
@@ -177,6 +215,7 @@ export default class TicTacToeGame extends Game<TicTacToeGameState, TicTacToeMov
     }
     // remove player
     this._players = this._players.filter(p => p.id !== player.id); // player is already being removed in Game class
+    this._leaveSeat(player);
 
     if (this._players.length === 1 && this.state.status === 'IN_PROGRESS') {
       // if only one player is left, then end the game and other player is winner
@@ -187,6 +226,15 @@ export default class TicTacToeGame extends Game<TicTacToeGameState, TicTacToeMov
       this.state.status = 'WAITING_TO_START';
       this.state.x = undefined;
       this.state.o = undefined;
+    } else if (this.state.status === 'WAITING_FOR_READY') {
+      // leaving the lobby frees the seat, and whoever takes it must be ready again
+      this.state.status = 'WAITING_TO_START';
+      this.state.ready = undefined;
+      if (this.state.x === player.id) {
+        this.state.x = undefined;
+      } else {
+        this.state.o = undefined;
+      }
     }
   }
 
@@ -234,10 +282,6 @@ export default class TicTacToeGame extends Game<TicTacToeGameState, TicTacToeMov
     return true;
   }
 
-  public get players(): Player[] {
-    return this._players;
-  }
-
   public end(): void {
     this.state = {
       moves: [],
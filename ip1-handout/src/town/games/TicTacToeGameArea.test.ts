@@ -1,10 +1,17 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
 import { mock } from 'jest-mock-extended';
 import { nanoid } from 'nanoid';
 import { createPlayerForTesting } from '../../TestUtils';
 import {
+  BOT_NEEDS_ONE_PLAYER_MESSAGE,
   GAME_ID_MISSMATCH_MESSAGE,
+  GAME_NOT_OVER_MESSAGE,
   GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_NOT_WAITING_FOR_READY_MESSAGE,
   INVALID_COMMAND_MESSAGE,
+  INVALID_MOVE_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+  UNDO_NOT_SUPPORTED_MESSAGE,
 } from '../../lib/InvalidParametersError';
 import Player from '../../lib/Player';
 import {
@@ -16,6 +23,8 @@ import {
 import TicTacToeGameArea from './TicTacToeGameArea';
 import * as TicTacToeGameModule from './TicTacToeGame';
 import Game from './Game';
+import RatingService from './RatingService';
+import TicTacToeBot, { isBot } from './TicTacToeBot';
 
 class TestingGame extends Game<TicTacToeGameState, TicTacToeMove> {
   public constructor() {
@@ -25,7 +34,7 @@ class TestingGame extends Game<TicTacToeGameState, TicTacToeMove> {
     });
   }
 
-  public applyMove(): void {}
+  protected _applyMove(): void {}
 
   public endGame(winner?: string) {
     this.state = {
@@ -99,7 +108,7 @@ describe('TicTacToeGameArea', () => {
           expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
           const joinSpy = jest.spyOn(game, 'join');
           const gameID2 = gameArea.handleCommand({ type: 'JoinGame' }, player2).gameID;
-          expect(joinSpy).toHaveBeenCalledWith(player2);
+          expect(joinSpy).toHaveBeenCalledWith(player2, undefined);
           expect(gameID).toEqual(gameID2);
           expect(interactableUpdateSpy).toHaveBeenCalledTimes(2);
         });
@@ -115,10 +124,28 @@ describe('TicTacToeGameArea', () => {
           expect(() => gameArea.handleCommand({ type: 'JoinGame' }, player2)).toThrowError(
             'Test Error',
           );
-          expect(joinSpy).toHaveBeenCalledWith(player2);
+          expect(joinSpy).toHaveBeenCalledWith(player2, undefined);
           expect(interactableUpdateSpy).not.toHaveBeenCalled();
         });
       });
+      describe('when the last game is over', () => {
+        it('should create a new game, keeping the last one in the history', () => {
+          const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, player1);
+          gameArea.handleCommand({ type: 'JoinGame' }, player2);
+          game.endGame(player1.id);
+          gameArea.handleCommand({ type: 'LeaveGame', gameID }, player1);
+          const nextGame = new TestingGame();
+          jest.spyOn(TicTacToeGameModule, 'default').mockReturnValueOnce(nextGame as never);
+          const joinSpy = jest.spyOn(nextGame, 'join');
+
+          const nextGameID = gameArea.handleCommand({ type: 'JoinGame' }, player2).gameID;
+          expect(nextGameID).toEqual(nextGame.id);
+          expect(nextGameID).not.toEqual(gameID);
+          expect(joinSpy).toHaveBeenCalledWith(player2, undefined);
+          expect(gameArea.game).toBe(nextGame);
+          expect(gameArea.history.map(result => result.gameID)).toEqual([gameID]);
+        });
+      });
     });
     describe('[T3.2] when given a GameMove command', () => {
       it('should throw an error when there is no game in progress', () => {
@@ -144,6 +171,19 @@ describe('TicTacToeGameArea', () => {
             ),
           ).toThrowError(GAME_ID_MISSMATCH_MESSAGE);
         });
+        it('should throw an error when the move is not a TicTacToeMove', () => {
+          const applyMoveSpy = jest.spyOn(game, 'applyMove');
+          expect(() =>
+            gameArea.handleCommand(
+              // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+              // @ts-ignore (Testing an invalid move, only possible at the boundary of the type system)
+              { type: 'GameMove', move: { col: 3, row: 0, gamePiece: 'X' }, gameID },
+              player1,
+            ),
+          ).toThrowError(INVALID_MOVE_MESSAGE);
+          expect(applyMoveSpy).not.toHaveBeenCalled();
+          expect(interactableUpdateSpy).not.toHaveBeenCalled();
+        });
         it('should dispatch the move to the game and call _emitAreaChanged', () => {
           const move: TicTacToeMove = { col: 0, row: 0, gamePiece: 'X' };
           const applyMoveSpy = jest.spyOn(game, 'applyMove');
@@ -311,6 +351,43 @@ describe('TicTacToeGameArea', () => {
         });
       });
     });
+    describe('when given a SetReady command', () => {
+      it('should dispatch the command to the game and call _emitAreaChanged', () => {
+        const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, player1);
+        interactableUpdateSpy.mockClear();
+        const setReadySpy = jest.spyOn(game, 'setReady').mockImplementationOnce(() => {});
+        gameArea.handleCommand({ type: 'SetReady', gameID }, player1);
+        expect(setReadySpy).toHaveBeenCalledWith(player1);
+        expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+      });
+      it('should throw an error when the game ID does not match', () => {
+        gameArea.handleCommand({ type: 'JoinGame' }, player1);
+        interactableUpdateSpy.mockClear();
+        expect(() =>
+          gameArea.handleCommand({ type: 'SetReady', gameID: nanoid() }, player1),
+        ).toThrowError(GAME_ID_MISSMATCH_MESSAGE);
+        expect(interactableUpdateSpy).not.toHaveBeenCalled();
+      });
+      it('should not call _emitAreaChanged if the game is not waiting for its players to be ready', () => {
+        const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, player1);
+        interactableUpdateSpy.mockClear();
+        expect(() => gameArea.handleCommand({ type: 'SetReady', gameID }, player1)).toThrowError(
+          GAME_NOT_WAITING_FOR_READY_MESSAGE,
+        );
+        expect(interactableUpdateSpy).not.toHaveBeenCalled();
+      });
+    });
+    describe('when given a RequestUndo command', () => {
+      it('should throw an error if the game does not support taking back moves', () => {
+        const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, player1);
+        interactableUpdateSpy.mockClear();
+        expect(() => gameArea.handleCommand({ type: 'RequestUndo', gameID }, player1)).toThrowError(
+          UNDO_NOT_SUPPORTED_MESSAGE,
+        );
+        expect(gameArea.toModel().undoRequest).toBeUndefined();
+        expect(interactableUpdateSpy).not.toHaveBeenCalled();
+      });
+    });
     describe('[T3.4] when given an invalid command', () => {
       it('should throw an error', () => {
         // eslint-disable-next-line @typescript-eslint/ban-ts-comment
@@ -322,4 +399,373 @@ describe('TicTacToeGameArea', () => {
       });
     });
   });
+  describe('when given an AddBot command', () => {
+    let gameID: GameInstanceID;
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore (Test requires access to protected method)
+      interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+      gameID = gameArea.handleCommand({ type: 'JoinGame' }, player1).gameID;
+      interactableUpdateSpy.mockClear();
+    });
+    it('seats a bot as O and starts the game', () => {
+      gameArea.handleCommand({ type: 'AddBot', gameID, difficulty: 'easy' }, player1);
+      const model = gameArea.toModel().game;
+      expect(model?.state.status).toEqual('IN_PROGRESS');
+      expect(model?.state.x).toEqual(player1.id);
+      expect(model?.players).toHaveLength(2);
+      expect(isBot(model?.players[1] as string)).toBe(true);
+      expect(model?.state.o).toEqual(model?.players[1]);
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+    });
+    it('makes the bot move through applyMove after each move by the player', () => {
+      gameArea.handleCommand({ type: 'AddBot', gameID, difficulty: 'hard' }, player1);
+      const applyMoveSpy = jest.spyOn(gameArea.game as TicTacToeGameModule.default, 'applyMove');
+      interactableUpdateSpy.mockClear();
+      gameArea.handleCommand(
+        { type: 'GameMove', gameID, move: { row: 0, col: 0, gamePiece: 'X' } },
+        player1,
+      );
+      expect(applyMoveSpy).toHaveBeenCalledTimes(2);
+      expect(isBot(applyMoveSpy.mock.calls[1][0].playerID)).toBe(true);
+      expect(gameArea.game?.state.moves).toHaveLength(2);
+      expect(gameArea.game?.state.moves[1].gamePiece).toEqual('O');
+      expect(interactableUpdateSpy).toHaveBeenCalledTimes(2);
+    });
+    it('records the result in the history, but not in the ratings, when the game against the bot ends', () => {
+      const ratingService = mock<RatingService>();
+      gameArea.rateGames('TicTacToe', ratingService);
+      gameArea.handleCommand({ type: 'AddBot', gameID, difficulty: 'hard' }, player1);
+      const bot = gameArea.game?.players[1] as TicTacToeBot;
+      // The player always takes the first empty square, which a perfect bot never loses to
+      while (gameArea.game?.state.status === 'IN_PROGRESS') {
+        const { moves } = gameArea.game.state;
+        const square = [0, 1, 2, 3, 4, 5, 6, 7, 8].find(
+          index => !moves.some(m => m.row * 3 + m.col === index),
+        ) as number;
+        const move: TicTacToeMove = {
+          row: Math.floor(square / 3) as TicTacToeMove['row'],
+          col: (square % 3) as TicTacToeMove['col'],
+          gamePiece: 'X',
+        };
+        gameArea.handleCommand({ type: 'GameMove', gameID, move }, player1);
+      }
+      expect(gameArea.game?.state.winner).not.toEqual(player1.id);
+      expect(gameArea.history).toEqual([
+        {
+          gameID,
+          scores: {
+            [player1.userName]: 0,
+            [bot.userName]: gameArea.game?.state.winner === bot.id ? 1 : 0,
+          },
+        },
+      ]);
+      expect(ratingService.recordGame).not.toHaveBeenCalled();
+    });
+    it('accepts a request to take back a move for the bot, taking back its reply as well', () => {
+      gameArea.handleCommand({ type: 'AddBot', gameID, difficulty: 'hard' }, player1);
+      gameArea.handleCommand(
+        { type: 'GameMove', gameID, move: { row: 0, col: 0, gamePiece: 'X' } },
+        player1,
+      );
+      gameArea.handleCommand(
+        { type: 'GameMove', gameID, move: { row: 2, col: 2, gamePiece: 'X' } },
+        player1,
+      );
+      const firstReply = gameArea.game?.state.moves[1];
+      interactableUpdateSpy.mockClear();
+      gameArea.handleCommand({ type: 'RequestUndo', gameID }, player1);
+      expect(gameArea.toModel().undoRequest?.status).toEqual('ACCEPTED');
+      expect(gameArea.game?.state.moves).toEqual([{ row: 0, col: 0, gamePiece: 'X' }, firstReply]);
+      expect(interactableUpdateSpy).toHaveBeenCalled();
+      gameArea.handleCommand(
+        { type: 'GameMove', gameID, move: { row: 2, col: 0, gamePiece: 'X' } },
+        player1,
+      );
+      expect(gameArea.game?.state.moves).toHaveLength(4);
+    });
+    it('throws an error if the game ID does not match', () => {
+      expect(() =>
+        gameArea.handleCommand({ type: 'AddBot', gameID: nanoid(), difficulty: 'easy' }, player1),
+      ).toThrowError(GAME_ID_MISSMATCH_MESSAGE);
+    });
+    it('throws an error if the difficulty is not supported', () => {
+      expect(() =>
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore (Testing an invalid difficulty, only possible at the boundary of the type system)
+        gameArea.handleCommand({ type: 'AddBot', gameID, difficulty: 'impossible' }, player1),
+      ).toThrowError(INVALID_COMMAND_MESSAGE);
+    });
+    it('throws an error if the player asking for a bot is not in the game', () => {
+      expect(() =>
+        gameArea.handleCommand({ type: 'AddBot', gameID, difficulty: 'easy' }, player2),
+      ).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('throws an error if the game already has two players', () => {
+      gameArea.handleCommand({ type: 'JoinGame' }, player2);
+      interactableUpdateSpy.mockClear();
+      expect(() =>
+        gameArea.handleCommand({ type: 'AddBot', gameID, difficulty: 'easy' }, player1),
+      ).toThrowError(BOT_NEEDS_ONE_PLAYER_MESSAGE);
+      expect(gameArea.game?.players).toEqual([player1, player2]);
+      expect(interactableUpdateSpy).not.toHaveBeenCalled();
+    });
+  });
+  describe('rematches and series', () => {
+    /**
+     * Plays a game in which the first player to join (X) wins with the top row
+     */
+    function playGameWonByX(area: TicTacToeGameArea, x: Player, o: Player): GameInstanceID {
+      const gameID = area.game?.id as GameInstanceID;
+      const squares: Array<[TicTacToeMove['row'], TicTacToeMove['col']]> = [
+        [0, 0],
+        [1, 0],
+        [0, 1],
+        [1, 1],
+        [0, 2],
+      ];
+      squares.forEach(([row, col], index) =>
+        area.handleCommand(
+          { type: 'GameMove', gameID, move: { row, col, gamePiece: index % 2 === 0 ? 'X' : 'O' } },
+          index % 2 === 0 ? x : o,
+        ),
+      );
+      return gameID;
+    }
+    function requestRematch(area: TicTacToeGameArea, ...players: Player[]) {
+      const gameID = area.game?.id as GameInstanceID;
+      players.forEach(eachPlayer => area.handleCommand({ type: 'Rematch', gameID }, eachPlayer));
+    }
+    function createAreaWithBestOf(bestOf: unknown) {
+      return new TicTacToeGameArea(
+        nanoid(),
+        { x: 0, y: 0, width: 100, height: 100 },
+        mock<TownEmitter>(),
+        {
+          id: 1,
+          name: 'Game',
+          x: 0,
+          y: 0,
+          width: 100,
+          height: 100,
+          rotation: 0,
+          type: 'GameArea',
+          visible: true,
+          properties: [{ name: 'bestOf', type: 'int', value: bestOf }],
+        } as ITiledMapObject,
+      );
+    }
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      const { gameID } = gameArea.handleCommand({ type: 'JoinGame' }, player1);
+      gameArea.handleCommand({ type: 'JoinGame' }, player2);
+      gameArea.handleCommand({ type: 'SetReady', gameID }, player1);
+      gameArea.handleCommand({ type: 'SetReady', gameID }, player2);
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore (Test requires access to protected method)
+      interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+    });
+    describe('when given a Rematch command', () => {
+      it('throws an error if the game is not over', () => {
+        expect(() => requestRematch(gameArea, player1)).toThrowError(GAME_NOT_OVER_MESSAGE);
+      });
+      it('throws an error if the game ID does not match', () => {
+        playGameWonByX(gameArea, player1, player2);
+        expect(() =>
+          gameArea.handleCommand({ type: 'Rematch', gameID: nanoid() }, player1),
+        ).toThrowError(GAME_ID_MISSMATCH_MESSAGE);
+      });
+      it('throws an error if the player was not in the game', () => {
+        playGameWonByX(gameArea, player1, player2);
+        expect(() => requestRematch(gameArea, createPlayerForTesting())).toThrowError(
+          PLAYER_NOT_IN_GAME_MESSAGE,
+        );
+      });
+      it('records the request in the area model and waits for the other player', () => {
+        const gameID = playGameWonByX(gameArea, player1, player2);
+        interactableUpdateSpy.mockClear();
+        requestRematch(gameArea, player1, player1);
+        expect(gameArea.game?.id).toEqual(gameID);
+        expect(gameArea.toModel().rematchRequests).toEqual([player1.id]);
+        expect(interactableUpdateSpy).toHaveBeenCalledTimes(2);
+      });
+      it('starts a new game with X and O swapped once both players accept', () => {
+        const gameID = playGameWonByX(gameArea, player1, player2);
+        requestRematch(gameArea, player2, player1);
+        expect(gameArea.game?.id).not.toEqual(gameID);
+        expect(gameArea.game?.state.status).toEqual('IN_PROGRESS');
+        expect(gameArea.game?.state.x).toEqual(player2.id);
+        expect(gameArea.game?.state.o).toEqual(player1.id);
+        expect(gameArea.game?.state.moves).toEqual([]);
+        expect(gameArea.toModel().rematchRequests).toEqual([]);
+      });
+      it('records every finished game in the history', () => {
+        const gameID = playGameWonByX(gameArea, player1, player2);
+        requestRematch(gameArea, player1, player2);
+        const rematchID = playGameWonByX(gameArea, player2, player1);
+        expect(gameArea.history).toEqual([
+          { gameID, scores: { [player1.userName]: 1, [player2.userName]: 0 } },
+          { gameID: rematchID, scores: { [player1.userName]: 0, [player2.userName]: 1 } },
+        ]);
+      });
+      it('keeps the spectators watching the new game', () => {
+        const spectator = createPlayerForTesting();
+        const gameID = playGameWonByX(gameArea, player1, player2);
+        gameArea.handleCommand({ type: 'Spectate', gameID }, spectator);
+        requestRematch(gameArea, player1, player2);
+        expect(gameArea.game?.spectators).toEqual([spectator]);
+      });
+      it('is accepted right away by a bot, which moves first as X in the new game', () => {
+        const botArea = new TicTacToeGameArea(
+          nanoid(),
+          { x: 0, y: 0, width: 100, height: 100 },
+          mock<TownEmitter>(),
+        );
+        const botGameID = botArea.handleCommand({ type: 'JoinGame' }, player1).gameID;
+        botArea.handleCommand({ type: 'AddBot', gameID: botGameID, difficulty: 'hard' }, player1);
+        while (botArea.game?.state.status === 'IN_PROGRESS') {
+          const { moves } = botArea.game.state;
+          const square = [0, 1, 2, 3, 4, 5, 6, 7, 8].find(
+            index => !moves.some(m => m.row * 3 + m.col === index),
+          ) as number;
+          botArea.handleCommand(
+            {
+              type: 'GameMove',
+              gameID: botGameID,
+              move: {
+                row: Math.floor(square / 3) as TicTacToeMove['row'],
+                col: (square % 3) as TicTacToeMove['col'],
+                gamePiece: 'X',
+              },
+            },
+            player1,
+          );
+        }
+        const bot = botArea.game?.players.find(eachPlayer => eachPlayer.id !== player1.id);
+        requestRematch(botArea, player1);
+        expect(botArea.game?.id).not.toEqual(botGameID);
+        expect(botArea.game?.state.x).toEqual(bot?.id);
+        expect(botArea.game?.state.o).toEqual(player1.id);
+        expect(botArea.game?.state.moves).toHaveLength(1);
+      });
+    });
+    describe('series', () => {
+      it('is not tracked unless the map object has a bestOf property', () => {
+        expect(gameArea.toModel().series).toBeUndefined();
+      });
+      it('throws an error if bestOf is not a positive odd integer', () => {
+        expect(() => createAreaWithBestOf(2)).toThrowError();
+        expect(() => createAreaWithBestOf(0)).toThrowError();
+        expect(() => createAreaWithBestOf('three')).toThrowError();
+      });
+      describe('in a best-of-3 area', () => {
+        let seriesArea: TicTacToeGameArea;
+        beforeEach(() => {
+          seriesArea = createAreaWithBestOf(3);
+          const { gameID } = seriesArea.handleCommand({ type: 'JoinGame' }, player1);
+          seriesArea.handleCommand({ type: 'JoinGame' }, player2);
+          seriesArea.handleCommand({ type: 'SetReady', gameID }, player1);
+          seriesArea.handleCommand({ type: 'SetReady', gameID }, player2);
+        });
+        it('starts with no games played', () => {
+          expect(seriesArea.toModel().series).toEqual({
+            bestOf: 3,
+            gamesPlayed: 0,
+            scores: {},
+            isOver: false,
+          });
+        });
+        it('shows the running score in the area model', () => {
+          playGameWonByX(seriesArea, player1, player2);
+          expect(seriesArea.toModel().series).toEqual({
+            bestOf: 3,
+            gamesPlayed: 1,
+            scores: { [player1.id]: 1, [player2.id]: 0 },
+            isOver: false,
+            winner: undefined,
+          });
+          requestRematch(seriesArea, player1, player2);
+          playGameWonByX(seriesArea, player2, player1);
+          expect(seriesArea.series?.scores).toEqual({ [player1.id]: 1, [player2.id]: 1 });
+          expect(seriesArea.series?.isOver).toBe(false);
+        });
+        it('ends the series once a player has won a majority of the games', () => {
+          playGameWonByX(seriesArea, player1, player2);
+          requestRematch(seriesArea, player1, player2);
+          // player2 is X in the rematch, and player1 wins as O
+          const gameID = seriesArea.game?.id as GameInstanceID;
+          const squares: Array<[TicTacToeMove['row'], TicTacToeMove['col']]> = [
+            [2, 2],
+            [0, 0],
+            [2, 1],
+            [2, 0],
+            [1, 2],
+            [1, 0],
+          ];
+          squares.forEach(([row, col], index) =>
+            seriesArea.handleCommand(
+              {
+                type: 'GameMove',
+                gameID,
+                move: { row, col, gamePiece: index % 2 === 0 ? 'X' : 'O' },
+              },
+              index % 2 === 0 ? player2 : player1,
+            ),
+          );
+          expect(seriesArea.series).toEqual({
+            bestOf: 3,
+            gamesPlayed: 2,
+            scores: { [player1.id]: 2, [player2.id]: 0 },
+            isOver: true,
+            winner: player1.id,
+          });
+        });
+        it('starts a new series on a rematch after the series is over', () => {
+          playGameWonByX(seriesArea, player1, player2);
+          requestRematch(seriesArea, player1, player2);
+          playGameWonByX(seriesArea, player2, player1);
+          requestRematch(seriesArea, player1, player2);
+          playGameWonByX(seriesArea, player1, player2);
+          expect(seriesArea.series?.isOver).toBe(true);
+          expect(seriesArea.series?.winner).toEqual(player1.id);
+          requestRematch(seriesArea, player1, player2);
+          expect(seriesArea.series).toEqual({
+            bestOf: 3,
+            gamesPlayed: 0,
+            scores: {},
+            isOver: false,
+          });
+          expect(seriesArea.history).toHaveLength(3);
+        });
+        it('starts a new series, without the old rematch requests, when a new pair of players joins', () => {
+          const player3 = createPlayerForTesting();
+          seriesArea.add(player3);
+          playGameWonByX(seriesArea, player1, player2);
+          requestRematch(seriesArea, player1);
+          const { gameID } = seriesArea.handleCommand({ type: 'JoinGame' }, player3);
+          seriesArea.handleCommand({ type: 'JoinGame' }, player1);
+          expect(seriesArea.toModel().rematchRequests).toEqual([]);
+          expect(seriesArea.series).toEqual({
+            bestOf: 3,
+            gamesPlayed: 0,
+            scores: {},
+            isOver: false,
+          });
+          seriesArea.handleCommand({ type: 'SetReady', gameID }, player3);
+          seriesArea.handleCommand({ type: 'SetReady', gameID }, player1);
+          playGameWonByX(seriesArea, player3, player1);
+          expect(seriesArea.series?.scores).toEqual({ [player3.id]: 1, [player1.id]: 0 });
+        });
+        it('starts a new series when a game is started for a new pair of players', () => {
+          const player3 = createPlayerForTesting();
+          playGameWonByX(seriesArea, player1, player2);
+          requestRematch(seriesArea, player2);
+          seriesArea.startGame([player2, player3]);
+          expect(seriesArea.toModel().rematchRequests).toEqual([]);
+          expect(seriesArea.series?.gamesPlayed).toEqual(0);
+        });
+      });
+    });
+  });
 });
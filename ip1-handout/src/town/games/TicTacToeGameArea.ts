@@ -1,21 +1,34 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import Clock, { systemClock } from '../../lib/Clock';
 import InvalidParametersError, {
-  GAME_ID_MISSMATCH_MESSAGE,
-  GAME_NOT_IN_PROGRESS_MESSAGE,
+  BOT_NEEDS_ONE_PLAYER_MESSAGE,
+  GAME_NOT_OVER_MESSAGE,
   INVALID_COMMAND_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
 } from '../../lib/InvalidParametersError';
 import Player from '../../lib/Player';
 import {
-  GameMoveCommand,
-  GameResult,
+  AddBotCommand,
+  BoundingBox,
+  GameInstanceID,
+  GameSeries,
   InteractableCommand,
   InteractableCommandReturnType,
+  InteractableID,
   InteractableType,
-  JoinGameCommand,
-  LeaveGameCommand,
+  PlayerID,
+  RematchCommand,
+  RequestUndoCommand,
+  TicTacToeGameArea as TicTacToeGameAreaModel,
   TicTacToeMove,
+  TownEmitter,
 } from '../../types/CoveyTownSocket';
 import GameArea from './GameArea';
-import TicTacToeGame from './TicTacToeGame';
+import { GameRegistration } from './GameRegistry';
+import TicTacToeBot from './TicTacToeBot';
+import TicTacToeGame, { isTicTacToeMove } from './TicTacToeGame';
+
+const BOT_DIFFICULTIES = ['easy', 'medium', 'hard'];
 
 /**
  * A TicTacToeGameArea is a GameArea that hosts a TicTacToeGame.
@@ -23,163 +36,329 @@ import TicTacToeGame from './TicTacToeGame';
  * @see GameArea
  */
 export default class TicTacToeGameArea extends GameArea<TicTacToeGame> {
+  private _rematchRequests: PlayerID[] = [];
+
+  private _series?: GameSeries;
+
+  /**
+   * Creates a new TicTacToeGameArea
+   *
+   * @param id unique ID for this area
+   * @param boundingBox the bounding box that defines this area
+   * @param townEmitter a broadcast emitter that can be used to emit updates to players
+   * @param mapObject the map object that this area was created from. If it has a `bestOf` property,
+   *  the games played in this area form best-of-N series
+   * @param clock the clock that time controls are measured with (@see GameArea)
+   * @throws Error if the `bestOf` property is not a positive odd integer
+   */
+  public constructor(
+    id: InteractableID,
+    boundingBox: BoundingBox,
+    townEmitter: TownEmitter,
+    mapObject?: ITiledMapObject,
+    clock: Clock = systemClock,
+  ) {
+    super(id, boundingBox, townEmitter, mapObject, clock);
+    const bestOf = mapObject?.properties?.find(prop => prop.name === 'bestOf')?.value;
+    if (bestOf !== undefined) {
+      if (
+        typeof bestOf !== 'number' ||
+        !Number.isInteger(bestOf) ||
+        bestOf < 1 ||
+        bestOf % 2 === 0
+      ) {
+        throw new Error(`Malformed game area ${id}: bestOf must be a positive odd integer`);
+      }
+      this._series = { bestOf, gamesPlayed: 0, scores: {}, isOver: false };
+    }
+  }
+
+  public get series(): GameSeries | undefined {
+    return this._series;
+  }
+
+  public toModel(viewer?: PlayerID): TicTacToeGameAreaModel {
+    return {
+      ...super.toModel(viewer),
+      rematchRequests: this._rematchRequests,
+      series: this._series,
+    };
+  }
+
   protected getType(): InteractableType {
     return 'TicTacToeArea';
   }
 
+  protected _createGame(): TicTacToeGame {
+    return new TicTacToeGame();
+  }
+
+  /**
+   * Creates a new game (@see GameArea._newGame). Requests for a rematch of the last game are dropped,
+   * as a game has been started without them.
+   */
+  protected _newGame(): TicTacToeGame {
+    this._rematchRequests = [];
+    return super._newGame();
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isTicTacToeMove(move);
+  }
+
+  /**
+   * Starts a new game with the given players already seated (@see GameArea.startGame), and starts a new
+   * series if they are not the players of the series so far
+   */
+  public startGame(players: Player[]): GameInstanceID {
+    const gameID = super.startGame(players);
+    if (this._startSeriesForNewPlayers()) {
+      this._emitAreaChanged();
+    }
+    return gameID;
+  }
+
   /**
    * Handle a command from a player in this game area.
-   * Supported commands:
-   * - JoinGame (joins the game `this._game`, or creates a new one if none is in progress)
-   * - GameMove (applies a move to the game)
-   * - LeaveGame (leaves the game)
+   * In addition to the commands supported by every GameArea (@see GameArea.handleCommand), supports:
+   * - AddBot (seats a computer player in a game that has exactly one player, and starts the game)
+   * - Rematch (asks for a rematch of a finished game. Once both of its players have asked - bots always
+   *   accept - starts a new game between them with X and O swapped)
+   *
+   * Bots always accept a request to take back a move (@see GameArea.handleCommand). As the bot replies
+   * to each move straight away, the last move is the bot's reply, so the requester's own move before it
+   * is taken back too; otherwise, the bot would just make its reply again.
    *
-   * If the command ended the game, records the outcome in this._history
-   * If the command is successful (does not throw an error), calls this._emitAreaChanged (necessary
-   *  to notify any listeners of a state update, including any change to history)
-   * If the command is unsuccessful (throws an error), the error is propagated to the caller
+   * If a player who has not played in the series so far takes a seat, a new series is started, as a
+   * series is played between the same two players.
    *
-   * @see InteractableCommand
+   * Whenever it is a bot's turn after a command, the bot makes its move through the game's
+   * applyMove, records the outcome in this._history if that ends the game, and calls
+   * this._emitAreaChanged.
    *
    * @param command command to handle
    * @param player player making the request
    * @returns response to the command, @see InteractableCommandResponse
-   * @throws InvalidParametersError if the command is not supported or is invalid. Invalid commands:
-   *  - LeaveGame and GameMove: No game in progress (GAME_NOT_IN_PROGRESS_MESSAGE),
-   *        or gameID does not match the game in progress (GAME_ID_MISSMATCH_MESSAGE)
-   *  - Any command besides LeaveGame, GameMove and JoinGame: INVALID_COMMAND_MESSAGE
+   * @throws InvalidParametersError if the command is not supported or is invalid. Invalid AddBot commands:
+   *  - No game in progress (GAME_NOT_IN_PROGRESS_MESSAGE), or gameID does not match the game in progress
+   *        (GAME_ID_MISSMATCH_MESSAGE)
+   *  - The difficulty is not one of 'easy', 'medium' or 'hard' (INVALID_COMMAND_MESSAGE)
+   *  - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *  - The game does not have exactly one player, or has already started (BOT_NEEDS_ONE_PLAYER_MESSAGE)
+   * Invalid Rematch commands:
+   *  - No game in progress (GAME_NOT_IN_PROGRESS_MESSAGE), or gameID does not match the game in progress
+   *        (GAME_ID_MISSMATCH_MESSAGE)
+   *  - The game is not over (GAME_NOT_OVER_MESSAGE)
+   *  - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
    */
   public handleCommand<CommandType extends InteractableCommand>(
     command: CommandType,
     player: Player,
   ): InteractableCommandReturnType<CommandType> {
-    switch (command.type) {
-      case 'JoinGame':
-        return this._handleJoinGame(player) as InteractableCommandReturnType<CommandType>;
-      case 'GameMove':
-        return this._handleGameMove(
-          player,
-          command as GameMoveCommand<TicTacToeMove>,
-        ) as InteractableCommandReturnType<CommandType>;
-      case 'LeaveGame':
-        return this._handleLeaveGame(
-          player,
-          command as LeaveGameCommand,
-        ) as InteractableCommandReturnType<CommandType>;
-      default:
-        throw new InvalidParametersError(INVALID_COMMAND_MESSAGE);
-    }
-  }
-
-  private _handleJoinGame(
-    player: Player,
-  ): InteractableCommandReturnType<JoinGameCommand> | { gameID: string } {
-    if (!this._game) {
-      // If no game in progress, create a new game and join it
-      const newGame = new TicTacToeGame();
-      // newGame.join(player);
-      this._game = newGame;
+    let response: InteractableCommandReturnType<CommandType>;
+    if (command.type === 'AddBot') {
+      response = this._handleAddBot(
+        player,
+        command as AddBotCommand,
+      ) as InteractableCommandReturnType<CommandType>;
+    } else if (command.type === 'Rematch') {
+      response = this._handleRematch(
+        player,
+        command as RematchCommand,
+      ) as InteractableCommandReturnType<CommandType>;
+    } else {
+      response = super.handleCommand(command, player);
+    }
+    if (command.type === 'RequestUndo') {
+      this._acceptUndoForBot(command as RequestUndoCommand);
+    }
+    if (this._startSeriesForNewPlayers()) {
       this._emitAreaChanged();
-      return { gameID: newGame.id };
     }
+    this._playBotTurn();
+    return response;
+  }
 
-    // If a game is already in progress, join the existing game
-    this._game.join(player);
+  private _handleAddBot(
+    player: Player,
+    command: AddBotCommand,
+  ): InteractableCommandReturnType<AddBotCommand> {
+    const game = this._gameWithID(command.gameID);
+    if (!BOT_DIFFICULTIES.includes(command.difficulty)) {
+      throw new InvalidParametersError(INVALID_COMMAND_MESSAGE);
+    }
+    if (!game.players.some(eachPlayer => eachPlayer.id === player.id)) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (game.players.length !== 1 || game.state.status !== 'WAITING_TO_START') {
+      throw new InvalidParametersError(BOT_NEEDS_ONE_PLAYER_MESSAGE);
+    }
+    const bot = new TicTacToeBot(command.difficulty, this.townEmitter);
+    game.join(bot);
+    // asking for a bot is asking to start the game, so neither player needs to confirm that they are ready
+    game.setReady(player);
+    game.setReady(bot);
     this._emitAreaChanged();
-    return { gameID: this._game.id };
+    return undefined;
   }
 
-  private _handleGameMove(
+  private _handleRematch(
     player: Player,
-    command: GameMoveCommand<TicTacToeMove>,
-  ): InteractableCommandReturnType<GameMoveCommand<TicTacToeMove>> {
-    if (!this._game) {
-      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    command: RematchCommand,
+  ): InteractableCommandReturnType<RematchCommand> {
+    const game = this._gameWithID(command.gameID);
+    if (game.state.status !== 'OVER') {
+      throw new InvalidParametersError(GAME_NOT_OVER_MESSAGE);
     }
-
-    if (command.gameID !== this._game.id) {
-      throw new InvalidParametersError(GAME_ID_MISSMATCH_MESSAGE);
+    if (!game.players.some(eachPlayer => eachPlayer.id === player.id)) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (!this._rematchRequests.includes(player.id)) {
+      this._rematchRequests.push(player.id);
+    }
+    const { x, o } = game.state;
+    const [newX, newO] = [o, x].map(playerID =>
+      game.players.find(eachPlayer => eachPlayer.id === playerID),
+    );
+    const accepted = (eachPlayer?: Player) =>
+      eachPlayer instanceof TicTacToeBot ||
+      (eachPlayer !== undefined && this._rematchRequests.includes(eachPlayer.id));
+    if (newX && newO && accepted(newX) && accepted(newO)) {
+      const newGame = this._newGame();
+      newGame.join(newX);
+      newGame.join(newO);
+      // both players have asked for the rematch, so neither needs to confirm that they are ready
+      newGame.setReady(newX);
+      newGame.setReady(newO);
+      game.spectators.forEach(eachSpectator => newGame.spectate(eachSpectator));
+      this._game = newGame;
+      this._rematchRequests = [];
+      if (this._series?.isOver) {
+        this._series = { bestOf: this._series.bestOf, gamesPlayed: 0, scores: {}, isOver: false };
+      }
     }
-
-    // if (!this._game.players) {
-    //   throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
-    // }
-
-    this._game.applyMove({
-      playerID: player.id,
-      gameID: this._game.id,
-      move: command.move,
-    });
-
-    this._handleGameOver(player);
-
     this._emitAreaChanged();
     return undefined;
   }
 
-  private _handleLeaveGame(
-    player: Player,
-    command: LeaveGameCommand,
-  ): InteractableCommandReturnType<LeaveGameCommand> {
-    if (!this._game) {
-      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+  /**
+   * Records the outcome of a game that has just ended (@see GameArea._handleGameOver), and if the games
+   * in this area form a series, adds the outcome to the running score of the series
+   *
+   * @param player the player whose command may have ended the game
+   */
+  protected _handleGameOver(player: Player): void {
+    const gamesRecorded = this._history.length;
+    super._handleGameOver(player);
+    const game = this._game;
+    if (!game || !this._series || this._history.length === gamesRecorded) {
+      return;
+    }
+    const { x, o, winner } = game.state;
+    const scores = { ...this._series.scores };
+    [x, o].forEach(playerID => {
+      if (playerID && scores[playerID] === undefined) {
+        scores[playerID] = 0;
+      }
+    });
+    if (winner) {
+      scores[winner] += 1;
     }
+    const { bestOf } = this._series;
+    const gamesPlayed = this._series.gamesPlayed + 1;
+    const ranked = Object.entries(scores).sort(([, score1], [, score2]) => score2 - score1);
+    const [leaderID, leaderScore] = ranked[0];
+    const isOver = leaderScore > bestOf / 2 || gamesPlayed >= bestOf;
+    this._series = {
+      bestOf,
+      gamesPlayed,
+      scores,
+      isOver,
+      winner: isOver && ranked[1]?.[1] !== leaderScore ? leaderID : undefined,
+    };
+  }
 
-    if (command.gameID !== this._game.id) {
-      throw new InvalidParametersError(GAME_ID_MISSMATCH_MESSAGE);
+  /**
+   * Starts a new series if the series has games recorded, and a player who has not played in any of
+   * them has taken a seat in this area's game
+   * @returns true if a new series was started
+   */
+  private _startSeriesForNewPlayers(): boolean {
+    const series = this._series;
+    if (
+      !series ||
+      series.gamesPlayed === 0 ||
+      !this._game?.players.some(eachPlayer => series.scores[eachPlayer.id] === undefined)
+    ) {
+      return false;
     }
+    this._series = { bestOf: series.bestOf, gamesPlayed: 0, scores: {}, isOver: false };
+    return true;
+  }
 
-    // Leave the game
-    this._game.leave(player);
+  /**
+   * Games against bots are not rated (@see GameArea._isRated)
+   */
+  protected _isRated(game: TicTacToeGame, participants: Player[]): boolean {
+    return (
+      super._isRated(game, participants) &&
+      !participants.some(eachPlayer => eachPlayer instanceof TicTacToeBot)
+    );
+  }
 
-    // If there's only one player left in the game, end the game
-    if (this._game.players.length === 1) {
-      this._game.end();
+  /**
+   * If the game's other player is a bot, accepts the request to take back a move on its behalf, and then
+   * takes back the requester's move before the bot's reply as well
+   */
+  private _acceptUndoForBot(command: RequestUndoCommand): void {
+    const bot = this._game?.players.find(eachPlayer => eachPlayer instanceof TicTacToeBot);
+    if (!bot) {
+      return;
     }
+    super.handleCommand({ type: 'RespondUndo', gameID: command.gameID, accept: true }, bot);
+    const game = this._gameWithID(command.gameID);
+    if (this._botToMove() && game.state.moves.length > 0) {
+      game.undoLastMove();
+      this._emitAreaChanged();
+    }
+  }
 
-    this._handleGameOver(player);
-
-    this._emitAreaChanged();
-    return undefined;
+  /**
+   * @returns the bot whose turn it is, if the game is in progress and it is a bot's turn
+   */
+  private _botToMove(): TicTacToeBot | undefined {
+    const game = this._game;
+    if (game?.state.status !== 'IN_PROGRESS') {
+      return undefined;
+    }
+    const { moves, x, o } = game.state;
+    const nextPlayerID = moves.length % 2 === 0 ? x : o;
+    const bot = game.players.find(eachPlayer => eachPlayer.id === nextPlayerID);
+    return bot instanceof TicTacToeBot ? bot : undefined;
   }
 
-  private _handleGameOver(player: Player): void {
-    if (this._game?.state.status === 'OVER') {
-      const winnerID = this._game.state.winner;
-      const otherPlayer = this._game.players.find(p => p.id !== player.id);
-      // if history already exists for the current game
-      const existingGameResultIndex = this._history.findIndex(
-        record => record.gameID === this._game?.id,
-      );
-
-      // if game record history exists for current game
-      if (existingGameResultIndex !== -1) {
-        // Retrieve old scores
-        const oldScores = this._history[existingGameResultIndex].scores;
-
-        // Update scores based on the winner
-        const newScores = Object.fromEntries(
-          Object.entries(oldScores).map(([userName, score]) => {
-            if (winnerID === player.id && userName === player.userName) {
-              return [userName, score + 1];
-            }
-            return [userName, score];
-          }),
-        );
-        // Update the existing history record
-        this._history[existingGameResultIndex].scores = newScores;
-      } else if (otherPlayer !== undefined) {
-        // Create a new history record
-        const newScores = {
-          [player.userName]: winnerID === player.id ? 1 : 0,
-          [otherPlayer.userName]: winnerID === otherPlayer.id ? 1 : 0,
-        };
-        const newGameResult: GameResult = {
-          gameID: this._game.id,
-          scores: newScores,
-        };
-        this._history.push(newGameResult);
-      }
+  /**
+   * If the game is in progress and it is a bot's turn, makes the bot's move
+   */
+  private _playBotTurn(): void {
+    const game = this._game;
+    const bot = this._botToMove();
+    if (!game || !bot) {
+      return;
     }
+    game.applyMove({ playerID: bot.id, gameID: game.id, move: bot.chooseMove(game.state) });
+    this._handleGameOver(bot);
+    this._emitAreaChanged();
   }
 }
+
+/**
+ * Registers TicTacToe with the GameRegistry: map objects with `type: TicTacToe` host a TicTacToeGameArea
+ */
+export const ticTacToeRegistration: GameRegistration<TicTacToeGame, TicTacToeMove> = {
+  gameType: 'TicTacToe',
+  interactableType: 'TicTacToeArea',
+  gameClass: TicTacToeGame,
+  areaClass: TicTacToeGameArea,
+  isValidMove: isTicTacToeMove,
+};
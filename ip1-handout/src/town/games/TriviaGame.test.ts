@@ -0,0 +1,261 @@
+import { createPlayerForTesting, mockClock, MockClock } from '../../TestUtils';
+import {
+  ALREADY_ANSWERED_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  NO_SUCH_CHOICE_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import TriviaGame, { isTriviaMove, TRIVIA_MAX_POINTS, TriviaBankQuestion } from './TriviaGame';
+
+const TIME_PER_QUESTION = 10 * 1000;
+
+const QUESTIONS: TriviaBankQuestion[] = [
+  {
+    category: 'Games',
+    question: 'How many squares on a chess board?',
+    choices: ['36', '64'],
+    answer: 1,
+  },
+  {
+    category: 'Games',
+    question: 'How many in a row win Connect Four?',
+    choices: ['4', '5'],
+    answer: 0,
+  },
+  {
+    category: 'Town',
+    question: 'What do maps list areas in?',
+    choices: ['Objects', 'Tiles'],
+    answer: 0,
+  },
+];
+
+describe('TriviaGame', () => {
+  let game: TriviaGame;
+  let clock: MockClock;
+  let player1: Player;
+  let player2: Player;
+
+  beforeEach(() => {
+    clock = mockClock();
+    game = new TriviaGame(QUESTIONS, TIME_PER_QUESTION);
+    game.useClock(clock);
+    player1 = createPlayerForTesting();
+    player2 = createPlayerForTesting();
+  });
+
+  function answer(player: Player, choice: number) {
+    game.applyMove({ gameID: game.id, playerID: player.id, move: { choice } });
+  }
+
+  /**
+   * Joins both players to the game, and starts it
+   */
+  function start() {
+    game.join(player1);
+    game.join(player2);
+    game.setReady(player1);
+    game.setReady(player2);
+  }
+
+  it('throws an error if there are no questions, an answer is not a choice or the time is invalid', () => {
+    expect(() => new TriviaGame([])).toThrowError();
+    expect(() => new TriviaGame([{ ...QUESTIONS[0], answer: 2 }])).toThrowError();
+    expect(() => new TriviaGame(QUESTIONS, 0)).toThrowError();
+  });
+
+  describe('_join', () => {
+    it('opens the lobby when the first player joins', () => {
+      game.join(player1);
+      expect(game.state.status).toEqual('WAITING_FOR_READY');
+      expect(game.state.scores).toEqual({ [player1.id]: 0 });
+    });
+    it('asks the first question once every player is ready', () => {
+      game.join(player1);
+      game.join(player2);
+      game.setReady(player1);
+      expect(game.state.question).toBeUndefined();
+      game.setReady(player2);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      expect(game.state.question).toEqual({
+        category: 'Games',
+        question: QUESTIONS[0].question,
+        choices: QUESTIONS[0].choices,
+      });
+      expect(game.state.deadline).toEqual(TIME_PER_QUESTION);
+    });
+    it('lets players join a game in progress, on no points', () => {
+      start();
+      const player3 = createPlayerForTesting();
+      game.join(player3);
+      expect(game.state.scores[player3.id]).toEqual(0);
+      answer(player1, 1);
+      answer(player2, 1);
+      expect(game.state.rounds).toHaveLength(0);
+      answer(player3, 0);
+      expect(game.state.rounds).toHaveLength(1);
+    });
+    it('throws an error if the player is already in the game', () => {
+      game.join(player1);
+      expect(() => game.join(player1)).toThrowError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    });
+  });
+
+  describe('_leave', () => {
+    it('throws an error if the player is not in the game', () => {
+      game.join(player1);
+      expect(() => game.leave(player2)).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+    });
+    it('starts the game if every player who is left in the lobby is ready', () => {
+      game.join(player1);
+      game.join(player2);
+      game.setReady(player1);
+      game.leave(player2);
+      expect(game.state.status).toEqual('IN_PROGRESS');
+      expect(game.state.question?.question).toEqual(QUESTIONS[0].question);
+    });
+    it('closes the lobby once every player has left it', () => {
+      game.join(player1);
+      game.leave(player1);
+      expect(game.state.status).toEqual('WAITING_TO_START');
+    });
+    it('ends the round if every player who is left has answered', () => {
+      start();
+      answer(player1, 1);
+      game.leave(player2);
+      expect(game.state.rounds).toHaveLength(1);
+      expect(game.state.scores).toEqual({ [player1.id]: TRIVIA_MAX_POINTS });
+    });
+    it('ends the game without a winner once every player has left', () => {
+      start();
+      game.leave(player1);
+      game.leave(player2);
+      expect(game.state.status).toEqual('OVER');
+      expect(game.state.winner).toBeUndefined();
+      expect(game.state.podium).toEqual([]);
+    });
+  });
+
+  describe('applyMove', () => {
+    it('throws an error if the game has not started', () => {
+      game.join(player1);
+      expect(() => answer(player1, 0)).toThrowError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    });
+    describe('when the game is in progress', () => {
+      beforeEach(start);
+      it('records who has answered, without ending the round', () => {
+        answer(player2, 0);
+        expect(game.state.answered).toEqual([player2.id]);
+        expect(game.state.choices).toEqual({ [player2.id]: 0 });
+        expect(game.state.rounds).toHaveLength(0);
+        expect(game.state.scores[player2.id]).toEqual(0);
+      });
+      it('throws an error if the player has already answered the question', () => {
+        answer(player1, 1);
+        expect(() => answer(player1, 0)).toThrowError(ALREADY_ANSWERED_MESSAGE);
+      });
+      it('throws an error if the question has no such choice', () => {
+        expect(() => answer(player1, 2)).toThrowError(NO_SUCH_CHOICE_MESSAGE);
+      });
+      it('throws an error if the player is not in the game', () => {
+        expect(() => answer(createPlayerForTesting(), 0)).toThrowError(PLAYER_NOT_IN_GAME_MESSAGE);
+      });
+      it('reveals the answer and every player’s answer once every player has answered', () => {
+        answer(player1, 1);
+        answer(player2, 0);
+        expect(game.state.rounds).toEqual([
+          {
+            question: { category: 'Games', question: QUESTIONS[0].question, choices: ['36', '64'] },
+            answer: 1,
+            answers: {
+              [player1.id]: { choice: 1, points: TRIVIA_MAX_POINTS },
+              [player2.id]: { choice: 0, points: 0 },
+            },
+          },
+        ]);
+        expect(game.state.question?.question).toEqual(QUESTIONS[1].question);
+        expect(game.state.answered).toEqual([]);
+        expect(game.state.choices).toEqual({});
+      });
+      it('scores correct answers by how soon they are given', () => {
+        clock.advance(TIME_PER_QUESTION / 2);
+        answer(player1, 1);
+        clock.advance(TIME_PER_QUESTION / 2);
+        expect(game.state.scores).toEqual({
+          [player1.id]: TRIVIA_MAX_POINTS * 0.75,
+          [player2.id]: 0,
+        });
+      });
+      it('ends the round when its time runs out, telling the listener', () => {
+        const listener = jest.fn();
+        game.onRoundTimeout(listener);
+        answer(player1, 1);
+        clock.advance(TIME_PER_QUESTION - 1);
+        expect(listener).not.toHaveBeenCalled();
+        clock.advance(1);
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(game.state.rounds[0].answers).toEqual({
+          [player1.id]: { choice: 1, points: TRIVIA_MAX_POINTS },
+        });
+        expect(game.state.deadline).toEqual(2 * TIME_PER_QUESTION);
+      });
+      it('ends the game after the last question, with the podium in order of points', () => {
+        answer(player1, 0);
+        answer(player2, 1);
+        clock.advance(1000);
+        answer(player1, 0);
+        answer(player2, 0);
+        expect(game.state.status).toEqual('IN_PROGRESS');
+        clock.advance(TIME_PER_QUESTION);
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.question).toBeUndefined();
+        expect(game.state.podium).toEqual([player2.id, player1.id]);
+        expect(game.state.winner).toEqual(player2.id);
+        expect(() => answer(player1, 0)).toThrowError(GAME_OVER_MESSAGE);
+      });
+      it('ends the game without a winner if the most points are tied', () => {
+        QUESTIONS.forEach(() => {
+          answer(player1, 0);
+          answer(player2, 0);
+        });
+        expect(game.state.status).toEqual('OVER');
+        expect(game.state.winner).toBeUndefined();
+        expect(game.state.podium).toEqual([player1.id, player2.id]);
+      });
+    });
+  });
+
+  describe('toModel', () => {
+    it('shows each player only their own choice until the round ends', () => {
+      const spectator = createPlayerForTesting();
+      start();
+      game.spectate(spectator);
+      answer(player1, 0);
+      expect(game.toModel(player1.id).state.choices).toEqual({ [player1.id]: 0 });
+      expect(game.toModel(player2.id).state.choices).toEqual({});
+      expect(game.toModel(spectator.id).state.choices).toEqual({});
+      expect(game.toModel(player2.id).state.answered).toEqual([player1.id]);
+    });
+    it('never includes the answer to the current question', () => {
+      start();
+      expect(game.toModel().state.question).not.toHaveProperty('answer');
+    });
+  });
+
+  describe('isTriviaMove', () => {
+    it('accepts moves with the index of a choice', () => {
+      expect(isTriviaMove({ choice: 0 })).toBe(true);
+      expect(isTriviaMove({ choice: 3 })).toBe(true);
+    });
+    it('rejects anything else', () => {
+      expect(isTriviaMove({ choice: -1 })).toBe(false);
+      expect(isTriviaMove({ choice: 1.5 })).toBe(false);
+      expect(isTriviaMove({ choice: '1' })).toBe(false);
+      expect(isTriviaMove({})).toBe(false);
+      expect(isTriviaMove(null)).toBe(false);
+    });
+  });
+});
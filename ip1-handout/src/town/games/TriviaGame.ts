@@ -0,0 +1,389 @@
+import { TimerHandle } from '../../lib/Clock';
+import InvalidParametersError, {
+  ALREADY_ANSWERED_MESSAGE,
+  GAME_NOT_IN_PROGRESS_MESSAGE,
+  GAME_OVER_MESSAGE,
+  NO_SUCH_CHOICE_MESSAGE,
+  PLAYER_ALREADY_IN_GAME_MESSAGE,
+  PLAYER_NOT_IN_GAME_MESSAGE,
+} from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import {
+  GameMove,
+  PlayerID,
+  TriviaGameState,
+  TriviaMove,
+  TriviaQuestion,
+} from '../../types/CoveyTownSocket';
+import Game from './Game';
+
+/** The number of players needed to play a trivia game: one can play alone */
+export const TRIVIA_MIN_PLAYERS = 1;
+
+/** The number of players who can take part in a trivia game together */
+export const TRIVIA_MAX_PLAYERS = 50;
+
+/** The number of milliseconds that players have to answer each question, unless the game says otherwise */
+export const DEFAULT_TIME_PER_QUESTION_MS = 20 * 1000;
+
+/**
+ * The points scored by a correct answer given as soon as the question is asked. Correct answers score
+ * fewer points the later they are given, down to half of this at the round's deadline.
+ */
+export const TRIVIA_MAX_POINTS = 1000;
+
+/** The number of players on the podium at the end of a game */
+export const PODIUM_SIZE = 3;
+
+/**
+ * A question from a question bank, along with its answer (the index of the correct choice)
+ */
+export interface TriviaBankQuestion extends TriviaQuestion {
+  answer: number;
+}
+
+/**
+ * Checks that a move received from a client has the shape of a TriviaMove
+ * @param move the move to check
+ * @returns true if the move has a choice that could be the index of a choice of a question
+ */
+export function isTriviaMove(move: unknown): move is TriviaMove {
+  if (typeof move !== 'object' || move === null) {
+    return false;
+  }
+  const { choice } = move as Record<string, unknown>;
+  return typeof choice === 'number' && Number.isInteger(choice) && choice >= 0;
+}
+
+/**
+ * @returns the question as it is shown to players, without its answer
+ */
+function withoutAnswer({ category, question, choices }: TriviaBankQuestion): TriviaQuestion {
+  return { category, question, choices: [...choices] };
+}
+
+/**
+ * A TriviaGame is a Game in which any number of players answer the same multiple-choice questions
+ * against the clock. Players join a lobby, and the first question is asked once they are all ready
+ * (@see Game.setReady); players can also join a game that is in progress, starting on no points.
+ *
+ * Each round ends once every player has answered, or when its time runs out, and the next question is
+ * asked straight away. Rounds that end because their time runs out end outside of any command, so the
+ * game tells its listener about them (@see onRoundTimeout).
+ */
+export default class TriviaGame extends Game<TriviaGameState, TriviaMove> {
+  private readonly _questions: TriviaBankQuestion[];
+
+  private readonly _timePerQuestion: number;
+
+  /* The time at which the current round started, and its timer */
+  private _roundStartedAt = 0;
+
+  private _roundTimer?: TimerHandle;
+
+  /* The points scored by each answer to the current question, which are kept until the round ends */
+  private _points: Map<PlayerID, number> = new Map();
+
+  private _roundTimeoutListener?: () => void;
+
+  /**
+   * Creates a new TriviaGame
+   *
+   * @param questions the questions to ask, in order
+   * @param timePerQuestion the number of milliseconds that players have to answer each question
+   * @throws Error if there are no questions, a question's answer is not one of its choices, or
+   *  timePerQuestion is not a positive number
+   */
+  public constructor(
+    questions: TriviaBankQuestion[],
+    timePerQuestion = DEFAULT_TIME_PER_QUESTION_MS,
+  ) {
+    if (questions.length === 0) {
+      throw new Error('A trivia game must have at least one question');
+    }
+    if (
+      questions.some(
+        ({ answer, choices }) =>
+          !Number.isInteger(answer) || answer < 0 || answer >= choices.length,
+      )
+    ) {
+      throw new Error('The answer to each question must be one of its choices');
+    }
+    if (!(timePerQuestion > 0)) {
+      throw new Error(`Invalid time per question: ${timePerQuestion}`);
+    }
+    super(
+      {
+        questionCount: questions.length,
+        rounds: [],
+        answered: [],
+        choices: {},
+        scores: {},
+        status: 'WAITING_TO_START',
+      },
+      TRIVIA_MIN_PLAYERS,
+      TRIVIA_MAX_PLAYERS,
+    );
+    this._questions = questions.map(question => ({
+      ...question,
+      choices: [...question.choices],
+    }));
+    this._timePerQuestion = timePerQuestion;
+  }
+
+  /**
+   * Calls the listener whenever a round ends because its time runs out, after the next question has been
+   * asked (or, after the last question, after the game has ended). Rounds that end because every player
+   * has answered end during a move, and are not reported.
+   *
+   * @param listener the function to call
+   */
+  public onRoundTimeout(listener: () => void): void {
+    this._roundTimeoutListener = listener;
+  }
+
+  /**
+   * Confirms that a player is ready to start the game, and asks the first question once every player is
+   * @see Game.setReady
+   */
+  public setReady(player: Player): void {
+    super.setReady(player);
+    if (this.state.status === 'IN_PROGRESS') {
+      this._startRound();
+    }
+  }
+
+  /*
+   * Applies a player's answer to the current question.
+   * Validates the move before applying it. If the move is invalid, throws an InvalidParametersError with
+   * the error message specified below.
+   * A move is invalid if:
+   *    - The game is over (GAME_OVER_MESSAGE) or not yet in progress (GAME_NOT_IN_PROGRESS_MESSAGE)
+   *    - The player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   *    - The player has already answered the current question (ALREADY_ANSWERED_MESSAGE)
+   *    - The current question has no such choice (NO_SUCH_CHOICE_MESSAGE)
+   *
+   * A correct answer scores up to TRIVIA_MAX_POINTS, depending on how soon it is given; a wrong answer
+   * scores nothing. The points are added to the player's score when the round ends, which it does as
+   * soon as every player has answered.
+   *
+   * @param move The move to apply to the game
+   * @throws InvalidParametersError if the move is invalid (with specific message noted above)
+   */
+  protected _applyMove(move: GameMove<TriviaMove>): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.state.status !== 'IN_PROGRESS') {
+      throw new InvalidParametersError(GAME_NOT_IN_PROGRESS_MESSAGE);
+    }
+    if (!this.seats.includes(move.playerID)) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    if (this.state.answered.includes(move.playerID)) {
+      throw new InvalidParametersError(ALREADY_ANSWERED_MESSAGE);
+    }
+    const { choice } = move.move;
+    const question = this._questions[this.state.rounds.length];
+    if (choice >= question.choices.length) {
+      throw new InvalidParametersError(NO_SUCH_CHOICE_MESSAGE);
+    }
+    const elapsed = Math.min(this._clock.now() - this._roundStartedAt, this._timePerQuestion);
+    this._points.set(
+      move.playerID,
+      choice === question.answer
+        ? Math.round(TRIVIA_MAX_POINTS * (1 - elapsed / (2 * this._timePerQuestion)))
+        : 0,
+    );
+    this.state = {
+      ...this.state,
+      answered: [...this.state.answered, move.playerID],
+      choices: { ...this.state.choices, [move.playerID]: choice },
+    };
+    if (this._everyoneAnswered()) {
+      this._endRound();
+    }
+  }
+
+  /**
+   * Answers are not taken in turns
+   */
+  protected _playerToMove(): PlayerID | undefined {
+    return undefined;
+  }
+
+  /**
+   * Keeps each player's choice in the current round from everyone else until the round ends
+   */
+  protected _stateFor(viewer?: PlayerID): TriviaGameState {
+    const { choices } = this.state;
+    return {
+      ...this.state,
+      choices: viewer !== undefined && viewer in choices ? { [viewer]: choices[viewer] } : {},
+    };
+  }
+
+  /**
+   * Adds a player to the game, on no points.
+   * The first player to join opens the lobby: updates the game's state to set the status to
+   * WAITING_FOR_READY, and the game starts once every player in it is ready. Players can also join while
+   * the game is in progress.
+   *
+   * @param player The player to join the game
+   * @throws InvalidParametersError if the game is over (GAME_OVER_MESSAGE), the player is already
+   *  in the game (PLAYER_ALREADY_IN_GAME_MESSAGE) or every seat is taken (GAME_FULL_MESSAGE)
+   */
+  protected _join(player: Player): void {
+    if (this.state.status === 'OVER') {
+      throw new InvalidParametersError(GAME_OVER_MESSAGE);
+    }
+    if (this.seats.includes(player.id)) {
+      throw new InvalidParametersError(PLAYER_ALREADY_IN_GAME_MESSAGE);
+    }
+    this._takeSeat(player);
+    this.state = { ...this.state, scores: { ...this.state.scores, [player.id]: 0 } };
+    if (this.state.status === 'WAITING_TO_START') {
+      this.state = { ...this.state, status: 'WAITING_FOR_READY', ready: [] };
+    }
+  }
+
+  /**
+   * Removes a player from the game, along with their score and any answer to the current question.
+   * In the lobby, if every player who is left is ready, the game starts; if nobody is left, updates the
+   * game's state to set the status back to WAITING_TO_START.
+   * If the game is in progress, the current round ends if every player who is left has answered; if
+   * nobody is left, updates the game's state to set the status to OVER, without a winner.
+   *
+   * @param player The player to remove from the game
+   * @throws InvalidParametersError if the player is not in the game (PLAYER_NOT_IN_GAME_MESSAGE)
+   */
+  protected _leave(player: Player): void {
+    if (!this.seats.includes(player.id)) {
+      throw new InvalidParametersError(PLAYER_NOT_IN_GAME_MESSAGE);
+    }
+    this._leaveSeat(player);
+    this._points.delete(player.id);
+    const without = <T>(record: { [playerID: string]: T }) =>
+      Object.fromEntries(Object.entries(record).filter(([playerID]) => playerID !== player.id));
+    this.state = {
+      ...this.state,
+      answered: this.state.answered.filter(playerID => playerID !== player.id),
+      choices: without(this.state.choices),
+      scores: without(this.state.scores),
+      ready: this.state.ready?.filter(playerID => playerID !== player.id),
+    };
+    const remaining = this._seatedCount;
+    if (this.state.status === 'WAITING_FOR_READY') {
+      if (remaining === 0) {
+        this.state = { ...this.state, status: 'WAITING_TO_START', ready: undefined };
+      } else if (this.state.ready?.length === remaining) {
+        this.state = { ...this.state, status: 'IN_PROGRESS', ready: undefined };
+        this._startRound();
+      }
+    } else if (this.state.status === 'IN_PROGRESS') {
+      if (remaining === 0) {
+        this._clearRoundTimer();
+        this.state = {
+          ...this.state,
+          status: 'OVER',
+          winner: undefined,
+          question: undefined,
+          deadline: undefined,
+          podium: [],
+        };
+      } else if (this._everyoneAnswered()) {
+        this._endRound();
+      }
+    }
+  }
+
+  private _everyoneAnswered(): boolean {
+    return this.seats.every(
+      playerID => playerID === undefined || this.state.answered.includes(playerID),
+    );
+  }
+
+  /**
+   * Asks the next question, and starts the clock on it
+   */
+  private _startRound(): void {
+    const question = withoutAnswer(this._questions[this.state.rounds.length]);
+    const now = this._clock.now();
+    this._roundStartedAt = now;
+    this._points = new Map();
+    this.state = {
+      ...this.state,
+      question,
+      deadline: now + this._timePerQuestion,
+      answered: [],
+      choices: {},
+    };
+    this._roundTimer = this._clock.setTimeout(() => {
+      this._roundTimer = undefined;
+      this._endRound();
+      this._stateChanged();
+      this._roundTimeoutListener?.();
+    }, this._timePerQuestion);
+  }
+
+  /**
+   * Reveals the answer to the current question, along with every player's answer, and adds the points
+   * that they scored to their scores. Then asks the next question, or if that was the last question,
+   * updates the game's state to set the status to OVER: the podium is made up of the players with the
+   * most points (ties are broken in the order that the players joined), and the player with the most
+   * points wins, unless they are tied for the most points.
+   */
+  private _endRound(): void {
+    this._clearRoundTimer();
+    const question = this._questions[this.state.rounds.length];
+    const { answered, choices } = this.state;
+    const points = (playerID: PlayerID) => this._points.get(playerID) ?? 0;
+    const scores = { ...this.state.scores };
+    answered.forEach(playerID => {
+      scores[playerID] += points(playerID);
+    });
+    const rounds = [
+      ...this.state.rounds,
+      {
+        question: withoutAnswer(question),
+        answer: question.answer,
+        answers: Object.fromEntries(
+          answered.map(playerID => [
+            playerID,
+            { choice: choices[playerID], points: points(playerID) },
+          ]),
+        ),
+      },
+    ];
+    this.state = {
+      ...this.state,
+      rounds,
+      scores,
+      question: undefined,
+      deadline: undefined,
+      answered: [],
+      choices: {},
+    };
+    if (rounds.length < this._questions.length) {
+      this._startRound();
+      return;
+    }
+    const ranking = this.seats
+      .filter((playerID): playerID is PlayerID => playerID !== undefined)
+      .sort((a, b) => scores[b] - scores[a]);
+    const [first, second] = ranking;
+    this.state = {
+      ...this.state,
+      status: 'OVER',
+      winner: second === undefined || scores[first] > scores[second] ? first : undefined,
+      podium: ranking.slice(0, PODIUM_SIZE),
+    };
+  }
+
+  private _clearRoundTimer(): void {
+    if (this._roundTimer !== undefined) {
+      this._clock.clearTimeout(this._roundTimer);
+      this._roundTimer = undefined;
+    }
+  }
+}
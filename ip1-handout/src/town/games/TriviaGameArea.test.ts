@@ -0,0 +1,172 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import { createPlayerForTesting, mockClock, MockClock } from '../../TestUtils';
+import { INVALID_MOVE_MESSAGE } from '../../lib/InvalidParametersError';
+import Player from '../../lib/Player';
+import { GameInstanceID, TownEmitter } from '../../types/CoveyTownSocket';
+import TriviaGameArea from './TriviaGameArea';
+
+const QUESTION_BANK = 'testData/triviaQuestions.json';
+
+/** The questions in QUESTION_BANK, and the index of each one's answer */
+const answerIndexes: Record<string, number> = {
+  'Which kind of area do players walk into to start a video call?': 0,
+  'Which format are town maps made in?': 0,
+  'How many squares are there on a chess board?': 1,
+  'In Connect Four, how many discs in a row win the game?': 1,
+};
+
+function createArea(properties: Record<string, unknown>, clock?: MockClock) {
+  return new TriviaGameArea(
+    nanoid(),
+    { x: 0, y: 0, width: 100, height: 100 },
+    mock<TownEmitter>(),
+    {
+      id: 1,
+      name: 'Game',
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      rotation: 0,
+      type: 'GameArea',
+      visible: true,
+      properties: Object.entries(properties).map(([name, value]) => ({
+        name,
+        type: typeof value === 'number' ? 'float' : 'string',
+        value,
+      })),
+    } as ITiledMapObject,
+    clock,
+  );
+}
+
+describe('TriviaGameArea', () => {
+  let gameArea: TriviaGameArea;
+  let clock: MockClock;
+  let player1: Player;
+  let player2: Player;
+  let gameID: GameInstanceID;
+  let interactableUpdateSpy: jest.SpyInstance;
+  beforeEach(() => {
+    clock = mockClock();
+    gameArea = createArea({ questionBank: QUESTION_BANK, timePerQuestion: 10, seed: 7 }, clock);
+    player1 = createPlayerForTesting();
+    player2 = createPlayerForTesting();
+    gameArea.add(player1);
+    gameArea.add(player2);
+    gameID = gameArea.handleCommand({ type: 'JoinGame' }, player1).gameID;
+    gameArea.handleCommand({ type: 'JoinGame' }, player2);
+    gameArea.handleCommand({ type: 'SetReady', gameID }, player1);
+    gameArea.handleCommand({ type: 'SetReady', gameID }, player2);
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore (Test requires access to protected method)
+    interactableUpdateSpy = jest.spyOn(gameArea, '_emitAreaChanged');
+  });
+
+  /**
+   * Answers the current question, correctly or not
+   */
+  function answer(player: Player, correctly: boolean) {
+    const correct = answerIndexes[gameArea.game?.state.question?.question as string];
+    gameArea.handleCommand(
+      { type: 'GameMove', gameID, move: { choice: correctly ? correct : 1 - correct } },
+      player,
+    );
+  }
+
+  it('reports its type as TriviaArea', () => {
+    expect(gameArea.toModel().type).toEqual('TriviaArea');
+  });
+  it('asks every question in the bank if it has fewer than the default number of questions', () => {
+    expect(gameArea.game?.state.questionCount).toEqual(4);
+    const area = createArea({ questionBank: QUESTION_BANK, questionsPerGame: 2 });
+    area.handleCommand({ type: 'JoinGame' }, player1);
+    expect(area.game?.state.questionCount).toEqual(2);
+  });
+  it('asks the questions in the same order for the same seed', () => {
+    const questionsAsked = (area: TriviaGameArea) => {
+      const player = createPlayerForTesting();
+      area.add(player);
+      const id = area.handleCommand({ type: 'JoinGame' }, player).gameID;
+      area.handleCommand({ type: 'SetReady', gameID: id }, player);
+      return Array.from({ length: 4 }, () => {
+        const question = area.game?.state.question?.question as string;
+        area.handleCommand({ type: 'GameMove', gameID: id, move: { choice: 0 } }, player);
+        return question;
+      });
+    };
+    const questions = questionsAsked(createArea({ questionBank: QUESTION_BANK, seed: 7 }));
+    expect(questionsAsked(createArea({ questionBank: QUESTION_BANK, seed: 7 }))).toEqual(questions);
+    expect(new Set(questions)).toEqual(new Set(Object.keys(answerIndexes)));
+  });
+  it('throws an error if the map object does not describe a question bank', () => {
+    expect(() => createArea({})).toThrowError();
+    expect(() => createArea({ questionBank: 'testData/noSuchFile.json' })).toThrowError();
+    expect(() => createArea({ questionBank: 'testData/indoors.json' })).toThrowError();
+    expect(() => createArea({ questionBank: 'testData/hangmanWords.json' })).toThrowError();
+  });
+  it('throws an error if questionsPerGame, timePerQuestion or seed is invalid', () => {
+    expect(() => createArea({ questionBank: QUESTION_BANK, questionsPerGame: 5 })).toThrowError();
+    expect(() => createArea({ questionBank: QUESTION_BANK, questionsPerGame: 0 })).toThrowError();
+    expect(() => createArea({ questionBank: QUESTION_BANK, timePerQuestion: -1 })).toThrowError();
+    expect(() => createArea({ questionBank: QUESTION_BANK, seed: 'random' })).toThrowError();
+  });
+  it('throws an error when the move is not a TriviaMove', () => {
+    expect(() =>
+      gameArea.handleCommand({ type: 'GameMove', gameID, move: { choice: -1 } }, player1),
+    ).toThrowError(INVALID_MOVE_MESSAGE);
+    expect(interactableUpdateSpy).not.toHaveBeenCalled();
+  });
+  it('keeps a choice out of the models of everyone but the player who made it', () => {
+    answer(player1, true);
+    expect(gameArea.toModel(player1.id).game?.state.choices).toEqual({
+      [player1.id]: expect.any(Number),
+    });
+    expect(gameArea.toModel(player2.id).game?.state.choices).toEqual({});
+  });
+  it('notifies players when a round ends because its time runs out', () => {
+    clock.advance(10 * 1000);
+    expect(interactableUpdateSpy).toHaveBeenCalledTimes(1);
+    expect(gameArea.game?.state.rounds).toHaveLength(1);
+  });
+  it('records each player’s points and the podium in the history when the game ends', () => {
+    answer(player1, true);
+    answer(player2, false);
+    answer(player1, true);
+    answer(player2, true);
+    answer(player1, false);
+    answer(player2, true);
+    answer(player1, true);
+    expect(gameArea.history).toEqual([]);
+    clock.advance(10 * 1000);
+    expect(gameArea.game?.state.status).toEqual('OVER');
+    expect(gameArea.history).toEqual([
+      {
+        gameID,
+        scores: { [player1.userName]: 3000, [player2.userName]: 2000 },
+        podium: [player1.userName, player2.userName],
+      },
+    ]);
+  });
+  it('records a game that only one player took part in', () => {
+    gameArea.handleCommand({ type: 'LeaveGame', gameID }, player2);
+    [0, 1, 2, 3].forEach(() => answer(player1, true));
+    expect(gameArea.history).toEqual([
+      { gameID, scores: { [player1.userName]: 4000 }, podium: [player1.userName] },
+    ]);
+  });
+  it('starts a new quiz when players join after the last one is over', () => {
+    gameArea.handleCommand({ type: 'LeaveGame', gameID }, player2);
+    [0, 1, 2, 3].forEach(() => answer(player1, true));
+    const nextGameID = gameArea.handleCommand({ type: 'JoinGame' }, player1).gameID;
+    gameArea.handleCommand({ type: 'JoinGame' }, player2);
+    expect(nextGameID).not.toEqual(gameID);
+    gameArea.handleCommand({ type: 'SetReady', gameID: nextGameID }, player1);
+    gameArea.handleCommand({ type: 'SetReady', gameID: nextGameID }, player2);
+    expect(gameArea.game?.state.status).toEqual('IN_PROGRESS');
+    expect(gameArea.game?.state.rounds).toEqual([]);
+    expect(gameArea.history.map(result => result.gameID)).toEqual([gameID]);
+  });
+});
@@ -0,0 +1,217 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import * as fs from 'fs';
+import Clock, { systemClock } from '../../lib/Clock';
+import Player from '../../lib/Player';
+import Random, { seededRandom } from '../../lib/Random';
+import {
+  BoundingBox,
+  GameResult,
+  InteractableID,
+  InteractableType,
+  TownEmitter,
+  TriviaMove,
+} from '../../types/CoveyTownSocket';
+import GameArea from './GameArea';
+import { GameRegistration } from './GameRegistry';
+import TriviaGame, {
+  DEFAULT_TIME_PER_QUESTION_MS,
+  isTriviaMove,
+  TriviaBankQuestion,
+  TRIVIA_MIN_PLAYERS,
+} from './TriviaGame';
+
+/** The number of questions asked in each game, unless the map object says otherwise */
+export const DEFAULT_QUESTIONS_PER_GAME = 10;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Reads a question bank from a JSON file, which lists categories of multiple-choice questions:
+ *
+ *     { "categories": [ { "name": "Our tools", "questions": [
+ *         { "question": "Where do we track bugs?", "choices": ["Email", "The issue tracker"],
+ *           "answer": "The issue tracker" } ] } ] }
+ *
+ * The answer to each question is the text of its correct choice.
+ *
+ * @throws Error if the file can not be read, or is not a question bank with at least one question
+ */
+function readQuestionBank(fileName: string): TriviaBankQuestion[] {
+  const bank: unknown = JSON.parse(fs.readFileSync(fileName, 'utf-8'));
+  const categories = (bank as Record<string, unknown> | null)?.categories;
+  if (!Array.isArray(categories)) {
+    throw new Error(`${fileName} does not list categories of questions`);
+  }
+  const questions = categories.flatMap(category => {
+    const { name, questions: categoryQuestions } = (category ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !Array.isArray(categoryQuestions)) {
+      throw new Error(`Each category in ${fileName} must have a name and a list of questions`);
+    }
+    return categoryQuestions.map(eachQuestion => {
+      const { question, choices, answer } = (eachQuestion ?? {}) as Record<string, unknown>;
+      if (
+        typeof question !== 'string' ||
+        !isStringArray(choices) ||
+        choices.length < 2 ||
+        typeof answer !== 'string' ||
+        !choices.includes(answer)
+      ) {
+        throw new Error(
+          `Each question in ${fileName} must have at least two choices, one of which is its answer`,
+        );
+      }
+      return { category: name, question, choices, answer: choices.indexOf(answer) };
+    });
+  });
+  if (questions.length === 0) {
+    throw new Error(`${fileName} has no questions`);
+  }
+  return questions;
+}
+
+/**
+ * A TriviaGameArea is a GameArea that hosts a TriviaGame, asking questions picked at random from a
+ * question bank. When a game ends, each player's score is the number of points that they scored, and
+ * the players on the podium are recorded as well.
+ * @see TriviaGame
+ * @see GameArea
+ */
+export default class TriviaGameArea extends GameArea<TriviaGame> {
+  private _questions: TriviaBankQuestion[];
+
+  private _questionsPerGame: number;
+
+  private _timePerQuestion: number;
+
+  private _random: Random;
+
+  /**
+   * Creates a new TriviaGameArea
+   *
+   * @param id unique ID for this area
+   * @param boundingBox the bounding box that defines this area
+   * @param townEmitter a broadcast emitter that can be used to emit updates to players
+   * @param mapObject the map object that this area was created from. It must have a `questionBank`
+   *  property naming the file to read the questions from (@see readQuestionBank), relative to the
+   *  directory the service runs in, as the map file is. It may also have a `questionsPerGame` property
+   *  (by default, DEFAULT_QUESTIONS_PER_GAME, or every question if the bank has fewer), a
+   *  `timePerQuestion` property, in seconds (by default, DEFAULT_TIME_PER_QUESTION_MS), and a numeric
+   *  `seed` property, which makes the questions picked repeatable.
+   * @param clock the clock that time controls and rounds are measured with (@see GameArea)
+   * @throws Error if the `questionBank` property is missing or its file can not be read, if
+   *  `questionsPerGame` is not a positive integer or is more than the number of questions in the bank,
+   *  if `timePerQuestion` is not a positive number, or if `seed` is not a number
+   */
+  public constructor(
+    id: InteractableID,
+    boundingBox: BoundingBox,
+    townEmitter: TownEmitter,
+    mapObject?: ITiledMapObject,
+    clock: Clock = systemClock,
+  ) {
+    super(id, boundingBox, townEmitter, mapObject, clock);
+    const property = (name: string) =>
+      mapObject?.properties?.find(prop => prop.name === name)?.value;
+    const questionBank = property('questionBank');
+    if (typeof questionBank !== 'string') {
+      throw new Error(`Malformed game area ${id}: questionBank must name a file of questions`);
+    }
+    try {
+      this._questions = readQuestionBank(questionBank);
+    } catch (e) {
+      throw new Error(`Malformed game area ${id}: ${(e as Error).message}`);
+    }
+    const questionsPerGame =
+      property('questionsPerGame') ?? Math.min(DEFAULT_QUESTIONS_PER_GAME, this._questions.length);
+    if (
+      typeof questionsPerGame !== 'number' ||
+      !Number.isInteger(questionsPerGame) ||
+      questionsPerGame < 1 ||
+      questionsPerGame > this._questions.length
+    ) {
+      throw new Error(
+        `Malformed game area ${id}: questionsPerGame must be a positive integer, no more than the number of questions`,
+      );
+    }
+    this._questionsPerGame = questionsPerGame;
+    const timePerQuestion = property('timePerQuestion');
+    if (
+      timePerQuestion !== undefined &&
+      (typeof timePerQuestion !== 'number' || !(timePerQuestion > 0))
+    ) {
+      throw new Error(
+        `Malformed game area ${id}: timePerQuestion must be a positive number of seconds`,
+      );
+    }
+    this._timePerQuestion =
+      timePerQuestion === undefined ? DEFAULT_TIME_PER_QUESTION_MS : timePerQuestion * 1000;
+    const seed = property('seed');
+    if (seed !== undefined && typeof seed !== 'number') {
+      throw new Error(`Malformed game area ${id}: seed must be a number`);
+    }
+    this._random = seed === undefined ? Math.random : seededRandom(seed);
+  }
+
+  public get minPlayers(): number {
+    return TRIVIA_MIN_PLAYERS;
+  }
+
+  protected getType(): InteractableType {
+    return 'TriviaArea';
+  }
+
+  /**
+   * Creates a game with questionsPerGame questions, picked at random from the question bank. Rounds
+   * that end because their time runs out may end the game, so when they do, the outcome is recorded
+   * in this._history and this._emitAreaChanged is called.
+   */
+  protected _createGame(): TriviaGame {
+    const questions = [...this._questions];
+    for (let i = questions.length - 1; i > 0; i--) {
+      const j = Math.floor(this._random() * (i + 1));
+      [questions[i], questions[j]] = [questions[j], questions[i]];
+    }
+    const game = new TriviaGame(questions.slice(0, this._questionsPerGame), this._timePerQuestion);
+    game.onRoundTimeout(() => {
+      this._handleGameOver();
+      this._emitAreaChanged();
+    });
+    return game;
+  }
+
+  protected _isValidMove(move: unknown): boolean {
+    return isTriviaMove(move);
+  }
+
+  /**
+   * Each player scores the number of points that they scored in the game (players who left the game
+   * before it ended have no points). Games are recorded even if only one player took part.
+   */
+  protected _gameResult(game: TriviaGame, participants: Player[]): GameResult {
+    const { scores, podium = [] } = game.state;
+    return {
+      gameID: game.id,
+      scores: Object.fromEntries(
+        participants.map(eachPlayer => [eachPlayer.userName, scores[eachPlayer.id] ?? 0]),
+      ),
+      podium: podium.flatMap(playerID =>
+        participants.filter(eachPlayer => eachPlayer.id === playerID).map(p => p.userName),
+      ),
+    };
+  }
+}
+
+/**
+ * Registers trivia with the GameRegistry: map objects with `type: Trivia` host a TriviaGameArea.
+ * Quizzes are scored in points rather than won or lost, so they are not rated.
+ */
+export const triviaRegistration: GameRegistration<TriviaGame, TriviaMove> = {
+  gameType: 'Trivia',
+  interactableType: 'TriviaArea',
+  gameClass: TriviaGame,
+  areaClass: TriviaGameArea,
+  isValidMove: isTriviaMove,
+  rated: false,
+};
@@ -23,7 +23,12 @@ export type TownJoinResponse = {
   interactables: TypedInteractable[];
 };
 
-export type InteractableType = 'ConversationArea' | 'ViewingArea' | 'TicTacToeArea';
+/**
+ * Interactable type of an area that hosts a game, e.g. 'TicTacToeArea'.
+ * Each game registers its own interactable type on the server, so this type is left open.
+ */
+export type GameAreaType = `${string}Area`;
+export type InteractableType = 'ConversationArea' | 'ViewingArea' | GameAreaType;
 export interface Interactable {
   type: InteractableType;
   id: InteractableID;
@@ -79,12 +84,46 @@ export interface ViewingArea extends Interactable {
   elapsedTimeSec: number;
 }
 
-export type GameStatus = 'IN_PROGRESS' | 'WAITING_TO_START' | 'OVER';
+/**
+ * WAITING_FOR_READY is the lobby of a game whose seats are all taken: it starts once every player has
+ * confirmed that they are ready (@see SetReadyCommand)
+ */
+export type GameStatus = 'IN_PROGRESS' | 'WAITING_TO_START' | 'WAITING_FOR_READY' | 'OVER';
 /**
  * Base type for the state of a game
  */
 export interface GameState {
   status: GameStatus;
+  /** The players who have confirmed that they are ready, while the game is WAITING_FOR_READY */
+  ready?: PlayerID[];
+  /** Present only in games that are played with time controls */
+  clock?: GameClock;
+}
+
+/**
+ * Time controls for a game. A game can use either kind of limit, or both.
+ * All times are in milliseconds.
+ */
+export interface TimeControl {
+  /** The total time that each player has for all of their moves */
+  perPlayer?: number;
+  /** The time that a player has for each of their moves */
+  perMove?: number;
+}
+
+/**
+ * The state of the clocks of a game that is played with time controls
+ */
+export interface GameClock extends TimeControl {
+  /**
+   * The time left on each player's clock (per-player limits only). For the running player, this is
+   * the time that they had when their turn began.
+   */
+  remaining?: { [playerID: string]: number };
+  /** The player whose turn it is, and whose time is running */
+  running?: PlayerID;
+  /** The server time (in milliseconds since the epoch) at which the running player runs out of time */
+  deadline?: number;
 }
 
 /**
@@ -92,7 +131,14 @@ export interface GameState {
  */
 export interface WinnableGameState extends GameState {
   winner?: PlayerID;
+  /** In team games, the team that won, if any */
+  winningTeam?: TeamIndex;
 }
+
+/**
+ * Identifies a team in a team game by its position in the game's list of teams, starting at 0
+ */
+export type TeamIndex = number;
 /**
  * Base type for a move in a game. Implementers should also extend MoveType
  * @see MoveType
@@ -126,6 +172,539 @@ export interface TicTacToeGameState extends WinnableGameState {
   o?: PlayerID;
 }
 
+/**
+ * Type for a move in ConnectFour
+ * Players only choose a column: the piece drops into the lowest empty row of that column.
+ * The column is 0-indexed, so the leftmost column is 0 and the rightmost column is 6
+ */
+export interface ConnectFourMove {
+  gamePiece: ConnectFourColor;
+  col: ConnectFourColIndex;
+}
+
+/**
+ * Type for a piece that has been dropped into a ConnectFour board
+ * The row is 0-indexed, so the top row is 0 and the bottom row is 5
+ */
+export interface ConnectFourPlacedMove extends ConnectFourMove {
+  row: ConnectFourRowIndex;
+}
+
+export type ConnectFourColor = 'Red' | 'Yellow';
+export type ConnectFourColIndex = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+export type ConnectFourRowIndex = 0 | 1 | 2 | 3 | 4 | 5;
+
+/**
+ * Type for the state of a ConnectFour game
+ * The state of the game is represented as a list of placed pieces, and the playerIDs of the players (red and yellow)
+ * The first player to join the game is red, the second is yellow. Red moves first
+ */
+export interface ConnectFourGameState extends WinnableGameState {
+  moves: ReadonlyArray<ConnectFourPlacedMove>;
+  red?: PlayerID;
+  yellow?: PlayerID;
+}
+
+export type CheckersColor = 'Black' | 'Red';
+export type CheckersGridPosition = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+/**
+ * A square on a Checkers board. Row 0 is the top row, where Red's pieces start, and
+ * only the dark squares (where row + col is odd) are used
+ */
+export interface CheckersSquare {
+  row: CheckersGridPosition;
+  col: CheckersGridPosition;
+}
+
+/**
+ * Type for a move in Checkers
+ * The path starts at the square of the piece to move, and lists every square that the piece lands on:
+ * either a single diagonal step, or a sequence of one or more jumps over the opponent's pieces
+ */
+export interface CheckersMove {
+  gamePiece: CheckersColor;
+  path: CheckersSquare[];
+}
+
+/**
+ * A piece on a Checkers board
+ */
+export interface CheckersPiece extends CheckersSquare {
+  color: CheckersColor;
+  king: boolean;
+}
+
+/**
+ * Type for the state of a Checkers game
+ * The state of the game is represented as the list of moves made so far, the pieces left on the board,
+ * and the playerIDs of the players (black and red)
+ * The first player to join the game is black, the second is red. Black moves first
+ */
+export interface CheckersGameState extends WinnableGameState {
+  moves: ReadonlyArray<CheckersMove>;
+  pieces: ReadonlyArray<CheckersPiece>;
+  black?: PlayerID;
+  red?: PlayerID;
+}
+
+export type ChessColor = 'White' | 'Black';
+export type ChessFile = 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h';
+export type ChessRank = '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8';
+/**
+ * A square on a chess board, in algebraic notation (e.g. 'e4')
+ */
+export type ChessSquare = `${ChessFile}${ChessRank}`;
+export type ChessPromotionPiece = 'Queen' | 'Rook' | 'Bishop' | 'Knight';
+
+/**
+ * Type for a move in Chess
+ * Castling is a move of the king two squares towards the rook (e.g. e1 to g1).
+ * A pawn that moves to the last rank must say which piece it is promoted to.
+ */
+export interface ChessMove {
+  gamePiece: ChessColor;
+  from: ChessSquare;
+  to: ChessSquare;
+  promotion?: ChessPromotionPiece;
+}
+
+/**
+ * The reason that a game of chess ended, if it did not end because a player left or ran out of time
+ */
+export type ChessEndReason =
+  | 'checkmate'
+  | 'stalemate'
+  | 'threefold repetition'
+  | 'fifty-move rule'
+  | 'insufficient material';
+
+/**
+ * Type for the state of a Chess game
+ * The state of the game is represented as the list of moves made so far, the position in
+ * Forsyth-Edwards Notation (FEN), and the playerIDs of the players (white and black)
+ * The first player to join the game is white, the second is black.
+ */
+export interface ChessGameState extends WinnableGameState {
+  moves: ReadonlyArray<ChessMove>;
+  fen: string;
+  /** Whether the player to move is in check */
+  check: boolean;
+  endReason?: ChessEndReason;
+  white?: PlayerID;
+  black?: PlayerID;
+}
+
+export type RockPaperScissorsChoice = 'Rock' | 'Paper' | 'Scissors';
+
+/**
+ * Type for a move in Rock-Paper-Scissors: a player's choice for the round being played
+ */
+export interface RockPaperScissorsMove {
+  choice: RockPaperScissorsChoice;
+}
+
+/**
+ * A round of Rock-Paper-Scissors that has been played
+ */
+export interface RockPaperScissorsRound {
+  /** The choice of each player */
+  choices: { [playerID: string]: RockPaperScissorsChoice };
+  /** The player who won the round, or undefined if it was a tie */
+  winner?: PlayerID;
+}
+
+/**
+ * Type for the state of a Rock-Paper-Scissors game
+ * Both players choose at the same time in each round. A player's choice is hidden from everyone else
+ * until both players have chosen; then both choices are revealed together, and the round is added to
+ * the list of rounds played. The first player to win a majority of bestOf rounds wins the game, and
+ * tied rounds do not count towards it.
+ * The first player to join the game is player1, the second is player2.
+ */
+export interface RockPaperScissorsGameState extends WinnableGameState {
+  bestOf: number;
+  rounds: ReadonlyArray<RockPaperScissorsRound>;
+  /** The players who have chosen in the round being played */
+  chosen: ReadonlyArray<PlayerID>;
+  /**
+   * The choices made in the round being played. Each player only sees their own choice, and spectators
+   * see none.
+   */
+  choices: { [playerID: string]: RockPaperScissorsChoice };
+  player1?: PlayerID;
+  player2?: PlayerID;
+}
+
+export type BattleshipGridPosition = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+export type BattleshipShipType = 'Carrier' | 'Battleship' | 'Cruiser' | 'Submarine' | 'Destroyer';
+
+/**
+ * A square on a Battleship board. Row 0 is the top row, and column 0 is the leftmost column
+ */
+export interface BattleshipSquare {
+  row: BattleshipGridPosition;
+  col: BattleshipGridPosition;
+}
+
+/**
+ * A ship on a Battleship board. The ship covers the squares going right (if it is horizontal) or down
+ * (if it is vertical) from its square, as many as the length of its type
+ */
+export interface BattleshipShip extends BattleshipSquare {
+  ship: BattleshipShipType;
+  orientation: 'Horizontal' | 'Vertical';
+}
+
+/**
+ * Type for a placement move in Battleship: the positions of every ship in the player's fleet
+ */
+export interface BattleshipPlacementMove {
+  ships: BattleshipShip[];
+}
+
+/**
+ * Type for a firing move in Battleship: the square of the opponent's board to fire at
+ */
+export interface BattleshipShotMove {
+  target: BattleshipSquare;
+}
+
+export type BattleshipMove = BattleshipPlacementMove | BattleshipShotMove;
+
+/**
+ * A shot that has been fired in a Battleship game, and what it hit
+ */
+export interface BattleshipShot {
+  player: PlayerID;
+  target: BattleshipSquare;
+  result: 'Hit' | 'Miss' | 'Sunk';
+  /** The ship that the shot sank, if it sank one */
+  sunk?: BattleshipShipType;
+}
+
+/**
+ * Type for the state of a Battleship game
+ * While the game is in its PLACEMENT phase, both players place their fleets at the same time. Once both
+ * have, the game moves on to its FIRING phase, in which the players take turns to fire at each other's
+ * boards, starting with player1, until one player has sunk every ship of the other.
+ * The first player to join the game is player1, the second is player2.
+ */
+export interface BattleshipGameState extends WinnableGameState {
+  phase: 'PLACEMENT' | 'FIRING';
+  /**
+   * The fleet of each player who has placed their ships. Until the game is over, each player only sees
+   * their own fleet, and spectators see none.
+   */
+  fleets: { [playerID: string]: ReadonlyArray<BattleshipShip> };
+  /** The players who have placed their ships */
+  placed: ReadonlyArray<PlayerID>;
+  /** Every shot that has been fired, in order */
+  shots: ReadonlyArray<BattleshipShot>;
+  player1?: PlayerID;
+  player2?: PlayerID;
+}
+
+/**
+ * Type for a move in Hangman: a guess of a letter, from a to z
+ */
+export interface HangmanMove {
+  letter: string;
+}
+
+/**
+ * A letter that has been guessed in a Hangman game
+ */
+export interface HangmanGuess {
+  player: PlayerID;
+  letter: string;
+  /** Whether the letter is in the word */
+  correct: boolean;
+}
+
+/**
+ * Type for the state of a Hangman game
+ * Any number of guessers take turns to guess a letter of a hidden word, in the order in which they
+ * joined. The word is never part of the state while the game is in progress: clients only see it
+ * masked, with an underscore in place of each letter that has not been guessed yet.
+ * The guesser who reveals the last letter of the word wins. If there are maxWrongGuesses wrong
+ * guesses first, the game ends without a winner.
+ */
+export interface HangmanGameState extends WinnableGameState {
+  masked: string;
+  guesses: ReadonlyArray<HangmanGuess>;
+  wrongGuesses: number;
+  maxWrongGuesses: number;
+  /** The word, once the game is over */
+  word?: string;
+}
+
+/**
+ * A trivia question as it is shown to players, without its answer
+ */
+export interface TriviaQuestion {
+  category: string;
+  question: string;
+  choices: string[];
+}
+
+/**
+ * Type for a move in a trivia game: an answer to the current question, as the index of the chosen choice
+ */
+export interface TriviaMove {
+  choice: number;
+}
+
+/**
+ * An answer given in a round of a trivia game that has ended, and the points that it scored
+ */
+export interface TriviaAnswer {
+  choice: number;
+  points: number;
+}
+
+/**
+ * A round of a trivia game that has ended: its question, the index of the correct choice, and the
+ * answer of each player who answered
+ */
+export interface TriviaRound {
+  question: TriviaQuestion;
+  answer: number;
+  answers: { [playerID: string]: TriviaAnswer };
+}
+
+/**
+ * Type for the state of a trivia game
+ * Any number of players answer the same questions, one round at a time. Each round ends once every
+ * player has answered, or at its deadline. A correct answer scores more points the sooner it is given;
+ * a wrong answer scores none. Until a round ends, each player sees only their own choice, and nobody
+ * sees the answer. Once every question has been asked, the players with the most points make the podium.
+ */
+export interface TriviaGameState extends WinnableGameState {
+  /** The number of questions in the game */
+  questionCount: number;
+  rounds: ReadonlyArray<TriviaRound>;
+  /** The question of the current round, while the game is in progress */
+  question?: TriviaQuestion;
+  /** The server time (in milliseconds since the epoch) at which the current round ends */
+  deadline?: number;
+  /** The players who have answered the current question */
+  answered: PlayerID[];
+  /** The choices of the players who have answered the current question */
+  choices: { [playerID: string]: number };
+  /** The total points of each player */
+  scores: { [playerID: string]: number };
+  /** Once the game is over, the (up to three) players with the most points, best first */
+  podium?: PlayerID[];
+}
+
+export type ReversiColor = 'Black' | 'White';
+export type ReversiGridPosition = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+/**
+ * A square on a Reversi board. Row 0 is the top row, and column 0 is the leftmost column.
+ */
+export interface ReversiSquare {
+  row: ReversiGridPosition;
+  col: ReversiGridPosition;
+}
+
+/**
+ * Type for a move in Reversi: the square that a player places a disc of their color on
+ */
+export interface ReversiMove extends ReversiSquare {
+  gamePiece: ReversiColor;
+}
+
+/**
+ * A disc on a Reversi board
+ */
+export interface ReversiDisc extends ReversiSquare {
+  color: ReversiColor;
+}
+
+/**
+ * Type for the state of a Reversi (Othello) game
+ * The state of the game is represented as the list of moves made so far, the discs on the board,
+ * and the playerIDs of the players (black and white)
+ * The first player to join the game is black, the second is white. Black moves first. A player who has
+ * no legal move passes, and the game ends once neither player has a legal move; the player with more
+ * discs on the board wins, and if both have the same number the game is a draw.
+ */
+export interface ReversiGameState extends WinnableGameState {
+  moves: ReadonlyArray<ReversiMove>;
+  discs: ReadonlyArray<ReversiDisc>;
+  /** The color of the player to move */
+  turn: ReversiColor;
+  /** The squares that the player to move can place a disc on (none once the game is over) */
+  legalMoves: ReadonlyArray<ReversiSquare>;
+  /** The color of the player who had to pass after the last move, if one did */
+  passed?: ReversiColor;
+  black?: PlayerID;
+  white?: PlayerID;
+}
+
+export type GoColor = 'Black' | 'White';
+
+/**
+ * A point on a Go board, where the lines cross. Row 0 is the top row, and column 0 is the leftmost column.
+ */
+export interface GoPoint {
+  row: number;
+  col: number;
+}
+
+/**
+ * A stone on a Go board
+ */
+export interface GoStone extends GoPoint {
+  color: GoColor;
+}
+
+/**
+ * Type for a move in Go that places a stone on a point
+ */
+export interface GoPlaceMove extends GoPoint {
+  gamePiece: GoColor;
+}
+
+/**
+ * Type for a move in Go that passes
+ */
+export interface GoPassMove {
+  gamePiece: GoColor;
+  pass: true;
+}
+
+/**
+ * Type for a move in the scoring phase of a Go game that marks the group of stones on a point as dead,
+ * or as alive again if it was marked as dead
+ */
+export interface GoMarkDeadMove {
+  dead: GoPoint;
+}
+
+/**
+ * Type for a move in the scoring phase of a Go game that accepts the stones that are marked as dead
+ */
+export interface GoAcceptMove {
+  accept: true;
+}
+
+export type GoMove = GoPlaceMove | GoPassMove | GoMarkDeadMove | GoAcceptMove;
+
+/**
+ * The area score of each player: their stones on the board, and the empty points that only their stones
+ * surround, once dead stones have been taken off the board. White's score includes komi.
+ */
+export interface GoScore {
+  black: number;
+  white: number;
+}
+
+/**
+ * Type for the state of a Go game
+ * The first player to join the game is black, the second is white. Black moves first.
+ * In the PLAY phase, players take turns to place a stone or pass. Once both players pass in a row, the
+ * game moves on to its SCORING phase, in which either player can mark groups of stones as dead. The game
+ * ends once both players accept the same marking: the player with the higher area score wins, and if the
+ * scores are the same the game is a draw.
+ */
+export interface GoGameState extends WinnableGameState {
+  size: number;
+  komi: number;
+  phase: 'PLAY' | 'SCORING';
+  moves: ReadonlyArray<GoPlaceMove | GoPassMove>;
+  turn: GoColor;
+  stones: ReadonlyArray<GoStone>;
+  /** The number of stones that each player has captured */
+  captures: { black: number; white: number };
+  /** The point that can not be played on by the player to move, because of the ko rule */
+  ko?: GoPoint;
+  /** In the SCORING phase, the points of the stones that are marked as dead */
+  dead: ReadonlyArray<GoPoint>;
+  /** In the SCORING phase, the players who have accepted the stones that are marked as dead */
+  accepted: PlayerID[];
+  /** The score, once the game has ended in the SCORING phase */
+  score?: GoScore;
+  black?: PlayerID;
+  white?: PlayerID;
+}
+
+export type DotsAndBoxesOrientation = 'Horizontal' | 'Vertical';
+
+/**
+ * Type for a move in Dots and Boxes: claiming the line from the dot at (row, col) to the next dot to its
+ * right (Horizontal) or below it (Vertical). Row 0 is the top row of dots, and column 0 is the leftmost.
+ */
+export interface DotsAndBoxesMove {
+  orientation: DotsAndBoxesOrientation;
+  row: number;
+  col: number;
+}
+
+export interface DotsAndBoxesLine extends DotsAndBoxesMove {
+  player: PlayerID;
+}
+
+/**
+ * A box that a player has completed, by claiming the last of its four lines. The box at (row, col) has
+ * the dot at (row, col) as its top left corner.
+ */
+export interface DotsAndBoxesBox {
+  row: number;
+  col: number;
+  player: PlayerID;
+}
+
+/**
+ * Type for the state of a Dots and Boxes game
+ * The board has `rows` by `cols` boxes, and so one more row and column of dots. Players take turns to
+ * claim a line, in the order that they joined; a player who completes a box moves again. Once every
+ * box is completed, the player with the most boxes wins, and if more than one player has the most,
+ * winner is undefined. Games played two against two are won by the team with the most boxes
+ * (winningTeam) instead, and the teams take turns.
+ */
+export interface DotsAndBoxesGameState extends WinnableGameState {
+  rows: number;
+  cols: number;
+  lines: ReadonlyArray<DotsAndBoxesLine>;
+  boxes: ReadonlyArray<DotsAndBoxesBox>;
+  /** The number of boxes that each player in the game has completed */
+  scores: Record<PlayerID, number>;
+  /** The player whose turn it is, while the game is in progress */
+  turn?: PlayerID;
+}
+
+export type MancalaSide = 'South' | 'North';
+
+/**
+ * Type for a move in Mancala: sowing the seeds from one of the player's own pits. Each player's pits are
+ * numbered from 0 to 5 in the direction that seeds are sown, from the pit on their left to the pit next
+ * to their store.
+ */
+export interface MancalaMove {
+  gamePiece: MancalaSide;
+  pit: number;
+}
+
+/**
+ * Type for the state of a Mancala game, played by the rules of Kalah
+ * The first player to join the game sits on the south side of the board, the second on the north side.
+ * South moves first. Seeds are sown counter-clockwise, into each of the player's own pits, their own
+ * store and the opponent's pits. A player whose last seed lands in their own store moves again.
+ */
+export interface MancalaGameState extends WinnableGameState {
+  moves: ReadonlyArray<MancalaMove>;
+  /** The number of seeds in each of each player's pits, numbered as in MancalaMove */
+  pits: { south: number[]; north: number[] };
+  /** The number of seeds in each player's store */
+  stores: { south: number; north: number };
+  turn: MancalaSide;
+  south?: PlayerID;
+  north?: PlayerID;
+}
+
 export type InteractableID = string;
 export type GameInstanceID = string;
 
@@ -135,21 +714,80 @@ export type GameInstanceID = string;
 export interface GameResult {
   gameID: GameInstanceID;
   scores: { [playerName: string]: number };
+  /** In team games, the result of each team, in the order of the game's teams */
+  teams?: TeamResult[];
+  /** In games scored by points, the names of the (up to three) players with the most points, best first */
+  podium?: string[];
+}
+
+/**
+ * The result of one team in a team game
+ */
+export interface TeamResult {
+  team: TeamIndex;
+  /** The names of the players on the team */
+  players: string[];
+  score: number;
 }
 
 /**
  * Base type for an *instance* of a game. An instance of a game
  * consists of the present state of the game (which can change over time),
- * the players in the game, and the result of the game
+ * the players in the game, the spectators watching it, and the result of the game
  * @see GameState
  */
 export interface GameInstance<T extends GameState> {
   state: T;
   id: GameInstanceID;
   players: PlayerID[];
+  spectators: PlayerID[];
+  /** In team games, the players on each team */
+  teams?: PlayerID[][];
   result?: GameResult;
 }
 
+/**
+ * A player's seat in a game that has been recorded for replay
+ */
+export interface ReplaySeat {
+  /** The name of the seat in the game, e.g. 'X' or 'Red' */
+  seat: string;
+  playerID: PlayerID;
+  userName: string;
+}
+
+/**
+ * A move in a game that has been recorded for replay
+ */
+export interface ReplayMove<MoveType = unknown> {
+  playerID: PlayerID;
+  move: MoveType;
+  /** The server time (in milliseconds since the epoch) at which the move was made */
+  timestamp: number;
+}
+
+/**
+ * The record of a finished game: everything needed to step through it move by move
+ */
+export interface GameReplay<MoveType = unknown> {
+  gameID: GameInstanceID;
+  /**
+   * The type of the area that the game was played in (e.g. 'TicTacToeArea'), which determines the
+   * rules of the game. This is a plain string, rather than an InteractableType, so that replays can
+   * be described in the REST API.
+   */
+  type: string;
+  /** The players who were seated when the game started */
+  seats: ReplaySeat[];
+  /** Every move of the game, in the order in which they were made */
+  moves: ReplayMove<MoveType>[];
+  /** The server time (in milliseconds since the epoch) at which the game started */
+  startedAt: number;
+  /** The server time (in milliseconds since the epoch) at which the game ended */
+  endedAt: number;
+  winner?: PlayerID;
+}
+
 /**
  * Base type for an area that can host a game
  * @see GameInstance
@@ -157,6 +795,47 @@ export interface GameInstance<T extends GameState> {
 export interface GameArea<T extends GameState> extends Interactable {
   game: GameInstance<T> | undefined;
   history: GameResult[];
+  /** The most recent request to take back a move in the game in progress, if any */
+  undoRequest?: UndoRequest;
+}
+
+/**
+ * PENDING until the opponent answers, or the request expires. A request that is still pending
+ * when a move is made is DECLINED.
+ */
+export type UndoRequestStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED';
+
+/**
+ * A request by a player to take back the last move of a game
+ */
+export interface UndoRequest {
+  gameID: GameInstanceID;
+  requester: PlayerID;
+  status: UndoRequestStatus;
+  /** The time at which a pending request expires, in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * The running score of a best-of-N series of games between the same two players.
+ * The series is over once a player has won more than half of the N games, or all N games
+ * have been played; the player with the most wins is then the winner (or there is no winner if tied)
+ */
+export interface GameSeries {
+  bestOf: number;
+  gamesPlayed: number;
+  scores: { [playerID: string]: number };
+  isOver: boolean;
+  winner?: PlayerID;
+}
+
+/**
+ * Type for an area that hosts TicTacToe games, which supports rematches and (optionally) best-of-N series
+ */
+export interface TicTacToeGameArea extends GameArea<TicTacToeGameState> {
+  /** The players of the finished game who have asked for a rematch */
+  rematchRequests: PlayerID[];
+  series?: GameSeries;
 }
 
 export type CommandID = string;
@@ -185,18 +864,115 @@ export type InteractableCommand =
   | ViewingAreaUpdateCommand
   | JoinGameCommand
   | GameMoveCommand<TicTacToeMove>
-  | LeaveGameCommand;
+  | GameMoveCommand<ConnectFourMove>
+  | GameMoveCommand<CheckersMove>
+  | GameMoveCommand<ChessMove>
+  | GameMoveCommand<RockPaperScissorsMove>
+  | GameMoveCommand<BattleshipPlacementMove>
+  | GameMoveCommand<BattleshipShotMove>
+  | GameMoveCommand<HangmanMove>
+  | GameMoveCommand<TriviaMove>
+  | GameMoveCommand<ReversiMove>
+  | GameMoveCommand<GoMove>
+  | GameMoveCommand<DotsAndBoxesMove>
+  | GameMoveCommand<MancalaMove>
+  | LeaveGameCommand
+  | SpectateCommand
+  | StopSpectatingCommand
+  | AddBotCommand
+  | RematchCommand
+  | GetReplayCommand
+  | SetReadyCommand
+  | RequestUndoCommand
+  | RespondUndoCommand
+  | ChallengePlayerCommand
+  | AcceptChallengeCommand
+  | DeclineChallengeCommand;
 export interface ViewingAreaUpdateCommand {
   type: 'ViewingAreaUpdate';
   update: ViewingArea;
 }
 export interface JoinGameCommand {
   type: 'JoinGame';
+  /** In team games, the team that the player would like to join */
+  team?: TeamIndex;
 }
 export interface LeaveGameCommand {
   type: 'LeaveGame';
   gameID: GameInstanceID;
 }
+export interface SpectateCommand {
+  type: 'Spectate';
+  gameID: GameInstanceID;
+}
+export interface StopSpectatingCommand {
+  type: 'StopSpectating';
+  gameID: GameInstanceID;
+}
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+/**
+ * Seats a computer player in a game that has exactly one (human) player
+ */
+export interface AddBotCommand {
+  type: 'AddBot';
+  gameID: GameInstanceID;
+  difficulty: BotDifficulty;
+}
+/**
+ * Asks for a rematch of a finished game. Once both players have asked, a new game starts
+ */
+export interface RematchCommand {
+  type: 'Rematch';
+  gameID: GameInstanceID;
+}
+/**
+ * Asks for the replay of a game that has finished in this area
+ */
+export interface GetReplayCommand {
+  type: 'GetReplay';
+  gameID: GameInstanceID;
+}
+/**
+ * Challenges another player in the town to a game in this area. The invitation is delivered only to
+ * that player, and expires if they do not answer it in time
+ */
+export interface ChallengePlayerCommand {
+  type: 'ChallengePlayer';
+  opponentID: PlayerID;
+}
+/**
+ * Accepts a challenge, starting a game between the two players in the area it was made for
+ */
+export interface AcceptChallengeCommand {
+  type: 'AcceptChallenge';
+  challengeID: ChallengeID;
+}
+export interface DeclineChallengeCommand {
+  type: 'DeclineChallenge';
+  challengeID: ChallengeID;
+}
+/**
+ * Confirms that the player is ready to start a game that is WAITING_FOR_READY
+ */
+export interface SetReadyCommand {
+  type: 'SetReady';
+  gameID: GameInstanceID;
+}
+/**
+ * Asks the opponent for permission to take back the last move of the game
+ */
+export interface RequestUndoCommand {
+  type: 'RequestUndo';
+  gameID: GameInstanceID;
+}
+/**
+ * Answers the opponent's request to take back the last move of the game
+ */
+export interface RespondUndoCommand {
+  type: 'RespondUndo';
+  gameID: GameInstanceID;
+  accept: boolean;
+}
 export interface GameMoveCommand<MoveType> {
   type: 'GameMove';
   gameID: GameInstanceID;
@@ -207,10 +983,32 @@ export type InteractableCommandReturnType<CommandType extends InteractableComman
     ? { gameID: string }
     : CommandType extends ViewingAreaUpdateCommand
     ? undefined
-    : CommandType extends GameMoveCommand<TicTacToeMove>
+    : CommandType extends GameMoveCommand<unknown>
     ? undefined
     : CommandType extends LeaveGameCommand
     ? undefined
+    : CommandType extends SpectateCommand
+    ? undefined
+    : CommandType extends StopSpectatingCommand
+    ? undefined
+    : CommandType extends AddBotCommand
+    ? undefined
+    : CommandType extends RematchCommand
+    ? undefined
+    : CommandType extends GetReplayCommand
+    ? GameReplay
+    : CommandType extends SetReadyCommand
+    ? undefined
+    : CommandType extends RequestUndoCommand
+    ? undefined
+    : CommandType extends RespondUndoCommand
+    ? undefined
+    : CommandType extends ChallengePlayerCommand
+    ? GameChallenge
+    : CommandType extends AcceptChallengeCommand
+    ? { gameID: string }
+    : CommandType extends DeclineChallengeCommand
+    ? undefined
     : never;
 
 export type InteractableCommandResponse<MessageType> = {
@@ -220,6 +1018,41 @@ export type InteractableCommandResponse<MessageType> = {
   payload?: InteractableCommandResponseMap[MessageType];
 };
 
+/**
+ * Asks to be paired with another player for a game, at any free area in the town that hosts that game
+ */
+export interface MatchmakingRequest {
+  /** The kind of game to play, as in the `type` property of its map objects, e.g. 'TicTacToe' */
+  gameType: string;
+}
+
+/**
+ * Tells a player who was waiting in the matchmaking queue where their game is
+ */
+export interface MatchAssignment {
+  gameType: string;
+  /** The game area that the game is being played in */
+  interactableID: InteractableID;
+  gameID: GameInstanceID;
+  /** The players who were paired, in the order in which they joined the game */
+  players: PlayerID[];
+}
+
+export type ChallengeID = string;
+
+/**
+ * An invitation from one player to another to play a game in a particular game area
+ */
+export interface GameChallenge {
+  id: ChallengeID;
+  /** The game area that the game will be played in */
+  interactableID: InteractableID;
+  challenger: PlayerID;
+  opponent: PlayerID;
+  /** The time at which the invitation expires, in milliseconds since the epoch */
+  expiresAt: number;
+}
+
 export interface ServerToClientEvents {
   playerMoved: (movedPlayer: Player) => void;
   playerDisconnect: (disconnectedPlayer: Player) => void;
@@ -230,6 +1063,9 @@ export interface ServerToClientEvents {
   chatMessage: (message: ChatMessage) => void;
   interactableUpdate: (interactable: Interactable) => void;
   commandResponse: (response: InteractableCommandResponse) => void;
+  matchFound: (match: MatchAssignment) => void;
+  matchmakingError: (error: string) => void;
+  challengeReceived: (challenge: GameChallenge) => void;
 }
 
 export interface ClientToServerEvents {
@@ -237,4 +1073,6 @@ export interface ClientToServerEvents {
   playerMovement: (movementData: PlayerLocation) => void;
   interactableUpdate: (update: Interactable) => void;
   interactableCommand: (command: InteractableCommand & InteractableCommandBase) => void;
+  joinMatchmaking: (request: MatchmakingRequest) => void;
+  leaveMatchmaking: () => void;
 }